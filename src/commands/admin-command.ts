@@ -0,0 +1,669 @@
+import TelegramBot from "node-telegram-bot-api";
+import { AuditLogService } from "../core/audit-log.service";
+import { BotCommand } from "../core/command";
+import {
+  ExtendedSession,
+  SessionService,
+  getSessionMetrics,
+} from "../core/session.service";
+import {
+  ADMIN_SESSIONS_PAGE_SIZE,
+  BROADCAST_DELAY_MS,
+  BROADCAST_MAX_LENGTH,
+  BROADCAST_PROGRESS_INTERVAL,
+} from "../utils/constants";
+import { escapeMarkdown, formatWaitTime } from "../utils/format";
+import { getModuleLogger } from "../utils/logger";
+import { parseUTCDateTime } from "../utils/recurrence";
+import { NotificationCommand } from "./notification-command";
+
+// Create module logger
+const logger = getModuleLogger("admin-command");
+
+// Usage of the /admin subcommands
+const ADMIN_USAGE =
+  "*Admin Commands*\n\n" +
+  "`/admin stats` - Live session metrics\n" +
+  "`/admin sessions [page]` - List logged-in chats\n" +
+  "`/admin find <chat ID, email or organization>` - Search sessions\n" +
+  "`/admin logout <chat ID>` - Log a chat out\n" +
+  "`/admin broadcast <message>` - Announce to all logged-in chats\n" +
+  "`/admin audit verify|export [from] [to]` - Check or download the audit log (dates as YYYY-MM-DD)";
+
+/**
+ * Outcome of delivering an announcement to one chat
+ */
+type BroadcastOutcome = "delivered" | "blocked" | "failed";
+
+/**
+ * A logged-in chat and its session
+ */
+interface ActiveSession {
+  chatId: number;
+  session: ExtendedSession;
+}
+
+// Announcements waiting for confirmation, by admin chat ID
+const pendingBroadcasts = new Map<number, string>();
+
+// Only one broadcast is sent at a time to stay within Telegram's limits
+let broadcastRunning = false;
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Format a session as a single line of the session list
+ */
+function formatSessionLine({ chatId, session }: ActiveSession): string {
+  const idle = formatWaitTime(Date.now() - session.lastActivity.getTime());
+  const flow = session.state?.currentAction
+    ? ` · in ${session.state.currentAction}`
+    : "";
+  return (
+    `\`${chatId}\` · ${escapeMarkdown(session.email || "unknown email")}\n` +
+    `   active ${idle} ago${flow}`
+  );
+}
+
+/**
+ * Admin command implementation
+ * Lets operators listed in ADMIN_TELEGRAM_IDS inspect sessions, log chats
+ * out and send announcements to every logged-in chat.
+ */
+export class AdminCommand implements BotCommand {
+  name = "admin";
+  description = "Operator tools (admins only)";
+  requiresAdmin = true;
+
+  /**
+   * Execute admin command
+   */
+  async execute(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
+    const chatId = msg.chat.id;
+    const match = msg.text?.match(
+      /^\/admin(?:@\w+)?(?:\s+(\S+))?\s*([\s\S]*)$/i
+    );
+    const subcommand = (match?.[1] || "").toLowerCase();
+    const args = (match?.[2] || "").trim();
+
+    switch (subcommand) {
+      case "stats":
+        await this.showStats(bot, chatId);
+        break;
+      case "sessions":
+        await this.showSessions(
+          bot,
+          chatId,
+          Math.max(1, parseInt(args, 10) || 1)
+        );
+        break;
+      case "find":
+        await this.findSessions(bot, chatId, args);
+        break;
+      case "logout":
+        await this.confirmLogout(bot, chatId, args);
+        break;
+      case "broadcast":
+        await this.confirmBroadcast(bot, chatId, args);
+        break;
+      case "audit":
+        await this.handleAudit(bot, chatId, args);
+        break;
+      default:
+        await bot.sendMessage(chatId, ADMIN_USAGE, {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: [
+              [
+                { text: "📊 Stats", callback_data: "admin:stats" },
+                { text: "👥 Sessions", callback_data: "admin:sessions:1" },
+              ],
+            ],
+          },
+        });
+    }
+  }
+
+  /**
+   * Handle callback queries
+   */
+  async handleCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    const chatId = query.message.chat.id;
+    const messageId = query.message.message_id;
+    const [, action, value] = query.data.split(":");
+
+    // Answer callback query to remove loading indicator
+    bot.answerCallbackQuery(query.id);
+
+    switch (action) {
+      case "stats":
+        await this.showStats(bot, chatId);
+        break;
+      case "sessions":
+        await this.showSessions(
+          bot,
+          chatId,
+          parseInt(value, 10) || 1,
+          messageId
+        );
+        break;
+      case "logout":
+        await this.forceLogout(bot, chatId, messageId, parseInt(value, 10));
+        break;
+      case "broadcast":
+        if (value === "confirm") {
+          await this.startBroadcast(bot, chatId, messageId);
+        } else {
+          pendingBroadcasts.delete(chatId);
+          await bot.editMessageText("❌ Announcement cancelled.", {
+            chat_id: chatId,
+            message_id: messageId,
+          });
+        }
+        break;
+      case "cancel":
+        await bot.editMessageText("❌ Cancelled.", {
+          chat_id: chatId,
+          message_id: messageId,
+        });
+        break;
+    }
+  }
+
+  /**
+   * Show live session metrics
+   */
+  private async showStats(bot: TelegramBot, chatId: number): Promise<void> {
+    const metrics = getSessionMetrics();
+    const loggedIn = SessionService.listActiveSessions();
+    const inFlow = loggedIn.filter(
+      ({ session }) => session.state?.currentAction
+    ).length;
+
+    const message =
+      "📊 *Session Metrics*\n\n" +
+      `Logged-in chats: ${loggedIn.length}\n` +
+      `In a flow: ${inFlow}\n` +
+      `Held in memory: ${metrics.activeSessions}\n\n` +
+      `*Since start*\n` +
+      `Created: ${metrics.totalCreated}\n` +
+      `Refreshed: ${metrics.totalRefreshed}\n` +
+      `Expired: ${metrics.totalExpired}\n` +
+      `Timed out: ${metrics.totalInactive}\n\n` +
+      `*Store*\n` +
+      `Last save: ${formatWaitTime(
+        Date.now() - metrics.lastSave.getTime()
+      )} ago${metrics.lastSaveFailed ? " (latest save failed)" : ""}\n` +
+      `Load errors: ${metrics.loadErrors}\n` +
+      `Save errors: ${metrics.saveErrors}\n` +
+      `Uptime: ${formatWaitTime(process.uptime() * 1000)}`;
+
+    await bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: [
+          [
+            { text: "🔄 Refresh", callback_data: "admin:stats" },
+            { text: "👥 Sessions", callback_data: "admin:sessions:1" },
+          ],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Show a page of logged-in chats, most recently active first
+   * @param messageId Message to replace when paging
+   */
+  private async showSessions(
+    bot: TelegramBot,
+    chatId: number,
+    page: number,
+    messageId?: number
+  ): Promise<void> {
+    const sessions = SessionService.listActiveSessions();
+    const totalPages = Math.max(
+      1,
+      Math.ceil(sessions.length / ADMIN_SESSIONS_PAGE_SIZE)
+    );
+    const currentPage = Math.min(page, totalPages);
+    const pageSessions = sessions.slice(
+      (currentPage - 1) * ADMIN_SESSIONS_PAGE_SIZE,
+      currentPage * ADMIN_SESSIONS_PAGE_SIZE
+    );
+
+    const message =
+      `👥 *Logged-in Chats* (${sessions.length})\n` +
+      `Page ${currentPage} of ${totalPages}\n\n` +
+      (pageSessions.length > 0
+        ? pageSessions.map(formatSessionLine).join("\n")
+        : "No chats are logged in.");
+
+    const navigation: TelegramBot.InlineKeyboardButton[] = [];
+    if (currentPage > 1) {
+      navigation.push({
+        text: "« Previous",
+        callback_data: `admin:sessions:${currentPage - 1}`,
+      });
+    }
+    if (currentPage < totalPages) {
+      navigation.push({
+        text: "Next »",
+        callback_data: `admin:sessions:${currentPage + 1}`,
+      });
+    }
+
+    const options = {
+      parse_mode: "Markdown" as const,
+      reply_markup: { inline_keyboard: navigation.length ? [navigation] : [] },
+    };
+
+    if (messageId) {
+      await bot.editMessageText(message, {
+        ...options,
+        chat_id: chatId,
+        message_id: messageId,
+      });
+    } else {
+      await bot.sendMessage(chatId, message, options);
+    }
+  }
+
+  /**
+   * Search logged-in chats by chat ID, email or organization ID
+   */
+  private async findSessions(
+    bot: TelegramBot,
+    chatId: number,
+    query: string
+  ): Promise<void> {
+    if (!query) {
+      await bot.sendMessage(
+        chatId,
+        "Usage: `/admin find <chat ID, email or organization>`",
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const needle = query.toLowerCase();
+    const matches = SessionService.listActiveSessions().filter(
+      ({ chatId: id, session }) =>
+        String(id).includes(needle) ||
+        (session.email || "").toLowerCase().includes(needle) ||
+        session.organizationId.toLowerCase() === needle
+    );
+
+    const shown = matches.slice(0, ADMIN_SESSIONS_PAGE_SIZE);
+    const message =
+      matches.length === 0
+        ? `No logged-in chats match "${escapeMarkdown(query)}".`
+        : `🔍 *${matches.length} match${matches.length === 1 ? "" : "es"}*` +
+          (matches.length > shown.length
+            ? ` (showing ${shown.length})`
+            : "") +
+          `\n\n${shown.map(formatSessionLine).join("\n")}`;
+
+    await bot.sendMessage(chatId, message, { parse_mode: "Markdown" });
+  }
+
+  /**
+   * Verify or export the audit log for a date range
+   * @param args "verify" or "export", optionally followed by the first and
+   * last day of the range
+   */
+  private async handleAudit(
+    bot: TelegramBot,
+    chatId: number,
+    args: string
+  ): Promise<void> {
+    const [mode = "", fromText, toText] = args.split(/\s+/);
+    const from = fromText ? parseUTCDateTime(fromText, 0) : new Date(0);
+    const lastDay = toText ? parseUTCDateTime(toText, 0) : new Date();
+    if (!["verify", "export"].includes(mode) || !from || !lastDay) {
+      await bot.sendMessage(
+        chatId,
+        "Usage: `/admin audit verify|export [from] [to]`, e.g. `/admin audit export 2025-01-01 2025-01-31`",
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    // The last day is included
+    const to = new Date(lastDay.getTime() + 24 * 60 * 60 * 1000);
+    const range = [fromText && `from ${fromText}`, toText && `to ${toText}`]
+      .filter(Boolean)
+      .map((part) => ` ${part}`)
+      .join("");
+
+    if (mode === "verify") {
+      const result = AuditLogService.verify(from, to);
+      await bot.sendMessage(
+        chatId,
+        result.valid
+          ? `✅ Audit log intact: ${result.checked} entries checked${range} ` +
+              `(${result.total} in total).` +
+              (result.breaks > 0
+                ? `\n⚠️ ${result.breaks} chain breaks skip unreadable entries; ` +
+                  `export the log to see them.`
+                : "")
+          : `❌ Audit log verification failed: ${result.problem}.\n` +
+              `${result.checked} entries checked before the problem.`
+      );
+      return;
+    }
+
+    const entries = AuditLogService.getEntries(from, to);
+    if (entries.length === 0) {
+      await bot.sendMessage(chatId, `No audit log entries${range}.`);
+      return;
+    }
+
+    // One JSON entry per line, with hashes so the export can be verified
+    await bot.sendDocument(
+      chatId,
+      Buffer.from(entries.map((entry) => JSON.stringify(entry)).join("\n")),
+      { caption: `🧾 ${entries.length} audit log entries` },
+      {
+        filename: `copperx-audit-${new Date()
+          .toISOString()
+          .slice(0, 10)}.jsonl`,
+        contentType: "application/x-ndjson",
+      }
+    );
+  }
+
+  /**
+   * Ask for confirmation before logging a chat out
+   */
+  private async confirmLogout(
+    bot: TelegramBot,
+    chatId: number,
+    target: string
+  ): Promise<void> {
+    const targetChatId = /^-?\d+$/.test(target) ? parseInt(target, 10) : NaN;
+    if (isNaN(targetChatId)) {
+      await bot.sendMessage(chatId, "Usage: `/admin logout <chat ID>`", {
+        parse_mode: "Markdown",
+      });
+      return;
+    }
+
+    const active = SessionService.listActiveSessions().find(
+      ({ chatId: id }) => id === targetChatId
+    );
+    if (!active) {
+      await bot.sendMessage(
+        chatId,
+        `Chat \`${targetChatId}\` is not logged in.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    await bot.sendMessage(
+      chatId,
+      `Log out this chat?\n\n${formatSessionLine(active)}`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: "✅ Log Out",
+                callback_data: `admin:logout:${targetChatId}`,
+              },
+              { text: "❌ Cancel", callback_data: "admin:cancel" },
+            ],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Log a chat out and tell its user
+   */
+  private async forceLogout(
+    bot: TelegramBot,
+    chatId: number,
+    messageId: number,
+    targetChatId: number
+  ): Promise<void> {
+    if (isNaN(targetChatId)) return;
+
+    const organizationId = SessionService.listActiveSessions().find(
+      ({ chatId: id }) => id === targetChatId
+    )?.session.organizationId;
+
+    NotificationCommand.removeNotificationsOnLogout(targetChatId);
+    SessionService.deleteSession(targetChatId);
+    AuditLogService.record(
+      {
+        action: "auth.logout",
+        chatId: targetChatId,
+        organizationId,
+        payload: { forcedByAdminChat: chatId },
+      },
+      { status: "success" }
+    );
+    logger.info(`Chat ${targetChatId} logged out by admin in chat ${chatId}`);
+
+    await bot.editMessageText(`✅ Chat \`${targetChatId}\` was logged out.`, {
+      chat_id: chatId,
+      message_id: messageId,
+      parse_mode: "Markdown",
+    });
+
+    bot
+      .sendMessage(
+        targetChatId,
+        "🔒 You have been logged out by an administrator. Use /login to sign in again.",
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "🔑 Login", callback_data: "action:login" }],
+            ],
+          },
+        }
+      )
+      .catch((error) => {
+        logger.warn(
+          `Failed to notify chat ${targetChatId} of logout: ${error.message}`
+        );
+      });
+  }
+
+  /**
+   * Show a preview of an announcement and ask for confirmation
+   */
+  private async confirmBroadcast(
+    bot: TelegramBot,
+    chatId: number,
+    text: string
+  ): Promise<void> {
+    if (!text) {
+      await bot.sendMessage(chatId, "Usage: `/admin broadcast <message>`", {
+        parse_mode: "Markdown",
+      });
+      return;
+    }
+
+    if (text.length > BROADCAST_MAX_LENGTH) {
+      await bot.sendMessage(
+        chatId,
+        `❌ Announcements can be at most ${BROADCAST_MAX_LENGTH} characters.`
+      );
+      return;
+    }
+
+    pendingBroadcasts.set(chatId, text);
+    const recipients = SessionService.listActiveSessions().length;
+
+    // Sent without Markdown so the preview matches what users will see
+    await bot.sendMessage(
+      chatId,
+      `Send this announcement to ${recipients} logged-in chat${
+        recipients === 1 ? "" : "s"
+      }?\n\n${this.formatAnnouncement(text)}`,
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: "📢 Send", callback_data: "admin:broadcast:confirm" },
+              { text: "❌ Cancel", callback_data: "admin:broadcast:cancel" },
+            ],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Format an announcement as users receive it
+   */
+  private formatAnnouncement(text: string): string {
+    return `📢 Announcement\n\n${text}`;
+  }
+
+  /**
+   * Start sending a confirmed announcement in the background
+   */
+  private async startBroadcast(
+    bot: TelegramBot,
+    chatId: number,
+    messageId: number
+  ): Promise<void> {
+    const text = pendingBroadcasts.get(chatId);
+    if (!text) {
+      await bot.editMessageText(
+        "⚠️ This announcement is no longer available. Please start over.",
+        { chat_id: chatId, message_id: messageId }
+      );
+      return;
+    }
+
+    if (broadcastRunning) {
+      await bot.sendMessage(
+        chatId,
+        "⏳ Another announcement is being sent. Please wait until it finishes."
+      );
+      return;
+    }
+
+    pendingBroadcasts.delete(chatId);
+    broadcastRunning = true;
+    await bot.editMessageReplyMarkup(
+      { inline_keyboard: [] },
+      { chat_id: chatId, message_id: messageId }
+    );
+
+    // Sending takes a while, so don't hold up the update
+    this.sendBroadcast(bot, chatId, text)
+      .catch((error) => {
+        logger.error("Broadcast failed:", error);
+        bot
+          .sendMessage(chatId, "❌ Sending the announcement failed.")
+          .catch(() => undefined);
+      })
+      .finally(() => {
+        broadcastRunning = false;
+      });
+  }
+
+  /**
+   * Send an announcement to every logged-in chat and report the result
+   * Messages are spaced BROADCAST_DELAY_MS apart; progress is shown by
+   * editing a status message.
+   */
+  private async sendBroadcast(
+    bot: TelegramBot,
+    adminChatId: number,
+    text: string
+  ): Promise<void> {
+    const chatIds = SessionService.listActiveSessions().map(
+      ({ chatId }) => chatId
+    );
+    const counts: Record<BroadcastOutcome, number> = {
+      delivered: 0,
+      blocked: 0,
+      failed: 0,
+    };
+    const startedAt = Date.now();
+
+    logger.info(
+      `Broadcast to ${chatIds.length} chats started by admin in chat ${adminChatId}`
+    );
+    const status = await bot.sendMessage(
+      adminChatId,
+      `📢 Sending announcement to ${chatIds.length} chats...`
+    );
+
+    for (let index = 0; index < chatIds.length; index++) {
+      counts[await this.deliver(bot, chatIds[index], text)]++;
+
+      const sent = index + 1;
+      if (sent % BROADCAST_PROGRESS_INTERVAL === 0 && sent < chatIds.length) {
+        bot
+          .editMessageText(
+            `📢 Sending announcement... ${sent} of ${chatIds.length}`,
+            { chat_id: adminChatId, message_id: status.message_id }
+          )
+          .catch(() => undefined);
+      }
+      await sleep(BROADCAST_DELAY_MS);
+    }
+
+    logger.info("Broadcast finished", counts);
+    await bot.editMessageText(
+      "📢 *Announcement Sent*\n\n" +
+        `Chats: ${chatIds.length}\n` +
+        `✅ Delivered: ${counts.delivered}\n` +
+        `🚫 Bot blocked: ${counts.blocked}\n` +
+        `❌ Failed: ${counts.failed}\n` +
+        `Took ${formatWaitTime(Date.now() - startedAt)}`,
+      {
+        chat_id: adminChatId,
+        message_id: status.message_id,
+        parse_mode: "Markdown",
+      }
+    );
+  }
+
+  /**
+   * Deliver an announcement to one chat
+   * When Telegram asks to slow down, the message is retried once after the
+   * requested delay.
+   */
+  private async deliver(
+    bot: TelegramBot,
+    chatId: number,
+    text: string,
+    retried: boolean = false
+  ): Promise<BroadcastOutcome> {
+    try {
+      await bot.sendMessage(chatId, this.formatAnnouncement(text));
+      return "delivered";
+    } catch (error: any) {
+      const body = error?.response?.body;
+      if (body?.error_code === 429 && !retried) {
+        await sleep((body.parameters?.retry_after || 1) * 1000);
+        return this.deliver(bot, chatId, text, true);
+      }
+      if (body?.error_code === 403) return "blocked";
+
+      logger.warn(`Broadcast to chat ${chatId} failed: ${error?.message}`);
+      return "failed";
+    }
+  }
+}
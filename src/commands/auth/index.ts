@@ -1,26 +1,32 @@
 import TelegramBot from "node-telegram-bot-api";
 import { commandRegistry } from "../../core/command";
-import { LoginCommand, registerLoginMessageHandlers } from "./login-command";
+import { LoginCommand } from "./login-command";
 import { LogoutCommand } from "./logout-command";
 import { ProfileCommand } from "./profile-command";
 import { KYCCommand } from "./kyc-command";
+import { PinCommand } from "./pin-command";
+import { SwitchCommand } from "./switch-command";
 
 /**
  * Register all authentication-related commands
  * @param bot The Telegram bot instance
  */
-export function registerAuthCommands(bot: TelegramBot): void {
+export function registerAuthCommands(_bot: TelegramBot): void {
   // Create command instances
   const loginCommand = new LoginCommand();
   const logoutCommand = new LogoutCommand();
   const profileCommand = new ProfileCommand();
   const kycCommand = new KYCCommand();
+  const pinCommand = new PinCommand();
+  const switchCommand = new SwitchCommand();
 
   // Register commands in registry
   commandRegistry.registerCommand(loginCommand);
   commandRegistry.registerCommand(logoutCommand);
   commandRegistry.registerCommand(profileCommand);
   commandRegistry.registerCommand(kycCommand);
+  commandRegistry.registerCommand(pinCommand);
+  commandRegistry.registerCommand(switchCommand);
 
   // Register callback handlers
   commandRegistry.registerCallbackHandler("action:login", loginCommand);
@@ -30,7 +36,10 @@ export function registerAuthCommands(bot: TelegramBot): void {
   commandRegistry.registerCallbackHandler("menu:profile", profileCommand);
   commandRegistry.registerCallbackHandler("action:kyc", kycCommand);
   commandRegistry.registerCallbackHandler("menu:kyc", kycCommand);
+  commandRegistry.registerCallbackHandler("pin", pinCommand);
+  commandRegistry.registerCallbackHandler("switch", switchCommand);
 
-  // Register message handlers for multi-step flows
-  registerLoginMessageHandlers(bot);
+  // Register text input handlers for multi-step flows
+  commandRegistry.registerActionHandler("login", loginCommand);
+  commandRegistry.registerActionHandler("pin", pinCommand);
 }
@@ -25,6 +25,7 @@ interface KYCSessionState extends SessionState {
 export class KYCCommand extends BaseAuthCommand {
   name = "kyc";
   description = "Check your KYC/KYB verification status";
+  requiresAuth = true;
 
   /**
    * Get the callback prefix for this command
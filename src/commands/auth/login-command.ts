@@ -4,14 +4,27 @@ import {
   ExtendedSession,
   SessionState,
 } from "../../core/session.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
+import { AuditLogService } from "../../core/audit-log.service";
 import * as authService from "../../services/auth.service";
 import { sendSuccessMessage } from "../../utils/message-templates";
 import { handleApiErrorResponse } from "../../utils/error-handler";
+import { CopperxApiError } from "../../utils/api";
+import {
+  escapeMarkdown,
+  formatAccountLabel,
+  formatWaitTime,
+} from "../../utils/format";
+import {
+  OTP_COOLDOWN_UPDATE_MS,
+  OTP_RESEND_COOLDOWN_MS,
+} from "../../utils/constants";
 import { getModuleLogger } from "../../utils/logger";
 import { NotificationCommand } from "../notification-command";
-import { AuthResponse, OTPState, OTPRequestResponse } from "../../types/auth";
+import { AuthResponse, OTPRequestResponse } from "../../types/auth";
 import { BaseAuthCommand } from "./base-auth-command";
 import { commandRegistry } from "../../core/command";
+import { OtpLimiter } from "../../core/otp-limiter";
 
 // Create module logger
 const logger = getModuleLogger("login-command");
@@ -35,6 +48,8 @@ interface LoginSessionState {
   email?: string;
   /** Session ID for OTP verification */
   sid?: string;
+  /** When the last OTP was sent (ISO date string) */
+  otpSentAt?: string;
 }
 
 /**
@@ -44,11 +59,6 @@ export class LoginCommand extends BaseAuthCommand {
   name = "login";
   description = "Authenticate with your Copperx account";
 
-  // Map to track email input states
-  private awaitingEmail = new Map<number, boolean>();
-  // Map to track OTP input states
-  private awaitingOTP = new Map<number, OTPState>();
-
   /**
    * Get the callback prefix for this command
    */
@@ -56,6 +66,26 @@ export class LoginCommand extends BaseAuthCommand {
     return "action:login";
   }
 
+  /**
+   * Handle callback queries
+   * Besides "action:login" this command owns the "login:" buttons of the flow.
+   */
+  async handleCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    // Resend answers the query itself to show the remaining cooldown
+    if (query.data === "login:resend") {
+      await this.handleResend(bot, query);
+      return;
+    }
+
+    bot.answerCallbackQuery(query.id);
+    await this.processCallback(bot, query);
+  }
+
   /**
    * Start the auth flow for Login
    */
@@ -64,17 +94,23 @@ export class LoginCommand extends BaseAuthCommand {
     chatId: number,
     _msg: TelegramBot.Message
   ): Promise<void> {
-    // Check if already logged in
+    // Check if already logged in; further accounts are added on request
     const session = SessionService.getSession(chatId);
     if (session) {
       bot.sendMessage(
         chatId,
-        "You are already logged in. Use /logout to sign out first.",
+        `You are already logged in as ${escapeMarkdown(
+          formatAccountLabel(session)
+        )}.\n\nYou can add another Copperx account and /switch between them, or use /logout to sign out.`,
         {
+          parse_mode: "Markdown",
           reply_markup: {
             inline_keyboard: [
-              [{ text: "👤 Profile", callback_data: "menu:profile" }],
-              [{ text: "💰 Balance", callback_data: "menu:balance" }],
+              [{ text: "➕ Add Account", callback_data: "login:add" }],
+              [
+                { text: "👤 Profile", callback_data: "menu:profile" },
+                { text: "💰 Balance", callback_data: "menu:balance" },
+              ],
             ],
           },
         }
@@ -82,45 +118,29 @@ export class LoginCommand extends BaseAuthCommand {
       return;
     }
 
-    logger.debug(`[startAuthFlow] Setting login state for chat ${chatId}`);
+    if (this.sendLockoutMessage(bot, chatId)) return;
 
-    // Set login state with correct structure
-    const updateResult = SessionService.updateSessionState(chatId, {
+    // Send the OTP straight away when the session of a known email expired
+    const suspendedEmail = SessionService.getSuspendedFlow(chatId)?.email;
+    if (suspendedEmail) {
+      await this.requestOTP(bot, chatId, suspendedEmail);
+      return;
+    }
+
+    this.promptForEmail(bot, chatId);
+  }
+
+  /**
+   * Ask for the email address to send the OTP to
+   */
+  private promptForEmail(bot: TelegramBot, chatId: number): void {
+    SessionService.updateSessionState(chatId, {
       currentAction: "login",
       data: {
         loginStep: "email",
       },
     });
 
-    logger.debug(`[startAuthFlow] Session update result: ${updateResult}`);
-
-    // Let's check if the session state was actually set
-    const stateAfter = SessionService.getSessionState(chatId);
-    logger.debug(`[startAuthFlow] State after update:`, stateAfter);
-
-    if (!stateAfter || stateAfter.currentAction !== "login") {
-      logger.error(`[startAuthFlow] Failed to set session state for ${chatId}`);
-      // Create a new session if it doesn't exist
-      SessionService.setSession(chatId, {
-        token: "", // Empty token for temporary session
-        expireAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-        organizationId: "",
-        state: {
-          currentAction: "login",
-          data: {
-            loginStep: "email",
-          },
-        },
-      });
-
-      // Check again
-      const stateAfterFix = SessionService.getSessionState(chatId);
-      logger.debug(
-        `[startAuthFlow] State after creating session:`,
-        stateAfterFix
-      );
-    }
-
     // Start login flow
     bot.sendMessage(
       chatId,
@@ -133,8 +153,133 @@ export class LoginCommand extends BaseAuthCommand {
         },
       }
     );
+  }
+
+  /**
+   * Tell the user the chat is locked out after too many wrong codes
+   * @returns Whether the chat is locked out
+   */
+  private sendLockoutMessage(bot: TelegramBot, chatId: number): boolean {
+    const remaining = OtpLimiter.getLockoutRemaining(chatId);
+    if (remaining <= 0) return false;
+
+    SessionService.updateSessionState(chatId, {});
+    bot.sendMessage(
+      chatId,
+      `🔒 *Login temporarily locked*\n\nToo many incorrect codes were entered. For your security, you can try again in ${formatWaitTime(
+        remaining
+      )}.`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      }
+    );
+    return true;
+  }
+
+  /**
+   * Get how long the user has to wait before requesting another OTP
+   * @param otpSentAt When the last OTP was sent (ISO date string)
+   * @returns The remaining cooldown in milliseconds
+   */
+  private getResendCooldown(otpSentAt?: string): number {
+    if (!otpSentAt) return 0;
+    const elapsed = Date.now() - new Date(otpSentAt).getTime();
+    return Math.max(0, OTP_RESEND_COOLDOWN_MS - elapsed);
+  }
+
+  /**
+   * Get the keyboard shown while waiting for the OTP
+   * @param cooldown The remaining resend cooldown in milliseconds
+   */
+  private getOTPKeyboard(
+    cooldown: number
+  ): TelegramBot.InlineKeyboardButton[][] {
+    return [
+      [
+        {
+          text:
+            cooldown > 0
+              ? `🔄 Resend Code (${Math.ceil(cooldown / 1000)}s)`
+              : "🔄 Resend Code",
+          callback_data: "login:resend",
+        },
+      ],
+      [{ text: "✉️ Change Email", callback_data: "login:email" }],
+      [{ text: "❌ Cancel Login", callback_data: "login:cancel" }],
+    ];
+  }
+
+  /**
+   * Count down the resend cooldown on the button of an OTP message
+   * The countdown stops once a new code was sent or the login ended.
+   */
+  private scheduleCooldownUpdate(
+    bot: TelegramBot,
+    chatId: number,
+    messageId: number,
+    otpSentAt: string
+  ): void {
+    const cooldown = this.getResendCooldown(otpSentAt);
+    const timer = setTimeout(() => {
+      const loginData = SessionService.getSessionState(chatId)?.data as
+        | LoginSessionState
+        | undefined;
+      if (loginData?.otpSentAt !== otpSentAt) return;
+
+      const remaining = this.getResendCooldown(otpSentAt);
+      bot
+        .editMessageReplyMarkup(
+          { inline_keyboard: this.getOTPKeyboard(remaining) },
+          { chat_id: chatId, message_id: messageId }
+        )
+        .catch(() => undefined);
+
+      if (remaining > 0) {
+        this.scheduleCooldownUpdate(bot, chatId, messageId, otpSentAt);
+      }
+    }, Math.min(cooldown, OTP_COOLDOWN_UPDATE_MS));
 
-    this.awaitingEmail.set(chatId, true);
+    // Don't keep the process alive just for the countdown
+    timer.unref();
+  }
+
+  /**
+   * Resend the OTP to the email of the current login
+   */
+  private async handleResend(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    const chatId = query.message!.chat.id;
+    const sessionState = SessionService.getSessionState(chatId);
+    const loginData = sessionState?.data as LoginSessionState | undefined;
+
+    if (
+      sessionState?.currentAction !== "login" ||
+      loginData?.loginStep !== "otp" ||
+      !loginData.email
+    ) {
+      bot.answerCallbackQuery(query.id, {
+        text: "This login has ended. Please start again with /login.",
+      });
+      return;
+    }
+
+    const cooldown = this.getResendCooldown(loginData.otpSentAt);
+    if (cooldown > 0) {
+      bot.answerCallbackQuery(query.id, {
+        text: `You can request a new code in ${formatWaitTime(cooldown)}.`,
+      });
+      return;
+    }
+
+    bot.answerCallbackQuery(query.id);
+    await this.requestOTP(bot, chatId, loginData.email);
   }
 
   /**
@@ -155,16 +300,18 @@ export class LoginCommand extends BaseAuthCommand {
 
     if (callbackData === "action:login") {
       this.execute(bot, query.message as TelegramBot.Message);
+    } else if (callbackData === "login:email") {
+      this.promptForEmail(bot, chatId);
+    } else if (callbackData === "login:add") {
+      // Log in to another account while staying logged in to this one
+      if (this.sendLockoutMessage(bot, chatId)) return;
+      this.promptForEmail(bot, chatId);
     } else if (callbackData === "login:cancel") {
       logger.debug(
         `[processCallback] Cancelling login flow for chat ${chatId}`
       );
 
       // Cancel login flow
-      this.awaitingEmail.delete(chatId);
-      this.awaitingOTP.delete(chatId);
-
-      // Clear session data directly
       SessionService.updateSessionState(chatId, {});
 
       // Send confirmation
@@ -190,20 +337,7 @@ export class LoginCommand extends BaseAuthCommand {
 
     const chatId = msg.chat.id;
 
-    // Add detailed debugging
-    logger.debug(
-      `[handleUserInput] Called for chat ${chatId} with text: "${msg.text.substring(
-        0,
-        10
-      )}..."`
-    );
-
-    // Check if we're awaiting input from this chat
-    const isAwaitingEmail = this.awaitingEmail.has(chatId);
-    const isAwaitingOTP = this.awaitingOTP.has(chatId);
-    logger.debug(
-      `[handleUserInput] Tracking state - awaitingEmail: ${isAwaitingEmail}, awaitingOTP: ${isAwaitingOTP}`
-    );
+    logger.debug(`[handleUserInput] Called for chat ${chatId}`);
 
     // Get session state directly
     const sessionState = SessionService.getSessionState(chatId);
@@ -227,6 +361,12 @@ export class LoginCommand extends BaseAuthCommand {
         await this.handleEmailInput(bot, msg);
         return;
       } else if (loginData.loginStep === "otp") {
+        // An email address instead of a code changes the email
+        if (this.isValidEmail(msg.text.trim())) {
+          await this.handleEmailInput(bot, msg);
+          return;
+        }
+
         logger.debug(
           `[handleUserInput] Processing OTP input from session state`
         );
@@ -239,46 +379,6 @@ export class LoginCommand extends BaseAuthCommand {
       }
     }
 
-    // Fallback to the old tracking mechanism if session state doesn't have what we need
-    if (this.awaitingEmail.has(chatId)) {
-      logger.debug(
-        `[handleUserInput] Processing email input from awaitingEmail map`
-      );
-
-      // Make sure session state is set properly
-      SessionService.updateSessionState(chatId, {
-        currentAction: "login",
-        data: {
-          loginStep: "email",
-        },
-      });
-
-      await this.handleEmailInput(bot, msg);
-      return;
-    }
-
-    if (this.awaitingOTP.has(chatId)) {
-      logger.debug(
-        `[handleUserInput] Processing OTP input from awaitingOTP map`
-      );
-
-      // Make sure session state is set properly
-      const otpState = this.awaitingOTP.get(chatId);
-      if (otpState) {
-        SessionService.updateSessionState(chatId, {
-          currentAction: "login",
-          data: {
-            loginStep: "otp",
-            email: otpState.email,
-            sid: otpState.sid,
-          },
-        });
-      }
-
-      await this.handleOTPInput(bot, msg);
-      return;
-    }
-
     logger.debug(
       `[handleUserInput] Ignoring input: Not in login flow. Current action: ${sessionState?.currentAction}`
     );
@@ -305,54 +405,88 @@ export class LoginCommand extends BaseAuthCommand {
       return;
     }
 
+    await this.requestOTP(bot, chatId, email);
+  }
+
+  /**
+   * Request an OTP for an email and ask the user to enter it
+   * Requests are capped per email; see OtpLimiter.
+   */
+  private async requestOTP(
+    bot: TelegramBot,
+    chatId: number,
+    email: string
+  ): Promise<void> {
+    if (this.sendLockoutMessage(bot, chatId)) return;
+
+    const retryDelay = OtpLimiter.getRequestRetryDelay(email);
+    if (retryDelay > 0) {
+      SessionService.updateSessionState(chatId, {
+        currentAction: "login",
+        data: {
+          loginStep: "email",
+        },
+      });
+
+      bot.sendMessage(
+        chatId,
+        `⚠️ Too many codes were requested for *${escapeMarkdown(email)}*.\n\nPlease try again in ${formatWaitTime(
+          retryDelay
+        )}, or enter another email address:`,
+        {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "❌ Cancel Login", callback_data: "login:cancel" }],
+            ],
+          },
+        }
+      );
+      return;
+    }
+
     try {
       // Request OTP
       const response: OTPRequestResponse = await authService.requestEmailOTP(
         email
       );
 
+      OtpLimiter.recordRequest(email);
+
       // Store email and sid directly in session state with proper structure
+      const otpSentAt = new Date().toISOString();
       const updateResult = SessionService.updateSessionState(chatId, {
         currentAction: "login",
         data: {
           loginStep: "otp",
           email: response.email,
           sid: response.sid,
+          otpSentAt,
         },
       });
 
-      // Log the update result and session state
-      logger.debug(`[handleEmailInput] Session update result: ${updateResult}`);
-      const updatedState = SessionService.getSessionState(chatId);
-      logger.debug(`[handleEmailInput] Updated session state:`, updatedState);
-
-      // Clean up email tracking
-      this.awaitingEmail.delete(chatId);
+      logger.debug(`[requestOTP] Session update result: ${updateResult}`);
 
-      // Store OTP state in local map for backward compatibility
-      this.awaitingOTP.set(chatId, {
-        email: response.email,
-        sid: response.sid,
-      });
-
-      bot.sendMessage(
+      const sentMessage = await bot.sendMessage(
         chatId,
         `📱 We've sent a one-time password to *${email}*.\n\nPlease enter the OTP:`,
         {
           parse_mode: "Markdown",
           reply_markup: {
-            inline_keyboard: [
-              [{ text: "❌ Cancel Login", callback_data: "login:cancel" }],
-            ],
+            inline_keyboard: this.getOTPKeyboard(OTP_RESEND_COOLDOWN_MS),
           },
         }
       );
+      this.scheduleCooldownUpdate(
+        bot,
+        chatId,
+        sentMessage.message_id,
+        otpSentAt
+      );
     } catch (error: any) {
       logger.error(`OTP request error:`, error);
       handleApiErrorResponse(bot, chatId, error, "action:login");
-      this.awaitingEmail.delete(chatId);
-      // Clear session state directly
-      SessionService.updateSessionState(chatId, {});
+      SessionService.updateSessionState(chatId, {}); // Clear session state
     }
   }
 
@@ -366,49 +500,37 @@ export class LoginCommand extends BaseAuthCommand {
     const chatId = msg.chat.id;
     const otp = msg.text?.trim();
 
-    // Get both from session state and local map for comprehensive check
-    const sessionState = SessionService.getSessionState(chatId);
-    const otpState = this.awaitingOTP.get(chatId);
-
-    // First try to get credentials from session state
-    let email: string | undefined;
-    let sid: string | undefined;
+    const loginData = SessionService.getSessionState(chatId)?.data as
+      | LoginSessionState
+      | undefined;
+    const email = loginData?.email;
+    const sid = loginData?.sid;
 
-    // Safely extract data from session if it exists
-    if (sessionState?.data) {
-      email = sessionState.data.email;
-      sid = sessionState.data.sid;
-    }
-
-    // Fallback to map if not in session
     if (!email || !sid) {
-      if (!otpState) {
-        logger.error(`[handleOTPInput] No OTP state found for chat ${chatId}`);
-        bot.sendMessage(
-          chatId,
-          "⚠️ Your OTP session has expired. Please start the login process again.",
-          {
-            reply_markup: {
-              inline_keyboard: [
-                [{ text: "🔑 Login Again", callback_data: "action:login" }],
-                [{ text: "« Back to Menu", callback_data: "menu:main" }],
-              ],
-            },
-          }
-        );
-        return;
-      }
-
-      email = otpState.email;
-      sid = otpState.sid;
+      logger.error(`[handleOTPInput] No OTP state found for chat ${chatId}`);
+      bot.sendMessage(
+        chatId,
+        "⚠️ Your OTP session has expired. Please start the login process again.",
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "🔑 Login Again", callback_data: "action:login" }],
+              [{ text: "« Back to Menu", callback_data: "menu:main" }],
+            ],
+          },
+        }
+      );
+      return;
     }
 
+    if (this.sendLockoutMessage(bot, chatId)) return;
+
     if (!otp || !this.isValidOTP(otp)) {
       bot.sendMessage(chatId, "⚠️ Please enter a valid OTP code.", {
         reply_markup: {
-          inline_keyboard: [
-            [{ text: "❌ Cancel Login", callback_data: "login:cancel" }],
-          ],
+          inline_keyboard: this.getOTPKeyboard(
+            this.getResendCooldown(loginData?.otpSentAt)
+          ),
         },
       });
       return;
@@ -416,10 +538,13 @@ export class LoginCommand extends BaseAuthCommand {
 
     try {
       // Authenticate with OTP
-      const authResponse: AuthResponse = await authService.authenticateWithOTP(
-        email,
-        otp,
-        sid
+      const authResponse: AuthResponse = await AuditLogService.audit(
+        { action: "auth.login", chatId, payload: { email } },
+        () => authService.authenticateWithOTP(email, otp, sid),
+        (response) => ({
+          userId: response.user.id,
+          organizationId: response.user.organizationId,
+        })
       );
 
       // Create user session
@@ -427,16 +552,22 @@ export class LoginCommand extends BaseAuthCommand {
         token: authResponse.accessToken,
         expireAt: new Date(authResponse.expireAt),
         organizationId: authResponse.user.organizationId,
+        email: authResponse.user.email,
         lastActivity: new Date(),
       };
+      recordFlowCompleted(chatId);
       SessionService.setSession(chatId, session);
+      OtpLimiter.clearFailures(chatId);
 
-      // Clean up tracking state
-      this.awaitingOTP.delete(chatId);
       SessionService.updateSessionState(chatId, {}); // Clear session state
 
-      // Setup notification subscriptions using the NotificationCommand
+      // Restore the flow that was interrupted when the session expired
+      const resumedState = SessionService.resumeSuspendedFlow(chatId);
+
+      // Setup notification subscriptions using the NotificationCommand; they
+      // follow the account the user just logged in to
       try {
+        NotificationCommand.removeNotificationsOnLogout(chatId);
         await NotificationCommand.initNotificationsOnLogin(
           bot,
           chatId,
@@ -448,21 +579,78 @@ export class LoginCommand extends BaseAuthCommand {
         // Don't block login flow if subscription fails
       }
 
-      // Send success message
+      const resumeHandler =
+        resumedState?.currentAction &&
+        commandRegistry.findActionHandler(resumedState.currentAction);
+      if (resumeHandler && resumeHandler.resumeFlow) {
+        await bot.sendMessage(
+          chatId,
+          "🎉 Login successful! Let's continue where you left off."
+        );
+        await resumeHandler.resumeFlow(bot, chatId);
+        return;
+      }
+      if (resumedState) {
+        SessionService.updateSessionState(chatId, {});
+      }
+
+      // Send success message, naming the account when there are several
+      const accountCount = SessionService.listAccounts(chatId).length;
       sendSuccessMessage(
         bot,
         chatId,
-        `🎉 Login successful!\n\nWelcome to Copperx Payout Bot. What would you like to do?`,
+        accountCount > 1
+          ? `🎉 Login successful!\n\nYou are now using ${escapeMarkdown(
+              formatAccountLabel(session)
+            )}. You have ${accountCount} accounts logged in; use /switch to change between them.`
+          : `🎉 Login successful!\n\nWelcome to Copperx Payout Bot. What would you like to do?`,
         ["profile", "balance"]
       );
     } catch (error: any) {
       logger.error(`Authentication error:`, error);
+
+      // A rejected code keeps the login going until the attempts run out
+      if (this.isRejectedOTP(error)) {
+        const attemptsLeft = OtpLimiter.recordFailure(chatId);
+        if (attemptsLeft <= 0) {
+          this.sendLockoutMessage(bot, chatId);
+          return;
+        }
+
+        bot.sendMessage(
+          chatId,
+          `❌ That code is incorrect or has expired. You have ${attemptsLeft} attempt${
+            attemptsLeft === 1 ? "" : "s"
+          } left.\n\nPlease enter the OTP again or request a new code:`,
+          {
+            reply_markup: {
+              inline_keyboard: this.getOTPKeyboard(
+                this.getResendCooldown(loginData?.otpSentAt)
+              ),
+            },
+          }
+        );
+        return;
+      }
+
       handleApiErrorResponse(bot, chatId, error, "action:login");
-      this.awaitingOTP.delete(chatId);
       SessionService.updateSessionState(chatId, {}); // Clear session state
     }
   }
 
+  /**
+   * Check whether the API rejected the OTP itself, rather than failing
+   */
+  private isRejectedOTP(error: any): boolean {
+    return (
+      error instanceof CopperxApiError &&
+      error.status !== undefined &&
+      error.status >= 400 &&
+      error.status < 500 &&
+      error.status !== 429
+    );
+  }
+
   /**
    * Validate email format
    */
@@ -479,17 +667,3 @@ export class LoginCommand extends BaseAuthCommand {
     return otpRegex.test(otp);
   }
 }
-
-/**
- * Register message handlers for login flow
- * @param bot The Telegram bot instance
- */
-export function registerLoginMessageHandlers(bot: TelegramBot): void {
-  const loginCommand = new LoginCommand();
-
-  // Register callback handlers
-  commandRegistry.registerCallbackHandler("action:login", loginCommand);
-  commandRegistry.registerCallbackHandler("login", loginCommand);
-
-  logger.info("Login message handlers registered successfully");
-}
@@ -1,5 +1,7 @@
 import TelegramBot from "node-telegram-bot-api";
 import { SessionService } from "../../core/session.service";
+import { AuditLogService } from "../../core/audit-log.service";
+import { escapeMarkdown, formatAccountLabel } from "../../utils/format";
 import { getModuleLogger } from "../../utils/logger";
 import { NotificationCommand } from "../notification-command";
 import { BaseAuthCommand } from "./base-auth-command";
@@ -29,8 +31,42 @@ export class LogoutCommand extends BaseAuthCommand {
     chatId: number,
     _msg: TelegramBot.Message
   ): Promise<void> {
-    if (SessionService.getSession(chatId)) {
-      // Clean up notification subscriptions first
+    const session = SessionService.getSession(chatId);
+    if (session) {
+      // Another account of the chat takes over if one is still logged in
+      const next = SessionService.logoutActiveAccount(chatId);
+      AuditLogService.record(
+        {
+          action: "auth.logout",
+          chatId,
+          organizationId: session.organizationId,
+        },
+        { status: "success" }
+      );
+
+      if (next) {
+        await NotificationCommand.switchNotifications(bot, chatId, next);
+        bot.sendMessage(
+          chatId,
+          `You have been logged out of ${escapeMarkdown(
+            formatAccountLabel(session)
+          )}. 👋\n\nYou are now using ${escapeMarkdown(
+            formatAccountLabel(next)
+          )}.`,
+          {
+            parse_mode: "Markdown",
+            reply_markup: {
+              inline_keyboard: [
+                [{ text: "🔀 Switch Account", callback_data: "switch:list" }],
+                [{ text: "« Back to Menu", callback_data: "menu:main" }],
+              ],
+            },
+          }
+        );
+        return;
+      }
+
+      // Clean up notification subscriptions
       try {
         NotificationCommand.removeNotificationsOnLogout(chatId);
         logger.info(`Notifications removed for user ${chatId}`);
@@ -38,9 +74,6 @@ export class LogoutCommand extends BaseAuthCommand {
         logger.error(`Error removing notifications:`, error);
       }
 
-      // Then delete the session
-      SessionService.deleteSession(chatId);
-
       bot.sendMessage(chatId, "You have been successfully logged out. 👋", {
         reply_markup: {
           inline_keyboard: [
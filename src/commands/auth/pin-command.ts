@@ -0,0 +1,388 @@
+import TelegramBot from "node-telegram-bot-api";
+import { config } from "../../config";
+import { requireAuth } from "../../core/middleware";
+import { PinService } from "../../core/pin.service";
+import { SessionService, SessionState } from "../../core/session.service";
+import { AuditLogService } from "../../core/audit-log.service";
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH } from "../../utils/constants";
+import { createConfirmationKeyboard } from "../../utils/keyboard";
+import { getModuleLogger } from "../../utils/logger";
+import { NotificationCommand } from "../notification-command";
+import { BaseAuthCommand } from "./base-auth-command";
+
+// Create module logger
+const logger = getModuleLogger("pin-command");
+
+/**
+ * Session data of the PIN flow
+ * The new PIN is kept as a salted hash until it is entered again.
+ */
+interface PinSessionState extends SessionState {
+  pinAction: "set" | "change" | "remove";
+  pinStep: "current" | "new" | "repeat";
+  newPinSalt?: string;
+  newPinHash?: string;
+}
+
+/**
+ * PIN command implementation
+ * Sets, changes and removes the transaction PIN, and takes the PIN when a
+ * sensitive action is waiting for it.
+ */
+export class PinCommand extends BaseAuthCommand {
+  name = "pin";
+  description = "Set or change your transaction PIN";
+  requiresAuth = true;
+
+  /**
+   * Get the callback prefix for this command
+   */
+  protected getCallbackPrefix(): string {
+    return "pin";
+  }
+
+  /**
+   * Show the PIN settings
+   */
+  protected async startAuthFlow(
+    bot: TelegramBot,
+    chatId: number,
+    _msg: TelegramBot.Message
+  ): Promise<void> {
+    await requireAuth(bot, chatId, async () => {
+      const idleMinutes = Math.round(config.security.pinIdleTimeout / 60000);
+      const rules =
+        `The PIN is asked before transfers above *${config.security.pinAmountThreshold} USDC* ` +
+        `and before sensitive actions after *${idleMinutes} minutes* without activity.`;
+
+      if (PinService.hasPin(chatId)) {
+        await bot.sendMessage(
+          chatId,
+          `🔐 *Transaction PIN*\n\nYour PIN is set.\n${rules}`,
+          {
+            parse_mode: "Markdown",
+            reply_markup: {
+              inline_keyboard: [
+                [
+                  { text: "✏️ Change PIN", callback_data: "pin:change" },
+                  { text: "🗑️ Remove PIN", callback_data: "pin:remove" },
+                ],
+                [{ text: "« Back to Menu", callback_data: "menu:main" }],
+              ],
+            },
+          }
+        );
+        return;
+      }
+
+      await bot.sendMessage(
+        chatId,
+        `🔐 *Transaction PIN*\n\nProtect your account with a PIN of ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits.\n${rules}`,
+        {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "🔐 Set PIN", callback_data: "pin:set" }],
+              [{ text: "« Back to Menu", callback_data: "menu:main" }],
+            ],
+          },
+        }
+      );
+    });
+  }
+
+  /**
+   * Process callback data for this command
+   */
+  protected async processCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    const chatId = query.message.chat.id;
+    const callbackData = query.data;
+
+    if (callbackData === "pin:cancel") {
+      PinService.clearChallenge(chatId);
+      if (SessionService.getSessionState(chatId)?.currentAction === "pin") {
+        this.clearSessionData(chatId);
+      }
+      await bot.sendMessage(chatId, "PIN entry cancelled.", {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      });
+      return;
+    }
+
+    // Changing or removing an existing PIN needs the current one
+    if (
+      callbackData === "pin:set" ||
+      callbackData === "pin:change" ||
+      callbackData === "pin:remove"
+    ) {
+      const hasPin = PinService.hasPin(chatId);
+      const pinAction =
+        callbackData === "pin:remove"
+          ? "remove"
+          : hasPin
+          ? "change"
+          : "set";
+      if (pinAction === "remove" && !hasPin) return;
+
+      this.updateSessionData<PinSessionState>(chatId, {
+        currentAction: "pin",
+        pinAction,
+        pinStep: hasPin ? "current" : "new",
+      });
+      await bot.sendMessage(
+        chatId,
+        hasPin
+          ? "Please enter your current PIN:"
+          : `Please enter a new PIN of ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits:`,
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "❌ Cancel", callback_data: "pin:cancel" }],
+            ],
+          },
+        }
+      );
+    }
+  }
+
+  /**
+   * Handle a PIN entered for a waiting action or in the PIN flow
+   * The message is deleted right away so the PIN doesn't stay in the chat.
+   */
+  async handleUserInput(
+    bot: TelegramBot,
+    msg: TelegramBot.Message
+  ): Promise<void> {
+    if (!msg.text) return;
+
+    const chatId = msg.chat.id;
+    const pin = msg.text.trim();
+    await bot.deleteMessage(chatId, msg.message_id).catch(() => undefined);
+
+    const challenge = PinService.getChallenge(chatId);
+    if (challenge) {
+      const result = PinService.verifyPin(chatId, pin);
+      if (!result.ok) {
+        await this.handleWrongPin(bot, chatId, result.attemptsLeft);
+        return;
+      }
+
+      PinService.grant(chatId, challenge.callbackData);
+      await bot.sendMessage(
+        chatId,
+        "✅ PIN accepted. Tap Confirm to continue.",
+        {
+          reply_markup: {
+            inline_keyboard: createConfirmationKeyboard(
+              challenge.callbackData,
+              "pin:cancel"
+            ),
+          },
+        }
+      );
+      return;
+    }
+
+    const sessionState = SessionService.getSessionState(chatId);
+    if (sessionState?.currentAction !== "pin") return;
+
+    const state = sessionState.data as PinSessionState;
+    switch (state.pinStep) {
+      case "current":
+        await this.handleCurrentPin(bot, chatId, state, pin);
+        break;
+      case "new":
+        await this.handleNewPin(bot, chatId, pin);
+        break;
+      case "repeat":
+        await this.handleRepeatedPin(bot, chatId, state, pin);
+        break;
+    }
+  }
+
+  /**
+   * Check the current PIN before changing or removing it
+   */
+  private async handleCurrentPin(
+    bot: TelegramBot,
+    chatId: number,
+    state: PinSessionState,
+    pin: string
+  ): Promise<void> {
+    const result = PinService.verifyPin(chatId, pin);
+    if (!result.ok) {
+      await this.handleWrongPin(bot, chatId, result.attemptsLeft);
+      return;
+    }
+
+    if (state.pinAction === "remove") {
+      PinService.removePin(chatId);
+      AuditLogService.record(
+        {
+          action: "pin.remove",
+          chatId,
+          organizationId: SessionService.getSession(chatId)?.organizationId,
+        },
+        { status: "success" }
+      );
+      this.clearSessionData(chatId);
+      await bot.sendMessage(chatId, "✅ Your PIN has been removed.", {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      });
+      return;
+    }
+
+    this.updateSessionData<PinSessionState>(chatId, { pinStep: "new" });
+    await bot.sendMessage(
+      chatId,
+      `Please enter a new PIN of ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits:`,
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "❌ Cancel", callback_data: "pin:cancel" }],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Take the new PIN and ask for it again
+   */
+  private async handleNewPin(
+    bot: TelegramBot,
+    chatId: number,
+    pin: string
+  ): Promise<void> {
+    if (!PinService.isValidPin(pin)) {
+      await bot.sendMessage(
+        chatId,
+        `⚠️ A PIN must be ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits. Please try again:`
+      );
+      return;
+    }
+
+    const { salt, hash } = PinService.hashPin(pin);
+    this.updateSessionData<PinSessionState>(chatId, {
+      pinStep: "repeat",
+      newPinSalt: salt,
+      newPinHash: hash,
+    });
+    await bot.sendMessage(chatId, "Please enter the new PIN again:", {
+      reply_markup: {
+        inline_keyboard: [[{ text: "❌ Cancel", callback_data: "pin:cancel" }]],
+      },
+    });
+  }
+
+  /**
+   * Save the new PIN once it was entered the same way twice
+   */
+  private async handleRepeatedPin(
+    bot: TelegramBot,
+    chatId: number,
+    state: PinSessionState,
+    pin: string
+  ): Promise<void> {
+    const { newPinSalt, newPinHash } = state;
+    if (
+      !newPinSalt ||
+      !newPinHash ||
+      !PinService.matchesHash(pin, newPinSalt, newPinHash)
+    ) {
+      this.updateSessionData<PinSessionState>(chatId, {
+        pinStep: "new",
+        newPinSalt: undefined,
+        newPinHash: undefined,
+      });
+      await bot.sendMessage(
+        chatId,
+        "❌ The PINs don't match. Please enter a new PIN:"
+      );
+      return;
+    }
+
+    PinService.setPin(chatId, { salt: newPinSalt, hash: newPinHash });
+    AuditLogService.record(
+      {
+        action: "pin.set",
+        chatId,
+        organizationId: SessionService.getSession(chatId)?.organizationId,
+        payload: { changed: state.pinAction === "change" },
+      },
+      { status: "success" }
+    );
+    this.clearSessionData(chatId);
+
+    await bot.sendMessage(
+      chatId,
+      "✅ Your PIN has been saved. You'll be asked for it before large transfers and after periods of inactivity.",
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Tell the user how many attempts are left, or lock the session when
+   * none are
+   */
+  private async handleWrongPin(
+    bot: TelegramBot,
+    chatId: number,
+    attemptsLeft: number
+  ): Promise<void> {
+    if (attemptsLeft > 0) {
+      await bot.sendMessage(
+        chatId,
+        `❌ Wrong PIN. ${attemptsLeft} ${
+          attemptsLeft === 1 ? "attempt" : "attempts"
+        } left before you are logged out.`
+      );
+      return;
+    }
+
+    const session = SessionService.getSession(chatId);
+    NotificationCommand.removeNotificationsOnLogout(chatId);
+    SessionService.deleteSession(chatId);
+    AuditLogService.record(
+      {
+        action: "auth.logout",
+        chatId,
+        organizationId: session?.organizationId,
+        payload: { reason: "Too many wrong PINs" },
+      },
+      { status: "success" }
+    );
+    logger.warn(`Chat ${chatId} logged out after too many wrong PINs`);
+
+    await bot.sendMessage(
+      chatId,
+      "🔒 Too many wrong PINs. You have been logged out for your security.\nLog in again with your email to continue.",
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "🔑 Login", callback_data: "action:login" }],
+          ],
+        },
+      }
+    );
+  }
+}
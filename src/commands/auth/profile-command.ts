@@ -24,6 +24,7 @@ interface ProfileSessionState extends SessionState {
 export class ProfileCommand extends BaseAuthCommand {
   name = "profile";
   description = "View your account profile information";
+  requiresAuth = true;
 
   /**
    * Get the callback prefix for this command
@@ -0,0 +1,154 @@
+import TelegramBot from "node-telegram-bot-api";
+import { requireAuth } from "../../core/middleware";
+import { SessionService } from "../../core/session.service";
+import { AuditLogService } from "../../core/audit-log.service";
+import { escapeMarkdown, formatAccountLabel } from "../../utils/format";
+import { getModuleLogger } from "../../utils/logger";
+import { NotificationCommand } from "../notification-command";
+import { BaseAuthCommand } from "./base-auth-command";
+
+// Create module logger
+const logger = getModuleLogger("switch-command");
+
+/**
+ * Switch command implementation
+ * Lists the Copperx accounts logged in from the chat and changes the active
+ * one. More accounts are added through the login flow.
+ */
+export class SwitchCommand extends BaseAuthCommand {
+  name = "switch";
+  description = "Switch between your Copperx accounts";
+  requiresAuth = true;
+
+  /**
+   * Get the callback prefix for this command
+   */
+  protected getCallbackPrefix(): string {
+    return "switch";
+  }
+
+  /**
+   * Show the accounts of the chat
+   */
+  protected async startAuthFlow(
+    bot: TelegramBot,
+    chatId: number,
+    _msg: TelegramBot.Message
+  ): Promise<void> {
+    await requireAuth(bot, chatId, async () => {
+      await this.showAccounts(bot, chatId);
+    });
+  }
+
+  /**
+   * Process callback data for this command
+   */
+  protected async processCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    const chatId = query.message.chat.id;
+    const [, action, organizationId] = query.data.split(":");
+
+    if (action === "list") {
+      await this.startAuthFlow(bot, chatId, query.message);
+    } else if (action === "to" && organizationId) {
+      await this.switchTo(bot, chatId, organizationId);
+    }
+  }
+
+  /**
+   * List the accounts with a button for each inactive one
+   */
+  private async showAccounts(bot: TelegramBot, chatId: number): Promise<void> {
+    const [active, ...linked] = SessionService.listAccounts(chatId);
+    if (!active) return;
+
+    let message = "🔀 *Your Accounts*\n\n";
+    message += `✅ ${escapeMarkdown(formatAccountLabel(active))} (active)\n`;
+    linked.forEach((account) => {
+      message += `▫️ ${escapeMarkdown(formatAccountLabel(account))}\n`;
+    });
+    message +=
+      linked.length > 0
+        ? "\nChoose the account to use:"
+        : "\nAdd another Copperx account to switch between them without logging out.";
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = linked.map(
+      (account) => [
+        {
+          text: `🔀 ${formatAccountLabel(account)}`,
+          callback_data: `switch:to:${account.organizationId}`,
+        },
+      ]
+    );
+    keyboard.push([{ text: "➕ Add Account", callback_data: "login:add" }]);
+    keyboard.push([{ text: "« Back to Menu", callback_data: "menu:main" }]);
+
+    await bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  /**
+   * Make an account active and move the notifications to it
+   */
+  private async switchTo(
+    bot: TelegramBot,
+    chatId: number,
+    organizationId: string
+  ): Promise<void> {
+    const previous = SessionService.getSession(chatId);
+    const session = SessionService.switchAccount(chatId, organizationId);
+    if (!session) {
+      await bot.sendMessage(
+        chatId,
+        "⚠️ That account is no longer logged in. Please add it again.",
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "➕ Add Account", callback_data: "login:add" }],
+              [{ text: "« Back to Menu", callback_data: "menu:main" }],
+            ],
+          },
+        }
+      );
+      return;
+    }
+
+    AuditLogService.record(
+      {
+        action: "auth.switch",
+        chatId,
+        organizationId: session.organizationId,
+        payload: { previousOrganizationId: previous?.organizationId },
+      },
+      { status: "success" }
+    );
+    logger.info(`Chat ${chatId} switched to organization ${organizationId}`);
+
+    await NotificationCommand.switchNotifications(bot, chatId, session);
+
+    await bot.sendMessage(
+      chatId,
+      `✅ Switched to ${escapeMarkdown(
+        formatAccountLabel(session)
+      )}.\n\nBalances, history and transfers now use this account.`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: "💰 Balance", callback_data: "action:balance" },
+              { text: "🔀 Switch Again", callback_data: "switch:list" },
+            ],
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import TelegramBot from "node-telegram-bot-api";
 import { BotCommand, commandRegistry } from "../core/command";
 import { config } from "../config";
+import { isAdmin } from "../core/middleware";
 
 /**
  * Help command implementation
@@ -15,8 +16,10 @@ export class HelpCommand implements BotCommand {
   async execute(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
     const chatId = msg.chat.id;
 
-    // Get all commands from registry
-    const commands = commandRegistry.getCommands();
+    // Get all commands from registry, admin commands only for admins
+    const commands = commandRegistry
+      .getCommands()
+      .filter((cmd) => !cmd.requiresAdmin || isAdmin(msg.from?.id));
     const helpText = this.buildHelpMessage(commands);
 
     bot.sendMessage(chatId, helpText, {
@@ -1,14 +1,13 @@
 import TelegramBot from "node-telegram-bot-api";
 import { registerAuthCommands } from "./auth";
 import { registerWalletCommands } from "./wallet";
-import {
-  registerTransferCommands,
-  registerTransferMessageHandlers,
-} from "./transfer";
+import { registerTransferCommands } from "./transfer";
 import { StartCommand } from "./start-command";
 import { MenuCommand } from "./menu-command";
 import { HelpCommand } from "./help-command";
 import { NotificationCommand } from "./notification-command";
+import { AdminCommand } from "./admin-command";
+import { TreasuryCommand } from "./treasury-command";
 import { commandRegistry } from "../core/command";
 import { getModuleLogger } from "../utils/logger";
 
@@ -26,11 +25,15 @@ export function registerAllCommands(bot: TelegramBot): void {
   const menuCommand = new MenuCommand();
   const helpCommand = new HelpCommand();
   const notificationCommand = new NotificationCommand();
+  const adminCommand = new AdminCommand();
+  const treasuryCommand = new TreasuryCommand();
 
   commandRegistry.registerCommand(startCommand);
   commandRegistry.registerCommand(menuCommand);
   commandRegistry.registerCommand(helpCommand);
   commandRegistry.registerCommand(notificationCommand);
+  commandRegistry.registerCommand(adminCommand);
+  commandRegistry.registerCommand(treasuryCommand);
 
   // Register core command callbacks
   commandRegistry.registerCallbackHandler("menu", menuCommand);
@@ -40,20 +43,23 @@ export function registerAllCommands(bot: TelegramBot): void {
     "action:notifications",
     notificationCommand
   );
+  commandRegistry.registerCallbackHandler("admin", adminCommand);
+  commandRegistry.registerCallbackHandler("treasury", treasuryCommand);
 
   // Register domain commands
   registerAuthCommands(bot);
   registerWalletCommands(bot);
   registerTransferCommands(bot);
 
-  // Register message handlers for transfer-related user inputs
-  registerTransferMessageHandlers(bot);
-
-  // Set up bot command list
-  const commands = commandRegistry.getCommands().map((cmd) => ({
-    command: cmd.name,
-    description: cmd.description,
-  }));
+  // Set up bot command list; admin commands are left out so other users
+  // don't see them
+  const commands = commandRegistry
+    .getCommands()
+    .filter((cmd) => !cmd.requiresAdmin)
+    .map((cmd) => ({
+      command: cmd.name,
+      description: cmd.description,
+    }));
 
   bot
     .setMyCommands(commands)
@@ -19,6 +19,7 @@ const activeSubscriptions = new Map<number, any>();
 export class NotificationCommand implements BotCommand {
   name = "notifications";
   description = "Manage deposit notifications";
+  requiresAuth = true;
 
   /**
    * Execute notification command
@@ -169,6 +170,21 @@ export class NotificationCommand implements BotCommand {
     }
   }
 
+  /**
+   * Move notifications to the account that became active
+   * Chats that turned notifications off are left alone.
+   */
+  public static async switchNotifications(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession
+  ): Promise<void> {
+    if (!activeSubscriptions.has(chatId)) return;
+
+    NotificationCommand.removeNotificationsOnLogout(chatId);
+    await NotificationCommand.initNotificationsOnLogin(bot, chatId, session);
+  }
+
   /**
    * Remove notifications on logout
    * This should be called when user logs out
@@ -1,15 +1,33 @@
 import TelegramBot from "node-telegram-bot-api";
 import { BaseTransferCommand } from "./base-transfer-command";
 import { ExtendedSession, SessionState } from "../../core/session.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
+import { AuditLogService } from "../../core/audit-log.service";
+import { getRecipientKey, LimitsService } from "../../core/limits.service";
 import * as transferService from "../../services/transfer.service";
+import * as bankService from "../../services/bank.service";
 import { handleApiErrorResponse } from "../../utils/error-handler";
-import { formatCurrency } from "../../utils/format";
 import {
-  createAmountKeyboard,
-  createConfirmationKeyboard,
-} from "../../utils/keyboard";
+  escapeMarkdown,
+  formatAccountLabel,
+  formatBankAccountLabel,
+  formatCurrency,
+  formatTransferStatusFooter,
+} from "../../utils/format";
+import { TransferTrackerService } from "../../core/transfer-tracker.service";
+import { createAmountKeyboard } from "../../utils/keyboard";
 import { getModuleLogger } from "../../utils/logger";
 import { SessionService } from "../../core/session.service";
+import { requireAuth } from "../../core/middleware";
+import { Account } from "../../types";
+import { OFFRAMP_QUOTE_TTL_MS } from "../../utils/constants";
+import {
+  amountToString,
+  compareAmounts,
+  isPositiveAmount,
+  parseAmount,
+  toAmount,
+} from "../../utils/money";
 
 // Create module logger
 const logger = getModuleLogger("bank-withdrawal-command");
@@ -19,8 +37,12 @@ const logger = getModuleLogger("bank-withdrawal-command");
  */
 export interface BankWithdrawalSessionState extends SessionState {
   currentAction: "withdrawbank";
-  step: "amount" | "confirm";
-  amount?: number;
+  step: "account" | "amount" | "confirm";
+  bankAccountId?: string;
+  amount?: string; // Decimal string, e.g. "10.5"
+  quotePayload?: string;
+  quoteSignature?: string;
+  quotedAt?: string; // ISO date string
 }
 
 /**
@@ -38,30 +60,95 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
   }
 
   /**
-   * Start the bank withdrawal flow
+   * Handle callback queries
+   * Steps of the flow use their own "withdraw:" callbacks so they don't
+   * collide with the amount and confirm buttons of the other transfer flows.
+   */
+  async handleCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    if (query.data.startsWith("withdraw:")) {
+      const chatId = query.message.chat.id;
+
+      // Answer callback query to remove loading indicator
+      bot.answerCallbackQuery(query.id);
+
+      requireAuth(bot, chatId, async (session) => {
+        await this.processCallback(bot, query, session);
+      });
+      return;
+    }
+
+    await super.handleCallback(bot, query);
+  }
+
+  /**
+   * Start the bank withdrawal flow by choosing the receiving bank account
    */
   protected async startTransferFlow(
     bot: TelegramBot,
     chatId: number,
-    _session: ExtendedSession
+    session: ExtendedSession
   ): Promise<void> {
     // Initialize state
+    this.clearSessionData(chatId);
     this.updateSessionData<BankWithdrawalSessionState>(chatId, {
       currentAction: "withdrawbank",
-      step: "amount",
+      step: "account",
     });
 
-    bot.sendMessage(
-      chatId,
-      "🏦 *Withdraw to Bank*\n\n" +
-        "Please select or enter the amount in USD that you want to withdraw to your bank account:",
-      {
-        parse_mode: "Markdown",
-        reply_markup: {
-          inline_keyboard: createAmountKeyboard(),
-        },
+    try {
+      const accounts = await bankService.getBankAccounts(session.token);
+
+      if (accounts.length === 0) {
+        this.clearSessionData(chatId);
+        bot.sendMessage(
+          chatId,
+          "🏦 *Withdraw to Bank*\n\n" +
+            "You don't have a bank account set up yet. " +
+            "Please add a bank account first.",
+          {
+            parse_mode: "Markdown",
+            reply_markup: {
+              inline_keyboard: [
+                [{ text: "➕ Add Bank Account", callback_data: "banks:add" }],
+                [{ text: "« Back to Menu", callback_data: "menu:main" }],
+              ],
+            },
+          }
+        );
+        return;
       }
-    );
+
+      const keyboard: TelegramBot.InlineKeyboardButton[][] = accounts.map(
+        (account) => [
+          {
+            text:
+              (account.isDefault ? "⭐ " : "🏦 ") +
+              formatBankAccountLabel(account),
+            callback_data: `withdraw:account:${account.id}`,
+          },
+        ]
+      );
+      keyboard.push([{ text: "❌ Cancel", callback_data: "withdraw:cancel" }]);
+
+      bot.sendMessage(
+        chatId,
+        "🏦 *Withdraw to Bank*\n\n" +
+          "Please choose the bank account that should receive the funds:",
+        {
+          parse_mode: "Markdown",
+          reply_markup: { inline_keyboard: keyboard },
+        }
+      );
+    } catch (error: any) {
+      logger.error(`Failed to load bank accounts:`, error);
+      handleApiErrorResponse(bot, chatId, error, "transfer:method:bank");
+      this.clearSessionData(chatId);
+    }
   }
 
   /**
@@ -83,9 +170,19 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
       return;
     }
 
+    // Handle bank account selection
+    if (callbackData.startsWith("withdraw:account:")) {
+      await this.processAccountSelection(
+        bot,
+        chatId,
+        callbackData.substring("withdraw:account:".length)
+      );
+      return;
+    }
+
     // Handle amount selection from keyboard
-    if (callbackData.startsWith("amount:")) {
-      const amountPart = callbackData.split(":")[1];
+    if (callbackData.startsWith("withdraw:amount:")) {
+      const amountPart = callbackData.split(":")[2];
 
       if (amountPart === "custom") {
         bot.sendMessage(
@@ -94,7 +191,7 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
           {
             reply_markup: {
               inline_keyboard: [
-                [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
+                [{ text: "❌ Cancel", callback_data: "withdraw:cancel" }],
               ],
             },
           }
@@ -102,21 +199,34 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
         return;
       }
 
-      const amount = parseFloat(amountPart);
-      if (!isNaN(amount)) {
-        await this.processAmountSelection(bot, chatId, amount);
+      const amount = parseAmount(amountPart);
+      if (amount !== undefined) {
+        await this.processAmountSelection(
+          bot,
+          chatId,
+          amountToString(amount)
+        );
       }
       return;
     }
 
-    // Handle transfer confirmation
-    if (callbackData === "transfer:confirm") {
+    // Handle quote refresh
+    if (callbackData === "withdraw:requote") {
+      const state = this.getSessionData<BankWithdrawalSessionState>(chatId);
+      if (state?.amount) {
+        await this.processAmountSelection(bot, chatId, state.amount);
+      }
+      return;
+    }
+
+    // Handle withdrawal confirmation
+    if (callbackData === "withdraw:confirm") {
       await this.processWithdrawalConfirmation(bot, chatId, session);
       return;
     }
 
-    // Handle transfer cancellation
-    if (callbackData === "transfer:cancel") {
+    // Handle withdrawal cancellation
+    if (callbackData === "withdraw:cancel") {
       await this.sendCancelMessage(bot, chatId);
       return;
     }
@@ -143,6 +253,64 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
     }
   }
 
+  /**
+   * Get the bank account chosen for this withdrawal
+   */
+  private async getSelectedAccount(
+    token: string,
+    bankAccountId: string | undefined
+  ): Promise<Account | undefined> {
+    if (!bankAccountId) return undefined;
+    const accounts = await bankService.getBankAccounts(token);
+    return accounts.find((account) => account.id === bankAccountId);
+  }
+
+  /**
+   * Continue the withdrawal at the step it stopped
+   * A withdrawal waiting for confirmation gets a fresh quote.
+   */
+  async resumeFlow(bot: TelegramBot, chatId: number): Promise<void> {
+    const state = this.getSessionData<BankWithdrawalSessionState>(chatId);
+
+    if (state?.bankAccountId && state.amount && state.step === "confirm") {
+      await this.processAmountSelection(bot, chatId, state.amount);
+    } else if (state?.bankAccountId && state.step === "amount") {
+      await this.processAccountSelection(bot, chatId, state.bankAccountId);
+    } else {
+      await super.resumeFlow(bot, chatId);
+    }
+  }
+
+  /**
+   * Process bank account selection and ask for the amount
+   */
+  private async processAccountSelection(
+    bot: TelegramBot,
+    chatId: number,
+    bankAccountId: string
+  ): Promise<void> {
+    this.updateSessionData<BankWithdrawalSessionState>(chatId, {
+      currentAction: "withdrawbank",
+      bankAccountId,
+      step: "amount",
+    });
+
+    bot.sendMessage(
+      chatId,
+      "🏦 *Withdraw to Bank*\n\n" +
+        "Please select or enter the amount in USDC that you want to withdraw to your bank account:",
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: createAmountKeyboard(
+            "withdraw:amount",
+            "withdraw:cancel"
+          ),
+        },
+      }
+    );
+  }
+
   /**
    * Process amount input
    */
@@ -151,17 +319,17 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
     chatId: number,
     amountText: string
   ): Promise<void> {
-    const amount = parseFloat(amountText);
+    const amount = parseAmount(amountText);
 
     // Validate amount
-    if (isNaN(amount) || amount <= 0) {
+    if (amount === undefined || !isPositiveAmount(amount)) {
       bot.sendMessage(
         chatId,
         "⚠️ Please enter a valid amount greater than 0.",
         {
           reply_markup: {
             inline_keyboard: [
-              [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
+              [{ text: "❌ Cancel", callback_data: "withdraw:cancel" }],
             ],
           },
         }
@@ -169,26 +337,52 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
       return;
     }
 
-    await this.processAmountSelection(bot, chatId, amount);
+    await this.processAmountSelection(bot, chatId, amountToString(amount));
   }
 
   /**
-   * Process amount selection from keyboard or input
+   * Process amount selection: check the balance, fetch a quote and
+   * validate the amount against the quote's limits
    */
   private async processAmountSelection(
     bot: TelegramBot,
     chatId: number,
-    amount: number
+    amount: string
   ): Promise<void> {
     try {
       // Get the session for API calls
       const session = SessionService.getSession(chatId);
       if (!session) return;
 
+      const state = this.getSessionData<BankWithdrawalSessionState>(chatId);
+      const account = await this.getSelectedAccount(
+        session.token,
+        state?.bankAccountId
+      );
+      if (!account) {
+        bot.sendMessage(
+          chatId,
+          "⚠️ The selected bank account is no longer available. Please start again.",
+          {
+            reply_markup: {
+              inline_keyboard: [
+                [
+                  {
+                    text: "🏦 Choose Bank Account",
+                    callback_data: "transfer:method:bank",
+                  },
+                ],
+              ],
+            },
+          }
+        );
+        return;
+      }
+
       // Check if user has sufficient balance
       const balanceCheck = await transferService.checkSufficientBalance(
         session.token,
-        amount.toString()
+        amount
       );
 
       if (!balanceCheck.hasSufficientBalance) {
@@ -196,14 +390,62 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
           chatId,
           `⚠️ *Insufficient Balance*\n\n` +
             `You don't have enough funds to complete this withdrawal.\n` +
-            `Amount: ${formatCurrency(amount, "USD")}\n` +
+            `Amount: ${formatCurrency(amount, "USDC")}\n` +
             `Available: ${formatCurrency(balanceCheck.balance, "USDC")}`,
           {
             parse_mode: "Markdown",
             reply_markup: {
               inline_keyboard: [
                 [{ text: "💰 Deposit", callback_data: "action:deposit" }],
-                [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
+                [{ text: "❌ Cancel", callback_data: "withdraw:cancel" }],
+              ],
+            },
+          }
+        );
+        return;
+      }
+
+      // Get a quote for the chosen account
+      const quote = await transferService.getOfframpQuote(
+        session.token,
+        amount,
+        account
+      );
+
+      // Validate the amount against the limits of the quote
+      const minAmount = quote.minAmount
+        ? transferService.parseApiAmount(quote.minAmount)
+        : undefined;
+      const maxAmount = quote.maxAmount
+        ? transferService.parseApiAmount(quote.maxAmount)
+        : undefined;
+
+      const parsedAmount = toAmount(amount);
+      if (
+        (minAmount !== undefined &&
+          compareAmounts(parsedAmount, minAmount) < 0) ||
+        (maxAmount !== undefined &&
+          compareAmounts(parsedAmount, maxAmount) > 0)
+      ) {
+        let limits = "";
+        if (minAmount !== undefined) {
+          limits += `Minimum: ${formatCurrency(minAmount, "USDC")}\n`;
+        }
+        if (maxAmount !== undefined) {
+          limits += `Maximum: ${formatCurrency(maxAmount, "USDC")}\n`;
+        }
+
+        this.updateSessionData<BankWithdrawalSessionState>(chatId, {
+          step: "amount",
+        });
+        bot.sendMessage(
+          chatId,
+          `⚠️ *Amount Out of Range*\n\n${limits}\nPlease enter a different amount:`,
+          {
+            parse_mode: "Markdown",
+            reply_markup: {
+              inline_keyboard: [
+                [{ text: "❌ Cancel", callback_data: "withdraw:cancel" }],
               ],
             },
           }
@@ -211,16 +453,28 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
         return;
       }
 
-      // Update state with amount
+      if (quote.error || !quote.quotePayload || !quote.quoteSignature) {
+        throw new Error(quote.error || "No quote available for this account");
+      }
+
+      // Update state with amount and quote
       this.updateSessionData<BankWithdrawalSessionState>(chatId, {
         amount,
+        quotePayload: quote.quotePayload,
+        quoteSignature: quote.quoteSignature,
+        quotedAt: new Date().toISOString(),
         step: "confirm",
       });
 
       // Show confirmation
-      await this.showWithdrawalConfirmation(bot, chatId);
+      await this.showWithdrawalConfirmation(
+        bot,
+        chatId,
+        account,
+        quote.arrivalTimeMessage
+      );
     } catch (error: any) {
-      logger.error(`Balance check error:`, error);
+      logger.error(`Withdrawal quote error:`, error);
       handleApiErrorResponse(bot, chatId, error, "transfer:method:bank");
 
       // Reset state
@@ -229,28 +483,68 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
   }
 
   /**
-   * Show withdrawal confirmation
+   * Show withdrawal confirmation with the quoted fee, rate and arrival time
    */
   private async showWithdrawalConfirmation(
     bot: TelegramBot,
-    chatId: number
+    chatId: number,
+    account: Account,
+    arrivalTimeMessage?: string
   ): Promise<void> {
     // Get current state
     const state = this.getSessionData<BankWithdrawalSessionState>(chatId);
-    if (!state || !state.amount) return;
+    if (!state || !state.amount || !state.quotePayload) return;
+
+    const session = SessionService.getSession(chatId);
+    if (!session) return;
 
-    const message =
+    const quote = transferService.parseOfframpQuote({
+      quotePayload: state.quotePayload,
+      quoteSignature: state.quoteSignature || "",
+    });
+
+    let message =
       `🏦 *Bank Withdrawal Confirmation*\n\n` +
-      `Amount: ${formatCurrency(state.amount, "USD")}\n\n` +
-      `Funds will be sent to your registered bank account. Processing time may vary depending on your bank.`;
+      `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
+      `Bank Account: ${escapeMarkdown(formatBankAccountLabel(account))}\n` +
+      `Amount: ${formatCurrency(state.amount, "USDC")}\n`;
+
+    if (quote) {
+      const feeCurrency = quote.feeCurrency || quote.currency;
+      message += `Fee: ${formatCurrency(
+        transferService.parseApiAmount(quote.totalFee),
+        feeCurrency
+      )}${quote.feePercentage ? ` (${quote.feePercentage}%)` : ""}\n`;
+      if (quote.rate) {
+        message +=
+          `Rate: 1 ${quote.currency} = ` +
+          `${quote.rate} ${quote.toCurrency}\n`;
+      }
+      message += `You Receive: ${formatCurrency(
+        transferService.parseApiAmount(quote.toAmount),
+        quote.toCurrency
+      )}\n`;
+    }
+
+    const arrival = arrivalTimeMessage || quote?.arrivalTimeMessage;
+    if (arrival) {
+      message += `Arrival: ${escapeMarkdown(arrival)}\n`;
+    }
+
+    message += `\nThis quote is valid for ${
+      OFFRAMP_QUOTE_TTL_MS / 60000
+    } minutes.`;
 
     bot.sendMessage(chatId, message, {
       parse_mode: "Markdown",
       reply_markup: {
-        inline_keyboard: createConfirmationKeyboard(
-          "transfer:confirm",
-          "transfer:cancel"
-        ),
+        inline_keyboard: [
+          [
+            { text: "✅ Confirm", callback_data: "withdraw:confirm" },
+            { text: "❌ Cancel", callback_data: "withdraw:cancel" },
+          ],
+          [{ text: "🔄 Refresh Quote", callback_data: "withdraw:requote" }],
+        ],
       },
     });
   }
@@ -265,7 +559,35 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
   ): Promise<void> {
     // Get current state
     const state = this.getSessionData<BankWithdrawalSessionState>(chatId);
-    if (!state || !state.amount) return;
+    if (
+      !state ||
+      state.step !== "confirm" ||
+      !state.amount ||
+      !state.quotePayload ||
+      !state.quoteSignature
+    ) {
+      return;
+    }
+
+    // Expired quotes are refreshed and shown again for confirmation
+    const quoteAge = Date.now() - new Date(state.quotedAt || 0).getTime();
+    if (quoteAge > OFFRAMP_QUOTE_TTL_MS) {
+      bot.sendMessage(
+        chatId,
+        "⏳ Your quote has expired. Here is an updated quote:"
+      );
+      await this.processAmountSelection(bot, chatId, state.amount);
+      return;
+    }
+
+    const transfers = [
+      {
+        recipient: getRecipientKey("bank", state.bankAccountId || "default"),
+        amount: toAmount(state.amount),
+        currency: "USDC",
+      },
+    ];
+    if (!(await this.checkSpendingLimits(bot, chatId, transfers))) return;
 
     try {
       // Send loading message
@@ -275,37 +597,80 @@ export class BankWithdrawalCommand extends BaseTransferCommand {
         { parse_mode: "Markdown" }
       );
 
-      // Execute bank withdrawal
-      const result = await transferService.withdrawToBank(
-        session.token,
-        state.amount.toString(),
-        "USD"
+      // Execute bank withdrawal with the confirmed quote
+      const { quotePayload, quoteSignature } = state;
+      const result = await AuditLogService.audit(
+        {
+          action: "withdrawal.bank",
+          chatId,
+          organizationId: session.organizationId,
+          payload: {
+            bankAccountId: state.bankAccountId,
+            amount: state.amount,
+            currency: "USDC",
+            quotedAt: state.quotedAt,
+          },
+        },
+        () =>
+          transferService.withdrawToBank(session.token, {
+            quotePayload,
+            quoteSignature,
+          })
       );
+      LimitsService.recordTransfers(chatId, transfers);
 
       // Reset state
+      recordFlowCompleted(chatId);
       this.clearSessionData(chatId);
 
       // Send success message
+      const summary = `Withdrawal of ${formatCurrency(
+        state.amount,
+        "USDC"
+      )} to your bank account`;
       const successMessage =
         `✅ *Withdrawal Request Submitted*\n\n` +
         `You've requested to withdraw ${formatCurrency(
           state.amount,
-          "USD"
+          "USDC"
         )} to your bank account.\n` +
+        `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
         `Reference ID: ${result.id}\n\n` +
-        `The funds will be processed and transferred to your registered bank account. ` +
+        `The funds will be processed and transferred to your chosen bank account. ` +
         `This typically takes 1-3 business days depending on your bank.`;
+      const keyboard = [
+        [{ text: "💰 View Balance", callback_data: "action:balance" }],
+        [{ text: "« Back to Menu", callback_data: "menu:main" }],
+      ];
 
       bot.deleteMessage(chatId, loadingMsg.message_id);
-      bot.sendMessage(chatId, successMessage, {
-        parse_mode: "Markdown",
-        reply_markup: {
-          inline_keyboard: [
-            [{ text: "💰 View Balance", callback_data: "action:balance" }],
-            [{ text: "« Back to Menu", callback_data: "menu:main" }],
-          ],
-        },
-      });
+      const confirmation = await bot
+        .sendMessage(
+          chatId,
+          successMessage + formatTransferStatusFooter(result.status),
+          {
+            parse_mode: "Markdown",
+            reply_markup: { inline_keyboard: keyboard },
+          }
+        )
+        .catch((error) => {
+          // The transfer went through, so don't report this as a failure
+          logger.error(`Failed to send transfer confirmation:`, error);
+          return undefined;
+        });
+
+      // Report status changes until the withdrawal completes
+      TransferTrackerService.track(
+        chatId,
+        session.organizationId,
+        result,
+        summary,
+        confirmation && {
+          messageId: confirmation.message_id,
+          text: successMessage,
+          keyboard,
+        }
+      );
     } catch (error: any) {
       logger.error(`Withdrawal error:`, error);
       handleApiErrorResponse(bot, chatId, error, "transfer:method:bank");
@@ -0,0 +1,829 @@
+import TelegramBot from "node-telegram-bot-api";
+import { BaseTransferCommand } from "./base-transfer-command";
+import { ExtendedSession, SessionState } from "../../core/session.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
+import * as bankService from "../../services/bank.service";
+import { Account, BankAccountType } from "../../types";
+import {
+  BANK_COUNTRIES,
+  getBankCountryRules,
+  normalizeBankInput,
+  validateBeneficiaryName,
+} from "../../utils/bank-validation";
+import {
+  escapeMarkdown,
+  formatBankAccountLabel,
+  maskAccountNumber,
+} from "../../utils/format";
+import { handleApiErrorResponse } from "../../utils/error-handler";
+import { getModuleLogger } from "../../utils/logger";
+
+// Create module logger
+const logger = getModuleLogger("banks-command");
+
+/**
+ * Interface for bank account creation session state
+ */
+interface BanksSessionState extends SessionState {
+  currentAction: "banks";
+  step:
+    | "country"
+    | "countryCode"
+    | "bankName"
+    | "routing"
+    | "accountNumber"
+    | "beneficiary"
+    | "accountType"
+    | "confirm";
+  country?: string;
+  bankName?: string;
+  routing?: string;
+  accountNumber?: string;
+  beneficiary?: string;
+  accountType?: BankAccountType;
+}
+
+/**
+ * Command to list, add, delete and set the default bank account
+ */
+export class BanksCommand extends BaseTransferCommand {
+  name = "banks";
+  description = "Manage your bank accounts";
+
+  /**
+   * Get the callback prefix for this command
+   */
+  protected getCallbackPrefix(): string {
+    return "banks:";
+  }
+
+  /**
+   * Show the user's bank accounts
+   */
+  protected async startTransferFlow(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession
+  ): Promise<void> {
+    await this.showBankAccountList(bot, chatId, session);
+  }
+
+  /**
+   * Process callback data
+   */
+  protected async processCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery,
+    session: ExtendedSession
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    const chatId = query.message.chat.id;
+    const [, action, value] = query.data.split(":");
+
+    switch (action) {
+      case "list":
+        await this.showBankAccountList(bot, chatId, session);
+        break;
+      case "add":
+        await this.startBankAccountCreation(bot, chatId);
+        break;
+      case "country":
+        await this.processCountrySelection(bot, chatId, value);
+        break;
+      case "type":
+        await this.processAccountTypeSelection(bot, chatId, value);
+        break;
+      case "save":
+        await this.processBankAccountCreation(bot, chatId, session);
+        break;
+      case "cancel":
+        await this.sendCreationCancelledMessage(bot, chatId);
+        break;
+      case "view":
+        await this.showBankAccountDetails(bot, chatId, session, value);
+        break;
+      case "default":
+        await this.processSetDefault(bot, chatId, session, value);
+        break;
+      case "delete":
+        await this.confirmDelete(bot, chatId, session, value);
+        break;
+      case "remove":
+        await this.processDelete(bot, chatId, session, value);
+        break;
+    }
+  }
+
+  /**
+   * Handle user input for multi-step flow
+   */
+  async handleUserInput(
+    bot: TelegramBot,
+    msg: TelegramBot.Message
+  ): Promise<void> {
+    if (!msg.text) return;
+
+    const chatId = msg.chat.id;
+    const text = msg.text.trim();
+    const state = this.getSessionData<BanksSessionState>(chatId);
+
+    if (!state || state.currentAction !== "banks") return;
+
+    switch (state.step) {
+      case "countryCode":
+        await this.processCountryCodeInput(bot, chatId, text);
+        break;
+      case "bankName":
+        await this.processBankNameInput(bot, chatId, text);
+        break;
+      case "routing":
+        await this.processRoutingInput(bot, chatId, text, state);
+        break;
+      case "accountNumber":
+        // Don't leave the full account number in the chat history
+        bot.deleteMessage(chatId, msg.message_id).catch(() => undefined);
+        await this.processAccountNumberInput(bot, chatId, text, state);
+        break;
+      case "beneficiary":
+        await this.processBeneficiaryInput(bot, chatId, text);
+        break;
+    }
+  }
+
+  /**
+   * Load the user's bank accounts
+   * Reports API errors to the user and returns undefined.
+   */
+  private async loadBankAccounts(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession
+  ): Promise<Account[] | undefined> {
+    try {
+      return await bankService.getBankAccounts(session.token);
+    } catch (error: any) {
+      logger.error(`Failed to load bank accounts:`, error);
+      handleApiErrorResponse(bot, chatId, error, "banks:list");
+      return undefined;
+    }
+  }
+
+  /**
+   * Show the list of bank accounts with a button per account
+   */
+  private async showBankAccountList(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession
+  ): Promise<void> {
+    const accounts = await this.loadBankAccounts(bot, chatId, session);
+    if (!accounts) return;
+
+    let message = "🏦 *Your Bank Accounts*\n\n";
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+
+    if (accounts.length === 0) {
+      message +=
+        "You have no bank accounts yet.\n\n" +
+        "Add one to withdraw your funds to your bank.";
+    } else {
+      accounts.forEach((account, index) => {
+        message +=
+          `*${index + 1}. ${escapeMarkdown(formatBankAccountLabel(account))}*` +
+          (account.isDefault ? " ⭐ Default" : "") +
+          "\n" +
+          this.formatAccountSummary(account) +
+          "\n";
+        keyboard.push([
+          {
+            text: `${index + 1}. ${formatBankAccountLabel(account)}${
+              account.isDefault ? " ⭐" : ""
+            }`,
+            callback_data: `banks:view:${account.id}`,
+          },
+        ]);
+      });
+    }
+
+    keyboard.push([
+      { text: "➕ Add Bank Account", callback_data: "banks:add" },
+    ]);
+    keyboard.push([{ text: "« Back to Menu", callback_data: "menu:main" }]);
+
+    bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  /**
+   * Format the beneficiary, country and account type of an account
+   */
+  private formatAccountSummary(account: Account): string {
+    const bank = account.bankAccount;
+    const country = getBankCountryRules(account.country).name;
+    return (
+      `Beneficiary: ${escapeMarkdown(bank?.bankBeneficiaryName || "-")}\n` +
+      `Country: ${escapeMarkdown(country)}\n` +
+      `Type: ${this.getAccountTypeLabel(bank?.bankAccountType)}\n`
+    );
+  }
+
+  /**
+   * Get the label of a bank account type
+   */
+  private getAccountTypeLabel(type?: BankAccountType): string {
+    switch (type) {
+      case BankAccountType.SAVINGS:
+        return "Savings";
+      case BankAccountType.CHECKING:
+        return "Checking";
+      default:
+        return "-";
+    }
+  }
+
+  /**
+   * Show details and actions of a single bank account
+   */
+  private async showBankAccountDetails(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    accountId: string
+  ): Promise<void> {
+    const accounts = await this.loadBankAccounts(bot, chatId, session);
+    if (!accounts) return;
+
+    const account = accounts.find((candidate) => candidate.id === accountId);
+    if (!account) {
+      await this.sendAccountNotFoundMessage(bot, chatId);
+      return;
+    }
+
+    const rules = getBankCountryRules(account.country);
+    const bank = account.bankAccount;
+    const routing = bank?.swiftCode || bank?.bankRoutingNumber;
+
+    let message =
+      `🏦 *${escapeMarkdown(formatBankAccountLabel(account))}*` +
+      (account.isDefault ? " ⭐ Default" : "") +
+      "\n\n" +
+      this.formatAccountSummary(account);
+    if (routing) {
+      message += `${rules.routingLabel}: \`${routing}\`\n`;
+    }
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    if (!account.isDefault) {
+      keyboard.push([
+        {
+          text: "⭐ Set as Default",
+          callback_data: `banks:default:${account.id}`,
+        },
+      ]);
+    }
+    keyboard.push([
+      { text: "🗑️ Delete", callback_data: `banks:delete:${account.id}` },
+    ]);
+    keyboard.push([
+      { text: "« Back to Accounts", callback_data: "banks:list" },
+    ]);
+
+    bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  /**
+   * Make a bank account the default account
+   */
+  private async processSetDefault(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    accountId: string
+  ): Promise<void> {
+    try {
+      const account = await bankService.setDefaultBankAccount(
+        session.token,
+        accountId
+      );
+
+      bot.sendMessage(
+        chatId,
+        `⭐ *${escapeMarkdown(
+          formatBankAccountLabel(account)
+        )}* is now your default bank account.`,
+        {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "🏦 My Bank Accounts", callback_data: "banks:list" }],
+            ],
+          },
+        }
+      );
+    } catch (error: any) {
+      logger.error(`Failed to set default bank account:`, error);
+      handleApiErrorResponse(
+        bot,
+        chatId,
+        error,
+        `banks:default:${accountId}`
+      );
+    }
+  }
+
+  /**
+   * Ask for confirmation before deleting a bank account
+   */
+  private async confirmDelete(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    accountId: string
+  ): Promise<void> {
+    const accounts = await this.loadBankAccounts(bot, chatId, session);
+    if (!accounts) return;
+
+    const account = accounts.find((candidate) => candidate.id === accountId);
+    if (!account) {
+      await this.sendAccountNotFoundMessage(bot, chatId);
+      return;
+    }
+
+    let message =
+      "🗑️ *Delete Bank Account*\n\n" +
+      `Are you sure you want to delete *${escapeMarkdown(
+        formatBankAccountLabel(account)
+      )}*?`;
+    if (account.isDefault && accounts.length > 1) {
+      message +=
+        "\n\nThis is your default account. Please choose a new default afterwards.";
+    }
+
+    bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: "✅ Yes, Delete",
+              callback_data: `banks:remove:${account.id}`,
+            },
+            { text: "❌ Cancel", callback_data: `banks:view:${account.id}` },
+          ],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Delete a bank account after confirmation
+   */
+  private async processDelete(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    accountId: string
+  ): Promise<void> {
+    try {
+      await bankService.deleteBankAccount(session.token, accountId);
+
+      bot.sendMessage(chatId, "✅ The bank account has been deleted.", {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "🏦 My Bank Accounts", callback_data: "banks:list" }],
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      });
+    } catch (error: any) {
+      logger.error(`Failed to delete bank account:`, error);
+      handleApiErrorResponse(bot, chatId, error, `banks:delete:${accountId}`);
+    }
+  }
+
+  /**
+   * Start adding a new bank account
+   */
+  private async startBankAccountCreation(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    this.updateSessionData<BanksSessionState>(chatId, {
+      currentAction: "banks",
+      step: "country",
+    });
+
+    // Group country buttons in rows of 2
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    for (let i = 0; i < BANK_COUNTRIES.length; i += 2) {
+      keyboard.push(
+        BANK_COUNTRIES.slice(i, i + 2).map((country) => ({
+          text: country.name,
+          callback_data: `banks:country:${country.code}`,
+        }))
+      );
+    }
+    keyboard.push([
+      { text: "🌍 Other Country", callback_data: "banks:country:other" },
+    ]);
+    keyboard.push(...this.createCancelKeyboard());
+
+    bot.sendMessage(
+      chatId,
+      "🏦 *New Bank Account*\n\nIn which country is the bank located?",
+      {
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard: keyboard },
+      }
+    );
+  }
+
+  /**
+   * Process country selection
+   */
+  private async processCountrySelection(
+    bot: TelegramBot,
+    chatId: number,
+    country: string
+  ): Promise<void> {
+    const state = this.getSessionData<BanksSessionState>(chatId);
+    if (!state || state.step !== "country") return;
+
+    if (country === "other") {
+      this.updateSessionData<BanksSessionState>(chatId, {
+        step: "countryCode",
+      });
+
+      bot.sendMessage(
+        chatId,
+        "🌍 Please enter the 3-letter ISO country code of the bank (e.g. `CAN`, `SGP`, `ARE`):",
+        {
+          parse_mode: "Markdown",
+          reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+        }
+      );
+      return;
+    }
+
+    if (!BANK_COUNTRIES.some((candidate) => candidate.code === country)) {
+      return;
+    }
+
+    await this.askBankName(bot, chatId, country);
+  }
+
+  /**
+   * Process country code input
+   */
+  private async processCountryCodeInput(
+    bot: TelegramBot,
+    chatId: number,
+    text: string
+  ): Promise<void> {
+    if (!/^[a-zA-Z]{3}$/.test(text)) {
+      bot.sendMessage(
+        chatId,
+        "⚠️ Please enter a 3-letter ISO country code, e.g. `CAN`.",
+        {
+          parse_mode: "Markdown",
+          reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+        }
+      );
+      return;
+    }
+
+    await this.askBankName(bot, chatId, text.toLowerCase());
+  }
+
+  /**
+   * Store the country and ask for the bank name
+   */
+  private async askBankName(
+    bot: TelegramBot,
+    chatId: number,
+    country: string
+  ): Promise<void> {
+    this.updateSessionData<BanksSessionState>(chatId, {
+      country,
+      step: "bankName",
+    });
+
+    bot.sendMessage(chatId, "🏛 Please enter the name of the bank:", {
+      reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+    });
+  }
+
+  /**
+   * Process bank name input
+   */
+  private async processBankNameInput(
+    bot: TelegramBot,
+    chatId: number,
+    bankName: string
+  ): Promise<void> {
+    if (bankName.length < 2 || bankName.length > 100) {
+      bot.sendMessage(
+        chatId,
+        "⚠️ The bank name must have 2 to 100 characters.",
+        { reply_markup: { inline_keyboard: this.createCancelKeyboard() } }
+      );
+      return;
+    }
+
+    const state = this.getSessionData<BanksSessionState>(chatId);
+    const rules = getBankCountryRules(state?.country || "");
+
+    this.updateSessionData<BanksSessionState>(chatId, {
+      bankName,
+      step: "routing",
+    });
+
+    bot.sendMessage(
+      chatId,
+      `🔢 Please enter the ${rules.routingLabel} (e.g. \`${rules.routingExample}\`):`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+      }
+    );
+  }
+
+  /**
+   * Process routing number or SWIFT/BIC code input
+   */
+  private async processRoutingInput(
+    bot: TelegramBot,
+    chatId: number,
+    text: string,
+    state: BanksSessionState
+  ): Promise<void> {
+    const rules = getBankCountryRules(state.country || "");
+    const routing = normalizeBankInput(text);
+    const error = rules.validateRouting(routing);
+
+    if (error) {
+      bot.sendMessage(chatId, `⚠️ ${error}`, {
+        reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+      });
+      return;
+    }
+
+    this.updateSessionData<BanksSessionState>(chatId, {
+      routing,
+      step: "accountNumber",
+    });
+
+    bot.sendMessage(
+      chatId,
+      `🔐 Please enter the ${rules.accountLabel} (e.g. \`${rules.accountExample}\`).\n\n` +
+        "_Your message is deleted from the chat after it is read._",
+      {
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+      }
+    );
+  }
+
+  /**
+   * Process account number input
+   */
+  private async processAccountNumberInput(
+    bot: TelegramBot,
+    chatId: number,
+    text: string,
+    state: BanksSessionState
+  ): Promise<void> {
+    const rules = getBankCountryRules(state.country || "");
+    const accountNumber = normalizeBankInput(text);
+    const error = rules.validateAccount(accountNumber);
+
+    if (error) {
+      bot.sendMessage(chatId, `⚠️ ${error}`, {
+        reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+      });
+      return;
+    }
+
+    this.updateSessionData<BanksSessionState>(chatId, {
+      accountNumber,
+      step: "beneficiary",
+    });
+
+    bot.sendMessage(
+      chatId,
+      `✅ Account ${maskAccountNumber(accountNumber)} received.\n\n` +
+        "👤 Please enter the beneficiary name exactly as it appears on the account:",
+      { reply_markup: { inline_keyboard: this.createCancelKeyboard() } }
+    );
+  }
+
+  /**
+   * Process beneficiary name input
+   */
+  private async processBeneficiaryInput(
+    bot: TelegramBot,
+    chatId: number,
+    beneficiary: string
+  ): Promise<void> {
+    const error = validateBeneficiaryName(beneficiary);
+
+    if (error) {
+      bot.sendMessage(chatId, `⚠️ ${error}`, {
+        reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+      });
+      return;
+    }
+
+    this.updateSessionData<BanksSessionState>(chatId, {
+      beneficiary,
+      step: "accountType",
+    });
+
+    bot.sendMessage(chatId, "📂 Please select the account type:", {
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: "Checking",
+              callback_data: `banks:type:${BankAccountType.CHECKING}`,
+            },
+            {
+              text: "Savings",
+              callback_data: `banks:type:${BankAccountType.SAVINGS}`,
+            },
+          ],
+          ...this.createCancelKeyboard(),
+        ],
+      },
+    });
+  }
+
+  /**
+   * Process account type selection and show the confirmation
+   */
+  private async processAccountTypeSelection(
+    bot: TelegramBot,
+    chatId: number,
+    accountType: string
+  ): Promise<void> {
+    const state = this.getSessionData<BanksSessionState>(chatId);
+    if (!state || state.step !== "accountType") return;
+    if (
+      !Object.values(BankAccountType).includes(accountType as BankAccountType)
+    ) {
+      return;
+    }
+
+    this.updateSessionData<BanksSessionState>(chatId, {
+      accountType: accountType as BankAccountType,
+      step: "confirm",
+    });
+
+    const rules = getBankCountryRules(state.country || "");
+
+    bot.sendMessage(
+      chatId,
+      "🏦 *Confirm Bank Account*\n\n" +
+        `Country: ${escapeMarkdown(rules.name)}\n` +
+        `Bank: ${escapeMarkdown(state.bankName || "")}\n` +
+        `${rules.routingLabel}: \`${state.routing}\`\n` +
+        `Account: ${maskAccountNumber(state.accountNumber || "")}\n` +
+        `Beneficiary: ${escapeMarkdown(state.beneficiary || "")}\n` +
+        `Type: ${this.getAccountTypeLabel(accountType as BankAccountType)}`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: "✅ Add Account", callback_data: "banks:save" },
+              { text: "❌ Cancel", callback_data: "banks:cancel" },
+            ],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Create the bank account
+   */
+  private async processBankAccountCreation(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession
+  ): Promise<void> {
+    const state = this.getSessionData<BanksSessionState>(chatId);
+    if (
+      !state ||
+      state.step !== "confirm" ||
+      !state.country ||
+      !state.bankName ||
+      !state.routing ||
+      !state.accountNumber ||
+      !state.beneficiary ||
+      !state.accountType
+    ) {
+      bot.sendMessage(
+        chatId,
+        this.formatErrorMessage("Bank account details are missing.")
+      );
+      return;
+    }
+
+    const rules = getBankCountryRules(state.country);
+
+    try {
+      // The first bank account becomes the default account
+      const existing = await bankService.getBankAccounts(session.token);
+
+      const account = await bankService.createBankAccount(session.token, {
+        country: state.country,
+        isDefault: existing.length === 0,
+        bankAccount: {
+          bankName: state.bankName,
+          bankAccountType: state.accountType,
+          bankRoutingNumber: state.routing,
+          bankAccountNumber: state.accountNumber,
+          bankBeneficiaryName: state.beneficiary,
+          swiftCode: rules.routingIsSwift ? state.routing : undefined,
+        },
+      });
+
+      recordFlowCompleted(chatId);
+      this.clearSessionData(chatId);
+
+      bot.sendMessage(
+        chatId,
+        "✅ *Bank Account Added*\n\n" +
+          `${escapeMarkdown(formatBankAccountLabel(account))} has been added` +
+          (account.isDefault ? " as your default bank account." : "."),
+        {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "🏦 My Bank Accounts", callback_data: "banks:list" }],
+              [
+                {
+                  text: "💸 Withdraw to Bank",
+                  callback_data: "transfer:method:bank",
+                },
+              ],
+            ],
+          },
+        }
+      );
+    } catch (error: any) {
+      logger.error(`Failed to add bank account:`, error);
+      // Keep the entered details so the user can retry
+      handleApiErrorResponse(bot, chatId, error, "banks:save");
+    }
+  }
+
+  /**
+   * Send a message for an account that no longer exists
+   */
+  private async sendAccountNotFoundMessage(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    bot.sendMessage(chatId, "⚠️ This bank account was not found.", {
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: "🏦 My Bank Accounts", callback_data: "banks:list" }],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Send a message for a cancelled bank account creation
+   */
+  private async sendCreationCancelledMessage(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    this.clearSessionData(chatId);
+
+    bot.sendMessage(chatId, "❌ Adding the bank account was cancelled.", {
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: "🏦 My Bank Accounts", callback_data: "banks:list" }],
+          [{ text: "« Back to Menu", callback_data: "menu:main" }],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Create the cancel keyboard for the creation flow
+   */
+  private createCancelKeyboard(): TelegramBot.InlineKeyboardButton[][] {
+    return [[{ text: "❌ Cancel", callback_data: "banks:cancel" }]];
+  }
+}
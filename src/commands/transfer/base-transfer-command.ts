@@ -1,11 +1,18 @@
 import TelegramBot from "node-telegram-bot-api";
 import { BotCommand } from "../../core/command";
 import { requireAuth } from "../../core/middleware";
+import {
+  describeLimitViolation,
+  LimitsService,
+  SpendingTransfer,
+} from "../../core/limits.service";
 import {
   SessionService,
   ExtendedSession,
   SessionState,
 } from "../../core/session.service";
+import { TreasuryService } from "../../core/treasury.service";
+import { escapeMarkdown } from "../../utils/format";
 
 // Create module logger
 // const logger = getModuleLogger("base-transfer-command");
@@ -25,6 +32,7 @@ interface TransferSessionState extends SessionState {
 export abstract class BaseTransferCommand implements BotCommand {
   abstract name: string;
   abstract description: string;
+  requiresAuth = true;
 
   /**
    * Execute the transfer command
@@ -32,7 +40,7 @@ export abstract class BaseTransferCommand implements BotCommand {
   async execute(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
     const chatId = msg.chat.id;
 
-    requireAuth(bot, chatId, async (session) => {
+    await requireAuth(bot, chatId, async (session) => {
       await this.startTransferFlow(bot, chatId, session);
     });
   }
@@ -54,7 +62,7 @@ export abstract class BaseTransferCommand implements BotCommand {
 
     // Check if callback data matches this command's prefix
     if (callbackData.startsWith(this.getCallbackPrefix())) {
-      requireAuth(bot, chatId, async (session) => {
+      await requireAuth(bot, chatId, async (session) => {
         await this.processCallback(bot, query, session);
       });
     }
@@ -105,6 +113,17 @@ export abstract class BaseTransferCommand implements BotCommand {
     // This is just a placeholder that provides a standard interface
   }
 
+  /**
+   * Continue the flow after the user logged in again
+   * Commands that can't continue from the current step start over.
+   */
+  async resumeFlow(bot: TelegramBot, chatId: number): Promise<void> {
+    const session = SessionService.getSession(chatId);
+    if (!session) return;
+
+    await this.startTransferFlow(bot, chatId, session);
+  }
+
   /**
    * Get session data with type safety
    * @param chatId The chat ID to get session data for
@@ -175,6 +194,47 @@ export abstract class BaseTransferCommand implements BotCommand {
     );
   }
 
+  /**
+   * Check transfers against the user's spending limits
+   * Treasury groups are held to their owner's limits. When a limit would be
+   * broken, the user is told which one and the flow ends.
+   * @returns Whether the transfers are within the limits
+   */
+  protected async checkSpendingLimits(
+    bot: TelegramBot,
+    chatId: number,
+    transfers: SpendingTransfer[]
+  ): Promise<boolean> {
+    const limitsChatId = TreasuryService.getLimitsChatId(chatId);
+    const violation = LimitsService.checkTransfers(limitsChatId, transfers);
+    if (!violation) return true;
+
+    this.clearSessionData(chatId);
+    const ownLimits = limitsChatId === chatId;
+    await bot.sendMessage(
+      chatId,
+      `🚫 *Spending Limit Reached*\n\n${escapeMarkdown(
+        describeLimitViolation(violation)
+      )}\n\n${
+        ownLimits
+          ? "Use /limits to review your limits."
+          : "The treasury owner's limits apply; they can review them with /limits in a private chat with me."
+      }`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            ...(ownLimits
+              ? [[{ text: "📊 My Limits", callback_data: "limits:view" }]]
+              : []),
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      }
+    );
+    return false;
+  }
+
   /**
    * Format a standard error message
    */
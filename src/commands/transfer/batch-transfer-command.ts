@@ -5,16 +5,49 @@ import {
   SessionService,
   SessionState,
 } from "../../core/session.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
+import { AuditLogService } from "../../core/audit-log.service";
+import { getRecipientKey, LimitsService } from "../../core/limits.service";
 import * as transferService from "../../services/transfer.service";
 import { handleApiErrorResponse } from "../../utils/error-handler";
-import { formatCurrency } from "../../utils/format";
+import {
+  escapeMarkdown,
+  formatAccountLabel,
+  formatCurrency,
+} from "../../utils/format";
+import { formatCsv } from "../../utils/csv";
 import {
   createConfirmationKeyboard,
   createPurposeCodeKeyboard,
 } from "../../utils/keyboard";
 import { getModuleLogger } from "../../utils/logger";
+import { requireAuth } from "../../core/middleware";
+import {
+  Amount,
+  amountToString,
+  isPositiveAmount,
+  parseAmount,
+  sumAmounts,
+  toAmount,
+} from "../../utils/money";
+import {
+  detectSpreadsheetFormat,
+  downloadTelegramFile,
+  parseCsvRows,
+  readSpreadsheetRows,
+  SpreadsheetRow,
+} from "../../utils/spreadsheet";
+import {
+  BATCH_FILE_MAX_BYTES,
+  BATCH_MAX_ERRORS_SHOWN,
+  BATCH_MAX_RECIPIENTS,
+  SUPPORTED_CURRENCIES,
+} from "../../utils/constants";
 import { PurposeCode } from "../../types";
-import { BatchTransferResponseItem } from "../../types";
+import {
+  BatchTransferRequest,
+  BatchTransferResponseItem,
+} from "../../types";
 
 // Create module logger
 const logger = getModuleLogger("batch-transfer-command");
@@ -24,8 +57,10 @@ const logger = getModuleLogger("batch-transfer-command");
  */
 interface BatchRecipient {
   email: string;
-  amount: number;
+  amount: string; // Decimal string, e.g. "10.5"
   purposeCode?: string;
+  currency?: string;
+  payeeId?: string;
 }
 
 /**
@@ -33,12 +68,60 @@ interface BatchRecipient {
  */
 interface BatchTransferSessionState extends SessionState {
   currentAction: "sendbatch";
-  step: "upload" | "confirm";
+  step:
+    | "upload"
+    | "review"
+    | "purpose"
+    | "confirm"
+    | "submitting" // Confirmed and being sent; further confirms are ignored
+    | "results";
   recipients: BatchRecipient[];
   purposeCode: string;
   currentRecipientIndex?: number;
 }
 
+/**
+ * Columns recognised in batch recipient rows
+ */
+type BatchColumn = "email" | "amount" | "purposeCode" | "currency" | "payeeId";
+
+/**
+ * Column order used when a file or message has no header row
+ */
+const DEFAULT_COLUMN_ORDER: BatchColumn[] = [
+  "email",
+  "amount",
+  "purposeCode",
+  "currency",
+  "payeeId",
+];
+
+/**
+ * Header names (lowercased, without separators) mapped to batch columns
+ */
+const COLUMN_ALIASES: Record<string, BatchColumn> = {
+  email: "email",
+  emailaddress: "email",
+  recipient: "email",
+  recipientemail: "email",
+  amount: "amount",
+  value: "amount",
+  purposecode: "purposeCode",
+  purpose: "purposeCode",
+  currency: "currency",
+  token: "currency",
+  payeeid: "payeeId",
+  payee: "payeeId",
+};
+
+/**
+ * Result of validating a set of recipient rows
+ */
+interface BatchParseResult {
+  recipients: BatchRecipient[];
+  errors: string[];
+}
+
 /**
  * Command to send funds to multiple recipients at once
  */
@@ -77,18 +160,65 @@ export class BatchTransferCommand extends BaseTransferCommand {
         "For example:\n" +
         "`john@example.com,10.5`\n" +
         "`jane@example.com,25`\n\n" +
-        "Or you can upload a CSV file with the same format.",
+        "Or upload a CSV or XLSX file. Files may include a header row with " +
+        "the columns `email`, `amount`, `purposeCode`, `currency` and `payeeId`.",
       {
         parse_mode: "Markdown",
         reply_markup: {
           inline_keyboard: [
-            [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
+            [{ text: "❌ Cancel", callback_data: "batch:cancel" }],
           ],
         },
       }
     );
   }
 
+  /**
+   * Handle callback queries
+   */
+  async handleCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    const chatId = query.message.chat.id;
+    const data = query.data;
+
+    if (!data.startsWith("batch:")) {
+      // Let parent class handle transfer:method:batch
+      await super.handleCallback(bot, query);
+      return;
+    }
+
+    // Answer callback query to remove loading indicator
+    bot.answerCallbackQuery(query.id);
+
+    requireAuth(bot, chatId, async (session) => {
+      const [, action, value] = data.split(":");
+
+      switch (action) {
+        case "continue":
+          await this.processReviewContinue(bot, chatId, session);
+          break;
+        case "purpose":
+          await this.processPurposeSelection(bot, chatId, value);
+          break;
+        case "confirm":
+          await this.processBatchConfirmation(bot, chatId, session);
+          break;
+        case "retry":
+          await this.processRetryFailed(bot, chatId);
+          break;
+        case "cancel":
+          await this.sendCancelMessage(bot, chatId);
+          break;
+        default:
+          logger.warn(`Unknown batch action: ${action}`);
+      }
+    });
+  }
+
   /**
    * Process callback data
    */
@@ -108,24 +238,6 @@ export class BatchTransferCommand extends BaseTransferCommand {
       return;
     }
 
-    // Handle purpose selection
-    if (callbackData.startsWith("purpose:")) {
-      const purposeCode = callbackData.split(":")[1];
-      await this.processPurposeSelection(bot, chatId, purposeCode);
-      return;
-    }
-
-    // Handle transfer confirmation
-    if (callbackData === "transfer:confirm") {
-      await this.processBatchConfirmation(bot, chatId, session);
-      return;
-    }
-
-    // Handle transfer cancellation
-    if (callbackData === "transfer:cancel") {
-      await this.sendCancelMessage(bot, chatId);
-      return;
-    }
   }
 
   /**
@@ -143,28 +255,17 @@ export class BatchTransferCommand extends BaseTransferCommand {
     if (!state || state.currentAction !== "sendbatch") return;
 
     if (state.step === "upload") {
-      // Handle document upload (CSV file)
+      const session = SessionService.getSession(chatId);
+      if (!session) return;
+
+      // Handle document upload (CSV or XLSX file)
       if (msg.document) {
-        // File handling would go here - we'll skip the implementation for simplicity
-        bot.sendMessage(
-          chatId,
-          "⚠️ CSV file processing is not implemented in this example.",
-          {
-            reply_markup: {
-              inline_keyboard: [
-                [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
-              ],
-            },
-          }
-        );
+        await this.processDocumentUpload(bot, chatId, session, msg.document);
         return;
       }
 
       // Handle text input (list of recipients)
       if (msg.text) {
-        const session = SessionService.getSession(chatId);
-        if (!session) return;
-
         await this.processDirectTextInput(bot, chatId, session, msg.text);
       }
     }
@@ -179,36 +280,239 @@ export class BatchTransferCommand extends BaseTransferCommand {
     session: ExtendedSession,
     text: string
   ): Promise<void> {
-    // Parse input and validate recipients
-    const lines = text.split("\n").filter((line) => line.trim() !== "");
+    // Parse input lines, keeping line numbers for error reporting
+    const rows = parseCsvRows(text);
+    const { recipients, errors } = this.parseRecipientRows(rows, "Line");
+
+    // If there are validation errors, show them and let the user try again
+    if (errors.length > 0) {
+      let errorMessage = "⚠️ *Validation Errors*\n\n";
+      errorMessage += this.formatRowErrors(errors);
+      errorMessage +=
+        "\n\nPlease fix these errors and submit your recipients again.";
+
+      bot.sendMessage(chatId, errorMessage, {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "❌ Cancel", callback_data: "batch:cancel" }],
+          ],
+        },
+      });
+      return;
+    }
+
+    await this.prepareBatch(bot, chatId, session, recipients);
+  }
+
+  /**
+   * Process an uploaded CSV or XLSX recipients file
+   */
+  private async processDocumentUpload(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    document: TelegramBot.Document
+  ): Promise<void> {
+    const cancelKeyboard = [
+      [{ text: "❌ Cancel", callback_data: "batch:cancel" }],
+    ];
+
+    const format = detectSpreadsheetFormat(document);
+    if (!format) {
+      bot.sendMessage(
+        chatId,
+        "⚠️ Unsupported file type. Please upload a .csv or .xlsx file.",
+        { reply_markup: { inline_keyboard: cancelKeyboard } }
+      );
+      return;
+    }
+
+    if (document.file_size && document.file_size > BATCH_FILE_MAX_BYTES) {
+      bot.sendMessage(
+        chatId,
+        `⚠️ The file is too large. The maximum size is ${Math.floor(
+          BATCH_FILE_MAX_BYTES / 1024
+        )} KB.`,
+        { reply_markup: { inline_keyboard: cancelKeyboard } }
+      );
+      return;
+    }
+
+    let rows: SpreadsheetRow[];
+    const loadingMsg = await bot.sendMessage(
+      chatId,
+      "🕒 *Reading your file...*",
+      { parse_mode: "Markdown" }
+    );
+
+    try {
+      const content = await downloadTelegramFile(
+        bot,
+        document.file_id,
+        BATCH_FILE_MAX_BYTES
+      );
+      rows = await readSpreadsheetRows(content, format);
+    } catch (error: any) {
+      logger.error(`Batch file read error:`, error);
+      bot.deleteMessage(chatId, loadingMsg.message_id).catch(() => {});
+      bot.sendMessage(
+        chatId,
+        "⚠️ We couldn't read that file. Please check that it is a valid CSV or XLSX file and try again.",
+        { reply_markup: { inline_keyboard: cancelKeyboard } }
+      );
+      return;
+    }
+
+    bot.deleteMessage(chatId, loadingMsg.message_id).catch(() => {});
+
+    const { recipients, errors } = this.parseRecipientRows(rows, "Row");
+
+    if (errors.length === 0) {
+      await this.prepareBatch(bot, chatId, session, recipients);
+      return;
+    }
+
+    // Keep the valid rows so the user can continue without them
+    this.updateSessionData<BatchTransferSessionState>(chatId, {
+      recipients,
+      step: "review",
+    });
+
+    let report =
+      `⚠️ *File Validation Report*\n\n` +
+      `Valid rows: ${recipients.length}\n` +
+      `Rows with errors: ${errors.length}\n\n` +
+      this.formatRowErrors(errors) +
+      "\n\n";
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    if (recipients.length > 0) {
+      report +=
+        "You can fix the file and upload it again, or continue with the valid rows only.";
+      keyboard.push([
+        {
+          text: `➡️ Continue with ${recipients.length} valid row(s)`,
+          callback_data: "batch:continue",
+        },
+      ]);
+    } else {
+      report += "Please fix the file and upload it again.";
+    }
+    keyboard.push(...cancelKeyboard);
+
+    bot.sendMessage(chatId, report, {
+      parse_mode: "Markdown",
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  /**
+   * Continue a reviewed upload with only its valid rows
+   */
+  private async processReviewContinue(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession
+  ): Promise<void> {
+    const state = this.getSessionData<BatchTransferSessionState>(chatId);
+    if (!state || state.step !== "review" || !state.recipients?.length) {
+      bot.sendMessage(
+        chatId,
+        "⚠️ This operation is no longer valid. Please start over.",
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "« Back to Menu", callback_data: "menu:main" }],
+            ],
+          },
+        }
+      );
+      return;
+    }
+
+    await this.prepareBatch(bot, chatId, session, state.recipients);
+  }
+
+  /**
+   * Validate recipient rows from a message or file
+   * The first row is treated as a header when it names the email and amount columns.
+   * @param rows The rows to validate
+   * @param rowLabel Label used in error messages (e.g. "Line" or "Row")
+   */
+  private parseRecipientRows(
+    rows: SpreadsheetRow[],
+    rowLabel: string
+  ): BatchParseResult {
     const recipients: BatchRecipient[] = [];
     const errors: string[] = [];
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      const parts = line.split(",");
+    if (rows.length === 0) {
+      return { recipients, errors };
+    }
+
+    const headerColumns = this.detectHeaderColumns(rows[0].cells);
+    const columns = headerColumns || DEFAULT_COLUMN_ORDER;
+    const dataRows = headerColumns ? rows.slice(1) : rows;
 
-      if (parts.length < 2) {
-        errors.push(`Line ${i + 1}: Invalid format, expected "email,amount"`);
+    if (dataRows.length > BATCH_MAX_RECIPIENTS) {
+      errors.push(
+        `Too many recipients (${dataRows.length}). A batch can contain at most ${BATCH_MAX_RECIPIENTS}.`
+      );
+      return { recipients, errors };
+    }
+
+    for (const row of dataRows) {
+      const prefix = `${rowLabel} ${row.rowNumber}`;
+      const value = (column: BatchColumn): string => {
+        const index = columns.indexOf(column);
+        return index >= 0 ? (row.cells[index] || "").trim() : "";
+      };
+
+      const email = value("email");
+      const amountStr = value("amount");
+
+      if (!email || !amountStr) {
+        errors.push(`${prefix}: Invalid format, expected "email,amount"`);
         continue;
       }
 
-      const email = parts[0].trim();
-      const amountStr = parts[1].trim();
-      const amount = parseFloat(amountStr);
-
       // Validate email format
       if (!this.isValidEmail(email)) {
-        errors.push(`Line ${i + 1}: Invalid email address "${email}"`);
+        errors.push(
+          `${prefix}: Invalid email address "${escapeMarkdown(email)}"`
+        );
         continue;
       }
 
       // Validate amount
-      if (isNaN(amount) || amount <= 0) {
+      const amount = parseAmount(amountStr);
+      if (amount === undefined || !isPositiveAmount(amount)) {
         errors.push(
-          `Line ${
-            i + 1
-          }: Invalid amount "${amountStr}", must be a positive number`
+          `${prefix}: Invalid amount "${escapeMarkdown(
+            amountStr
+          )}", must be a positive number`
+        );
+        continue;
+      }
+
+      // Validate optional purpose code
+      const purposeCode = value("purposeCode").toLowerCase();
+      if (
+        purposeCode &&
+        !Object.values(PurposeCode).includes(purposeCode as PurposeCode)
+      ) {
+        errors.push(
+          `${prefix}: Unknown purpose code "${escapeMarkdown(purposeCode)}"`
+        );
+        continue;
+      }
+
+      // Validate optional currency
+      const currency = value("currency").toUpperCase();
+      if (currency && !SUPPORTED_CURRENCIES.includes(currency)) {
+        errors.push(
+          `${prefix}: Unsupported currency "${escapeMarkdown(currency)}"`
         );
         continue;
       }
@@ -216,29 +520,56 @@ export class BatchTransferCommand extends BaseTransferCommand {
       // Add valid recipient
       recipients.push({
         email,
-        amount,
-        purposeCode: PurposeCode.SELF, // Default purpose code
+        amount: amountToString(amount),
+        purposeCode: purposeCode || undefined,
+        currency: currency || undefined,
+        payeeId: value("payeeId") || undefined,
       });
     }
 
-    // If there are validation errors, show them and let the user try again
-    if (errors.length > 0) {
-      let errorMessage = "⚠️ *Validation Errors*\n\n";
-      errorMessage += errors.join("\n");
-      errorMessage +=
-        "\n\nPlease fix these errors and submit your recipients again.";
+    return { recipients, errors };
+  }
 
-      bot.sendMessage(chatId, errorMessage, {
-        parse_mode: "Markdown",
-        reply_markup: {
-          inline_keyboard: [
-            [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
-          ],
-        },
-      });
-      return;
+  /**
+   * Detect a header row and map its cells to batch columns
+   * @returns Column order for the data rows, or undefined if the row isn't a header
+   */
+  private detectHeaderColumns(cells: string[]): BatchColumn[] | undefined {
+    const columns = cells.map(
+      (cell) => COLUMN_ALIASES[cell.toLowerCase().replace(/[^a-z]/g, "")]
+    );
+
+    if (!columns.includes("email") || !columns.includes("amount")) {
+      return undefined;
     }
 
+    // Unknown header cells are kept as gaps so column indexes still line up
+    return columns as BatchColumn[];
+  }
+
+  /**
+   * Format row errors for display, truncating long reports
+   * Errors are Markdown; uploaded values in them are escaped.
+   */
+  private formatRowErrors(errors: string[]): string {
+    let message = errors.slice(0, BATCH_MAX_ERRORS_SHOWN).join("\n");
+    if (errors.length > BATCH_MAX_ERRORS_SHOWN) {
+      message += `\n... and ${
+        errors.length - BATCH_MAX_ERRORS_SHOWN
+      } more error(s)`;
+    }
+    return message;
+  }
+
+  /**
+   * Check balance for validated recipients and move on to purpose selection
+   */
+  private async prepareBatch(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    recipients: BatchRecipient[]
+  ): Promise<void> {
     // Ensure we have at least one recipient
     if (recipients.length === 0) {
       bot.sendMessage(
@@ -247,7 +578,7 @@ export class BatchTransferCommand extends BaseTransferCommand {
         {
           reply_markup: {
             inline_keyboard: [
-              [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
+              [{ text: "❌ Cancel", callback_data: "batch:cancel" }],
             ],
           },
         }
@@ -256,31 +587,46 @@ export class BatchTransferCommand extends BaseTransferCommand {
     }
 
     try {
-      // Calculate total amount to transfer
-      const totalAmount = recipients.reduce(
-        (sum, recipient) => sum + recipient.amount,
-        0
-      );
+      // Calculate the total to transfer in each currency
+      const totals = this.sumByCurrency(recipients);
 
-      // Check if user has sufficient balance
-      const balanceCheck = await transferService.checkSufficientBalance(
+      // Check if user has sufficient balance in each currency
+      const balanceChecks = await transferService.checkSufficientBalances(
         session.token,
-        totalAmount.toString()
+        Array.from(totals.entries()).map(([currency, amount]) => ({
+          currency,
+          amount: amountToString(amount),
+        }))
       );
 
-      if (!balanceCheck.hasSufficientBalance) {
+      const shortfalls = balanceChecks.filter(
+        (check) => !check.hasSufficientBalance
+      );
+      if (shortfalls.length > 0) {
         bot.sendMessage(
           chatId,
           `⚠️ *Insufficient Balance*\n\n` +
-            `You don't have enough USDC to complete this batch transfer.\n` +
-            `Total Amount: ${formatCurrency(totalAmount, "USDC")}\n` +
-            `Available: ${formatCurrency(balanceCheck.balance, "USDC")}`,
+            `You don't have enough ${shortfalls
+              .map((check) => check.currency)
+              .join(", ")} to complete this batch transfer.\n` +
+            shortfalls
+              .map(
+                (check) =>
+                  `${check.currency}: ${formatCurrency(
+                    totals.get(check.currency) || "0",
+                    check.currency
+                  )} needed, ${formatCurrency(
+                    check.balance,
+                    check.currency
+                  )} available`
+              )
+              .join("\n"),
           {
             parse_mode: "Markdown",
             reply_markup: {
               inline_keyboard: [
                 [{ text: "💰 Deposit", callback_data: "action:deposit" }],
-                [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
+                [{ text: "❌ Cancel", callback_data: "batch:cancel" }],
               ],
             },
           }
@@ -288,10 +634,20 @@ export class BatchTransferCommand extends BaseTransferCommand {
         return;
       }
 
+      // Rows that already carry a purpose code skip the purpose prompt
+      if (recipients.every((recipient) => recipient.purposeCode)) {
+        this.updateSessionData<BatchTransferSessionState>(chatId, {
+          recipients,
+          step: "confirm",
+        });
+        await this.showBatchConfirmation(bot, chatId);
+        return;
+      }
+
       // Update state with recipients
       this.updateSessionData<BatchTransferSessionState>(chatId, {
         recipients,
-        step: "confirm",
+        step: "purpose",
       });
 
       // Prompt for purpose selection
@@ -299,12 +655,12 @@ export class BatchTransferCommand extends BaseTransferCommand {
         chatId,
         `📝 *Batch Transfer Details*\n\n` +
           `Recipients: ${recipients.length}\n` +
-          `Total Amount: ${formatCurrency(totalAmount, "USDC")}\n\n` +
-          `Please select the purpose for all transfers:`,
+          `Total Amount: ${this.formatTotals(totals)}\n\n` +
+          `Please select the purpose for transfers without a purpose code:`,
         {
           parse_mode: "Markdown",
           reply_markup: {
-            inline_keyboard: createPurposeCodeKeyboard("purpose"),
+            inline_keyboard: createPurposeCodeKeyboard("batch"),
           },
         }
       );
@@ -317,6 +673,25 @@ export class BatchTransferCommand extends BaseTransferCommand {
     }
   }
 
+  /**
+   * Continue a batch that was waiting for its purpose or confirmation
+   * The balance is checked again before the batch is shown.
+   */
+  async resumeFlow(bot: TelegramBot, chatId: number): Promise<void> {
+    const session = SessionService.getSession(chatId);
+    const state = this.getSessionData<BatchTransferSessionState>(chatId);
+
+    if (
+      session &&
+      state?.recipients?.length &&
+      (state.step === "purpose" || state.step === "confirm")
+    ) {
+      await this.prepareBatch(bot, chatId, session, state.recipients);
+    } else {
+      await super.resumeFlow(bot, chatId);
+    }
+  }
+
   /**
    * Process purpose selection
    */
@@ -330,16 +705,17 @@ export class BatchTransferCommand extends BaseTransferCommand {
     const state = this.getSessionData<BatchTransferSessionState>(chatId);
     if (!state || !state.recipients || state.recipients.length === 0) return;
 
-    // Update all recipients with the selected purpose code
+    // Apply the selected purpose code to recipients without one
     const updatedRecipients = state.recipients.map((recipient) => ({
       ...recipient,
-      purposeCode,
+      purposeCode: recipient.purposeCode || purposeCode,
     }));
 
     // Update state with purpose code and updated recipients
     this.updateSessionData<BatchTransferSessionState>(chatId, {
       purposeCode,
       recipients: updatedRecipients,
+      step: "confirm",
     });
 
     // Show batch confirmation
@@ -358,16 +734,24 @@ export class BatchTransferCommand extends BaseTransferCommand {
     const state = this.getSessionData<BatchTransferSessionState>(chatId);
     if (!state || !state.recipients || state.recipients.length === 0) return;
 
-    // Calculate total amount
-    const totalAmount = state.recipients.reduce(
-      (sum, recipient) => sum + recipient.amount,
-      0
-    );
+    const session = SessionService.getSession(chatId);
+    if (!session) return;
+
+    // Calculate the total in each currency
+    const totals = this.sumByCurrency(state.recipients);
 
     // Get purpose code display text
-    const purposeDisplay = this.getPurposeDisplay(
-      state.purposeCode || PurposeCode.SELF
+    const purposeCodes = new Set(
+      state.recipients.map((recipient) => recipient.purposeCode)
     );
+    const purposeDisplay =
+      purposeCodes.size > 1
+        ? "Per recipient"
+        : this.getPurposeDisplay(
+            state.recipients[0].purposeCode ||
+              state.purposeCode ||
+              PurposeCode.SELF
+          );
 
     // Prepare recipient summary
     let recipientsSummary = "";
@@ -380,25 +764,21 @@ export class BatchTransferCommand extends BaseTransferCommand {
         } more recipient(s)\n`;
         break;
       }
-      recipientsSummary += `${recipient.email}: ${formatCurrency(
-        recipient.amount,
-        "USDC"
-      )}\n`;
+      recipientsSummary += `${escapeMarkdown(
+        recipient.email
+      )}: ${formatCurrency(recipient.amount, recipient.currency || "USDC")}\n`;
     }
 
     const message =
       `💰 *Batch Transfer Confirmation*\n\n` +
-      `From: Your Copperx Account\n` +
+      `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
       `Recipients: ${state.recipients.length}\n` +
-      `Total Amount: ${formatCurrency(totalAmount, "USDC")}\n` +
+      `Total Amount: ${this.formatTotals(totals)}\n` +
       `Purpose: ${purposeDisplay}\n\n` +
       `Recipients Summary:\n${recipientsSummary}\n` +
       `Do you want to proceed with this batch transfer?`;
 
-    const keyboard = createConfirmationKeyboard(
-      "transfer:confirm",
-      "transfer:cancel"
-    );
+    const keyboard = createConfirmationKeyboard("batch:confirm", "batch:cancel");
 
     if (existingMessageId) {
       // Update existing message
@@ -421,6 +801,34 @@ export class BatchTransferCommand extends BaseTransferCommand {
     }
   }
 
+  /**
+   * Total the amounts of batch rows per currency
+   * Rows without a currency are in USDC.
+   * @returns Totals keyed by currency, in the order currencies first appear
+   */
+  private sumByCurrency(
+    items: Array<{ amount: string; currency?: string }>
+  ): Map<string, Amount> {
+    const totals = new Map<string, Amount>();
+    items.forEach((item) => {
+      const currency = item.currency || "USDC";
+      totals.set(
+        currency,
+        sumAmounts([totals.get(currency) || toAmount(0), toAmount(item.amount)])
+      );
+    });
+    return totals;
+  }
+
+  /**
+   * Format per-currency totals, e.g. "10.00 USDC, 5.00 USDT"
+   */
+  private formatTotals(totals: Map<string, Amount>): string {
+    return Array.from(totals.entries())
+      .map(([currency, amount]) => formatCurrency(amount, currency))
+      .join(", ");
+  }
+
   /**
    * Get user-friendly display text for purpose code
    */
@@ -450,6 +858,21 @@ export class BatchTransferCommand extends BaseTransferCommand {
     // Get current state
     const state = this.getSessionData<BatchTransferSessionState>(chatId);
     if (!state || !state.recipients || state.recipients.length === 0) return;
+    if (state.step !== "confirm") return;
+
+    // Ignore repeated taps on Confirm while the batch is being sent
+    this.updateSessionData<BatchTransferSessionState>(chatId, {
+      step: "submitting",
+    });
+
+    const transfers = state.recipients.map((recipient) => ({
+      recipient: recipient.email
+        ? getRecipientKey("email", recipient.email)
+        : getRecipientKey("payee", recipient.payeeId || ""),
+      amount: toAmount(recipient.amount),
+      currency: recipient.currency || "USDC",
+    }));
+    if (!(await this.checkSpendingLimits(bot, chatId, transfers))) return;
 
     try {
       // Send loading message
@@ -459,69 +882,67 @@ export class BatchTransferCommand extends BaseTransferCommand {
         { parse_mode: "Markdown" }
       );
 
-      // Prepare the batch transfer request
-      const batchData = state.recipients.map((recipient, index) => ({
-        requestId: `batch-${index}`,
-        request: {
-          email: recipient.email,
-          amount: recipient.amount.toString(),
-          currency: "USDC",
-          purposeCode:
-            recipient.purposeCode || state.purposeCode || PurposeCode.SELF,
-        },
-      }));
+      // Prepare the batch transfer request with a unique ID per recipient
+      const batchId = Date.now().toString(36);
+      const batchData: BatchTransferRequest[] = state.recipients.map(
+        (recipient, index) => ({
+          requestId: `batch-${batchId}-${index}`,
+          request: {
+            email: recipient.email,
+            payeeId: recipient.payeeId,
+            amount: recipient.amount,
+            currency: recipient.currency || "USDC",
+            purposeCode:
+              recipient.purposeCode || state.purposeCode || PurposeCode.SELF,
+          },
+        })
+      );
 
       // Execute batch transfer
-      const result = await transferService.sendBatchTransfers(
-        session.token,
-        batchData
+      const batchResults = await AuditLogService.audit(
+        {
+          action: "transfer.batch",
+          chatId,
+          organizationId: session.organizationId,
+          payload: { requests: batchData },
+        },
+        () => transferService.sendBatchTransfers(session.token, batchData),
+        (results) => ({
+          results: results.map((item) => ({
+            requestId: item.requestId,
+            success: item.success,
+            transferId: item.transferId,
+            status: item.status,
+            message: item.message,
+          })),
+        })
       );
 
-      // Type assertion to match the actual response structure
-      const batchResults = result as unknown as BatchTransferResponseItem[];
-
-      // Analyze results
-      const successCount = batchResults.filter((item) => item.success).length;
-      const failureCount = batchResults.filter((item) => !item.success).length;
-
-      // Reset state
-      this.clearSessionData(chatId);
+      // Transfers with an unknown outcome may have been sent, so they count
+      LimitsService.recordTransfers(
+        chatId,
+        transfers.filter(
+          (_transfer, index) =>
+            batchResults[index].success || batchResults[index].unknown
+        )
+      );
+      recordFlowCompleted(chatId);
 
-      // Create a detailed message about success and failures
-      let resultMessage =
-        `✅ *Batch Transfer Results*\n\n` +
-        `Total Recipients: ${state.recipients.length}\n` +
-        `Successful: ${successCount}\n` +
-        `Failed: ${failureCount}\n` +
-        `Total Amount Sent: ${formatCurrency(
-          batchResults
-            .filter((item) => item.success)
-            .reduce((sum: number, item) => sum + parseFloat(item.amount), 0),
-          "USDC"
-        )}\n\n`;
-
-      // Add details about failed transfers if any
-      if (failureCount > 0) {
-        resultMessage += "Failed transfers:\n";
-        batchResults
-          .filter((item) => !item.success)
-          .forEach((item) => {
-            resultMessage += `- ${item.email}: ${
-              item.message || "Unknown error"
-            }\n`;
-          });
-      }
+      // Map failures back to the recipients that produced them; rows with
+      // an unknown outcome are never retried, since that could pay twice
+      const failedRecipients = state.recipients.filter(
+        (_recipient, index) =>
+          !batchResults[index].success && !batchResults[index].unknown
+      );
 
-      bot.deleteMessage(chatId, loadingMsg.message_id);
-      bot.sendMessage(chatId, resultMessage, {
-        parse_mode: "Markdown",
-        reply_markup: {
-          inline_keyboard: [
-            [{ text: "💰 View Balance", callback_data: "action:balance" }],
-            [{ text: "« Back to Menu", callback_data: "menu:main" }],
-          ],
-        },
+      // Keep failed rows so they can be retried from the results message
+      this.updateSessionData<BatchTransferSessionState>(chatId, {
+        recipients: failedRecipients,
+        step: "results",
       });
+
+      bot.deleteMessage(chatId, loadingMsg.message_id).catch(() => {});
+      await this.sendBatchResults(bot, chatId, session, batchResults);
     } catch (error: any) {
       logger.error(`Batch transfer error:`, error);
       handleApiErrorResponse(bot, chatId, error, "transfer:method:batch");
@@ -531,6 +952,169 @@ export class BatchTransferCommand extends BaseTransferCommand {
     }
   }
 
+  /**
+   * Send the per-recipient summary and the CSV result file
+   */
+  private async sendBatchResults(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    batchResults: BatchTransferResponseItem[]
+  ): Promise<void> {
+    const succeeded = batchResults.filter((item) => item.success);
+    const unknown = batchResults.filter((item) => item.unknown);
+    const failed = batchResults.filter(
+      (item) => !item.success && !item.unknown
+    );
+
+    const title =
+      failed.length === 0 && unknown.length === 0
+        ? "✅ *Batch Transfer Completed*"
+        : succeeded.length === 0 && unknown.length === 0
+        ? "❌ *Batch Transfer Failed*"
+        : "⚠️ *Batch Transfer Partially Completed*";
+
+    let resultMessage =
+      `${title}\n\n` +
+      `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
+      `Total Recipients: ${batchResults.length}\n` +
+      `Successful: ${succeeded.length}\n` +
+      `Failed: ${failed.length}\n` +
+      (unknown.length > 0 ? `Unknown: ${unknown.length}\n` : "") +
+      `Total Amount Sent: ${
+        succeeded.length > 0
+          ? this.formatTotals(this.sumByCurrency(succeeded))
+          : "None"
+      }\n`;
+
+    if (succeeded.length > 0) {
+      resultMessage += "\n*Succeeded:*\n";
+      resultMessage += this.formatResultLines(succeeded, (item) =>
+        formatCurrency(item.amount, item.currency)
+      );
+    }
+
+    if (failed.length > 0) {
+      resultMessage += "\n*Failed:*\n";
+      resultMessage += this.formatResultLines(
+        failed,
+        (item) => item.message || "Unknown error"
+      );
+    }
+
+    if (unknown.length > 0) {
+      resultMessage += "\n*Unknown outcome:*\n";
+      resultMessage += this.formatResultLines(
+        unknown,
+        () => "Check your transfer history before sending again"
+      );
+    }
+
+    resultMessage += "\nThe attached CSV file contains the result for every row.";
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    if (failed.length > 0) {
+      keyboard.push([
+        {
+          text: `🔁 Retry ${failed.length} failed`,
+          callback_data: "batch:retry",
+        },
+      ]);
+    }
+    keyboard.push([{ text: "💰 View Balance", callback_data: "action:balance" }]);
+    keyboard.push([{ text: "« Back to Menu", callback_data: "menu:main" }]);
+
+    await bot.sendMessage(chatId, resultMessage, {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: keyboard,
+      },
+    });
+
+    // Send the full results as a downloadable CSV document
+    const csv = formatCsv([
+      ["requestId", "email", "amount", "currency", "status", "transferId", "error"],
+      ...batchResults.map((item) => [
+        item.requestId,
+        item.email,
+        item.amount,
+        item.currency,
+        item.success ? "success" : item.unknown ? "unknown" : "failed",
+        item.transferId,
+        item.message,
+      ]),
+    ]);
+
+    bot
+      .sendDocument(
+        chatId,
+        Buffer.from(csv, "utf8"),
+        { caption: "📄 Batch transfer results" },
+        {
+          filename: `batch-results-${new Date()
+            .toISOString()
+            .slice(0, 10)}.csv`,
+          contentType: "text/csv",
+        }
+      )
+      .catch((error) => {
+        logger.error(`Failed to send batch result file:`, error);
+      });
+  }
+
+  /**
+   * Format result items as list lines, truncating long lists
+   */
+  private formatResultLines(
+    items: BatchTransferResponseItem[],
+    detail: (item: BatchTransferResponseItem) => string
+  ): string {
+    let lines = items
+      .slice(0, BATCH_MAX_ERRORS_SHOWN)
+      .map(
+        (item) =>
+          `• ${escapeMarkdown(item.email)}: ${escapeMarkdown(detail(item))}`
+      )
+      .join("\n");
+
+    if (items.length > BATCH_MAX_ERRORS_SHOWN) {
+      lines += `\n... and ${items.length - BATCH_MAX_ERRORS_SHOWN} more`;
+    }
+
+    return lines + "\n";
+  }
+
+  /**
+   * Resubmit only the rows that failed in the last batch
+   */
+  private async processRetryFailed(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    const state = this.getSessionData<BatchTransferSessionState>(chatId);
+    if (!state || state.step !== "results" || !state.recipients?.length) {
+      bot.sendMessage(
+        chatId,
+        "⚠️ There are no failed transfers to retry. Please start a new batch.",
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "📊 New Batch", callback_data: "transfer:method:batch" }],
+              [{ text: "« Back to Menu", callback_data: "menu:main" }],
+            ],
+          },
+        }
+      );
+      return;
+    }
+
+    // Failed rows already carry their purpose codes, so go straight to confirmation
+    this.updateSessionData<BatchTransferSessionState>(chatId, {
+      step: "confirm",
+    });
+    await this.showBatchConfirmation(bot, chatId);
+  }
+
   /**
    * Validate email format
    */
@@ -3,10 +3,12 @@ import * as walletService from "../../services/wallet.service";
 import { handleApiErrorResponse } from "../../utils/error-handler";
 import { getModuleLogger } from "../../utils/logger";
 import { getNetworkName } from "../../utils/constants";
+import { formatAccountLine } from "../../utils/format";
 import { sendWalletQRCode } from "../../utils/message-templates";
 import { Wallet } from "../../types/wallet";
 import { BaseTransferCommand } from "./base-transfer-command";
 import { ExtendedSession, SessionState } from "../../core/session.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
 import { requireAuth } from "../../core/middleware";
 
 // Create module logger
@@ -66,7 +68,8 @@ export class DepositCommand extends BaseTransferCommand {
       });
 
       // Create wallet list in the message for better visibility
-      let message = "💰 *Deposit to Your Wallet*\n\n";
+      let message = "💰 *Deposit to Your Wallet*\n";
+      message += `${formatAccountLine(session)}\n\n`;
       message += "Please select which wallet you would like to deposit to:\n\n";
 
       wallets.forEach((wallet) => {
@@ -132,6 +135,7 @@ export class DepositCommand extends BaseTransferCommand {
           network: network,
           walletAddress: selectedWallet.walletAddress,
         });
+        recordFlowCompleted(chatId);
 
         // Get network name for display
         const networkName = getNetworkName(network);
@@ -141,7 +145,8 @@ export class DepositCommand extends BaseTransferCommand {
 
         // Show wallet address with warning and QR code option
         bot.editMessageText(
-          `📥 *Deposit to ${networkName} Wallet*\n\n` +
+          `📥 *Deposit to ${networkName} Wallet*\n` +
+            `${formatAccountLine(session)}\n\n` +
             `Please send *USDC only* to the following wallet address:\n\n` +
             `\`${walletAddress}\`\n\n` +
             `⚠️ *IMPORTANT:*\n` +
@@ -1,11 +1,20 @@
 import TelegramBot from "node-telegram-bot-api";
 import { BaseTransferCommand } from "./base-transfer-command";
 import { ExtendedSession, SessionState } from "../../core/session.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
+import { AuditLogService } from "../../core/audit-log.service";
+import { getRecipientKey, LimitsService } from "../../core/limits.service";
 import * as transferService from "../../services/transfer.service";
 import * as payeeService from "../../services/payee.service";
 import { handleApiErrorResponse } from "../../utils/error-handler";
-import { formatCurrency } from "../../utils/format";
+import {
+  escapeMarkdown,
+  formatAccountLabel,
+  formatCurrency,
+  formatTransferStatusFooter,
+} from "../../utils/format";
 import { SessionService } from "../../core/session.service";
+import { TransferTrackerService } from "../../core/transfer-tracker.service";
 import {
   createAmountKeyboard,
   createConfirmationKeyboard,
@@ -13,6 +22,12 @@ import {
 } from "../../utils/keyboard";
 import { getModuleLogger } from "../../utils/logger";
 import { requireAuth } from "../../core/middleware";
+import {
+  amountToString,
+  isPositiveAmount,
+  parseAmount,
+  toAmount,
+} from "../../utils/money";
 
 /**
  * Interface for email transfer session state
@@ -21,7 +36,7 @@ interface EmailTransferSessionState extends SessionState {
   currentAction: "sendemail";
   step: "email" | "amount" | "purpose" | "confirm";
   email?: string;
-  amount?: number;
+  amount?: string; // Decimal string, e.g. "10.5"
   purposeCode?: string;
 }
 
@@ -172,9 +187,13 @@ export class EmailTransferCommand extends BaseTransferCommand {
           return;
         }
 
-        const amount = parseFloat(amountPart);
-        if (!isNaN(amount)) {
-          await this.processAmountSelection(bot, chatId, amount);
+        const amount = parseAmount(amountPart);
+        if (amount !== undefined) {
+          await this.processAmountSelection(
+            bot,
+            chatId,
+            amountToString(amount)
+          );
         }
       });
       return;
@@ -266,9 +285,13 @@ export class EmailTransferCommand extends BaseTransferCommand {
         return;
       }
 
-      const amount = parseFloat(amountPart);
-      if (!isNaN(amount)) {
-        await this.processAmountSelection(bot, chatId, amount);
+      const amount = parseAmount(amountPart);
+      if (amount !== undefined) {
+        await this.processAmountSelection(
+          bot,
+          chatId,
+          amountToString(amount)
+        );
       }
       return;
     }
@@ -312,6 +335,23 @@ export class EmailTransferCommand extends BaseTransferCommand {
     }
   }
 
+  /**
+   * Continue the email transfer at the step it stopped
+   */
+  async resumeFlow(bot: TelegramBot, chatId: number): Promise<void> {
+    const state = this.getSessionData<EmailTransferSessionState>(chatId);
+
+    if (state?.email && state.amount && state.step === "confirm") {
+      await this.showTransferConfirmation(bot, chatId);
+    } else if (state?.email && state.amount && state.step === "purpose") {
+      await this.processAmountSelection(bot, chatId, state.amount);
+    } else if (state?.email && state.step === "amount") {
+      await this.processEmailInput(bot, chatId, state.email);
+    } else {
+      await super.resumeFlow(bot, chatId);
+    }
+  }
+
   /**
    * Process email input
    */
@@ -360,10 +400,10 @@ export class EmailTransferCommand extends BaseTransferCommand {
     chatId: number,
     amountText: string
   ): Promise<void> {
-    const amount = parseFloat(amountText);
+    const amount = parseAmount(amountText);
 
     // Validate amount
-    if (isNaN(amount) || amount <= 0) {
+    if (amount === undefined || !isPositiveAmount(amount)) {
       bot.sendMessage(
         chatId,
         "⚠️ Please enter a valid amount greater than 0.",
@@ -378,7 +418,7 @@ export class EmailTransferCommand extends BaseTransferCommand {
       return;
     }
 
-    await this.processAmountSelection(bot, chatId, amount);
+    await this.processAmountSelection(bot, chatId, amountToString(amount));
   }
 
   /**
@@ -387,7 +427,7 @@ export class EmailTransferCommand extends BaseTransferCommand {
   private async processAmountSelection(
     bot: TelegramBot,
     chatId: number,
-    amount: number
+    amount: string
   ): Promise<void> {
     // Get current state
     const state = this.getSessionData<EmailTransferSessionState>(chatId);
@@ -450,6 +490,15 @@ export class EmailTransferCommand extends BaseTransferCommand {
     const state = this.getSessionData<EmailTransferSessionState>(chatId);
     if (!state?.email || !state.amount) return;
 
+    const transfers = [
+      {
+        recipient: getRecipientKey("email", state.email),
+        amount: toAmount(state.amount),
+        currency: "USDC",
+      },
+    ];
+    if (!(await this.checkSpendingLimits(bot, chatId, transfers))) return;
+
     try {
       // Check if user has sufficient balance
       const session = SessionService.getSession(chatId);
@@ -457,7 +506,7 @@ export class EmailTransferCommand extends BaseTransferCommand {
 
       const balanceCheck = await transferService.checkSufficientBalance(
         session.token,
-        state.amount.toString()
+        state.amount
       );
 
       if (!balanceCheck.hasSufficientBalance) {
@@ -487,7 +536,7 @@ export class EmailTransferCommand extends BaseTransferCommand {
 
       const message =
         `💰 *Transfer Confirmation*\n\n` +
-        `From: Your Copperx Account\n` +
+        `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
         `To: ${state.email}\n` +
         `Amount: ${formatCurrency(state.amount, "USDC")}\n` +
         `Purpose: ${purposeDisplay}`;
@@ -522,6 +571,15 @@ export class EmailTransferCommand extends BaseTransferCommand {
     const state = this.getSessionData<EmailTransferSessionState>(chatId);
     if (!state?.email || !state.amount) return;
 
+    const transfers = [
+      {
+        recipient: getRecipientKey("email", state.email),
+        amount: toAmount(state.amount),
+        currency: "USDC",
+      },
+    ];
+    if (!(await this.checkSpendingLimits(bot, chatId, transfers))) return;
+
     try {
       // Send loading message
       const loadingMsg = await bot.sendMessage(
@@ -531,36 +589,74 @@ export class EmailTransferCommand extends BaseTransferCommand {
       );
 
       // Execute transfer
-      const result = await transferService.sendToEmail(
-        session.token,
-        state.email,
-        state.amount.toString(),
-        "USDC",
-        state.purposeCode || "self" // Use purpose code if set, default to 'self'
+      const { email, amount } = state;
+      const purposeCode = state.purposeCode || "self";
+      const result = await AuditLogService.audit(
+        {
+          action: "transfer.email",
+          chatId,
+          organizationId: session.organizationId,
+          payload: { email, amount, currency: "USDC", purposeCode },
+        },
+        () =>
+          transferService.sendToEmail(
+            session.token,
+            email,
+            amount,
+            "USDC",
+            purposeCode
+          )
       );
+      LimitsService.recordTransfers(chatId, transfers);
 
       // Reset state
+      recordFlowCompleted(chatId);
       this.clearSessionData(chatId);
 
       // Send success message
+      const summary = `${formatCurrency(
+        state.amount,
+        "USDC"
+      )} to ${escapeMarkdown(state.email)}`;
       const successMessage =
-        `✅ *Transfer Successful!*\n\n` +
-        `You've sent ${formatCurrency(state.amount, "USDC")} to ${
-          state.email
-        }\n` +
+        `✅ *Transfer Submitted!*\n\n` +
+        `You've sent ${summary}\n` +
+        `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
         `Reference ID: ${result.id}\n\n` +
         `The recipient will be notified via email.`;
+      const keyboard = [
+        [{ text: "💰 View Balance", callback_data: "action:balance" }],
+        [{ text: "« Back to Menu", callback_data: "menu:main" }],
+      ];
 
       bot.deleteMessage(chatId, loadingMsg.message_id);
-      bot.sendMessage(chatId, successMessage, {
-        parse_mode: "Markdown",
-        reply_markup: {
-          inline_keyboard: [
-            [{ text: "💰 View Balance", callback_data: "action:balance" }],
-            [{ text: "« Back to Menu", callback_data: "menu:main" }],
-          ],
-        },
-      });
+      const confirmation = await bot
+        .sendMessage(
+          chatId,
+          successMessage + formatTransferStatusFooter(result.status),
+          {
+            parse_mode: "Markdown",
+            reply_markup: { inline_keyboard: keyboard },
+          }
+        )
+        .catch((error) => {
+          // The transfer went through, so don't report this as a failure
+          logger.error(`Failed to send transfer confirmation:`, error);
+          return undefined;
+        });
+
+      // Report status changes until the transfer completes
+      TransferTrackerService.track(
+        chatId,
+        session.organizationId,
+        result,
+        summary,
+        confirmation && {
+          messageId: confirmation.message_id,
+          text: successMessage,
+          keyboard,
+        }
+      );
     } catch (error: any) {
       logger.error(`Transfer error:`, error);
       handleApiErrorResponse(bot, chatId, error, "transfer:method:email");
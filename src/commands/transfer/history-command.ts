@@ -1,12 +1,39 @@
 import TelegramBot from "node-telegram-bot-api";
 import { requireAuth } from "../../core/middleware";
 import * as transferService from "../../services/transfer.service";
+import { CopperxApiError } from "../../utils/api";
 import { handleApiErrorResponse } from "../../utils/error-handler";
 import { getModuleLogger } from "../../utils/logger";
 import { ExtendedSession, SessionState } from "../../core/session.service";
-import { TransferStatus, TransferType } from "../../types";
+import { recordFlowCompleted } from "../../core/flow-metrics";
+import {
+  TransferHistoryFilters,
+  TransferStatus,
+  TransferType,
+} from "../../types";
 import { TransferResponse } from "../../types/transfer";
 import { config } from "../../config";
+import {
+  escapeMarkdown,
+  formatAccountLabel,
+  formatAccountLine,
+  formatAmount,
+  formatHistoryFilters,
+  formatTransferDetails,
+} from "../../utils/format";
+import { getTransferCounterparties } from "../../utils/helpers";
+import {
+  amountToString,
+  compareAmounts,
+  parseAmount,
+  toAmount,
+} from "../../utils/money";
+import { parseUTCDateTime } from "../../utils/recurrence";
+import {
+  createCsvStatement,
+  createPdfStatement,
+} from "../../utils/statement";
+import { HISTORY_PAGE_SIZE } from "../../utils/constants";
 import { BaseTransferCommand } from "./base-transfer-command";
 
 // Create module logger
@@ -19,6 +46,131 @@ interface HistorySessionState extends SessionState {
   currentAction: "history";
   page: number;
   totalPages: number;
+  filters?: TransferHistoryFilters;
+  step?: "dates" | "amount" | "counterparty"; // Filter awaiting text input
+}
+
+// Usage of the /history filter arguments
+const HISTORY_FILTER_USAGE =
+  "Usage: `/history [type:send] [status:success] [from:2025-01-01] " +
+  "[to:2025-01-31] [min:10] [max:500] [party:alice@example.com]`";
+
+/**
+ * Parse a YYYY-MM-DD date filter
+ * @returns The date string or undefined if it is not a valid date
+ */
+function parseDateFilter(value: string): string | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  return parseUTCDateTime(value) ? value : undefined;
+}
+
+/**
+ * Parse a non-negative amount filter
+ * @returns The amount or undefined if it is not a valid amount
+ */
+function parseAmountFilter(value: string): string | undefined {
+  if (!/^\d+(\.\d+)?$/.test(value)) return undefined;
+  const amount = parseAmount(value);
+  return amount === undefined ? undefined : amountToString(amount);
+}
+
+/**
+ * Check that the ranges of the filters are not reversed
+ * @returns Error message or undefined if the filters are consistent
+ */
+function validateFilterRanges(
+  filters: TransferHistoryFilters
+): string | undefined {
+  if (
+    filters.startDate &&
+    filters.endDate &&
+    filters.startDate > filters.endDate
+  ) {
+    return "The start date must not be after the end date.";
+  }
+  if (
+    filters.minAmount !== undefined &&
+    filters.maxAmount !== undefined &&
+    compareAmounts(toAmount(filters.minAmount), toAmount(filters.maxAmount)) >
+      0
+  ) {
+    return "The minimum amount must not be above the maximum amount.";
+  }
+  return undefined;
+}
+
+/**
+ * Parse filter arguments such as "type:send min:10 party:alice"
+ * @param args The text after the /history command
+ * @returns The parsed filters or an error message
+ */
+function parseFilterArgs(args: string): {
+  filters: TransferHistoryFilters;
+  error?: string;
+} {
+  const filters: TransferHistoryFilters = {};
+  const types = Object.values(TransferType) as string[];
+  const statuses = Object.values(TransferStatus) as string[];
+
+  for (const arg of args.split(/\s+/).filter(Boolean)) {
+    const separator = arg.indexOf(":");
+    const key = arg.slice(0, separator).toLowerCase();
+    const value = arg.slice(separator + 1);
+
+    if (separator <= 0 || !value) {
+      return { filters, error: `Invalid filter "${arg}".` };
+    }
+
+    switch (key) {
+      case "type":
+        if (!types.includes(value.toLowerCase())) {
+          return {
+            filters,
+            error: `Unknown type "${value}". Use one of: ${types.join(", ")}.`,
+          };
+        }
+        filters.type = value.toLowerCase() as TransferType;
+        break;
+      case "status":
+        if (!statuses.includes(value.toLowerCase())) {
+          return {
+            filters,
+            error: `Unknown status "${value}". Use one of: ${statuses.join(
+              ", "
+            )}.`,
+          };
+        }
+        filters.status = value.toLowerCase() as TransferStatus;
+        break;
+      case "from":
+      case "to": {
+        const date = parseDateFilter(value);
+        if (!date) {
+          return { filters, error: `Invalid date "${value}", use YYYY-MM-DD.` };
+        }
+        if (key === "from") filters.startDate = date;
+        else filters.endDate = date;
+        break;
+      }
+      case "min":
+      case "max": {
+        const amount = parseAmountFilter(value);
+        if (amount === undefined) {
+          return { filters, error: `Invalid amount "${value}".` };
+        }
+        if (key === "min") filters.minAmount = amount;
+        else filters.maxAmount = amount;
+        break;
+      }
+      case "party":
+        filters.counterparty = value;
+        break;
+      default:
+        return { filters, error: `Unknown filter "${key}".` };
+    }
+  }
+
+  return { filters, error: validateFilterRanges(filters) };
 }
 
 /**
@@ -41,17 +193,35 @@ export class HistoryCommand extends BaseTransferCommand {
   async execute(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
     const chatId = msg.chat.id;
 
+    // Filters can be passed as arguments, e.g. "/history type:send min:10"
+    const argsMatch = msg.text?.match(/^\/history(?:@\w+)?\s+(.+)$/i);
+    const { filters, error } = argsMatch
+      ? parseFilterArgs(argsMatch[1])
+      : { filters: {}, error: undefined };
+
+    if (error) {
+      bot.sendMessage(
+        chatId,
+        `❌ ${escapeMarkdown(error)}\n\n${HISTORY_FILTER_USAGE}`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
     requireAuth(bot, chatId, async (session) => {
       try {
-        // Update session state
+        // Reset the session state, keeping the filters of this request only
+        this.clearSessionData(chatId);
         this.updateSessionData<HistorySessionState>(chatId, {
           currentAction: "history",
           page: 1,
           totalPages: 1,
+          filters,
         });
 
         // Display transaction history
         await this.displayTransactionHistory(bot, chatId, session, 1);
+        recordFlowCompleted(chatId);
       } catch (error) {
         logger.error("Error executing history command:", { error });
         handleApiErrorResponse(bot, chatId, error as Error, "menu:history");
@@ -89,6 +259,9 @@ export class HistoryCommand extends BaseTransferCommand {
           const state = this.getSessionData<HistorySessionState>(chatId);
 
           if (state && newPage >= 1 && newPage <= state.totalPages) {
+            this.updateSessionData<HistorySessionState>(chatId, {
+              step: undefined,
+            });
             await this.displayTransactionHistory(bot, chatId, session, newPage);
           }
         } else if (action === "menu") {
@@ -100,6 +273,34 @@ export class HistoryCommand extends BaseTransferCommand {
               ],
             },
           });
+        } else if (action === "filter") {
+          this.updateSessionData<HistorySessionState>(chatId, {
+            step: undefined,
+          });
+          await this.showFilterMenu(bot, chatId);
+        } else if (action === "ftype" || action === "fstatus") {
+          await this.processOptionFilter(bot, chatId, action, parts[2]);
+        } else if (
+          action === "fdates" ||
+          action === "famount" ||
+          action === "fparty"
+        ) {
+          await this.promptFilterInput(bot, chatId, action);
+        } else if (action === "fclear") {
+          this.updateSessionData<HistorySessionState>(chatId, {
+            filters: {},
+            step: undefined,
+          });
+          await this.displayTransactionHistory(bot, chatId, session, 1);
+        } else if (action === "export" && parts.length === 2) {
+          await this.showExportOptions(bot, chatId);
+        } else if (
+          action === "export" &&
+          (parts[2] === "csv" || parts[2] === "pdf")
+        ) {
+          await this.exportStatement(bot, chatId, session, parts[2]);
+        } else if (action === "tx" && parts[2]) {
+          await this.showTransferDetails(bot, chatId, session, parts[2]);
         } else {
           // Let the parent class handle other callbacks
           await super.handleCallback(bot, query);
@@ -133,6 +334,385 @@ export class HistoryCommand extends BaseTransferCommand {
     // History command uses handleCallback directly instead
   }
 
+  /**
+   * Handle text input for the date, amount and counterparty filters
+   */
+  async handleUserInput(
+    bot: TelegramBot,
+    msg: TelegramBot.Message
+  ): Promise<void> {
+    if (!msg.text) return;
+
+    const chatId = msg.chat.id;
+    const text = msg.text.trim();
+    const state = this.getSessionData<HistorySessionState>(chatId);
+
+    if (!state || state.currentAction !== "history" || !state.step) return;
+
+    const filters: TransferHistoryFilters = { ...state.filters };
+    const clear = /^(any|clear)$/i.test(text);
+
+    switch (state.step) {
+      case "dates": {
+        const [start = "-", end = "-"] = text.split(/\s+/);
+        const startDate = start === "-" ? undefined : parseDateFilter(start);
+        const endDate = end === "-" ? undefined : parseDateFilter(end);
+
+        if (
+          !clear &&
+          ((start !== "-" && !startDate) || (end !== "-" && !endDate))
+        ) {
+          bot.sendMessage(
+            chatId,
+            "❌ Please enter dates as `YYYY-MM-DD YYYY-MM-DD`, e.g. `2025-01-01 2025-01-31`.",
+            { parse_mode: "Markdown" }
+          );
+          return;
+        }
+        filters.startDate = clear ? undefined : startDate;
+        filters.endDate = clear ? undefined : endDate;
+        break;
+      }
+      case "amount": {
+        const [min = "-", max = "-"] = text.split(/\s+/);
+        const minAmount = min === "-" ? undefined : parseAmountFilter(min);
+        const maxAmount = max === "-" ? undefined : parseAmountFilter(max);
+
+        if (
+          !clear &&
+          ((min !== "-" && minAmount === undefined) ||
+            (max !== "-" && maxAmount === undefined))
+        ) {
+          bot.sendMessage(
+            chatId,
+            "❌ Please enter the amounts as `MIN MAX`, e.g. `10 500` or `10 -`.",
+            { parse_mode: "Markdown" }
+          );
+          return;
+        }
+        filters.minAmount = clear ? undefined : minAmount;
+        filters.maxAmount = clear ? undefined : maxAmount;
+        break;
+      }
+      case "counterparty":
+        filters.counterparty = clear ? undefined : text;
+        break;
+    }
+
+    const rangeError = validateFilterRanges(filters);
+    if (rangeError) {
+      bot.sendMessage(chatId, `❌ ${rangeError} Please try again.`);
+      return;
+    }
+
+    this.updateSessionData<HistorySessionState>(chatId, {
+      filters,
+      step: undefined,
+    });
+    await this.showFilterMenu(bot, chatId);
+  }
+
+  /**
+   * Show the active filters with buttons to change them
+   */
+  private async showFilterMenu(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    const state = this.getSessionData<HistorySessionState>(chatId);
+    const filters = state?.filters || {};
+    const descriptions = formatHistoryFilters(filters);
+
+    let message = "🔍 *Filter Transaction History*\n\n";
+    message +=
+      descriptions.length > 0
+        ? descriptions.map((line) => `• ${escapeMarkdown(line)}`).join("\n")
+        : "No filters set. Showing all transfers.";
+    message += "\n\nChoose a filter to change:";
+
+    bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: `📂 Type: ${filters.type || "any"}`,
+              callback_data: "history:ftype",
+            },
+            {
+              text: `📊 Status: ${filters.status || "any"}`,
+              callback_data: "history:fstatus",
+            },
+          ],
+          [
+            { text: "📅 Date Range", callback_data: "history:fdates" },
+            { text: "💰 Amount", callback_data: "history:famount" },
+          ],
+          [{ text: "👤 Counterparty", callback_data: "history:fparty" }],
+          [
+            { text: "🧹 Clear Filters", callback_data: "history:fclear" },
+            { text: "✅ Show Results", callback_data: "history:page:1" },
+          ],
+          [{ text: "« Back to Menu", callback_data: "menu:main" }],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Show the type or status options, or apply the chosen one
+   * @param filter "ftype" or "fstatus"
+   * @param value The chosen value, "any" to remove the filter, or undefined
+   * to show the options
+   */
+  private async processOptionFilter(
+    bot: TelegramBot,
+    chatId: number,
+    filter: "ftype" | "fstatus",
+    value: string | undefined
+  ): Promise<void> {
+    const options: string[] =
+      filter === "ftype"
+        ? Object.values(TransferType)
+        : Object.values(TransferStatus);
+
+    if (value === undefined) {
+      const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+      for (let i = 0; i < options.length; i += 3) {
+        keyboard.push(
+          options.slice(i, i + 3).map((option) => ({
+            text: option,
+            callback_data: `history:${filter}:${option}`,
+          }))
+        );
+      }
+      keyboard.push([
+        { text: "Any", callback_data: `history:${filter}:any` },
+        { text: "« Back", callback_data: "history:filter" },
+      ]);
+
+      bot.sendMessage(
+        chatId,
+        filter === "ftype"
+          ? "📂 *Choose a transfer type:*"
+          : "📊 *Choose a transfer status:*",
+        { parse_mode: "Markdown", reply_markup: { inline_keyboard: keyboard } }
+      );
+      return;
+    }
+
+    if (value !== "any" && !options.includes(value)) return;
+
+    const state = this.getSessionData<HistorySessionState>(chatId);
+    const filters: TransferHistoryFilters = { ...state?.filters };
+    if (filter === "ftype") {
+      filters.type = value === "any" ? undefined : (value as TransferType);
+    } else {
+      filters.status = value === "any" ? undefined : (value as TransferStatus);
+    }
+
+    this.updateSessionData<HistorySessionState>(chatId, { filters });
+    await this.showFilterMenu(bot, chatId);
+  }
+
+  /**
+   * Ask for the value of a text filter
+   */
+  private async promptFilterInput(
+    bot: TelegramBot,
+    chatId: number,
+    action: "fdates" | "famount" | "fparty"
+  ): Promise<void> {
+    const prompts = {
+      fdates: {
+        step: "dates" as const,
+        text:
+          "📅 *Date Range*\n\nEnter the start and end date (UTC) as " +
+          "`YYYY-MM-DD YYYY-MM-DD`.\nUse `-` for an open end, e.g. `2025-01-01 -`.",
+      },
+      famount: {
+        step: "amount" as const,
+        text:
+          "💰 *Amount Range*\n\nEnter the minimum and maximum amount as " +
+          "`MIN MAX`.\nUse `-` for an open end, e.g. `100 -`.",
+      },
+      fparty: {
+        step: "counterparty" as const,
+        text:
+          "👤 *Counterparty*\n\nEnter part of a name, email or wallet address.",
+      },
+    };
+    const prompt = prompts[action];
+
+    this.updateSessionData<HistorySessionState>(chatId, { step: prompt.step });
+
+    bot.sendMessage(
+      chatId,
+      `${prompt.text}\n\nSend \`any\` to remove this filter.`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "« Back", callback_data: "history:filter" }],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Show the details of a single transfer
+   */
+  private async showTransferDetails(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    transferId: string
+  ): Promise<void> {
+    try {
+      const transfer = await transferService.getTransfer(
+        session.token,
+        transferId
+      );
+      const state = this.getSessionData<HistorySessionState>(chatId);
+
+      const message =
+        formatTransferDetails(transfer) + `\n\n${formatAccountLine(session)}`;
+      bot.sendMessage(chatId, message, {
+        parse_mode: "Markdown",
+        disable_web_page_preview: true,
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: "« Back to History",
+                callback_data: `history:page:${state?.page || 1}`,
+              },
+            ],
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      });
+    } catch (error) {
+      logger.error("Error fetching transfer details:", { error });
+      handleApiErrorResponse(
+        bot,
+        chatId,
+        error as Error,
+        `history:tx:${transferId}`
+      );
+    }
+  }
+
+  /**
+   * Ask which statement format to export
+   */
+  private async showExportOptions(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    const state = this.getSessionData<HistorySessionState>(chatId);
+    const descriptions = formatHistoryFilters(state?.filters || {});
+
+    let message = "📤 *Export Statement*\n\n";
+    message +=
+      descriptions.length > 0
+        ? "All transfers matching your filters will be included:\n" +
+          descriptions.map((line) => `• ${escapeMarkdown(line)}`).join("\n")
+        : "All of your transfers will be included.";
+    message += "\n\nChoose a format:";
+
+    bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: [
+          [
+            { text: "📄 CSV", callback_data: "history:export:csv" },
+            { text: "📕 PDF", callback_data: "history:export:pdf" },
+          ],
+          [{ text: "« Back to History", callback_data: "history:page:1" }],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Fetch every matching transfer and send it as a statement document
+   */
+  private async exportStatement(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    format: "csv" | "pdf"
+  ): Promise<void> {
+    const state = this.getSessionData<HistorySessionState>(chatId);
+    const filters = state?.filters || {};
+
+    const statusMsg = await bot.sendMessage(
+      chatId,
+      "⏳ *Preparing your statement...*",
+      { parse_mode: "Markdown" }
+    );
+
+    try {
+      const { transfers, truncated } =
+        await transferService.getAllTransferHistory(session.token, filters);
+
+      const generatedAt = new Date();
+      const content =
+        format === "csv"
+          ? createCsvStatement(transfers)
+          : await createPdfStatement(transfers, {
+              accountLabel: formatAccountLabel(session),
+              filters: formatHistoryFilters(filters),
+              generatedAt,
+              truncated,
+            });
+
+      await bot.sendDocument(
+        chatId,
+        content,
+        { caption: `📄 Statement with ${transfers.length} transfers` },
+        {
+          filename: `copperx-statement-${generatedAt
+            .toISOString()
+            .slice(0, 10)}.${format}`,
+          contentType: format === "csv" ? "text/csv" : "application/pdf",
+        }
+      );
+
+      let message =
+        `✅ *Statement Ready*\n\n${transfers.length} transfers exported.\n` +
+        formatAccountLine(session);
+      if (truncated) {
+        message +=
+          "\n\n⚠️ Your history is very long, so only the most recent " +
+          "transfers were included. Narrow the date range to export older ones.";
+      }
+
+      bot.editMessageText(message, {
+        chat_id: chatId,
+        message_id: statusMsg.message_id,
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "« Back to History", callback_data: "history:page:1" }],
+            [{ text: "« Back to Menu", callback_data: "menu:main" }],
+          ],
+        },
+      });
+    } catch (error) {
+      logger.error("Error exporting transaction history:", { error });
+      bot.deleteMessage(chatId, statusMsg.message_id).catch(() => {});
+      handleApiErrorResponse(
+        bot,
+        chatId,
+        error as Error,
+        `history:export:${format}`
+      );
+    }
+  }
+
   /**
    * Display transaction history with pagination
    * @param bot The Telegram bot instance
@@ -154,13 +734,40 @@ export class HistoryCommand extends BaseTransferCommand {
         { parse_mode: "Markdown" }
       );
 
-      // Fetch transaction history from the API
-      const response = await transferService.getTransferHistory(
-        session.token,
-        page
-      );
-      const { data: transactions, count, limit } = response;
-      const totalPages = Math.ceil(count / limit);
+      const state = this.getSessionData<HistorySessionState>(chatId);
+      const filters = state?.filters || {};
+
+      let transactions: TransferResponse[];
+      let totalPages: number;
+      let truncated = false;
+
+      if (transferService.hasClientSideFilters(filters)) {
+        // Amount and counterparty filters are applied locally, so walk all
+        // pages and paginate the matches here
+        const result = await transferService.getAllTransferHistory(
+          session.token,
+          filters
+        );
+        totalPages = Math.ceil(result.transfers.length / HISTORY_PAGE_SIZE);
+        transactions = result.transfers.slice(
+          (page - 1) * HISTORY_PAGE_SIZE,
+          page * HISTORY_PAGE_SIZE
+        );
+        truncated = result.truncated;
+      } else {
+        // Fetch transaction history from the API
+        const response = await transferService.getTransferHistory(
+          session.token,
+          page,
+          HISTORY_PAGE_SIZE,
+          filters
+        );
+        totalPages = Math.ceil(response.count / response.limit);
+        transactions = response.data.filter((tx) =>
+          transferService.matchesTransferFilters(tx, filters)
+        );
+      }
+      totalPages = Math.max(1, totalPages);
 
       // Update session state with total pages
       this.updateSessionData<HistorySessionState>(chatId, {
@@ -170,26 +777,53 @@ export class HistoryCommand extends BaseTransferCommand {
       });
 
       // Format transaction history message
-      let message = "📜 *Transaction History*\n\n";
+      let message = "📜 *Transaction History*\n";
+      message += `${formatAccountLine(session)}\n\n`;
+
+      const descriptions = formatHistoryFilters(filters);
+      if (descriptions.length > 0) {
+        message += `🔍 ${escapeMarkdown(descriptions.join(", "))}\n\n`;
+      }
 
       if (transactions.length === 0) {
-        message += "No transactions found.";
+        message +=
+          descriptions.length > 0
+            ? "No transactions match your filters."
+            : "No transactions found.";
       } else {
-        transactions.forEach((tx: TransferResponse) => {
+        transactions.forEach((tx: TransferResponse, index) => {
           const emoji = tx.type === TransferType.DEPOSIT ? "⬇️" : "⬆️";
           const statusEmoji =
             tx.status === TransferStatus.SUCCESS ? "✅" : "⏳";
-          message += `${emoji} *${tx.type.toUpperCase()}*\n`;
-          message += `Amount: ${tx.amount} ${tx.currency}\n`;
+          const counterparty = getTransferCounterparties(tx)[0];
+          message += `${index + 1}. ${emoji} *${tx.type.toUpperCase()}*\n`;
+          message += `Amount: ${formatAmount(
+            transferService.parseApiAmount(tx.amount)
+          )} ${tx.currency}\n`;
+          if (counterparty) {
+            message += `With: ${escapeMarkdown(counterparty)}\n`;
+          }
           message += `Status: ${statusEmoji} ${tx.status}\n`;
           message += `Date: ${new Date(tx.createdAt).toLocaleString()}\n\n`;
         });
       }
 
       message += `\nPage ${page} of ${totalPages}`;
+      if (truncated) {
+        message += "\n⚠️ Only the most recent transfers were searched.";
+      }
 
-      // Create pagination keyboard
-      const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+      // One button per row opens its detail view
+      const keyboard: TelegramBot.InlineKeyboardButton[][] = transactions.map(
+        (tx, index) => [
+          {
+            text: `🔎 ${index + 1}. ${tx.type.toUpperCase()} ${formatAmount(
+              transferService.parseApiAmount(tx.amount)
+            )} ${tx.currency}`,
+            callback_data: `history:tx:${tx.id}`,
+          },
+        ]
+      );
 
       // Add pagination controls if there are multiple pages
       if (totalPages > 1) {
@@ -216,6 +850,11 @@ export class HistoryCommand extends BaseTransferCommand {
         }
       }
 
+      keyboard.push([
+        { text: "🔍 Filter", callback_data: "history:filter" },
+        { text: "📤 Export", callback_data: "history:export" },
+      ]);
+
       // Add back to menu button
       keyboard.push([{ text: "« Back to Menu", callback_data: "menu:main" }]);
 
@@ -232,8 +871,8 @@ export class HistoryCommand extends BaseTransferCommand {
       logger.error("Error fetching transaction history:", error);
       let errorMessage = "Failed to fetch transaction history";
 
-      if (error.response?.data?.message) {
-        errorMessage = error.response.data.message;
+      if (error instanceof CopperxApiError && error.data?.message) {
+        errorMessage = error.message;
       }
 
       bot.sendMessage(
@@ -8,7 +8,10 @@ import { BatchTransferCommand } from "./batch-transfer-command";
 import { TransferMenuCommand } from "./transfer-menu-command";
 import { DepositCommand } from "./deposit-command";
 import { HistoryCommand } from "./history-command";
-import { PayeeCommand, registerPayeeMessageHandlers } from "./payee-command";
+import { ScheduleCommand } from "./schedule-command";
+import { BanksCommand } from "./banks-command";
+import { PayeeCommand } from "./payee-command";
+import { LimitsCommand } from "./limits-command";
 import { getModuleLogger } from "../../utils/logger";
 
 // Create module logger
@@ -30,6 +33,9 @@ export function registerTransferCommands(_bot: TelegramBot): void {
   const depositCommand = new DepositCommand();
   const historyCommand = new HistoryCommand();
   const payeeCommand = new PayeeCommand();
+  const scheduleCommand = new ScheduleCommand();
+  const banksCommand = new BanksCommand();
+  const limitsCommand = new LimitsCommand();
 
   // Register commands in registry
   commandRegistry.registerCommand(transferMenuCommand);
@@ -40,6 +46,9 @@ export function registerTransferCommands(_bot: TelegramBot): void {
   commandRegistry.registerCommand(depositCommand);
   commandRegistry.registerCommand(historyCommand);
   commandRegistry.registerCommand(payeeCommand);
+  commandRegistry.registerCommand(scheduleCommand);
+  commandRegistry.registerCommand(banksCommand);
+  commandRegistry.registerCommand(limitsCommand);
 
   // Register callback handlers
   commandRegistry.registerCallbackHandler("transfer:menu", transferMenuCommand);
@@ -63,40 +72,37 @@ export function registerTransferCommands(_bot: TelegramBot): void {
     "transfer:method:batch",
     batchTransferCommand
   );
+  commandRegistry.registerCallbackHandler("batch", batchTransferCommand);
+  commandRegistry.registerCallbackHandler("withdraw", bankWithdrawalCommand);
 
   // Register callback handlers for email payee selection
   // This handles payee email selection during email transfers
   commandRegistry.registerCallbackHandler("payee:email", emailTransferCommand);
 
-  // Register callback handlers for transfer-related actions
-  commandRegistry.registerCallbackHandler("transfer", emailTransferCommand);
-  commandRegistry.registerCallbackHandler("amount", emailTransferCommand);
-  commandRegistry.registerCallbackHandler("purpose", emailTransferCommand);
-  commandRegistry.registerCallbackHandler("network", walletTransferCommand);
-
-  // Add more specific handlers for transfer actions
-  commandRegistry.registerCallbackHandler(
+  // Register callback handlers for transfer-related actions; the email and
+  // wallet flows share their buttons, so these go to the flow in progress
+  const sendCommands = [emailTransferCommand, walletTransferCommand];
+  [
+    "transfer",
+    "amount",
+    "purpose",
     "transfer:amount",
-    emailTransferCommand
-  );
-  commandRegistry.registerCallbackHandler(
     "transfer:purpose",
-    emailTransferCommand
-  );
-  commandRegistry.registerCallbackHandler(
     "transfer:cancel",
-    emailTransferCommand
-  );
-  commandRegistry.registerCallbackHandler(
     "transfer:confirm",
-    emailTransferCommand
+  ].forEach((prefix) =>
+    commandRegistry.registerSharedCallbackHandler(prefix, sendCommands)
   );
+  commandRegistry.registerCallbackHandler("network", walletTransferCommand);
 
   // Register new command callback handlers
   commandRegistry.registerCallbackHandler("deposit", depositCommand);
   commandRegistry.registerCallbackHandler("menu:deposit", depositCommand);
   commandRegistry.registerCallbackHandler("history", historyCommand);
   commandRegistry.registerCallbackHandler("menu:history", historyCommand);
+  commandRegistry.registerCallbackHandler("schedule", scheduleCommand);
+  commandRegistry.registerCallbackHandler("banks", banksCommand);
+  commandRegistry.registerCallbackHandler("limits", limitsCommand);
 
   // Register payee command callback handlers
   // These handle actions related to managing payees, not selecting them during transfers
@@ -110,22 +116,17 @@ export function registerTransferCommands(_bot: TelegramBot): void {
   commandRegistry.registerCallbackHandler("menu:listpayees", payeeCommand);
   commandRegistry.registerCallbackHandler("menu:removepayee", payeeCommand);
 
-  logger.info("Transfer commands registered successfully");
-}
+  // Register text input handlers for multi-step flows
+  commandRegistry.registerActionHandler("sendemail", emailTransferCommand);
+  commandRegistry.registerActionHandler("sendwallet", walletTransferCommand);
+  commandRegistry.registerActionHandler("withdrawbank", bankWithdrawalCommand);
+  commandRegistry.registerActionHandler("sendbatch", batchTransferCommand);
+  commandRegistry.registerActionHandler("deposit", depositCommand);
+  commandRegistry.registerActionHandler("history", historyCommand);
+  commandRegistry.registerActionHandler("addpayee", payeeCommand);
+  commandRegistry.registerActionHandler("schedule", scheduleCommand);
+  commandRegistry.registerActionHandler("banks", banksCommand);
+  commandRegistry.registerActionHandler("limits", limitsCommand);
 
-/**
- * Register message handlers for transfer related user inputs
- * @param bot The Telegram bot instance
- */
-export function registerTransferMessageHandlers(bot: TelegramBot): void {
-  logger.info("Registering transfer message handlers...");
-
-  // Create shared command instances for use in the main bot message handler
-  // These should be the same instances that were registered in registerTransferCommands
-  // Don't register additional message handlers - rely on the global handler in bot.ts
-
-  // Register payee-specific message handlers
-  registerPayeeMessageHandlers(bot);
-
-  logger.info("Transfer message handlers registered successfully");
+  logger.info("Transfer commands registered successfully");
 }
@@ -0,0 +1,363 @@
+import TelegramBot from "node-telegram-bot-api";
+import { BaseTransferCommand } from "./base-transfer-command";
+import { ExtendedSession, SessionState } from "../../core/session.service";
+import { AuditLogService } from "../../core/audit-log.service";
+import { requireAuth } from "../../core/middleware";
+import { PinService } from "../../core/pin.service";
+import {
+  LIMIT_KINDS,
+  LimitKind,
+  LimitsService,
+} from "../../core/limits.service";
+import { LIMITS_CURRENCY } from "../../utils/constants";
+import { formatCurrency } from "../../utils/format";
+import { createConfirmationKeyboard } from "../../utils/keyboard";
+import { getModuleLogger } from "../../utils/logger";
+import {
+  Amount,
+  amountToString,
+  isPositiveAmount,
+  parseAmount,
+  toAmount,
+} from "../../utils/money";
+import { formatUTCDateTime } from "../../utils/recurrence";
+
+// Create module logger
+const logger = getModuleLogger("limits-command");
+
+// Button and message labels of each limit
+const LIMIT_LABELS: Record<LimitKind, string> = {
+  perTransaction: "Per transfer",
+  daily: "Daily",
+  weekly: "Weekly",
+  newRecipient: "New recipient",
+};
+
+/**
+ * Interface for limits session state
+ */
+interface LimitsSessionState extends SessionState {
+  currentAction: "limits";
+  limitKind: LimitKind;
+}
+
+/**
+ * Limits command implementation
+ * Shows the running totals and sets the daily, weekly, per-transfer and
+ * new recipient limits.
+ */
+export class LimitsCommand extends BaseTransferCommand {
+  name = "limits";
+  description = "View and set your spending limits";
+
+  /**
+   * Get the callback prefix for this command
+   */
+  protected getCallbackPrefix(): string {
+    return "limits";
+  }
+
+  /**
+   * Start the limits flow
+   */
+  protected async startTransferFlow(
+    bot: TelegramBot,
+    chatId: number,
+    _session: ExtendedSession
+  ): Promise<void> {
+    this.clearSessionData(chatId);
+    await this.showLimits(bot, chatId);
+  }
+
+  /**
+   * Process callback data for this command
+   */
+  protected async processCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery,
+    session: ExtendedSession
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    const chatId = query.message.chat.id;
+    const [, action, kind, value] = query.data.split(":");
+
+    switch (action) {
+      case "view":
+      case "cancel":
+        await this.startTransferFlow(bot, chatId, session);
+        break;
+      case "edit":
+        if (this.isLimitKind(kind)) {
+          await this.promptForLimit(bot, chatId, kind);
+        }
+        break;
+      case "remove":
+        if (this.isLimitKind(kind)) {
+          this.clearSessionData(chatId);
+          await this.changeLimit(bot, chatId, session, kind, null);
+        }
+        break;
+      case "raise": {
+        // Confirmed raise; the PIN middleware has asked for the PIN
+        const amount = value !== undefined ? parseAmount(value) : undefined;
+        if (this.isLimitKind(kind) && amount !== undefined) {
+          await this.changeLimit(bot, chatId, session, kind, amount);
+        }
+        break;
+      }
+      case "cancelpending":
+        LimitsService.cancelPending(chatId);
+        AuditLogService.record(
+          {
+            action: "limits.change",
+            chatId,
+            organizationId: session.organizationId,
+            payload: { cancelledPending: true },
+          },
+          { status: "success" }
+        );
+        await bot.sendMessage(chatId, "✅ Pending limit increases cancelled.");
+        await this.showLimits(bot, chatId);
+        break;
+    }
+  }
+
+  /**
+   * Handle the new value of a limit
+   */
+  async handleUserInput(
+    bot: TelegramBot,
+    msg: TelegramBot.Message
+  ): Promise<void> {
+    if (!msg.text) return;
+
+    const chatId = msg.chat.id;
+    const state = this.getSessionData<LimitsSessionState>(chatId);
+    if (!state || state.currentAction !== "limits") return;
+
+    const amount = parseAmount(msg.text.trim());
+    if (amount === undefined || !isPositiveAmount(amount)) {
+      await bot.sendMessage(
+        chatId,
+        "⚠️ Please enter a valid amount greater than 0.",
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "❌ Cancel", callback_data: "limits:cancel" }],
+            ],
+          },
+        }
+      );
+      return;
+    }
+
+    await requireAuth(bot, chatId, async (session) => {
+      this.clearSessionData(chatId);
+
+      // Raising a limit is confirmed with a button, which needs the PIN
+      if (
+        PinService.hasPin(chatId) &&
+        LimitsService.isIncrease(chatId, state.limitKind, amount)
+      ) {
+        await this.confirmRaise(bot, chatId, state.limitKind, amount);
+        return;
+      }
+      await this.changeLimit(bot, chatId, session, state.limitKind, amount);
+    });
+  }
+
+  /**
+   * Ask to confirm raising a limit
+   */
+  private async confirmRaise(
+    bot: TelegramBot,
+    chatId: number,
+    kind: LimitKind,
+    value: Amount
+  ): Promise<void> {
+    await bot.sendMessage(
+      chatId,
+      `Raise your *${LIMIT_LABELS[
+        kind
+      ].toLowerCase()}* limit to ${formatCurrency(
+        value,
+        LIMITS_CURRENCY
+      )}? It applies after 24 hours.`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: createConfirmationKeyboard(
+            `limits:raise:${kind}:${amountToString(value)}`,
+            "limits:cancel"
+          ),
+        },
+      }
+    );
+  }
+
+  /**
+   * Show the running totals, limits and pending increases
+   */
+  private async showLimits(bot: TelegramBot, chatId: number): Promise<void> {
+    const { limits, pending } = LimitsService.getLimits(chatId);
+    const spent = LimitsService.getSpending(chatId);
+
+    const formatLimit = (value: string | undefined | null): string =>
+      value ? formatCurrency(value, LIMITS_CURRENCY) : "No limit";
+
+    let message = "📊 *Spending Limits*\n\n";
+    message += `*Last 24 hours:* ${formatCurrency(
+      spent.daily,
+      LIMITS_CURRENCY
+    )}`;
+    message += limits.daily ? ` of ${formatLimit(limits.daily)}\n` : "\n";
+    message += `*Last 7 days:* ${formatCurrency(
+      spent.weekly,
+      LIMITS_CURRENCY
+    )}`;
+    message += limits.weekly ? ` of ${formatLimit(limits.weekly)}\n\n` : "\n\n";
+
+    LIMIT_KINDS.forEach((kind) => {
+      message += `*${LIMIT_LABELS[kind]}:* ${formatLimit(limits[kind])}\n`;
+    });
+
+    const pendingKinds = LIMIT_KINDS.filter((kind) => pending[kind]);
+    if (pendingKinds.length > 0) {
+      message += "\n*Pending increases:*\n";
+      pendingKinds.forEach((kind) => {
+        const change = pending[kind];
+        if (!change) return;
+        message += `⏳ ${LIMIT_LABELS[kind]}: ${formatLimit(
+          change.value
+        )} from ${formatUTCDateTime(new Date(change.effectiveAt))}\n`;
+      });
+    }
+
+    message +=
+      `\nLimits apply to ${LIMITS_CURRENCY} transfers; transfers in other currencies don't count towards them.` +
+      "\nLowering a limit applies right away; raising or removing one applies after 24 hours.";
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [
+      [
+        {
+          text: "✏️ Per Transfer",
+          callback_data: "limits:edit:perTransaction",
+        },
+        {
+          text: "✏️ New Recipient",
+          callback_data: "limits:edit:newRecipient",
+        },
+      ],
+      [
+        { text: "✏️ Daily", callback_data: "limits:edit:daily" },
+        { text: "✏️ Weekly", callback_data: "limits:edit:weekly" },
+      ],
+    ];
+    if (pendingKinds.length > 0) {
+      keyboard.push([
+        {
+          text: "❌ Cancel Pending Increases",
+          callback_data: "limits:cancelpending",
+        },
+      ]);
+    }
+    keyboard.push([{ text: "« Back to Menu", callback_data: "menu:main" }]);
+
+    await bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  /**
+   * Ask for the new value of a limit
+   */
+  private async promptForLimit(
+    bot: TelegramBot,
+    chatId: number,
+    kind: LimitKind
+  ): Promise<void> {
+    this.updateSessionData<LimitsSessionState>(chatId, {
+      currentAction: "limits",
+      limitKind: kind,
+    });
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    if (LimitsService.getLimits(chatId).limits[kind]) {
+      keyboard.push([
+        { text: "🗑️ Remove Limit", callback_data: `limits:remove:${kind}` },
+      ]);
+    }
+    keyboard.push([{ text: "❌ Cancel", callback_data: "limits:cancel" }]);
+
+    await bot.sendMessage(
+      chatId,
+      `Please enter the new *${LIMIT_LABELS[
+        kind
+      ].toLowerCase()}* limit in ${LIMITS_CURRENCY}:`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard: keyboard },
+      }
+    );
+  }
+
+  /**
+   * Set or remove a limit and tell the user when it applies
+   */
+  private async changeLimit(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession,
+    kind: LimitKind,
+    value: Amount | null
+  ): Promise<void> {
+    const current = LimitsService.getLimits(chatId).limits[kind];
+    const effectiveAt = LimitsService.setLimit(chatId, kind, value);
+    const isDelayed = effectiveAt.getTime() > Date.now();
+
+    AuditLogService.record(
+      {
+        action: "limits.change",
+        chatId,
+        organizationId: session.organizationId,
+        payload: {
+          kind,
+          previous: current ?? null,
+          value: value === null ? null : amountToString(value),
+          effectiveAt: effectiveAt.toISOString(),
+        },
+      },
+      { status: "success" }
+    );
+    logger.info(
+      `${kind} limit of chat ${chatId} changed` +
+        (isDelayed ? `, effective ${effectiveAt.toISOString()}` : "")
+    );
+
+    const label = LIMIT_LABELS[kind];
+    const newValue =
+      value === null
+        ? "removed"
+        : `set to ${formatCurrency(value, LIMITS_CURRENCY)}`;
+    const message = isDelayed
+      ? `⏳ Your ${label.toLowerCase()} limit will be ${newValue} on ${formatUTCDateTime(
+          effectiveAt
+        )}.\nUntil then, the current limit of ${formatCurrency(
+          toAmount(current || "0"),
+          LIMITS_CURRENCY
+        )} applies.`
+      : `✅ Your ${label.toLowerCase()} limit was ${newValue}.`;
+
+    await bot.sendMessage(chatId, message);
+    await this.showLimits(bot, chatId);
+  }
+
+  /**
+   * Check whether callback data names a limit
+   */
+  private isLimitKind(kind: string | undefined): kind is LimitKind {
+    return LIMIT_KINDS.includes(kind as LimitKind);
+  }
+}
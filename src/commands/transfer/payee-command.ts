@@ -1,6 +1,8 @@
 import TelegramBot from "node-telegram-bot-api";
 import { BotCommand } from "../../core/command";
-import { SessionService } from "../../core/session.service";
+import { ExtendedSession, SessionService } from "../../core/session.service";
+import { AuditLogService } from "../../core/audit-log.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
 import * as payeeService from "../../services/payee.service";
 import { CreatePayeeRequest, Payee } from "../../types";
 import { createYesNoKeyboard } from "../../utils/keyboard";
@@ -28,6 +30,7 @@ interface AddPayeeState {
 export class PayeeCommand implements BotCommand {
   name = "addpayee";
   description = "Add a new payee to your account";
+  requiresAuth = true;
 
   /**
    * Execute payee command based on the command name
@@ -95,7 +98,7 @@ export class PayeeCommand implements BotCommand {
             this.handleCancelOperation(bot, chatId, messageId);
             break;
           case "yes":
-            this.handleConfirmAddPayee(bot, chatId, messageId, session.token);
+            this.handleConfirmAddPayee(bot, chatId, messageId, session);
             break;
           case "no":
             this.handleDeclineAddPayee(bot, chatId, messageId);
@@ -105,7 +108,7 @@ export class PayeeCommand implements BotCommand {
             break;
           case "remove":
             if (parts.length >= 3) {
-              this.removePayee(bot, chatId, messageId, session.token, parts[2]);
+              this.removePayee(bot, chatId, messageId, session, parts[2]);
             }
             break;
           case "removecancel":
@@ -184,6 +187,13 @@ export class PayeeCommand implements BotCommand {
     });
   }
 
+  /**
+   * Start the add payee flow over after the user logged in again
+   */
+  async resumeFlow(bot: TelegramBot, chatId: number): Promise<void> {
+    this.startAddPayeeFlow(bot, chatId);
+  }
+
   /**
    * Start the add payee flow
    */
@@ -461,12 +471,20 @@ export class PayeeCommand implements BotCommand {
     bot: TelegramBot,
     chatId: number,
     messageId: number,
-    token: string,
+    session: ExtendedSession,
     payeeId: string
   ): Promise<void> {
     try {
       // Call API to delete payee
-      await payeeService.deletePayee(token, payeeId);
+      await AuditLogService.audit(
+        {
+          action: "payee.delete",
+          chatId,
+          organizationId: session.organizationId,
+          payload: { payeeId },
+        },
+        () => payeeService.deletePayee(session.token, payeeId)
+      );
 
       // Show success message
       bot.editMessageText("✅ Payee has been successfully removed.", {
@@ -515,7 +533,7 @@ export class PayeeCommand implements BotCommand {
     bot: TelegramBot,
     chatId: number,
     messageId: number,
-    token: string
+    session: ExtendedSession
   ): Promise<void> {
     const sessionState = SessionService.getSessionState(chatId);
 
@@ -554,9 +572,18 @@ export class PayeeCommand implements BotCommand {
       };
 
       // Call the API to create the payee
-      await payeeService.createPayee(token, payeeData);
+      await AuditLogService.audit(
+        {
+          action: "payee.create",
+          chatId,
+          organizationId: session.organizationId,
+          payload: { ...payeeData },
+        },
+        () => payeeService.createPayee(session.token, payeeData)
+      );
 
       // Clear state
+      recordFlowCompleted(chatId);
       SessionService.updateSessionState(chatId, {});
 
       // Show success message
@@ -694,18 +721,3 @@ export class PayeeCommand implements BotCommand {
     }
   }
 }
-
-/**
- * Register message handlers for payee operations
- * @param bot The Telegram bot instance
- */
-export function registerPayeeMessageHandlers(_bot: TelegramBot): void {
-  // NOTE: This function is kept for backward compatibility but is no longer needed
-  // The main message handler in registerTransferMessageHandlers already handles addpayee actions
-  // This avoids duplicate handlers processing the same messages
-
-  // We're intentionally NOT registering duplicate handlers here
-  logger.debug(
-    "Payee message handlers integration handled by main transfer handler"
-  );
-}
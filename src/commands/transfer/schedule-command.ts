@@ -0,0 +1,944 @@
+import TelegramBot from "node-telegram-bot-api";
+import { BaseTransferCommand } from "./base-transfer-command";
+import {
+  ExtendedSession,
+  SessionService,
+  SessionState,
+} from "../../core/session.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
+import { getRecipientKey } from "../../core/limits.service";
+import { SchedulerService } from "../../core/scheduler.service";
+import { Recurrence, ScheduledTransfer } from "../../types";
+import {
+  describeRecurrence,
+  formatUTCDateTime,
+  getNextRun,
+  parseUTCDateTime,
+  validateCron,
+} from "../../utils/recurrence";
+import {
+  escapeMarkdown,
+  formatAccountLabel,
+  formatAddress,
+  formatCurrency,
+  formatScheduleSummary,
+} from "../../utils/format";
+import {
+  createConfirmationKeyboard,
+  createPurposeCodeKeyboard,
+  createScheduleActionsKeyboard,
+} from "../../utils/keyboard";
+import { getPurposeCodeLabel } from "../../utils/helpers";
+import {
+  SCHEDULE_MAX_PER_CHAT,
+  SUPPORTED_CURRENCIES,
+} from "../../utils/constants";
+import { getModuleLogger } from "../../utils/logger";
+import {
+  amountToString,
+  isPositiveAmount,
+  parseAmount,
+  toAmount,
+} from "../../utils/money";
+
+// Create module logger
+const logger = getModuleLogger("schedule-command");
+
+// Number of run log entries shown in chat
+const RUN_LOG_ENTRIES_SHOWN = 10;
+
+/**
+ * Interface for schedule creation session state
+ */
+interface ScheduleSessionState extends SessionState {
+  currentAction: "schedule";
+  step:
+    | "recipientType"
+    | "recipient"
+    | "amount"
+    | "currency"
+    | "purpose"
+    | "frequency"
+    | "start"
+    | "cron"
+    | "confirm";
+  recipientType?: "email" | "wallet";
+  recipient?: string;
+  amount?: string;
+  currency?: string;
+  purposeCode?: string;
+  recurrence?: Recurrence;
+  startAt?: string;
+}
+
+/**
+ * Recurrence options offered when creating a schedule
+ */
+const FREQUENCY_OPTIONS: Record<
+  string,
+  { label: string; recurrence: Recurrence }
+> = {
+  once: { label: "Once", recurrence: { frequency: "once" } },
+  daily: { label: "Daily", recurrence: { frequency: "daily" } },
+  weekly: { label: "Weekly", recurrence: { frequency: "weekly" } },
+  biweekly: {
+    label: "Every 2 Weeks",
+    recurrence: { frequency: "weekly", interval: 2 },
+  },
+  monthly: { label: "Monthly", recurrence: { frequency: "monthly" } },
+  cron: { label: "Custom (cron)", recurrence: { frequency: "cron" } },
+};
+
+/**
+ * Command to create and manage scheduled and recurring transfers
+ */
+export class ScheduleCommand extends BaseTransferCommand {
+  name = "schedule";
+  description = "Schedule one-off or recurring transfers";
+
+  /**
+   * Get the callback prefix for this command
+   */
+  protected getCallbackPrefix(): string {
+    return "schedule:";
+  }
+
+  /**
+   * Show the chat's schedules
+   */
+  protected async startTransferFlow(
+    bot: TelegramBot,
+    chatId: number,
+    _session: ExtendedSession
+  ): Promise<void> {
+    await this.showScheduleList(bot, chatId);
+  }
+
+  /**
+   * Process callback data
+   */
+  protected async processCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery,
+    session: ExtendedSession
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    const chatId = query.message.chat.id;
+    const [, action, value] = query.data.split(":");
+
+    switch (action) {
+      case "list":
+        await this.showScheduleList(bot, chatId);
+        break;
+      case "new":
+        await this.startScheduleCreation(bot, chatId);
+        break;
+      case "type":
+        await this.processRecipientTypeSelection(bot, chatId, value);
+        break;
+      case "currency":
+        await this.processCurrencySelection(bot, chatId, value);
+        break;
+      case "purpose":
+        await this.processPurposeSelection(bot, chatId, value);
+        break;
+      case "freq":
+        await this.processFrequencySelection(bot, chatId, value);
+        break;
+      case "confirm":
+        await this.processScheduleConfirmation(bot, chatId, session);
+        break;
+      case "cancel":
+        await this.sendCreationCancelledMessage(bot, chatId);
+        break;
+      case "view":
+        await this.showScheduleDetails(bot, chatId, value);
+        break;
+      case "log":
+        await this.showRunLog(bot, chatId, value);
+        break;
+      case "skip":
+      case "pause":
+      case "resume":
+      case "stop":
+        await this.processScheduleAction(bot, chatId, action, value);
+        break;
+    }
+  }
+
+  /**
+   * Handle user input for multi-step flow
+   */
+  async handleUserInput(
+    bot: TelegramBot,
+    msg: TelegramBot.Message
+  ): Promise<void> {
+    if (!msg.text) return;
+
+    const chatId = msg.chat.id;
+    const text = msg.text.trim();
+    const state = this.getSessionData<ScheduleSessionState>(chatId);
+
+    if (!state || state.currentAction !== "schedule") return;
+
+    switch (state.step) {
+      case "recipient":
+        await this.processRecipientInput(bot, chatId, text, state);
+        break;
+      case "amount":
+        await this.processAmountInput(bot, chatId, text);
+        break;
+      case "start":
+        await this.processStartInput(bot, chatId, text);
+        break;
+      case "cron":
+        await this.processCronInput(bot, chatId, text);
+        break;
+    }
+  }
+
+  /**
+   * Show the list of schedules with a button per schedule
+   */
+  private async showScheduleList(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    const schedules = SchedulerService.getSchedulesForChat(chatId);
+
+    let message = "📅 *Scheduled Transfers*\n\n";
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+
+    if (schedules.length === 0) {
+      message +=
+        "You have no scheduled transfers yet.\n\n" +
+        "Create one to pay someone automatically once or on a recurring basis.";
+    } else {
+      schedules.forEach((schedule, index) => {
+        message +=
+          `*${index + 1}. ${this.getStatusLabel(schedule)}*\n` +
+          formatScheduleSummary(schedule) +
+          "\n";
+        keyboard.push([
+          {
+            text: `${index + 1}. ${
+              schedule.template.recipientType === "email"
+                ? schedule.template.recipient
+                : formatAddress(schedule.template.recipient)
+            } · ${formatCurrency(
+              schedule.template.amount,
+              schedule.template.currency
+            )}`,
+            callback_data: `schedule:view:${schedule.id}`,
+          },
+        ]);
+      });
+    }
+
+    keyboard.push([
+      { text: "➕ New Schedule", callback_data: "schedule:new" },
+    ]);
+    keyboard.push([{ text: "« Back to Menu", callback_data: "menu:main" }]);
+
+    bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  /**
+   * Start creating a new schedule
+   */
+  private async startScheduleCreation(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    const openSchedules = SchedulerService.getSchedulesForChat(chatId).filter(
+      (schedule) => schedule.status !== "completed"
+    );
+    if (openSchedules.length >= SCHEDULE_MAX_PER_CHAT) {
+      bot.sendMessage(
+        chatId,
+        `⚠️ You can have at most ${SCHEDULE_MAX_PER_CHAT} active or paused schedules. ` +
+          "Please cancel one before creating another.",
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "📅 My Schedules", callback_data: "schedule:list" }],
+            ],
+          },
+        }
+      );
+      return;
+    }
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      currentAction: "schedule",
+      step: "recipientType",
+    });
+
+    bot.sendMessage(
+      chatId,
+      "📅 *New Scheduled Transfer*\n\nWho should receive the transfer?",
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: "📧 Email", callback_data: "schedule:type:email" },
+              {
+                text: "🔑 Wallet Address",
+                callback_data: "schedule:type:wallet",
+              },
+            ],
+            [{ text: "❌ Cancel", callback_data: "schedule:cancel" }],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Process recipient type selection
+   */
+  private async processRecipientTypeSelection(
+    bot: TelegramBot,
+    chatId: number,
+    recipientType: string
+  ): Promise<void> {
+    const state = this.getSessionData<ScheduleSessionState>(chatId);
+    if (!state || state.currentAction !== "schedule") return;
+    if (recipientType !== "email" && recipientType !== "wallet") return;
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      recipientType,
+      step: "recipient",
+    });
+
+    bot.sendMessage(
+      chatId,
+      recipientType === "email"
+        ? "📧 Please enter the recipient's email address:"
+        : "🔑 Please enter the recipient's wallet address:",
+      { reply_markup: { inline_keyboard: this.createCancelKeyboard() } }
+    );
+  }
+
+  /**
+   * Process recipient input
+   */
+  private async processRecipientInput(
+    bot: TelegramBot,
+    chatId: number,
+    recipient: string,
+    state: ScheduleSessionState
+  ): Promise<void> {
+    const isValid =
+      state.recipientType === "email"
+        ? /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient)
+        : /^0x[a-fA-F0-9]{40}$/.test(recipient);
+
+    if (!isValid) {
+      bot.sendMessage(
+        chatId,
+        state.recipientType === "email"
+          ? "⚠️ Please enter a valid email address."
+          : "⚠️ Please enter a valid wallet address.",
+        { reply_markup: { inline_keyboard: this.createCancelKeyboard() } }
+      );
+      return;
+    }
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      recipient,
+      step: "amount",
+    });
+
+    bot.sendMessage(
+      chatId,
+      "💰 Please enter the amount to send on each run:",
+      { reply_markup: { inline_keyboard: this.createCancelKeyboard() } }
+    );
+  }
+
+  /**
+   * Process amount input
+   */
+  private async processAmountInput(
+    bot: TelegramBot,
+    chatId: number,
+    amountText: string
+  ): Promise<void> {
+    const amount = parseAmount(amountText);
+
+    if (amount === undefined || !isPositiveAmount(amount)) {
+      bot.sendMessage(
+        chatId,
+        "⚠️ Please enter a valid amount greater than 0.",
+        { reply_markup: { inline_keyboard: this.createCancelKeyboard() } }
+      );
+      return;
+    }
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      amount: amountToString(amount),
+      step: "currency",
+    });
+
+    // Group currency buttons in rows of 3
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    for (let i = 0; i < SUPPORTED_CURRENCIES.length; i += 3) {
+      keyboard.push(
+        SUPPORTED_CURRENCIES.slice(i, i + 3).map((currency) => ({
+          text: currency,
+          callback_data: `schedule:currency:${currency}`,
+        }))
+      );
+    }
+    keyboard.push(...this.createCancelKeyboard());
+
+    bot.sendMessage(chatId, "🪙 Please select the currency:", {
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  /**
+   * Process currency selection
+   */
+  private async processCurrencySelection(
+    bot: TelegramBot,
+    chatId: number,
+    currency: string
+  ): Promise<void> {
+    const state = this.getSessionData<ScheduleSessionState>(chatId);
+    if (!state || state.step !== "currency") return;
+    if (!SUPPORTED_CURRENCIES.includes(currency)) return;
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      currency,
+      step: "purpose",
+    });
+
+    bot.sendMessage(
+      chatId,
+      "📝 Please select the purpose of this transfer:",
+      {
+        reply_markup: {
+          inline_keyboard: createPurposeCodeKeyboard("schedule"),
+        },
+      }
+    );
+  }
+
+  /**
+   * Process purpose selection
+   */
+  private async processPurposeSelection(
+    bot: TelegramBot,
+    chatId: number,
+    purposeCode: string
+  ): Promise<void> {
+    const state = this.getSessionData<ScheduleSessionState>(chatId);
+    if (!state || state.step !== "purpose") return;
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      purposeCode,
+      step: "frequency",
+    });
+
+    const options = Object.entries(FREQUENCY_OPTIONS);
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+    for (let i = 0; i < options.length; i += 2) {
+      keyboard.push(
+        options.slice(i, i + 2).map(([key, option]) => ({
+          text: option.label,
+          callback_data: `schedule:freq:${key}`,
+        }))
+      );
+    }
+    keyboard.push(...this.createCancelKeyboard());
+
+    bot.sendMessage(chatId, "🔁 How often should this transfer run?", {
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  }
+
+  /**
+   * Process frequency selection
+   */
+  private async processFrequencySelection(
+    bot: TelegramBot,
+    chatId: number,
+    frequencyKey: string
+  ): Promise<void> {
+    const state = this.getSessionData<ScheduleSessionState>(chatId);
+    const option = FREQUENCY_OPTIONS[frequencyKey];
+    if (!state || state.step !== "frequency" || !option) return;
+
+    if (option.recurrence.frequency === "cron") {
+      this.updateSessionData<ScheduleSessionState>(chatId, {
+        recurrence: option.recurrence,
+        step: "cron",
+      });
+
+      bot.sendMessage(
+        chatId,
+        "⏱ *Custom Schedule*\n\n" +
+          "Enter a cron expression in UTC with 5 fields:\n" +
+          "`minute hour day month weekday`\n\n" +
+          "Examples:\n" +
+          "`0 9 * * 1` - every Monday at 09:00\n" +
+          "`30 8 1,15 * *` - on the 1st and 15th at 08:30",
+        {
+          parse_mode: "Markdown",
+          reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+        }
+      );
+      return;
+    }
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      recurrence: option.recurrence,
+      step: "start",
+    });
+
+    bot.sendMessage(
+      chatId,
+      "🗓 *First Run*\n\n" +
+        "Enter the date and time of the first transfer in UTC:\n" +
+        "`YYYY-MM-DD HH:MM` (e.g. `2025-07-01 09:00`)\n\n" +
+        "Later runs repeat from this date and time.",
+      {
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+      }
+    );
+  }
+
+  /**
+   * Process first run date input
+   */
+  private async processStartInput(
+    bot: TelegramBot,
+    chatId: number,
+    text: string
+  ): Promise<void> {
+    const startAt = parseUTCDateTime(text);
+
+    if (!startAt || startAt.getTime() <= Date.now()) {
+      bot.sendMessage(
+        chatId,
+        "⚠️ Please enter a future date and time in UTC as `YYYY-MM-DD HH:MM`.",
+        {
+          parse_mode: "Markdown",
+          reply_markup: { inline_keyboard: this.createCancelKeyboard() },
+        }
+      );
+      return;
+    }
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      startAt: startAt.toISOString(),
+      step: "confirm",
+    });
+
+    await this.showScheduleConfirmation(bot, chatId);
+  }
+
+  /**
+   * Process cron expression input
+   */
+  private async processCronInput(
+    bot: TelegramBot,
+    chatId: number,
+    expression: string
+  ): Promise<void> {
+    const error = validateCron(expression);
+    const cron = expression.replace(/\s+/g, " ");
+
+    const nextRun = error
+      ? undefined
+      : getNextRun({ frequency: "cron", cron }, new Date(), new Date());
+
+    if (!nextRun) {
+      bot.sendMessage(
+        chatId,
+        `⚠️ ${error || "This cron expression never runs."}\n\nPlease try again.`,
+        { reply_markup: { inline_keyboard: this.createCancelKeyboard() } }
+      );
+      return;
+    }
+
+    this.updateSessionData<ScheduleSessionState>(chatId, {
+      recurrence: { frequency: "cron", cron },
+      startAt: new Date().toISOString(),
+      step: "confirm",
+    });
+
+    await this.showScheduleConfirmation(bot, chatId);
+  }
+
+  /**
+   * Show schedule confirmation
+   */
+  private async showScheduleConfirmation(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    const state = this.getSessionData<ScheduleSessionState>(chatId);
+    if (
+      !state ||
+      !state.recipientType ||
+      !state.recipient ||
+      !state.amount ||
+      !state.currency ||
+      !state.recurrence ||
+      !state.startAt
+    ) {
+      return;
+    }
+
+    const session = SessionService.getSession(chatId);
+    if (!session) return;
+
+    const startAt = new Date(state.startAt);
+    const firstRun = getNextRun(state.recurrence, startAt, new Date());
+
+    const message =
+      `📅 *Confirm Scheduled Transfer*\n\n` +
+      `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
+      `To: ${this.getRecipientLabel(state.recipientType, state.recipient)}\n` +
+      `Amount: ${formatCurrency(state.amount, state.currency)}\n` +
+      `Purpose: ${getPurposeCodeLabel(state.purposeCode || "self")}\n` +
+      `Repeats: ${describeRecurrence(state.recurrence, startAt)}\n` +
+      `First Run: ${firstRun ? formatUTCDateTime(firstRun) : "-"}\n\n` +
+      `You'll get a reminder before each run with options to skip, pause or cancel.`;
+
+    bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: createConfirmationKeyboard(
+          "schedule:confirm",
+          "schedule:cancel"
+        ),
+      },
+    });
+  }
+
+  /**
+   * Create the schedule after confirmation
+   */
+  private async processScheduleConfirmation(
+    bot: TelegramBot,
+    chatId: number,
+    session: ExtendedSession
+  ): Promise<void> {
+    const state = this.getSessionData<ScheduleSessionState>(chatId);
+    if (
+      !state ||
+      state.step !== "confirm" ||
+      !state.recipientType ||
+      !state.recipient ||
+      !state.amount ||
+      !state.currency ||
+      !state.recurrence ||
+      !state.startAt
+    ) {
+      return;
+    }
+
+    // Runs are checked again when they are due
+    const transfers = [
+      {
+        recipient: getRecipientKey(state.recipientType, state.recipient),
+        amount: toAmount(state.amount),
+        currency: state.currency,
+      },
+    ];
+    if (!(await this.checkSpendingLimits(bot, chatId, transfers))) return;
+
+    try {
+      const schedule = SchedulerService.createSchedule(
+        chatId,
+        {
+          recipientType: state.recipientType,
+          recipient: state.recipient,
+          amount: state.amount,
+          currency: state.currency,
+          purposeCode: state.purposeCode || "self",
+        },
+        state.recurrence,
+        new Date(state.startAt),
+        { organizationId: session.organizationId, email: session.email }
+      );
+
+      // Reset state
+      recordFlowCompleted(chatId);
+      this.clearSessionData(chatId);
+
+      bot.sendMessage(
+        chatId,
+        `✅ *Transfer Scheduled*\n\n` + formatScheduleSummary(schedule),
+        {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "📅 My Schedules", callback_data: "schedule:list" }],
+              [{ text: "« Back to Menu", callback_data: "menu:main" }],
+            ],
+          },
+        }
+      );
+    } catch (error: any) {
+      logger.error(`Failed to create schedule:`, error);
+      this.clearSessionData(chatId);
+
+      bot.sendMessage(
+        chatId,
+        this.formatErrorMessage(error.message || "Failed to create schedule."),
+        {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "🔄 Try Again", callback_data: "schedule:new" }],
+              [{ text: "« Back to Menu", callback_data: "menu:main" }],
+            ],
+          },
+        }
+      );
+    }
+  }
+
+  /**
+   * Cancel schedule creation
+   */
+  private async sendCreationCancelledMessage(
+    bot: TelegramBot,
+    chatId: number
+  ): Promise<void> {
+    this.clearSessionData(chatId);
+
+    bot.sendMessage(chatId, "❌ Schedule creation cancelled.", {
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: "📅 My Schedules", callback_data: "schedule:list" }],
+          [{ text: "« Back to Menu", callback_data: "menu:main" }],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Show details and actions of a single schedule
+   */
+  private async showScheduleDetails(
+    bot: TelegramBot,
+    chatId: number,
+    scheduleId: string
+  ): Promise<void> {
+    const schedule = SchedulerService.getSchedule(chatId, scheduleId);
+    if (!schedule || schedule.status === "cancelled") {
+      this.sendScheduleNotFound(bot, chatId);
+      return;
+    }
+
+    const keyboard =
+      schedule.status === "completed"
+        ? [
+            [
+              {
+                text: "📜 Run Log",
+                callback_data: `schedule:log:${schedule.id}`,
+              },
+            ],
+          ]
+        : createScheduleActionsKeyboard(
+            schedule.id,
+            schedule.status === "paused"
+          );
+    keyboard.push([
+      { text: "📅 My Schedules", callback_data: "schedule:list" },
+    ]);
+
+    bot.sendMessage(
+      chatId,
+      `📅 *Schedule ${this.getStatusLabel(schedule)}*\n\n` +
+        formatScheduleSummary(schedule) +
+        `Runs: ${schedule.runs.length}`,
+      {
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard: keyboard },
+      }
+    );
+  }
+
+  /**
+   * Show the most recent runs of a schedule
+   */
+  private async showRunLog(
+    bot: TelegramBot,
+    chatId: number,
+    scheduleId: string
+  ): Promise<void> {
+    const schedule = SchedulerService.getSchedule(chatId, scheduleId);
+    if (!schedule) {
+      this.sendScheduleNotFound(bot, chatId);
+      return;
+    }
+
+    let message = `📜 *Run Log*\n\n`;
+    if (schedule.runs.length === 0) {
+      message += "This schedule hasn't run yet.";
+    } else {
+      const runs = schedule.runs.slice(-RUN_LOG_ENTRIES_SHOWN).reverse();
+      runs.forEach((run) => {
+        const icon =
+          run.outcome === "success"
+            ? "✅"
+            : run.outcome === "skipped"
+            ? "⏭"
+            : "❌";
+        message += `${icon} ${formatUTCDateTime(new Date(run.scheduledFor))}`;
+        if (run.transferId) {
+          message += ` - Ref: ${run.transferId}`;
+        }
+        if (run.message) {
+          message += ` - ${escapeMarkdown(run.message)}`;
+        }
+        message += "\n";
+      });
+
+      if (schedule.runs.length > RUN_LOG_ENTRIES_SHOWN) {
+        message += `\nShowing the last ${RUN_LOG_ENTRIES_SHOWN} of ${schedule.runs.length} runs.`;
+      }
+    }
+
+    bot.sendMessage(chatId, message, {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: "« Back to Schedule",
+              callback_data: `schedule:view:${schedule.id}`,
+            },
+          ],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Skip, pause, resume or cancel a schedule
+   */
+  private async processScheduleAction(
+    bot: TelegramBot,
+    chatId: number,
+    action: "skip" | "pause" | "resume" | "stop",
+    scheduleId: string
+  ): Promise<void> {
+    let schedule: ScheduledTransfer | undefined;
+    let message: string;
+
+    switch (action) {
+      case "skip":
+        schedule = SchedulerService.skipNextRun(chatId, scheduleId);
+        message = "⏭ The next run will be skipped.";
+        break;
+      case "pause":
+        schedule = SchedulerService.pauseSchedule(chatId, scheduleId);
+        message = "⏸ Schedule paused. No transfers will run until you resume it.";
+        break;
+      case "resume":
+        schedule = SchedulerService.resumeSchedule(chatId, scheduleId);
+        message =
+          schedule?.status === "completed"
+            ? "This schedule has no upcoming runs and is now completed."
+            : "▶️ Schedule resumed.";
+        break;
+      case "stop":
+        schedule = SchedulerService.cancelSchedule(chatId, scheduleId);
+        message = "🗑 Schedule cancelled. No further transfers will run.";
+        break;
+    }
+
+    if (!schedule) {
+      bot.sendMessage(
+        chatId,
+        "⚠️ This action isn't available for the schedule in its current state.",
+        {
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: "📅 My Schedules", callback_data: "schedule:list" }],
+            ],
+          },
+        }
+      );
+      return;
+    }
+
+    logger.info(`Schedule ${scheduleId} ${action} by chat ${chatId}`);
+
+    bot.sendMessage(
+      chatId,
+      `${message}\n\n` + formatScheduleSummary(schedule),
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "📅 My Schedules", callback_data: "schedule:list" }],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Tell the user a schedule couldn't be found
+   */
+  private sendScheduleNotFound(bot: TelegramBot, chatId: number): void {
+    bot.sendMessage(chatId, "⚠️ Schedule not found.", {
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: "📅 My Schedules", callback_data: "schedule:list" }],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Get a display label for a schedule's status
+   */
+  private getStatusLabel(schedule: ScheduledTransfer): string {
+    switch (schedule.status) {
+      case "active":
+        return "🟢 Active";
+      case "paused":
+        return "⏸ Paused";
+      case "completed":
+        return "✔️ Completed";
+      default:
+        return "🗑 Cancelled";
+    }
+  }
+
+  /**
+   * Get a short display label for a recipient
+   */
+  private getRecipientLabel(
+    recipientType: "email" | "wallet",
+    recipient: string
+  ): string {
+    return recipientType === "email"
+      ? escapeMarkdown(recipient)
+      : formatAddress(recipient);
+  }
+
+  /**
+   * Create a keyboard with a single cancel button
+   */
+  private createCancelKeyboard(): TelegramBot.InlineKeyboardButton[][] {
+    return [[{ text: "❌ Cancel", callback_data: "schedule:cancel" }]];
+  }
+}
@@ -11,6 +11,7 @@ import { requireAuth } from "../../core/middleware";
 export class TransferMenuCommand implements BotCommand {
   name = "transfer";
   description = "Send funds to someone";
+  requiresAuth = true;
 
   /**
    * Execute transfer command
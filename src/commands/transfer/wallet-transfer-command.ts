@@ -5,9 +5,19 @@ import {
   SessionService,
   SessionState,
 } from "../../core/session.service";
+import { recordFlowCompleted } from "../../core/flow-metrics";
+import { AuditLogService } from "../../core/audit-log.service";
+import { getRecipientKey, LimitsService } from "../../core/limits.service";
 import * as transferService from "../../services/transfer.service";
 import { handleApiErrorResponse } from "../../utils/error-handler";
-import { formatCurrency, formatAddress } from "../../utils/format";
+import {
+  escapeMarkdown,
+  formatAccountLabel,
+  formatCurrency,
+  formatAddress,
+  formatTransferStatusFooter,
+} from "../../utils/format";
+import { TransferTrackerService } from "../../core/transfer-tracker.service";
 import {
   createAmountKeyboard,
   createConfirmationKeyboard,
@@ -16,6 +26,12 @@ import {
 import { getModuleLogger } from "../../utils/logger";
 import { PurposeCode } from "../../types";
 import { requireAuth } from "../../core/middleware";
+import {
+  amountToString,
+  isPositiveAmount,
+  parseAmount,
+  toAmount,
+} from "../../utils/money";
 
 // Create module logger
 const logger = getModuleLogger("wallet-transfer-command");
@@ -27,7 +43,7 @@ interface WalletTransferSessionState extends SessionState {
   currentAction: "sendwallet";
   step: "address" | "amount" | "purpose" | "confirm";
   walletAddress?: string;
-  amount?: number;
+  amount?: string; // Decimal string, e.g. "10.5"
   purposeCode?: string;
 }
 
@@ -109,9 +125,13 @@ export class WalletTransferCommand extends BaseTransferCommand {
           return;
         }
 
-        const amount = parseFloat(amountPart);
-        if (!isNaN(amount)) {
-          await this.processAmountSelection(bot, chatId, amount);
+        const amount = parseAmount(amountPart);
+        if (amount !== undefined) {
+          await this.processAmountSelection(
+            bot,
+            chatId,
+            amountToString(amount)
+          );
         }
       });
       return;
@@ -172,6 +192,27 @@ export class WalletTransferCommand extends BaseTransferCommand {
     }
   }
 
+  /**
+   * Continue the wallet transfer at the step it stopped
+   */
+  async resumeFlow(bot: TelegramBot, chatId: number): Promise<void> {
+    const state = this.getSessionData<WalletTransferSessionState>(chatId);
+
+    if (state?.walletAddress && state.amount && state.step === "confirm") {
+      await this.showTransferConfirmation(bot, chatId);
+    } else if (
+      state?.walletAddress &&
+      state.amount &&
+      state.step === "purpose"
+    ) {
+      await this.processAmountSelection(bot, chatId, state.amount);
+    } else if (state?.walletAddress && state.step === "amount") {
+      await this.processWalletAddressInput(bot, chatId, state.walletAddress);
+    } else {
+      await super.resumeFlow(bot, chatId);
+    }
+  }
+
   /**
    * Process wallet address input
    */
@@ -230,10 +271,10 @@ export class WalletTransferCommand extends BaseTransferCommand {
     chatId: number,
     amountText: string
   ): Promise<void> {
-    const amount = parseFloat(amountText);
+    const amount = parseAmount(amountText);
 
     // Validate amount
-    if (isNaN(amount) || amount <= 0) {
+    if (amount === undefined || !isPositiveAmount(amount)) {
       bot.sendMessage(
         chatId,
         "⚠️ Please enter a valid amount greater than 0.",
@@ -248,7 +289,7 @@ export class WalletTransferCommand extends BaseTransferCommand {
       return;
     }
 
-    await this.processAmountSelection(bot, chatId, amount);
+    await this.processAmountSelection(bot, chatId, amountToString(amount));
   }
 
   /**
@@ -257,7 +298,7 @@ export class WalletTransferCommand extends BaseTransferCommand {
   private async processAmountSelection(
     bot: TelegramBot,
     chatId: number,
-    amount: number
+    amount: string
   ): Promise<void> {
     // Get current state
     const state = this.getSessionData<WalletTransferSessionState>(chatId);
@@ -324,6 +365,15 @@ export class WalletTransferCommand extends BaseTransferCommand {
     const state = this.getSessionData<WalletTransferSessionState>(chatId);
     if (!state || !state.walletAddress || !state.amount) return;
 
+    const transfers = [
+      {
+        recipient: getRecipientKey("wallet", state.walletAddress),
+        amount: toAmount(state.amount),
+        currency: "USDC",
+      },
+    ];
+    if (!(await this.checkSpendingLimits(bot, chatId, transfers))) return;
+
     try {
       // Get the session for API calls
       const session = SessionService.getSession(chatId);
@@ -332,7 +382,7 @@ export class WalletTransferCommand extends BaseTransferCommand {
       // Check if user has sufficient balance
       const balanceCheck = await transferService.checkSufficientBalance(
         session.token,
-        state.amount.toString()
+        state.amount
       );
 
       if (!balanceCheck.hasSufficientBalance) {
@@ -362,7 +412,7 @@ export class WalletTransferCommand extends BaseTransferCommand {
 
       const message =
         `💰 *Transfer Confirmation*\n\n` +
-        `From: Your Copperx Account\n` +
+        `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
         `To: ${formatAddress(state.walletAddress)}\n` +
         `Amount: ${formatCurrency(state.amount, "USDC")}\n` +
         `Purpose: ${purposeDisplay}`;
@@ -415,6 +465,15 @@ export class WalletTransferCommand extends BaseTransferCommand {
     const state = this.getSessionData<WalletTransferSessionState>(chatId);
     if (!state || !state.walletAddress || !state.amount) return;
 
+    const transfers = [
+      {
+        recipient: getRecipientKey("wallet", state.walletAddress),
+        amount: toAmount(state.amount),
+        currency: "USDC",
+      },
+    ];
+    if (!(await this.checkSpendingLimits(bot, chatId, transfers))) return;
+
     try {
       // Send loading message
       const loadingMsg = await bot.sendMessage(
@@ -424,15 +483,28 @@ export class WalletTransferCommand extends BaseTransferCommand {
       );
 
       // Execute transfer with purpose code - no need to specify network since it's handled by the API
-      const result = await transferService.sendToWallet(
-        session.token,
-        state.walletAddress,
-        state.amount.toString(),
-        "USDC",
-        state.purposeCode || PurposeCode.SELF // Use purpose code if set, default to 'self'
+      const { walletAddress, amount } = state;
+      const purposeCode = state.purposeCode || PurposeCode.SELF;
+      const result = await AuditLogService.audit(
+        {
+          action: "transfer.wallet",
+          chatId,
+          organizationId: session.organizationId,
+          payload: { walletAddress, amount, currency: "USDC", purposeCode },
+        },
+        () =>
+          transferService.sendToWallet(
+            session.token,
+            walletAddress,
+            amount,
+            "USDC",
+            purposeCode
+          )
       );
+      LimitsService.recordTransfers(chatId, transfers);
 
       // Reset state
+      recordFlowCompleted(chatId);
       this.clearSessionData(chatId);
 
       // Get purpose code display text
@@ -441,24 +513,49 @@ export class WalletTransferCommand extends BaseTransferCommand {
         : "Self"; // Default
 
       // Send success message
+      const summary = `${formatCurrency(
+        state.amount,
+        "USDC"
+      )} to ${formatAddress(state.walletAddress)}`;
       const successMessage =
-        `✅ *Transfer Successful!*\n\n` +
-        `You've sent ${formatCurrency(state.amount, "USDC")} to ${formatAddress(
-          state.walletAddress
-        )}\n` +
+        `✅ *Transfer Submitted!*\n\n` +
+        `You've sent ${summary}\n` +
+        `From: ${escapeMarkdown(formatAccountLabel(session))}\n` +
         `Purpose: ${purposeDisplay}\n` +
         `Reference ID: ${result.id}`;
+      const keyboard = [
+        [{ text: "💰 View Balance", callback_data: "action:balance" }],
+        [{ text: "« Back to Menu", callback_data: "menu:main" }],
+      ];
 
       bot.deleteMessage(chatId, loadingMsg.message_id);
-      bot.sendMessage(chatId, successMessage, {
-        parse_mode: "Markdown",
-        reply_markup: {
-          inline_keyboard: [
-            [{ text: "💰 View Balance", callback_data: "action:balance" }],
-            [{ text: "« Back to Menu", callback_data: "menu:main" }],
-          ],
-        },
-      });
+      const confirmation = await bot
+        .sendMessage(
+          chatId,
+          successMessage + formatTransferStatusFooter(result.status),
+          {
+            parse_mode: "Markdown",
+            reply_markup: { inline_keyboard: keyboard },
+          }
+        )
+        .catch((error) => {
+          // The transfer went through, so don't report this as a failure
+          logger.error(`Failed to send transfer confirmation:`, error);
+          return undefined;
+        });
+
+      // Report status changes until the transfer completes
+      TransferTrackerService.track(
+        chatId,
+        session.organizationId,
+        result,
+        summary,
+        confirmation && {
+          messageId: confirmation.message_id,
+          text: successMessage,
+          keyboard,
+        }
+      );
     } catch (error: any) {
       logger.error(`Transfer error:`, error);
       handleApiErrorResponse(bot, chatId, error, "transfer:method:wallet");
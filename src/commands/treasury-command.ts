@@ -0,0 +1,1199 @@
+import TelegramBot from "node-telegram-bot-api";
+import { AuditLogService } from "../core/audit-log.service";
+import { BotCommand } from "../core/command";
+import {
+  describeLimitViolation,
+  getRecipientKey,
+  LimitsService,
+} from "../core/limits.service";
+import { isGroupChat } from "../core/middleware";
+import { PinService } from "../core/pin.service";
+import {
+  ExtendedSession,
+  SessionService,
+  SessionState,
+} from "../core/session.service";
+import { TransferTrackerService } from "../core/transfer-tracker.service";
+import {
+  TreasuryService,
+  TreasuryVoteError,
+} from "../core/treasury.service";
+import * as transferService from "../services/transfer.service";
+import {
+  GroupTreasury,
+  TreasuryActor,
+  TreasuryRequest,
+  TreasuryRole,
+  TreasuryTransfer,
+  TransferResponse,
+} from "../types";
+import { processApiError } from "../utils/error-handler";
+import {
+  escapeMarkdown,
+  formatAccountLine,
+  formatAddress,
+  formatCurrency,
+  formatTransferStatusFooter,
+  formatTreasuryRequest,
+} from "../utils/format";
+import { createConfirmationKeyboard } from "../utils/keyboard";
+import { getModuleLogger } from "../utils/logger";
+import { toAmount } from "../utils/money";
+
+// Create module logger
+const logger = getModuleLogger("treasury-command");
+
+// Usage of the /treasury subcommands
+const TREASURY_USAGE =
+  "*Treasury Commands*\n\n" +
+  "`/treasury` - Show the treasury, its members and pending requests\n" +
+  "`/treasury link` - Link your account to this group (log in privately first)\n" +
+  "`/treasury approver` / `requester` - Reply to a member's message to set their role\n" +
+  "`/treasury remove` - Reply to a member's message to remove them\n" +
+  "`/treasury approvals <n>` - Set how many approvals a transfer needs\n" +
+  "`/treasury unlink` - Stop the group treasury";
+
+// Explanations of refused votes
+const VOTE_ERRORS: Record<TreasuryVoteError, string> = {
+  notFound: "This request no longer exists.",
+  closed: "This request is already closed.",
+  expired: "This request has expired.",
+  notMember: "Only treasury members can vote.",
+  notApprover: "Only approvers can vote on transfer requests.",
+  ownRequest: "You can't approve your own request.",
+  alreadyVoted: "You already approved this request.",
+};
+
+/**
+ * Get the name a Telegram user is shown with in the group
+ */
+function getUserName(user: TelegramBot.User): string {
+  return user.username
+    ? `@${user.username}`
+    : [user.first_name, user.last_name].filter(Boolean).join(" ");
+}
+
+/**
+ * Get the treasury actor of a Telegram user
+ */
+function toActor(user: TelegramBot.User): TreasuryActor {
+  return { userId: user.id, name: getUserName(user) };
+}
+
+/**
+ * Treasury command implementation
+ * Turns a group chat into a shared treasury: the owner links their Copperx
+ * account, other members get the requester or approver role, and transfers
+ * started in the group are sent once enough approvers approve them.
+ */
+export class TreasuryCommand implements BotCommand {
+  name = "treasury";
+  description = "Send group transfers after other members approve them";
+
+  /**
+   * Execute treasury command
+   */
+  async execute(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
+    const chatId = msg.chat.id;
+    if (!isGroupChat(msg.chat)) {
+      await bot.sendMessage(
+        chatId,
+        "🏦 *Group Treasury*\n\nA group treasury lets the members of a group chat request transfers that are sent once other members approve them.\n\n" +
+          "1. Log in here with /login\n" +
+          "2. Add me to your group\n" +
+          "3. Send /treasury link in the group",
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const match = msg.text?.match(
+      /^\/treasury(?:@\w+)?(?:\s+(\S+))?\s*([\s\S]*)$/i
+    );
+    const subcommand = (match?.[1] || "").toLowerCase();
+    const args = (match?.[2] || "").trim();
+
+    switch (subcommand) {
+      case "link":
+        await this.link(bot, msg);
+        break;
+      case "unlink":
+        await this.unlink(bot, msg);
+        break;
+      case "approver":
+      case "requester":
+        await this.setRole(bot, msg, subcommand);
+        break;
+      case "remove":
+        await this.setRole(bot, msg, null);
+        break;
+      case "approvals":
+        await this.setRequiredApprovals(bot, msg, args);
+        break;
+      default:
+        await this.showStatus(bot, chatId);
+    }
+  }
+
+  /**
+   * Handle callback queries
+   * Transfer confirmations of treasury groups are routed here by the
+   * treasury middleware.
+   */
+  async handleCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.message || !query.data) return;
+
+    const chatId = query.message.chat.id;
+    if (query.data === "transfer:confirm") {
+      await this.requestTransfer(bot, query);
+      return;
+    }
+
+    const [, action, requestId] = query.data.split(":");
+    if ((action === "approve" || action === "reject") && requestId) {
+      await this.vote(bot, query, requestId, action === "approve");
+      return;
+    }
+
+    await bot.answerCallbackQuery(query.id).catch(() => undefined);
+    switch (action) {
+      case "status":
+        await this.showStatus(bot, chatId);
+        break;
+      case "link":
+      case "role":
+      case "approvals":
+        await this.handleConfirmation(bot, query, action);
+        break;
+      case "dismiss":
+        await bot
+          .editMessageText("❌ Cancelled.", {
+            chat_id: chatId,
+            message_id: query.message.message_id,
+          })
+          .catch(() => undefined);
+        break;
+    }
+  }
+
+  /**
+   * Show the linked account, members and pending requests of the group
+   */
+  private async showStatus(bot: TelegramBot, chatId: number): Promise<void> {
+    const treasury = TreasuryService.getTreasury(chatId);
+    if (!treasury) {
+      await bot.sendMessage(
+        chatId,
+        "🏦 *Group Treasury*\n\nThis group has no treasury yet.\n\n" +
+          "1. Log in to me in a private chat with /login\n" +
+          "2. Send /treasury link here\n\n" +
+          "Never log in inside a group; other members would see your one-time code.",
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const listMembers = (role: TreasuryRole): string =>
+      treasury.members
+        .filter((member) => member.role === role)
+        .map(
+          (member) =>
+            escapeMarkdown(member.name) +
+            (member.userId === treasury.ownerId ? " (owner)" : "")
+        )
+        .join(", ") || "None";
+
+    let message = "🏦 *Group Treasury*\n\n";
+    message += `${formatAccountLine(treasury)}\n`;
+    message += `Approvals needed: ${treasury.requiredApprovals}\n\n`;
+    message += `*Approvers:* ${listMembers("approver")}\n`;
+    message += `*Requesters:* ${listMembers("requester")}\n\n`;
+
+    const pending = TreasuryService.getPendingRequests(chatId);
+    if (pending.length > 0) {
+      message += "*Pending requests:*\n";
+      pending.forEach((request) => {
+        const { transfer } = request;
+        message += `⏳ #${request.id}: ${formatCurrency(
+          transfer.amount,
+          transfer.currency
+        )} to ${this.describeTransfer(transfer)} (${
+          request.approvals.length
+        } of ${request.requiredApprovals})\n`;
+      });
+      message += "\n";
+    }
+
+    message +=
+      "Members start transfers with /email or /wallet; each one is sent once enough approvers approve it.\n\n";
+    message += TREASURY_USAGE;
+
+    await bot.sendMessage(chatId, message, { parse_mode: "Markdown" });
+  }
+
+  /**
+   * Link the sender's Copperx account to the group
+   * The sender must be logged in to the bot privately, and confirm there
+   * with their PIN if they set one; the group gets its own session with the
+   * same token.
+   */
+  private async link(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
+    const chatId = msg.chat.id;
+    if (!msg.from || !(await this.getLinkSession(bot, chatId, msg.from))) {
+      return;
+    }
+
+    const confirmed = await this.confirmPrivately(
+      bot,
+      chatId,
+      msg.from,
+      `treasury:link:${chatId}`,
+      `Link your account to the group *${escapeMarkdown(
+        msg.chat.title || String(chatId)
+      )}*? Its members will be able to request transfers from it.`
+    );
+    if (confirmed) await this.linkAccount(bot, chatId, msg.from);
+  }
+
+  /**
+   * Make a treasury change a member confirmed in their private chat
+   * The PIN middleware has asked for the member's PIN by now.
+   */
+  private async handleConfirmation(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery,
+    action: "link" | "role" | "approvals"
+  ): Promise<void> {
+    if (!this.isPrivateConfirmation(query) || !query.data) return;
+
+    await bot
+      .editMessageText("✅ Confirmed. The result is posted in the group.", {
+        chat_id: query.from.id,
+        message_id: query.message?.message_id,
+      })
+      .catch(() => undefined);
+
+    const args = query.data.split(":").slice(2);
+    switch (action) {
+      case "link":
+        if (!isNaN(Number(args[0]))) {
+          await this.linkAccount(bot, Number(args[0]), query.from);
+        }
+        break;
+      case "role":
+        await this.confirmRole(bot, query, args);
+        break;
+      case "approvals":
+        await this.confirmRequiredApprovals(bot, query, args);
+        break;
+    }
+  }
+
+  /**
+   * Get the private session of a member linking their account to a group,
+   * telling the group why they can't otherwise
+   */
+  private async getLinkSession(
+    bot: TelegramBot,
+    chatId: number,
+    user: TelegramBot.User
+  ): Promise<ExtendedSession | undefined> {
+    const existing = TreasuryService.getTreasury(chatId);
+    if (existing && existing.ownerId !== user.id) {
+      await bot.sendMessage(
+        chatId,
+        "⚠️ This group already has a treasury. Only its owner can link it again."
+      );
+      return undefined;
+    }
+
+    // Private chats have the ID of the user
+    const session = SessionService.getSession(user.id);
+    if (!session) {
+      await bot.sendMessage(
+        chatId,
+        "🔒 Please log in to me in a private chat with /login first, then send /treasury link here again.\n\nNever log in inside a group; other members would see your one-time code."
+      );
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Link a member's Copperx account to the group
+   */
+  private async linkAccount(
+    bot: TelegramBot,
+    chatId: number,
+    user: TelegramBot.User
+  ): Promise<void> {
+    const existing = TreasuryService.getTreasury(chatId);
+    const session = await this.getLinkSession(bot, chatId, user);
+    if (!session) return;
+
+    const owner = toActor(user);
+    // Replace whatever the group was logged in to before
+    SessionService.deleteSession(chatId);
+    SessionService.setSession(chatId, {
+      token: session.token,
+      expireAt: session.expireAt,
+      organizationId: session.organizationId,
+      email: session.email,
+    });
+    const treasury = TreasuryService.linkTreasury(chatId, owner, session);
+
+    AuditLogService.record(
+      {
+        action: "treasury.link",
+        chatId,
+        organizationId: treasury.organizationId,
+        payload: { ownerId: owner.userId, relinked: !!existing },
+      },
+      { status: "success" }
+    );
+    logger.info(
+      `Group ${chatId} linked to organization ${treasury.organizationId} by user ${owner.userId}`
+    );
+
+    await bot.sendMessage(
+      chatId,
+      `🏦 *Group Treasury Linked*\n\n${formatAccountLine(treasury)}\n` +
+        `Owner: ${escapeMarkdown(owner.name)}\n` +
+        `Approvals needed: ${treasury.requiredApprovals}\n\n` +
+        "Reply to a member's message with `/treasury approver` or `/treasury requester` to add them.",
+      {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "🏦 Treasury Status", callback_data: "treasury:status" }],
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Stop the group treasury, cancelling its pending requests
+   */
+  private async unlink(
+    bot: TelegramBot,
+    msg: TelegramBot.Message
+  ): Promise<void> {
+    const chatId = msg.chat.id;
+    const treasury = await this.getOwnedTreasury(bot, chatId, msg.from);
+    if (!treasury) return;
+
+    const cancelled = TreasuryService.cancelPendingRequests(chatId);
+    for (const request of cancelled) {
+      await this.refreshRequestMessage(bot, treasury, request);
+    }
+    SessionService.deleteSession(chatId);
+    TreasuryService.unlinkTreasury(chatId);
+
+    AuditLogService.record(
+      {
+        action: "treasury.unlink",
+        chatId,
+        organizationId: treasury.organizationId,
+        payload: { cancelledRequests: cancelled.map((request) => request.id) },
+      },
+      { status: "success" }
+    );
+    logger.info(`Group ${chatId} treasury unlinked`);
+
+    await bot.sendMessage(
+      chatId,
+      "✅ The group treasury has been unlinked" +
+        (cancelled.length > 0
+          ? ` and ${cancelled.length} pending ${
+              cancelled.length === 1 ? "request was" : "requests were"
+            } cancelled.`
+          : ".")
+    );
+  }
+
+  /**
+   * Set the role of the member whose message the command replies to, or
+   * remove them
+   */
+  private async setRole(
+    bot: TelegramBot,
+    msg: TelegramBot.Message,
+    role: TreasuryRole | null
+  ): Promise<void> {
+    const chatId = msg.chat.id;
+    const treasury = await this.getOwnedTreasury(bot, chatId, msg.from);
+    if (!treasury || !msg.from) return;
+
+    const target = msg.reply_to_message?.from;
+    if (!target || target.is_bot) {
+      await bot.sendMessage(
+        chatId,
+        "⚠️ Reply to a message of the member with `/treasury approver`, `/treasury requester` or `/treasury remove`.",
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const actor = toActor(target);
+    if (!(await this.canSetRole(bot, treasury, actor.userId, role))) return;
+
+    const confirmed = await this.confirmPrivately(
+      bot,
+      chatId,
+      msg.from,
+      `treasury:role:${chatId}:${actor.userId}:${role || "remove"}`,
+      (role
+        ? `Make ${escapeMarkdown(actor.name)} ${
+            role === "approver" ? "an approver" : "a requester"
+          }`
+        : `Remove ${escapeMarkdown(actor.name)}`) +
+        ` in the treasury of *${escapeMarkdown(
+          msg.chat.title || String(chatId)
+        )}*?`
+    );
+    if (confirmed) await this.applyRole(bot, treasury, actor, role);
+  }
+
+  /**
+   * Set a member's role after the owner confirmed it in their private chat
+   * @param args The group chat ID, the member's user ID and the role or
+   * "remove"
+   */
+  private async confirmRole(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery,
+    args: string[]
+  ): Promise<void> {
+    const [groupChatId, userId] = args.slice(0, 2).map(Number);
+    const roleArg = args[2];
+    const role =
+      roleArg === "approver" || roleArg === "requester" ? roleArg : null;
+    if (
+      isNaN(groupChatId) ||
+      isNaN(userId) ||
+      (!role && roleArg !== "remove")
+    ) {
+      return;
+    }
+
+    const treasury = await this.getOwnedTreasury(bot, groupChatId, query.from);
+    if (!treasury || !(await this.canSetRole(bot, treasury, userId, role))) {
+      return;
+    }
+
+    // Members who left the group can still be removed
+    const chatMember = await bot
+      .getChatMember(groupChatId, userId)
+      .catch(() => undefined);
+    const actor = chatMember
+      ? toActor(chatMember.user)
+      : TreasuryService.getMember(treasury, userId);
+    if (!actor || (role && !chatMember)) {
+      await bot.sendMessage(
+        groupChatId,
+        "⚠️ This member is no longer in the group."
+      );
+      return;
+    }
+    await this.applyRole(bot, treasury, actor, role);
+  }
+
+  /**
+   * Check that a member's role can be changed, telling the group otherwise
+   */
+  private async canSetRole(
+    bot: TelegramBot,
+    treasury: GroupTreasury,
+    userId: number,
+    role: TreasuryRole | null
+  ): Promise<boolean> {
+    const { chatId } = treasury;
+    if (userId === treasury.ownerId) {
+      await bot.sendMessage(chatId, "⚠️ The owner is always an approver.");
+      return false;
+    }
+
+    // Keep enough approvers for the required approvals
+    const member = TreasuryService.getMember(treasury, userId);
+    if (
+      member?.role === "approver" &&
+      role !== "approver" &&
+      TreasuryService.countApprovers(treasury, userId) <
+        treasury.requiredApprovals
+    ) {
+      await bot.sendMessage(
+        chatId,
+        `⚠️ Transfers need ${treasury.requiredApprovals} approvals, so this would leave too few approvers. Lower the requirement first with /treasury approvals.`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Set a member's role or remove them
+   */
+  private async applyRole(
+    bot: TelegramBot,
+    treasury: GroupTreasury,
+    actor: TreasuryActor,
+    role: TreasuryRole | null
+  ): Promise<void> {
+    const { chatId } = treasury;
+    if (role) {
+      TreasuryService.setMember(chatId, actor, role);
+    } else {
+      TreasuryService.removeMember(chatId, actor.userId);
+    }
+
+    AuditLogService.record(
+      {
+        action: "treasury.member",
+        chatId,
+        organizationId: treasury.organizationId,
+        payload: { memberId: actor.userId, role },
+      },
+      { status: "success" }
+    );
+    logger.info(
+      `Group ${chatId} member ${actor.userId} ${
+        role ? `set to ${role}` : "removed"
+      }`
+    );
+
+    await bot.sendMessage(
+      chatId,
+      role
+        ? `✅ ${actor.name} is now ${
+            role === "approver"
+              ? "an approver and can request and approve transfers"
+              : "a requester and can request transfers"
+          }.`
+        : `✅ ${actor.name} is no longer a treasury member.`
+    );
+  }
+
+  /**
+   * Set how many approvals new transfer requests need
+   */
+  private async setRequiredApprovals(
+    bot: TelegramBot,
+    msg: TelegramBot.Message,
+    args: string
+  ): Promise<void> {
+    const chatId = msg.chat.id;
+    const treasury = await this.getOwnedTreasury(bot, chatId, msg.from);
+    if (!treasury || !msg.from) return;
+
+    const requiredApprovals = Number(args);
+    if (
+      !(await this.canSetRequiredApprovals(bot, treasury, requiredApprovals))
+    ) {
+      return;
+    }
+
+    const confirmed = await this.confirmPrivately(
+      bot,
+      chatId,
+      msg.from,
+      `treasury:approvals:${chatId}:${requiredApprovals}`,
+      `Require ${requiredApprovals} ${
+        requiredApprovals === 1 ? "approval" : "approvals"
+      } for new transfer requests in the treasury of *${escapeMarkdown(
+        msg.chat.title || String(chatId)
+      )}*?`
+    );
+    if (confirmed) {
+      await this.applyRequiredApprovals(bot, treasury, requiredApprovals);
+    }
+  }
+
+  /**
+   * Set the required approvals after the owner confirmed it in their
+   * private chat
+   * @param args The group chat ID and the number of approvals
+   */
+  private async confirmRequiredApprovals(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery,
+    args: string[]
+  ): Promise<void> {
+    const [groupChatId, requiredApprovals] = args.map(Number);
+    if (isNaN(groupChatId)) return;
+
+    const treasury = await this.getOwnedTreasury(bot, groupChatId, query.from);
+    if (
+      treasury &&
+      (await this.canSetRequiredApprovals(bot, treasury, requiredApprovals))
+    ) {
+      await this.applyRequiredApprovals(bot, treasury, requiredApprovals);
+    }
+  }
+
+  /**
+   * Check that a number of approvals can be required, telling the group
+   * otherwise
+   */
+  private async canSetRequiredApprovals(
+    bot: TelegramBot,
+    treasury: GroupTreasury,
+    requiredApprovals: number
+  ): Promise<boolean> {
+    const approvers = TreasuryService.countApprovers(treasury);
+    if (
+      !Number.isInteger(requiredApprovals) ||
+      requiredApprovals < 1 ||
+      requiredApprovals > approvers
+    ) {
+      await bot.sendMessage(
+        treasury.chatId,
+        `⚠️ Please enter a number from 1 to ${approvers}, the number of approvers, e.g. \`/treasury approvals 2\`.`,
+        { parse_mode: "Markdown" }
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Set how many approvals new transfer requests need
+   */
+  private async applyRequiredApprovals(
+    bot: TelegramBot,
+    treasury: GroupTreasury,
+    requiredApprovals: number
+  ): Promise<void> {
+    const { chatId } = treasury;
+    TreasuryService.setRequiredApprovals(chatId, requiredApprovals);
+    AuditLogService.record(
+      {
+        action: "treasury.approvals",
+        chatId,
+        organizationId: treasury.organizationId,
+        payload: {
+          previous: treasury.requiredApprovals,
+          requiredApprovals,
+        },
+      },
+      { status: "success" }
+    );
+
+    await bot.sendMessage(
+      chatId,
+      `✅ New transfer requests need ${requiredApprovals} ${
+        requiredApprovals === 1 ? "approval" : "approvals"
+      }. Pending requests keep their requirement.`
+    );
+  }
+
+  /**
+   * Turn a confirmed email or wallet transfer into a request for approval
+   */
+  private async requestTransfer(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.message) return;
+
+    const chatId = query.message.chat.id;
+    const treasury = TreasuryService.getTreasury(chatId);
+    const transfer = this.getRequestedTransfer(
+      SessionService.getSessionState(chatId)
+    );
+    if (!treasury || !transfer) {
+      await bot
+        .answerCallbackQuery(query.id, {
+          text: "This transfer is no longer valid. Please start over.",
+          show_alert: true,
+        })
+        .catch(() => undefined);
+      return;
+    }
+
+    // The requester can't approve their own request
+    const requester = toActor(query.from);
+    if (
+      TreasuryService.countApprovers(treasury, requester.userId) <
+      treasury.requiredApprovals
+    ) {
+      await bot
+        .answerCallbackQuery(query.id, {
+          text: `Transfers need ${treasury.requiredApprovals} approvals from members other than you. Ask the owner to add approvers.`,
+          show_alert: true,
+        })
+        .catch(() => undefined);
+      return;
+    }
+
+    SessionService.updateSessionState(chatId, {
+      currentAction: undefined,
+      data: {},
+    });
+    await bot
+      .answerCallbackQuery(query.id, { text: "Sent for approval." })
+      .catch(() => undefined);
+
+    const request = TreasuryService.createRequest(chatId, requester, transfer);
+    if (!request) return;
+
+    AuditLogService.record(
+      {
+        action: "treasury.request",
+        chatId,
+        organizationId: treasury.organizationId,
+        payload: { requestId: request.id, ...transfer },
+      },
+      { status: "success" }
+    );
+    logger.info(
+      `Treasury request ${request.id} created in group ${chatId} by user ${requester.userId}`
+    );
+
+    const sent = await bot.sendMessage(
+      chatId,
+      this.formatRequestMessage(treasury, request),
+      {
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard: this.getVoteKeyboard(request) },
+      }
+    );
+    TreasuryService.updateRequest(chatId, request.id, {
+      messageId: sent.message_id,
+    });
+  }
+
+  /**
+   * Record an approval or rejection and send the transfer once approved
+   */
+  private async vote(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery,
+    requestId: string,
+    approve: boolean
+  ): Promise<void> {
+    if (!query.message) return;
+
+    const chatId = query.message.chat.id;
+    const treasury = TreasuryService.getTreasury(chatId);
+    if (!treasury) {
+      await bot
+        .answerCallbackQuery(query.id, {
+          text: "This group has no treasury anymore.",
+          show_alert: true,
+        })
+        .catch(() => undefined);
+      return;
+    }
+
+    const voter = toActor(query.from);
+    const result = TreasuryService.vote(chatId, requestId, voter, approve);
+    if (!result.ok) {
+      await bot
+        .answerCallbackQuery(query.id, {
+          text: VOTE_ERRORS[result.error],
+          show_alert: true,
+        })
+        .catch(() => undefined);
+      return;
+    }
+
+    const { request } = result;
+    await bot
+      .answerCallbackQuery(query.id, {
+        text: approve ? "Approval recorded." : "Rejection recorded.",
+      })
+      .catch(() => undefined);
+
+    AuditLogService.record(
+      {
+        action: approve ? "treasury.approve" : "treasury.reject",
+        chatId,
+        organizationId: treasury.organizationId,
+        payload: {
+          requestId,
+          approvals: request.approvals.length,
+          requiredApprovals: request.requiredApprovals,
+          status: request.status,
+        },
+      },
+      { status: "success" }
+    );
+    logger.info(
+      `Treasury request ${requestId} ${
+        approve ? "approved" : "rejected"
+      } by user ${voter.userId}, now ${request.status}`
+    );
+
+    // Every vote is announced in the group, under the request
+    const announcement = approve
+      ? `✅ ${voter.name} approved transfer request #${requestId} (${request.approvals.length} of ${request.requiredApprovals}).`
+      : request.status === "cancelled"
+      ? `🚫 ${voter.name} cancelled transfer request #${requestId}.`
+      : `❌ ${voter.name} rejected transfer request #${requestId}.`;
+    await bot
+      .sendMessage(chatId, announcement, {
+        reply_to_message_id: request.messageId,
+      })
+      .catch((error) =>
+        logger.warn(`Failed to announce vote on ${requestId}: ${error.message}`)
+      );
+    await this.refreshRequestMessage(bot, treasury, request);
+
+    if (request.status === "approved") {
+      // An approved request is never left approved, or it couldn't be closed
+      await this.executeRequest(bot, treasury, request).catch(async (error) => {
+        logger.error(`Treasury request ${requestId} failed:`, error);
+        if (request.status === "approved") {
+          await this.failRequest(
+            bot,
+            treasury,
+            request,
+            "Something went wrong while sending this transfer."
+          ).catch(() => undefined);
+        }
+      });
+    }
+  }
+
+  /**
+   * Send an approved transfer with the group's session
+   */
+  private async executeRequest(
+    bot: TelegramBot,
+    treasury: GroupTreasury,
+    request: TreasuryRequest
+  ): Promise<void> {
+    const { chatId } = treasury;
+    const { transfer } = request;
+    const session = SessionService.getSession(chatId);
+    if (!session || session.organizationId !== treasury.organizationId) {
+      await this.failRequest(
+        bot,
+        treasury,
+        request,
+        "The treasury account is no longer logged in. The owner can send /treasury link again."
+      );
+      return;
+    }
+
+    const transfers = [
+      {
+        recipient: getRecipientKey(transfer.recipientType, transfer.recipient),
+        amount: toAmount(transfer.amount),
+        currency: transfer.currency,
+      },
+    ];
+    // The treasury sends from the owner's account, so their limits apply
+    const violation = LimitsService.checkTransfers(treasury.ownerId, transfers);
+    if (violation) {
+      await this.failRequest(
+        bot,
+        treasury,
+        request,
+        `${describeLimitViolation(
+          violation
+        )}\n\nThe owner's spending limits apply; they can review them with /limits in a private chat with me.`
+      );
+      return;
+    }
+
+    const { recipient, amount, currency, purposeCode } = transfer;
+    let result: TransferResponse;
+    try {
+      result = await AuditLogService.audit(
+        {
+          action:
+            transfer.recipientType === "email"
+              ? "transfer.email"
+              : "transfer.wallet",
+          chatId,
+          organizationId: session.organizationId,
+          payload: {
+            [transfer.recipientType === "email" ? "email" : "walletAddress"]:
+              recipient,
+            amount,
+            currency,
+            purposeCode,
+            treasuryRequestId: request.id,
+          },
+        },
+        () =>
+          transfer.recipientType === "email"
+            ? transferService.sendToEmail(
+                session.token,
+                recipient,
+                amount,
+                currency,
+                purposeCode
+              )
+            : transferService.sendToWallet(
+                session.token,
+                recipient,
+                amount,
+                currency,
+                purposeCode
+              )
+      );
+    } catch (error: any) {
+      logger.error(`Treasury request ${request.id} failed:`, error);
+      const errorResponse = processApiError(error);
+      await this.failRequest(
+        bot,
+        treasury,
+        request,
+        errorResponse.details || errorResponse.message
+      );
+      return;
+    }
+
+    // The transfer went through, so mark the request before anything else
+    // can fail
+    const executed =
+      TreasuryService.updateRequest(chatId, request.id, {
+        status: "executed",
+        transferId: result.id,
+      }) || request;
+    LimitsService.recordTransfers(treasury.ownerId, transfers);
+    await this.refreshRequestMessage(bot, treasury, executed);
+
+    const summary = `${formatCurrency(
+      amount,
+      currency
+    )} to ${this.describeTransfer(transfer)}`;
+    const successMessage =
+      `✅ *Transfer Request #${request.id} Sent*\n\n` +
+      `You've sent ${summary}\n` +
+      `Reference ID: ${result.id}`;
+    const confirmation = await bot
+      .sendMessage(
+        chatId,
+        successMessage + formatTransferStatusFooter(result.status),
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: request.messageId,
+        }
+      )
+      .catch((error) => {
+        // The transfer went through, so don't report this as a failure
+        logger.error(`Failed to send transfer confirmation:`, error);
+        return undefined;
+      });
+
+    // Report status changes until the transfer completes
+    TransferTrackerService.track(
+      chatId,
+      session.organizationId,
+      result,
+      summary,
+      confirmation && {
+        messageId: confirmation.message_id,
+        text: successMessage,
+        keyboard: [],
+      }
+    );
+  }
+
+  /**
+   * Mark an approved request as failed and tell the group why
+   */
+  private async failRequest(
+    bot: TelegramBot,
+    treasury: GroupTreasury,
+    request: TreasuryRequest,
+    reason: string
+  ): Promise<void> {
+    const failed =
+      TreasuryService.updateRequest(treasury.chatId, request.id, {
+        status: "failed",
+        error: reason,
+      }) || request;
+    await this.refreshRequestMessage(bot, treasury, failed);
+
+    await bot.sendMessage(
+      treasury.chatId,
+      `❌ Transfer request #${request.id} could not be sent.\n\nReason: ${reason}`,
+      { reply_to_message_id: request.messageId }
+    );
+  }
+
+  /**
+   * Show the current votes and status in the request's message
+   */
+  private async refreshRequestMessage(
+    bot: TelegramBot,
+    treasury: GroupTreasury,
+    request: TreasuryRequest
+  ): Promise<void> {
+    if (!request.messageId) return;
+
+    await bot
+      .editMessageText(this.formatRequestMessage(treasury, request), {
+        chat_id: treasury.chatId,
+        message_id: request.messageId,
+        parse_mode: "Markdown",
+        reply_markup: { inline_keyboard: this.getVoteKeyboard(request) },
+      })
+      .catch((error) =>
+        logger.warn(
+          `Failed to update treasury request ${request.id} message: ${error.message}`
+        )
+      );
+  }
+
+  /**
+   * Format the message of a transfer request
+   */
+  private formatRequestMessage(
+    treasury: GroupTreasury,
+    request: TreasuryRequest
+  ): string {
+    return (
+      `🏦 *Transfer Request #${request.id}*\n\n` +
+      formatTreasuryRequest(request, treasury)
+    );
+  }
+
+  /**
+   * Get the vote buttons of a request; closed requests have none
+   */
+  private getVoteKeyboard(
+    request: TreasuryRequest
+  ): TelegramBot.InlineKeyboardButton[][] {
+    if (request.status !== "pending") return [];
+
+    return [
+      [
+        { text: "✅ Approve", callback_data: `treasury:approve:${request.id}` },
+        { text: "❌ Reject", callback_data: `treasury:reject:${request.id}` },
+      ],
+    ];
+  }
+
+  /**
+   * Get the transfer confirmed in the email or wallet transfer flow
+   */
+  private getRequestedTransfer(
+    state: SessionState | undefined
+  ): TreasuryTransfer | undefined {
+    const data = state?.data;
+    if (!data?.amount || data.step !== "confirm") return undefined;
+
+    const common = {
+      amount: String(data.amount),
+      currency: "USDC",
+      purposeCode: data.purposeCode || "self",
+    };
+    if (state?.currentAction === "sendemail" && data.email) {
+      return { ...common, recipientType: "email", recipient: data.email };
+    }
+    if (state?.currentAction === "sendwallet" && data.walletAddress) {
+      return {
+        ...common,
+        recipientType: "wallet",
+        recipient: data.walletAddress,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Describe the recipient of a transfer in Markdown
+   */
+  private describeTransfer(transfer: TreasuryTransfer): string {
+    return transfer.recipientType === "email"
+      ? escapeMarkdown(transfer.recipient)
+      : formatAddress(transfer.recipient);
+  }
+
+  /**
+   * Have a member confirm a treasury change in their private chat
+   * Members with a PIN confirm there, where the PIN middleware asks for it,
+   * so the PIN is never entered in the group.
+   * @param bot The Telegram bot instance
+   * @param chatId The group chat ID
+   * @param user The member making the change
+   * @param callbackData The callback that makes the change
+   * @param description What the change does, in Markdown
+   * @returns Whether the change can be made right away, since the member
+   * has no PIN
+   */
+  private async confirmPrivately(
+    bot: TelegramBot,
+    chatId: number,
+    user: TelegramBot.User,
+    callbackData: string,
+    description: string
+  ): Promise<boolean> {
+    if (!PinService.hasPin(user.id)) return true;
+
+    // Private chats have the ID of the user
+    const sent = await bot
+      .sendMessage(
+        user.id,
+        `🔐 *Confirm Treasury Change*\n\n${description}`,
+        {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: createConfirmationKeyboard(
+              callbackData,
+              "treasury:dismiss"
+            ),
+          },
+        }
+      )
+      .then(() => true)
+      .catch((error) => {
+        logger.warn(
+          `Failed to ask user ${user.id} to confirm ${callbackData}: ${error.message}`
+        );
+        return false;
+      });
+
+    await bot.sendMessage(
+      chatId,
+      sent
+        ? "🔐 Please confirm this in your private chat with me."
+        : "⚠️ I couldn't message you privately. Please start a private chat with me and try again."
+    );
+    return false;
+  }
+
+  /**
+   * Check that a confirmation was tapped in the private chat of the member
+   * it was sent to
+   */
+  private isPrivateConfirmation(query: TelegramBot.CallbackQuery): boolean {
+    return (
+      query.message?.chat.type === "private" &&
+      query.message.chat.id === query.from.id
+    );
+  }
+
+  /**
+   * Get the group's treasury if the user owns it, telling the group
+   * otherwise
+   */
+  private async getOwnedTreasury(
+    bot: TelegramBot,
+    chatId: number,
+    user: TelegramBot.User | undefined
+  ): Promise<GroupTreasury | undefined> {
+    const treasury = TreasuryService.getTreasury(chatId);
+    if (!treasury) {
+      await bot.sendMessage(
+        chatId,
+        "⚠️ This group has no treasury yet. Send /treasury link to set one up."
+      );
+      return undefined;
+    }
+    if (treasury.ownerId !== user?.id) {
+      await bot.sendMessage(chatId, "⚠️ Only the treasury owner can do this.");
+      return undefined;
+    }
+    return treasury;
+  }
+}
@@ -3,7 +3,7 @@ import { BotCommand } from "../../core/command";
 import { requireAuth } from "../../core/middleware";
 import * as walletService from "../../services/wallet.service";
 import { handleApiErrorResponse } from "../../utils/error-handler";
-import { formatCurrency } from "../../utils/format";
+import { formatAccountLine, formatCurrency } from "../../utils/format";
 import { getModuleLogger } from "../../utils/logger";
 import { WalletBalance, Wallet } from "../../types/wallet";
 import { getNetworkName } from "../../utils/constants";
@@ -17,6 +17,7 @@ const logger = getModuleLogger("balance-command");
 export class BalanceCommand implements BotCommand {
   name = "balance";
   description = "Check your wallet balances";
+  requiresAuth = true;
 
   /**
    * Execute balance command
@@ -41,7 +42,8 @@ export class BalanceCommand implements BotCommand {
         const defaultWallet = wallets.find((wallet) => wallet.isDefault);
 
         // Format message
-        let message = "💰 *Your Balances*\n\n";
+        let message = "💰 *Your Balances*\n";
+        message += `${formatAccountLine(session)}\n\n`;
 
         if (balances.length === 0) {
           message += "You don't have any balance yet.\n";
@@ -143,6 +145,7 @@ export class BalanceCommand implements BotCommand {
 export class WalletsCommand implements BotCommand {
   name = "wallets";
   description = "View your wallet addresses";
+  requiresAuth = true;
 
   /**
    * Execute wallets command
@@ -163,7 +166,8 @@ export class WalletsCommand implements BotCommand {
         const wallets = await walletService.getWallets(session.token);
 
         // Format message
-        let message = "🔑 *Your Wallet Addresses*\n\n";
+        let message = "🔑 *Your Wallet Addresses*\n";
+        message += `${formatAccountLine(session)}\n\n`;
 
         if (wallets.length === 0) {
           message += "You don't have any wallets yet.\n";
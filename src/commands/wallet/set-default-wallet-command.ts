@@ -1,6 +1,7 @@
 import TelegramBot from "node-telegram-bot-api";
 import { BotCommand } from "../../core/command";
 import { requireAuth } from "../../core/middleware";
+import { AuditLogService } from "../../core/audit-log.service";
 import * as walletService from "../../services/wallet.service";
 import { handleApiErrorResponse } from "../../utils/error-handler";
 import { getModuleLogger } from "../../utils/logger";
@@ -16,6 +17,7 @@ const logger = getModuleLogger("set-default-wallet-command");
 export class SetDefaultWalletCommand implements BotCommand {
   name = "setdefault";
   description = "Set your default wallet for transactions";
+  requiresAuth = true;
 
   /**
    * Execute set default wallet command
@@ -135,7 +137,15 @@ export class SetDefaultWalletCommand implements BotCommand {
           );
 
           // Set default wallet
-          await walletService.setDefaultWallet(session.token, walletId);
+          await AuditLogService.audit(
+            {
+              action: "wallet.setDefault",
+              chatId,
+              organizationId: session.organizationId,
+              payload: { walletId },
+            },
+            () => walletService.setDefaultWallet(session.token, walletId)
+          );
 
           // Display success message
           bot.editMessageText(
@@ -1,24 +1,87 @@
+import crypto from "crypto";
 import dotenv from "dotenv";
 
 dotenv.config();
 
+const botToken = process.env.BOT_TOKEN || "";
+
+// Stable values derived from the bot token so webhook mode works without extra setup
+const deriveFromToken = (label: string): string =>
+  crypto.createHash("sha256").update(`${label}:${botToken}`).digest("hex");
+
 export const config = {
-  botToken: process.env.BOT_TOKEN || "",
+  botToken,
+  webhook: {
+    // Public base URL Telegram should deliver updates to (enables webhook mode)
+    url: (process.env.BOT_WEBHOOK_URL || "").replace(/\/+$/, ""),
+    // Sent by Telegram in the X-Telegram-Bot-Api-Secret-Token header
+    secretToken:
+      process.env.BOT_WEBHOOK_SECRET || deriveFromToken("webhook-secret"),
+    // Unguessable path the HTTP server accepts updates on
+    path: `/telegram/webhook/${deriveFromToken("webhook-path").slice(0, 32)}`,
+  },
   apiBaseUrl: process.env.API_BASE_URL || "https://income-api.copperx.io",
+  api: {
+    // Milliseconds before a request is aborted
+    timeout: parseInt(process.env.API_TIMEOUT || "30000", 10),
+    // Retries of failed GETs and idempotent POSTs
+    maxRetries: parseInt(process.env.API_MAX_RETRIES || "2", 10),
+    // Base delay in milliseconds, doubled with each retry
+    retryDelay: parseInt(process.env.API_RETRY_DELAY || "500", 10),
+  },
+  logging: {
+    // Minimum level logged: error, warn, info or debug
+    level: (
+      process.env.LOG_LEVEL ||
+      (process.env.NODE_ENV === "production" ? "info" : "debug")
+    ).toLowerCase(),
+    // Output format: "text" or "json" (one object per line)
+    format: (process.env.LOG_FORMAT || "text").toLowerCase(),
+    // Optional file entries are also appended to
+    file: process.env.LOG_FILE || "",
+    // Size in bytes at which the log file is rotated
+    maxFileSize: parseInt(process.env.LOG_FILE_MAX_SIZE || "10485760", 10),
+    // Rotated files kept next to the log file (.1 is the newest)
+    maxFiles: parseInt(process.env.LOG_FILE_MAX_FILES || "5", 10),
+  },
   pusher: {
     key: process.env.PUSHER_KEY || "",
     cluster: process.env.PUSHER_CLUSTER || "ap1",
   },
+  admin: {
+    // Telegram user IDs allowed to use /admin, comma-separated
+    telegramIds: (process.env.ADMIN_TELEGRAM_IDS || "")
+      .split(",")
+      .map((id) => parseInt(id.trim(), 10))
+      .filter((id) => !isNaN(id)),
+  },
+  security: {
+    // Transfers above this amount need the PIN, for chats that set one
+    pinAmountThreshold: process.env.PIN_AMOUNT_THRESHOLD || "100",
+    // Milliseconds without activity after which sensitive actions need the PIN
+    pinIdleTimeout:
+      parseInt(process.env.PIN_IDLE_TIMEOUT_MINUTES || "15", 10) * 60 * 1000,
+  },
   supportLink: "https://t.me/copperxcommunity/2183",
   session: {
     encryptionKey:
       process.env.SESSION_ENCRYPTION_KEY ||
       "default-secure-key-for-local-development-only",
     inactivityTimeout: 5 * 24 * 60 * 60 * 1000, // 5 days in milliseconds
+    // Storage backend: "file" (single instance) or "sqlite" (shareable)
+    store: (process.env.SESSION_STORE || "file").toLowerCase(),
+    sqlitePath:
+      process.env.SESSION_SQLITE_PATH || process.cwd() + "/data/sessions.db",
   },
 };
 
 // Validation
+if (!/^[A-Za-z0-9_-]{1,256}$/.test(config.webhook.secretToken)) {
+  throw new Error(
+    "BOT_WEBHOOK_SECRET must be 1-256 characters of A-Z, a-z, 0-9, _ or -"
+  );
+}
+
 const required = ["botToken", "pusher.key", "pusher.cluster"];
 required.forEach((key) => {
   const keys = key.split(".");
@@ -0,0 +1,384 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { CopperxApiError } from "../utils/api";
+import { getUpdateUserId } from "../utils/correlation";
+import { encryptData, decryptData } from "../utils/encryption";
+import { AUDIT_LOG_FILE_PATH } from "../utils/constants";
+import { getModuleLogger } from "../utils/logger";
+import { removeSecrets } from "../utils/redact";
+
+// Create module logger
+const logger = getModuleLogger("audit-log");
+
+// Previous hash of the first entry
+const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Audited actions
+ */
+export type AuditAction =
+  | "auth.login"
+  | "auth.logout"
+  | "auth.switch"
+  | "transfer.email"
+  | "transfer.wallet"
+  | "transfer.batch"
+  | "transfer.scheduled"
+  | "withdrawal.bank"
+  | "payee.create"
+  | "payee.delete"
+  | "wallet.setDefault"
+  | "pin.set"
+  | "pin.remove"
+  | "limits.change"
+  | "treasury.link"
+  | "treasury.unlink"
+  | "treasury.member"
+  | "treasury.approvals"
+  | "treasury.request"
+  | "treasury.approve"
+  | "treasury.reject"
+  | "audit.chainBreak"; // Unreadable entries at the end of the log were skipped
+
+/**
+ * Result of an audited action
+ */
+export interface AuditOutcome {
+  status: "success" | "failure";
+  result?: Record<string, any>; // e.g. the transfer ID and status
+  error?: string;
+  httpStatus?: number;
+  requestId?: string; // X-Request-Id of the failed API request
+}
+
+/**
+ * What is recorded about an action
+ * The Telegram user defaults to the sender of the update being handled.
+ */
+export interface AuditRecord {
+  action: AuditAction;
+  chatId: number;
+  userId?: number;
+  organizationId?: string;
+  payload?: Record<string, any>; // The request; secrets are removed
+}
+
+/**
+ * Entry of the audit log
+ * Each entry stores the hash of the previous one, so editing, removing or
+ * reordering entries breaks the chain.
+ */
+export interface AuditEntry extends AuditRecord {
+  seq: number;
+  timestamp: string; // ISO date string
+  outcome: AuditOutcome;
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Result of verifying the audit log
+ */
+export interface AuditVerification {
+  valid: boolean;
+  checked: number; // Entries in the verified range
+  total: number; // Entries in the whole log
+  breaks: number; // Chain breaks in the range, each skipping unreadable entries
+  problem?: string; // First problem found
+}
+
+/**
+ * Summarize an API response for the audit log
+ * Only the ID and status are kept; full responses are too large.
+ */
+function summarizeResult(result: any): Record<string, any> | undefined {
+  if (!result || typeof result !== "object" || Array.isArray(result)) {
+    return undefined;
+  }
+  const summary: Record<string, any> = {};
+  if (result.id !== undefined) summary.id = result.id;
+  if (result.status !== undefined) summary.status = result.status;
+  return Object.keys(summary).length > 0 ? summary : undefined;
+}
+
+/**
+ * Append-only, hash-chained log of money-moving and account actions
+ * Entries are appended to a file, one encrypted JSON entry per line; the
+ * hash covers the entry and the previous entry's hash.
+ */
+class AuditLogServiceImpl {
+  private lastSeq = 0;
+  private lastHash = GENESIS_HASH;
+
+  constructor() {
+    this.loadChainHead();
+  }
+
+  /**
+   * Read the last readable entry so new entries continue the chain
+   * Unreadable entries at the end of the log, e.g. from a crash during a
+   * write or a changed encryption key, are skipped and recorded with a
+   * chain break entry linked to the last readable one.
+   */
+  private loadChainHead(): void {
+    let lines: string[];
+    try {
+      lines = this.readLines();
+    } catch (error) {
+      logger.error("Failed to read the audit log:", error as Error);
+      return;
+    }
+    if (lines.length === 0) return;
+
+    let index = lines.length;
+    let last: AuditEntry | undefined;
+    while (!last && index > 0) {
+      index--;
+      last = this.parseLine(lines[index]);
+    }
+    if (last) {
+      this.lastSeq = last.seq;
+      this.lastHash = last.hash;
+    }
+
+    const unreadable = last ? lines.length - 1 - index : lines.length;
+    if (unreadable > 0) {
+      logger.error(
+        `Skipping ${unreadable} unreadable entries at the end of the audit log`
+      );
+      this.record(
+        {
+          action: "audit.chainBreak",
+          chatId: 0,
+          payload: { afterSeq: this.lastSeq, unreadableLines: unreadable },
+        },
+        {
+          status: "failure",
+          error: `${unreadable} entries after entry ${this.lastSeq} can't be decrypted`,
+        }
+      );
+    }
+    logger.info(`Audit log has ${lines.length} entries`);
+  }
+
+  /**
+   * Decrypt and parse an entry
+   * @returns The entry or undefined if it can't be read
+   */
+  private parseLine(line: string): AuditEntry | undefined {
+    try {
+      return JSON.parse(
+        decryptData(line, config.session.encryptionKey)
+      ) as AuditEntry;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the encrypted entries from the file
+   */
+  private readLines(): string[] {
+    if (!fs.existsSync(AUDIT_LOG_FILE_PATH)) return [];
+    return fs
+      .readFileSync(AUDIT_LOG_FILE_PATH, "utf8")
+      .split("\n")
+      .filter((line) => line.trim() !== "");
+  }
+
+  /**
+   * Compute the hash of an entry
+   */
+  private computeHash(entry: Omit<AuditEntry, "hash">): string {
+    const content = JSON.stringify([
+      entry.seq,
+      entry.timestamp,
+      entry.action,
+      entry.chatId,
+      entry.userId ?? null,
+      entry.organizationId ?? null,
+      entry.payload ?? null,
+      entry.outcome,
+      entry.prevHash,
+    ]);
+    return crypto.createHash("sha256").update(content).digest("hex");
+  }
+
+  /**
+   * Append an entry to the log
+   * Failures are logged but never thrown, since the action has already
+   * happened.
+   * @param record What was done and by whom
+   * @param outcome The result of the action
+   */
+  public record(record: AuditRecord, outcome: AuditOutcome): void {
+    const entry: Omit<AuditEntry, "hash"> = {
+      seq: this.lastSeq + 1,
+      timestamp: new Date().toISOString(),
+      action: record.action,
+      chatId: record.chatId,
+      userId: record.userId ?? getUpdateUserId(),
+      organizationId: record.organizationId,
+      payload: record.payload && removeSecrets(record.payload),
+      outcome: removeSecrets(outcome),
+      prevHash: this.lastHash,
+    };
+    const hashed: AuditEntry = { ...entry, hash: this.computeHash(entry) };
+
+    try {
+      fs.mkdirSync(path.dirname(AUDIT_LOG_FILE_PATH), { recursive: true });
+      fs.appendFileSync(
+        AUDIT_LOG_FILE_PATH,
+        `${encryptData(JSON.stringify(hashed), config.session.encryptionKey)}\n`
+      );
+      this.lastSeq = hashed.seq;
+      this.lastHash = hashed.hash;
+    } catch (error) {
+      logger.error(
+        `Failed to write audit log entry for ${record.action} in chat ${record.chatId}:`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Run an action and record its outcome
+   * @param record What is done and by whom
+   * @param run Performs the action, usually an API request
+   * @param describe Picks what to keep of the result; the ID and status by
+   * default
+   * @returns The result of the action
+   * @throws The error of the action, after recording it
+   */
+  public async audit<T>(
+    record: AuditRecord,
+    run: () => Promise<T>,
+    describe: (result: T) => Record<string, any> | undefined = summarizeResult
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await run();
+    } catch (error: any) {
+      this.record(record, {
+        status: "failure",
+        error: error?.message || String(error),
+        ...(error instanceof CopperxApiError
+          ? { httpStatus: error.status, requestId: error.requestId }
+          : {}),
+      });
+      throw error;
+    }
+
+    this.record(record, { status: "success", result: describe(result) });
+    return result;
+  }
+
+  /**
+   * Get the entries recorded in a time range
+   * Entries that can't be decrypted are skipped; use verify to find them.
+   * @param from Start of the range, inclusive
+   * @param to End of the range, exclusive
+   * @returns The entries, oldest first
+   */
+  public getEntries(from: Date, to: Date): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    this.readLines().forEach((line) => {
+      // Unreadable entries are reported by verify
+      const entry = this.parseLine(line);
+      if (!entry) return;
+
+      const timestamp = new Date(entry.timestamp);
+      if (timestamp >= from && timestamp < to) entries.push(entry);
+    });
+    return entries;
+  }
+
+  /**
+   * Verify the hash chain for the entries in a time range
+   * The whole log is read so the first entry in the range can be checked
+   * against the one before it. Unreadable entries are only accepted when a
+   * chain break entry right after them accounts for them.
+   * @param from Start of the range, inclusive
+   * @param to End of the range, exclusive
+   * @returns The verification result
+   */
+  public verify(from: Date, to: Date): AuditVerification {
+    const lines = this.readLines();
+    let prevHash = GENESIS_HASH;
+    let prevSeq = 0;
+    let checked = 0;
+    let breaks = 0;
+    let unreadable = 0; // Unreadable lines since the last readable entry
+
+    for (let index = 0; index < lines.length; index++) {
+      const entry = this.parseLine(lines[index]);
+      if (!entry) {
+        unreadable++;
+        continue;
+      }
+
+      if (unreadable > 0) {
+        const accounted =
+          entry.action === "audit.chainBreak" &&
+          entry.payload?.unreadableLines === unreadable;
+        if (!accounted) {
+          return {
+            valid: false,
+            checked,
+            total: lines.length,
+            breaks,
+            problem: `Line ${index - unreadable + 1} can't be decrypted`,
+          };
+        }
+        unreadable = 0;
+      }
+
+      const timestamp = new Date(entry.timestamp);
+      const inRange = timestamp >= from && timestamp < to;
+      if (inRange) {
+        checked++;
+        if (entry.action === "audit.chainBreak") breaks++;
+
+        const { hash, ...content } = entry;
+        let problem: string | undefined;
+        if (entry.seq !== prevSeq + 1) {
+          problem = `Entry ${entry.seq} follows entry ${prevSeq}`;
+        } else if (entry.prevHash !== prevHash) {
+          problem = `Entry ${entry.seq} doesn't link to the entry before it`;
+        } else if (this.computeHash(content) !== hash) {
+          problem = `Entry ${entry.seq} was modified`;
+        }
+
+        if (problem) {
+          return {
+            valid: false,
+            checked,
+            total: lines.length,
+            breaks,
+            problem,
+          };
+        }
+      }
+
+      prevHash = entry.hash;
+      prevSeq = entry.seq;
+    }
+
+    if (unreadable > 0) {
+      return {
+        valid: false,
+        checked,
+        total: lines.length,
+        breaks,
+        problem: `Line ${lines.length - unreadable + 1} can't be decrypted`,
+      };
+    }
+
+    return { valid: true, checked, total: lines.length, breaks };
+  }
+}
+
+// Export singleton instance
+export const AuditLogService = new AuditLogServiceImpl();
@@ -1,25 +1,61 @@
 import TelegramBot from "node-telegram-bot-api";
 import { config } from "../config";
-import { commandRegistry } from "./command";
+import { dispatcher } from "./dispatcher";
+import {
+  adminMiddleware,
+  authMiddleware,
+  createRateLimitMiddleware,
+  errorMiddleware,
+  loggingMiddleware,
+  metricsMiddleware,
+  pinMiddleware,
+  treasuryMiddleware,
+} from "./middleware";
 import { SessionService } from "./session.service";
+import { HealthService } from "./health.service";
 import { SESSION_REFRESH_INTERVAL } from "../utils/constants";
 import { getModuleLogger } from "../utils/logger";
 
 // Create module logger
 const logger = getModuleLogger("bot");
 
+/**
+ * Check whether the bot receives updates through a webhook instead of polling
+ */
+export function isWebhookMode(): boolean {
+  return !!config.webhook.url;
+}
+
 /**
  * Start Telegram bot
+ * Uses long polling unless BOT_WEBHOOK_URL is set, in which case updates are
+ * delivered to the HTTP server and fed to the bot via processUpdate.
  */
 export function startBot(): TelegramBot {
-  logger.info("Starting Telegram bot...");
+  const webhookMode = isWebhookMode();
+  logger.info(
+    `Starting Telegram bot in ${webhookMode ? "webhook" : "polling"} mode...`
+  );
 
-  // Initialize the bot
+  // Initialize the bot; polling is started below once it's monitored
   const bot = new TelegramBot(config.botToken, {
-    polling: true,
+    polling: false,
     filepath: false, // Disable automatic file downloading
   });
 
+  // Register the webhook with Telegram
+  if (webhookMode) {
+    const webhookUrl = `${config.webhook.url}${config.webhook.path}`;
+    bot
+      .setWebHook(webhookUrl, { secret_token: config.webhook.secretToken })
+      .then(() => {
+        logger.info(`Webhook registered at ${config.webhook.url}`);
+      })
+      .catch((err) => {
+        logger.error("Failed to register webhook:", err);
+      });
+  }
+
   // Log bot info
   bot
     .getMe()
@@ -35,140 +71,51 @@ export function startBot(): TelegramBot {
     logger.error("Polling error:", err);
   });
 
+  // Track successful polls for health checks and restart polling after
+  // repeated errors. A webhook left over from a webhook deployment makes
+  // getUpdates fail with 409 Conflict, so remove it before polling.
+  if (!webhookMode) {
+    HealthService.monitorPolling(bot);
+    bot
+      .deleteWebHook()
+      .catch((err) => {
+        logger.error("Failed to delete webhook:", err);
+      })
+      .then(() => bot.startPolling())
+      .catch((err) => {
+        logger.error("Failed to start polling:", err);
+      });
+  }
+
   // Set up scheduled session refresh
   setInterval(() => {
     SessionService.scanAndRefreshSessions();
   }, SESSION_REFRESH_INTERVAL);
 
-  // Register command handlers
-  const commands = commandRegistry.getCommands();
-  logger.info(`Registering ${commands.length} commands`);
-
-  // Global command handler for all commands
-  bot.onText(/^\/([a-zA-Z0-9_]+)(@\w+)?(\s+(.*))?$/, (msg, match) => {
-    if (!match) return;
-
-    const commandName = match[1].toLowerCase();
-    const command = commandRegistry.getCommand(commandName);
-
-    if (command) {
-      logger.info(
-        `Executing command: /${commandName} from user ${msg.from?.id}`
-      );
-      try {
-        command.execute(bot, msg).catch((err) => {
-          logger.error(`Error executing command /${commandName}:`, err);
-          bot.sendMessage(
-            msg.chat.id,
-            `❌ An error occurred while processing your command. Please try again later.`
-          );
-        });
-      } catch (error: any) {
-        logger.error(`Error executing command /${commandName}:`, error);
-        bot.sendMessage(
-          msg.chat.id,
-          `❌ An error occurred while processing your command. Please try again later.`
-        );
-      }
-    } else {
-      logger.warn(`Unknown command: /${commandName}`);
-      // Optionally send a message about unknown command
-      // bot.sendMessage(msg.chat.id, `Command /${commandName} not recognized. Use /help to see available commands.`);
-    }
+  // Set up the dispatch pipeline; the error middleware comes first so it
+  // also catches errors thrown by the other middleware
+  dispatcher
+    .use(errorMiddleware)
+    .use(loggingMiddleware)
+    .use(metricsMiddleware)
+    .use(createRateLimitMiddleware())
+    .use(adminMiddleware)
+    .use(treasuryMiddleware)
+    .use(authMiddleware)
+    .use(pinMiddleware);
+
+  // Commands, text input and file uploads
+  bot.on("message", (msg) => {
+    dispatcher.dispatchMessage(bot, msg).catch((error) => {
+      logger.error(`Error dispatching message:`, error);
+    });
   });
 
-  // For backwards compatibility, also register individual command handlers
-  for (const command of commands) {
-    logger.debug(`Also registering command pattern for: /${command.name}`);
-    if (command.pattern) {
-      bot.onText(command.pattern, (msg) => {
-        try {
-          command.execute(bot, msg);
-        } catch (error: any) {
-          logger.error(`Error executing command /${command.name}:`, error);
-        }
-      });
-    }
-  }
-
-  // Add unified callback query handler
+  // Inline keyboard callbacks
   bot.on("callback_query", (query) => {
-    if (!query.data) return;
-
-    try {
-      const handler = commandRegistry.findCallbackHandler(query.data);
-      if (handler && handler.handleCallback) {
-        logger.debug(
-          `Processing callback: ${query.data} with handler: ${handler.name}`
-        );
-        handler.handleCallback(bot, query).catch((err) => {
-          logger.error(
-            `Error in handler.handleCallback for ${query.data}:`,
-            err
-          );
-          bot.answerCallbackQuery(query.id, {
-            text: "An error occurred while processing your request.",
-            show_alert: true,
-          });
-        });
-      } else {
-        logger.warn(`No handler found for callback data: ${query.data}`);
-        bot.answerCallbackQuery(query.id, {
-          text: "This action is not available at the moment.",
-          show_alert: true,
-        });
-      }
-    } catch (error: any) {
-      logger.error(`Error handling callback query:`, error);
-      bot.answerCallbackQuery(query.id, {
-        text: "An error occurred. Please try again.",
-        show_alert: true,
-      });
-    }
-  });
-
-  // Add unified message handler for all user inputs
-  bot.on("message", async (msg) => {
-    // Skip command messages which start with /
-    if (!msg.text || msg.text.startsWith("/")) return;
-
-    const chatId = msg.chat.id;
-    logger.debug(`Processing message: "${msg.text}" from chat ${chatId}`);
-
-    try {
-      // Get session state to determine current action
-      const session = SessionService.getSessionState(chatId);
-      logger.debug(`Current session state:`, session);
-
-      if (session && session.currentAction) {
-        // Prioritize routing based on currentAction
-        logger.debug(
-          `Routing based on currentAction: ${session.currentAction}`
-        );
-
-        // Try to find a command that can handle this action
-        let handled = false;
-        const commands = commandRegistry.getCommands();
-        for (const command of commands) {
-          if (command.handleUserInput) {
-            try {
-              // Let each command check if it should handle this message based on session state
-              await command.handleUserInput(bot, msg);
-              // We don't break here because multiple commands might need to process the message
-              // Each command is responsible for checking if it should process the message
-            } catch (error: any) {
-              logger.error(`Error in ${command.name}.handleUserInput:`, error);
-            }
-          }
-        }
-      } else {
-        logger.debug(
-          `No currentAction in session, skipping message processing`
-        );
-      }
-    } catch (error: any) {
-      logger.error(`Error in global message handler:`, error);
-    }
+    dispatcher.dispatchCallback(bot, query).catch((error) => {
+      logger.error(`Error dispatching callback query:`, error);
+    });
   });
 
   // Error handling for bot API errors
@@ -1,4 +1,5 @@
 import TelegramBot from "node-telegram-bot-api";
+import { SessionAction } from "./session.service";
 import { getModuleLogger } from "../utils/logger";
 
 // Create module logger
@@ -20,10 +21,16 @@ export interface BotCommand {
   description: string;
 
   /**
-   * Regular expression pattern to match command text
-   * Will be automatically generated if not provided
+   * Whether the command requires a logged-in user
+   * Checked by the auth middleware for commands, callbacks and text input
    */
-  pattern?: RegExp;
+  requiresAuth?: boolean;
+
+  /**
+   * Whether the command is limited to the operators in ADMIN_TELEGRAM_IDS
+   * Checked by the admin middleware; other users are ignored
+   */
+  requiresAdmin?: boolean;
 
   /**
    * Execute the command
@@ -48,6 +55,13 @@ export interface BotCommand {
    * @param msg Message containing user input
    */
   handleUserInput?(bot: TelegramBot, msg: TelegramBot.Message): Promise<void>;
+
+  /**
+   * Continue the flow in the session state after the user logged in again
+   * @param bot TelegramBot instance
+   * @param chatId The chat the flow belongs to
+   */
+  resumeFlow?(bot: TelegramBot, chatId: number): Promise<void>;
 }
 
 /**
@@ -56,6 +70,8 @@ export interface BotCommand {
 export class CommandRegistry {
   private commands: Map<string, BotCommand> = new Map();
   private callbackHandlers: Map<string, BotCommand> = new Map();
+  private sharedCallbackHandlers: Map<string, BotCommand[]> = new Map();
+  private actionHandlers: Map<SessionAction, BotCommand> = new Map();
 
   /**
    * Register a command in the registry
@@ -70,18 +86,6 @@ export class CommandRegistry {
 
     this.commands.set(command.name, command);
     logger.debug(`Registered command: /${command.name}`);
-
-    // If no pattern is provided, create default pattern
-    if (!command.pattern) {
-      // Create a pattern that matches both the command name and with the bot name
-      command.pattern = new RegExp(
-        `^\/${command.name}(?:@\\w+)?(?:\\s+(.+))?$`,
-        "i"
-      );
-      logger.debug(
-        `Created pattern for command /${command.name}: ${command.pattern}`
-      );
-    }
   }
 
   /**
@@ -93,6 +97,38 @@ export class CommandRegistry {
     this.callbackHandlers.set(prefix, command);
   }
 
+  /**
+   * Register a callback prefix used by the buttons of several flows
+   * Such callbacks go to the command that owns the chat's current action
+   * when it is one of the commands, else to the first one.
+   * @param prefix The callback data prefix
+   * @param commands The commands whose flows use the prefix
+   */
+  registerSharedCallbackHandler(prefix: string, commands: BotCommand[]): void {
+    this.sharedCallbackHandlers.set(prefix, commands);
+  }
+
+  /**
+   * Register the command that handles text input for a session action
+   * @param action The session's current action
+   * @param command The command to handle text input
+   */
+  registerActionHandler(action: SessionAction, command: BotCommand): void {
+    if (this.actionHandlers.has(action)) {
+      logger.warn(`Action ${action} is being registered more than once`);
+    }
+    this.actionHandlers.set(action, command);
+  }
+
+  /**
+   * Find the command that handles text input for a session action
+   * @param action The session's current action
+   * @returns The command that owns the action or undefined
+   */
+  findActionHandler(action: SessionAction): BotCommand | undefined {
+    return this.actionHandlers.get(action);
+  }
+
   /**
    * Get all registered commands
    * @returns List of registered commands
@@ -113,9 +149,14 @@ export class CommandRegistry {
   /**
    * Find a command handler for a callback query
    * @param callbackData The callback data
+   * @param currentAction The chat's current action, for callbacks shared by
+   * several flows
    * @returns The command that handles this callback or undefined
    */
-  findCallbackHandler(callbackData: string): BotCommand | undefined {
+  findCallbackHandler(
+    callbackData: string,
+    currentAction?: SessionAction
+  ): BotCommand | undefined {
     logger.debug(`Finding handler for callback data: ${callbackData}`);
 
     // First try exact match for entire callback data
@@ -128,6 +169,10 @@ export class CommandRegistry {
       }
     }
 
+    // Then the prefixes shared by several flows, most specific first
+    const shared = this.findSharedCallbackHandler(callbackData, currentAction);
+    if (shared) return shared;
+
     // Then try prefix match
     // Get prefix (everything before the first colon)
     const prefix = callbackData.split(":")[0];
@@ -160,7 +205,38 @@ export class CommandRegistry {
   }
 
   /**
-   * Log all registered callback handlers for debugging purposes
+   * Find the command for a callback shared by several flows
+   * @param callbackData The callback data
+   * @param currentAction The chat's current action
+   * @returns The command of the current flow, the first command registered
+   * for the prefix, or undefined if no shared prefix matches
+   */
+  private findSharedCallbackHandler(
+    callbackData: string,
+    currentAction?: SessionAction
+  ): BotCommand | undefined {
+    const parts = callbackData.split(":");
+    const prefix = [callbackData, `${parts[0]}:${parts[1]}`, parts[0]].find(
+      (candidate) => this.sharedCallbackHandlers.has(candidate)
+    );
+    const commands = prefix && this.sharedCallbackHandlers.get(prefix);
+    if (!commands || commands.length === 0) return undefined;
+
+    const actionHandler = currentAction
+      ? this.actionHandlers.get(currentAction)
+      : undefined;
+    const command =
+      actionHandler && commands.includes(actionHandler)
+        ? actionHandler
+        : commands[0];
+    logger.debug(
+      `Found shared handler: ${command.name} for prefix: ${prefix} and action: ${currentAction}`
+    );
+    return command;
+  }
+
+  /**
+   * Log all registered callback and action handlers for debugging purposes
    */
   logRegisteredHandlers(): void {
     logger.info(
@@ -169,6 +245,17 @@ export class CommandRegistry {
     for (const [prefix, command] of this.callbackHandlers.entries()) {
       logger.info(`- ${prefix} -> ${command.name}`);
     }
+
+    for (const [prefix, commands] of this.sharedCallbackHandlers.entries()) {
+      logger.info(
+        `- ${prefix} -> ${commands.map((command) => command.name).join(" | ")}`
+      );
+    }
+
+    logger.info(`Registered action handlers (${this.actionHandlers.size}):`);
+    for (const [action, command] of this.actionHandlers.entries()) {
+      logger.info(`- ${action} -> ${command.name}`);
+    }
   }
 }
 
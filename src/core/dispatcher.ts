@@ -0,0 +1,197 @@
+import TelegramBot from "node-telegram-bot-api";
+import { BotCommand, commandRegistry } from "./command";
+import { SessionService, SessionState } from "./session.service";
+import { getModuleLogger } from "../utils/logger";
+import {
+  createCorrelationId,
+  runWithCorrelationId,
+} from "../utils/correlation";
+
+// Create module logger
+const logger = getModuleLogger("dispatcher");
+
+// Matches "/command", "/command@BotName" and "/command arguments"
+const COMMAND_PATTERN = /^\/([a-zA-Z0-9_]+)(@\w+)?(\s+(.*))?$/;
+
+/**
+ * Kind of update passed through the pipeline
+ */
+export type UpdateKind = "command" | "callback" | "message";
+
+/**
+ * Context of a single update passed through the middleware chain
+ */
+export interface UpdateContext {
+  bot: TelegramBot;
+  kind: UpdateKind;
+  chatId: number;
+  userId?: number;
+  message?: TelegramBot.Message; // Set for commands and text input
+  query?: TelegramBot.CallbackQuery; // Set for callbacks
+  commandName?: string; // Set for commands, without the leading slash
+  state?: SessionState; // Session state when the update arrived
+  handler?: BotCommand; // Command the update is routed to, if any
+}
+
+/**
+ * Middleware in the dispatch pipeline
+ * Call next() to continue with the next middleware and finally the handler;
+ * return without calling it to stop processing the update.
+ */
+export type Middleware = (
+  ctx: UpdateContext,
+  next: () => Promise<void>
+) => Promise<void>;
+
+/**
+ * Routes commands, callbacks and text input to their command through a
+ * chain of middleware
+ */
+export class Dispatcher {
+  private middlewares: Middleware[] = [];
+
+  /**
+   * Add a middleware to the end of the chain
+   * @param middleware The middleware to add
+   * @returns The dispatcher, for chaining
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Dispatch an incoming message as a command or as text input
+   * Messages starting with "/" that don't look like a command are ignored.
+   * @param bot The Telegram bot instance
+   * @param msg The incoming message
+   */
+  async dispatchMessage(
+    bot: TelegramBot,
+    msg: TelegramBot.Message
+  ): Promise<void> {
+    const base = {
+      bot,
+      chatId: msg.chat.id,
+      userId: msg.from?.id,
+      message: msg,
+      state: SessionService.getSessionState(msg.chat.id),
+    };
+
+    if (msg.text?.startsWith("/")) {
+      const match = msg.text.match(COMMAND_PATTERN);
+      if (!match) return;
+
+      const commandName = match[1].toLowerCase();
+      await this.run({
+        ...base,
+        kind: "command",
+        commandName,
+        handler: commandRegistry.getCommand(commandName),
+      });
+      return;
+    }
+
+    // Documents are passed through for flows that accept file uploads
+    if (!msg.text && !msg.document) return;
+
+    await this.run({
+      ...base,
+      kind: "message",
+      handler: base.state?.currentAction
+        ? commandRegistry.findActionHandler(base.state.currentAction)
+        : undefined,
+    });
+  }
+
+  /**
+   * Dispatch a callback query
+   * @param bot The Telegram bot instance
+   * @param query The callback query
+   */
+  async dispatchCallback(
+    bot: TelegramBot,
+    query: TelegramBot.CallbackQuery
+  ): Promise<void> {
+    if (!query.data) return;
+
+    const chatId = query.message?.chat.id ?? query.from.id;
+    const state = SessionService.getSessionState(chatId);
+    await this.run({
+      bot,
+      kind: "callback",
+      chatId,
+      userId: query.from.id,
+      query,
+      state,
+      handler: commandRegistry.findCallbackHandler(
+        query.data,
+        state?.currentAction
+      ),
+    });
+  }
+
+  /**
+   * Run the middleware chain and then the handler
+   * Everything logged and every API request made while handling the update
+   * carries the update's correlation ID.
+   */
+  private async run(ctx: UpdateContext): Promise<void> {
+    const invoke = async (index: number): Promise<void> => {
+      if (index < this.middlewares.length) {
+        await this.middlewares[index](ctx, () => invoke(index + 1));
+        return;
+      }
+      await this.route(ctx);
+    };
+
+    await runWithCorrelationId(
+      createCorrelationId(),
+      () => invoke(0),
+      ctx.userId
+    );
+  }
+
+  /**
+   * Pass the update to the command it was routed to
+   */
+  private async route(ctx: UpdateContext): Promise<void> {
+    const { bot, handler, message, query } = ctx;
+
+    if (ctx.kind === "callback" && query) {
+      if (!handler) {
+        await bot
+          .answerCallbackQuery(query.id, {
+            text: "This action is not available at the moment.",
+            show_alert: true,
+          })
+          .catch(() => undefined);
+        return;
+      }
+      await handler.handleCallback(bot, query);
+      return;
+    }
+
+    if (!message) return;
+
+    if (ctx.kind === "command") {
+      if (!handler) {
+        logger.warn(`Unknown command: /${ctx.commandName}`);
+        return;
+      }
+      await handler.execute(bot, message);
+      return;
+    }
+
+    if (!handler?.handleUserInput) {
+      logger.debug(
+        `No input handler for action ${ctx.state?.currentAction} in chat ${ctx.chatId}`
+      );
+      return;
+    }
+    await handler.handleUserInput(bot, message);
+  }
+}
+
+// Export singleton instance
+export const dispatcher = new Dispatcher();
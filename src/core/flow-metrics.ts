@@ -0,0 +1,62 @@
+import { SessionAction, SessionState, sessionEvents } from "./session.service";
+import { metricsRegistry } from "../utils/metrics";
+
+// Multi-step flows by action; completion and abandonment rates are the
+// completed and abandoned counts divided by the started count
+const flowsStarted = metricsRegistry.counter(
+  "copperx_bot_flows_started_total",
+  "Multi-step flows started by action"
+);
+const flowsCompleted = metricsRegistry.counter(
+  "copperx_bot_flows_completed_total",
+  "Multi-step flows completed by action"
+);
+const flowsAbandoned = metricsRegistry.counter(
+  "copperx_bot_flows_abandoned_total",
+  "Multi-step flows cancelled, failed or replaced by another flow by action"
+);
+
+// Current flow of each chat
+const activeFlows = new Map<
+  number,
+  { action: SessionAction; completed: boolean }
+>();
+
+/**
+ * Track flow starts and ends from session state changes
+ * A flow ends when the state is cleared or another action starts; it counts
+ * as abandoned unless recordFlowCompleted was called first.
+ */
+sessionEvents.on(
+  "session:stateUpdated",
+  (chatId: number, state: SessionState) => {
+    const current = activeFlows.get(chatId);
+    const action = state.currentAction;
+    if (current?.action === action) return;
+
+    if (current && !current.completed) {
+      flowsAbandoned.inc({ action: current.action });
+    }
+
+    if (action) {
+      flowsStarted.inc({ action });
+      activeFlows.set(chatId, { action, completed: false });
+    } else {
+      activeFlows.delete(chatId);
+    }
+  }
+);
+
+/**
+ * Record that the current flow of a chat reached its goal, e.g. a transfer
+ * was submitted
+ * Call this before clearing the session state.
+ * @param chatId The chat ID
+ */
+export function recordFlowCompleted(chatId: number): void {
+  const current = activeFlows.get(chatId);
+  if (!current || current.completed) return;
+
+  flowsCompleted.inc({ action: current.action });
+  current.completed = true;
+}
@@ -0,0 +1,236 @@
+import TelegramBot from "node-telegram-bot-api";
+import { getSessionMetrics } from "./session.service";
+import { getPusherConnectionStates } from "../services/notification.service";
+import * as api from "../utils/api";
+import {
+  API_HEALTH_CHECK_CACHE_MS,
+  API_HEALTH_CHECK_TIMEOUT_MS,
+  POLL_DEAD_MS,
+  POLL_STALE_MS,
+  POLLING_RESTART_COOLDOWN_MS,
+  POLLING_RESTART_ERRORS,
+} from "../utils/constants";
+import { getModuleLogger } from "../utils/logger";
+import { metricsRegistry } from "../utils/metrics";
+
+// Create module logger
+const logger = getModuleLogger("health-service");
+
+// Pusher states in which deposit notifications can't be delivered
+const PUSHER_DOWN_STATES = ["unavailable", "failed"];
+
+const pollingRestarts = metricsRegistry.counter(
+  "copperx_bot_polling_restarts_total",
+  "Telegram polling restarts after repeated polling errors"
+);
+
+/**
+ * Result of a single health check
+ */
+export interface HealthCheckResult {
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * Result of all checks of a liveness or readiness probe
+ */
+export interface HealthReport {
+  ok: boolean;
+  checks: Record<string, HealthCheckResult>;
+}
+
+/**
+ * Tracks the health of the bot and its dependencies
+ * Liveness only fails when polling has been dead for POLL_DEAD_MS, which a
+ * process restart may fix; readiness also fails on shorter polling outages,
+ * an unreachable Copperx API, failing session saves and Pusher connections
+ * that are down.
+ */
+class HealthServiceImpl {
+  private readonly startedAt = Date.now();
+  private pollingMonitored = false;
+  private lastPollAt: number | null = null;
+  private consecutivePollErrors = 0;
+  private lastPollingRestartAt = 0;
+  private restartingPolling = false;
+  private apiCheck: { checkedAt: number; result: HealthCheckResult } | null =
+    null;
+  private pendingApiCheck: Promise<HealthCheckResult> | null = null;
+
+  /**
+   * Track successful polls and restart polling after repeated errors
+   * Call before polling starts so the first poll is seen.
+   * @param bot The Telegram bot instance
+   */
+  monitorPolling(bot: TelegramBot): void {
+    this.pollingMonitored = true;
+
+    // Polling fetches updates through getUpdates, so every resolved call
+    // is a successful poll
+    const getUpdates = bot.getUpdates.bind(bot);
+    bot.getUpdates = async (options) => {
+      const updates = await getUpdates(options);
+      this.lastPollAt = Date.now();
+      this.consecutivePollErrors = 0;
+      return updates;
+    };
+
+    bot.on("polling_error", () => {
+      if (this.restartingPolling) return;
+
+      this.consecutivePollErrors++;
+      if (
+        this.consecutivePollErrors >= POLLING_RESTART_ERRORS &&
+        Date.now() - this.lastPollingRestartAt >= POLLING_RESTART_COOLDOWN_MS
+      ) {
+        this.restartPolling(bot);
+      }
+    });
+  }
+
+  /**
+   * Stop and start polling again
+   */
+  private async restartPolling(bot: TelegramBot): Promise<void> {
+    this.restartingPolling = true;
+    this.lastPollingRestartAt = Date.now();
+    pollingRestarts.inc();
+    logger.warn(
+      `Restarting polling after ${this.consecutivePollErrors} consecutive errors`
+    );
+
+    try {
+      // Without cancel, stopPolling waits for the current request, so the
+      // old polling loop can't keep running next to the new one
+      await bot.stopPolling();
+      this.consecutivePollErrors = 0;
+      bot.startPolling().catch((error) => {
+        logger.error("Failed to restart polling:", error);
+      });
+    } catch (error) {
+      logger.error("Failed to stop polling for restart:", error as Error);
+    } finally {
+      this.restartingPolling = false;
+    }
+  }
+
+  /**
+   * Check that polling succeeded recently
+   * @param maxAgeMs Maximum time since the last successful poll
+   */
+  private checkPolling(maxAgeMs: number): HealthCheckResult {
+    if (!this.pollingMonitored) {
+      return { ok: true, detail: "Updates are received through the webhook" };
+    }
+
+    if (this.lastPollAt === null) {
+      return {
+        ok: Date.now() - this.startedAt < maxAgeMs,
+        detail: "No successful poll yet",
+      };
+    }
+
+    const age = Date.now() - this.lastPollAt;
+    return {
+      ok: age < maxAgeMs,
+      detail: `Last successful poll ${Math.round(age / 1000)}s ago`,
+    };
+  }
+
+  /**
+   * Check that the Copperx API responds
+   * Results are cached so frequent probes don't load the API.
+   */
+  private async checkApi(): Promise<HealthCheckResult> {
+    if (
+      this.apiCheck &&
+      Date.now() - this.apiCheck.checkedAt < API_HEALTH_CHECK_CACHE_MS
+    ) {
+      return this.apiCheck.result;
+    }
+
+    if (!this.pendingApiCheck) {
+      this.pendingApiCheck = api
+        .checkReachability(API_HEALTH_CHECK_TIMEOUT_MS)
+        .then(
+          (status): HealthCheckResult => ({
+            ok: true,
+            detail: `API responded with status ${status}`,
+          }),
+          (error: api.CopperxApiError): HealthCheckResult => ({
+            ok: false,
+            detail: `API unreachable: ${error.message}`,
+          })
+        )
+        .then((result) => {
+          this.apiCheck = { checkedAt: Date.now(), result };
+          this.pendingApiCheck = null;
+          return result;
+        });
+    }
+    return this.pendingApiCheck;
+  }
+
+  /**
+   * Check that the latest session save succeeded
+   */
+  private checkSessionStore(): HealthCheckResult {
+    const { lastSave, lastSaveFailed } = getSessionMetrics();
+    return lastSaveFailed
+      ? {
+          ok: false,
+          detail: `Last save failed; last successful save at ${lastSave.toISOString()}`,
+        }
+      : {
+          ok: true,
+          detail: `Last successful save at ${lastSave.toISOString()}`,
+        };
+  }
+
+  /**
+   * Check that no Pusher connection is down
+   */
+  private checkPusher(): HealthCheckResult {
+    const states = getPusherConnectionStates();
+    if (states.length === 0) {
+      return { ok: true, detail: "No notification subscriptions" };
+    }
+
+    const down = states.filter((state) => PUSHER_DOWN_STATES.includes(state));
+    const connected = states.filter((state) => state === "connected").length;
+    return {
+      ok: down.length === 0,
+      detail: `${connected} of ${states.length} connections connected, ${down.length} down`,
+    };
+  }
+
+  /**
+   * Check whether the process is alive
+   * @returns The liveness report
+   */
+  getLiveness(): HealthReport {
+    const checks = { telegram: this.checkPolling(POLL_DEAD_MS) };
+    return { ok: checks.telegram.ok, checks };
+  }
+
+  /**
+   * Check whether the bot can serve users
+   * @returns Promise with the readiness report
+   */
+  async getReadiness(): Promise<HealthReport> {
+    const checks: Record<string, HealthCheckResult> = {
+      telegram: this.checkPolling(POLL_STALE_MS),
+      copperxApi: await this.checkApi(),
+      sessionStore: this.checkSessionStore(),
+      pusher: this.checkPusher(),
+    };
+    return {
+      ok: Object.values(checks).every((check) => check.ok),
+      checks,
+    };
+  }
+}
+
+// Export singleton instance
+export const HealthService = new HealthServiceImpl();
@@ -0,0 +1,410 @@
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { encryptData, decryptData } from "../utils/encryption";
+import {
+  KNOWN_RECIPIENTS_MAX,
+  LIMIT_INCREASE_DELAY_MS,
+  LIMITS_CURRENCY,
+  LIMITS_FILE_PATH,
+  SPENDING_DAY_MS,
+  SPENDING_WEEK_MS,
+} from "../utils/constants";
+import { formatCurrency } from "../utils/format";
+import { getModuleLogger } from "../utils/logger";
+import {
+  Amount,
+  amountToString,
+  compareAmounts,
+  isPositiveAmount,
+  subtractAmounts,
+  sumAmounts,
+  toAmount,
+  ZERO_AMOUNT,
+} from "../utils/money";
+
+// Create module logger
+const logger = getModuleLogger("limits-service");
+
+/**
+ * Kinds of spending limits
+ */
+export type LimitKind = "perTransaction" | "daily" | "weekly" | "newRecipient";
+
+// All limit kinds, in display order
+export const LIMIT_KINDS: LimitKind[] = [
+  "perTransaction",
+  "daily",
+  "weekly",
+  "newRecipient",
+];
+
+/**
+ * Limit change waiting for the cooling-off delay
+ */
+export interface PendingLimit {
+  value: string | null; // Decimal string, null when the limit is removed
+  effectiveAt: string; // ISO date string
+}
+
+/**
+ * Limits of a chat as decimal strings; missing limits don't apply
+ */
+export type SpendingLimits = Partial<Record<LimitKind, string>>;
+
+/**
+ * Stored limits, spending and paid recipients of a chat
+ */
+interface LimitsRecord {
+  limits: SpendingLimits;
+  pending: Partial<Record<LimitKind, PendingLimit>>;
+  spending: Array<{ amount: string; at: string }>; // Last SPENDING_WEEK_MS
+  recipients: string[]; // Recipients paid before, see getRecipientKey
+}
+
+/**
+ * Money leaving the account in a single transfer
+ */
+export interface SpendingTransfer {
+  recipient: string; // e.g. "email:jane@example.com", see getRecipientKey
+  amount: Amount;
+  currency: string;
+}
+
+/**
+ * First limit a set of transfers would break
+ */
+export interface LimitViolation {
+  kind: LimitKind;
+  limit: Amount;
+  attempted: Amount; // The transfer, or the spending including it
+  remaining?: Amount; // What can still be sent within the daily or weekly limit
+  recipient?: string; // The new recipient, for the new recipient limit
+}
+
+/**
+ * Build the key a recipient is remembered by
+ * @param type The kind of recipient, e.g. "email", "wallet" or "bank"
+ * @param id The email address, wallet address or account ID
+ */
+export function getRecipientKey(type: string, id: string): string {
+  return `${type}:${id.trim().toLowerCase()}`;
+}
+
+/**
+ * Explain which limit a transfer would break
+ * @param violation The limit the transfer would break
+ * @returns Plain text explanation; escape it for Markdown messages
+ */
+export function describeLimitViolation(violation: LimitViolation): string {
+  const limit = formatCurrency(violation.limit, LIMITS_CURRENCY);
+  const attempted = formatCurrency(violation.attempted, LIMITS_CURRENCY);
+  const remaining =
+    violation.remaining !== undefined
+      ? `\nYou can send up to ${formatCurrency(
+          violation.remaining,
+          LIMITS_CURRENCY
+        )} more for now.`
+      : "";
+
+  switch (violation.kind) {
+    case "perTransaction":
+      return `This transfer of ${attempted} is above your per-transfer limit of ${limit}.`;
+    case "daily":
+      return `This would bring your spending in the last 24 hours to ${attempted}, above your daily limit of ${limit}.${remaining}`;
+    case "weekly":
+      return `This would bring your spending in the last 7 days to ${attempted}, above your weekly limit of ${limit}.${remaining}`;
+    case "newRecipient": {
+      const recipient = (violation.recipient || "").replace(/^[a-z]+:/, "");
+      return `You haven't sent money to ${recipient} before, and ${attempted} is above your limit of ${limit} for new recipients.`;
+    }
+  }
+}
+
+/**
+ * Stores spending limits and checks transfers against them
+ * Lowering or adding a limit applies right away; raising or removing one
+ * waits LIMIT_INCREASE_DELAY_MS, so someone with access to the chat can't
+ * lift the limits and move money at once. Limits are set in LIMITS_CURRENCY
+ * and only transfers in that currency count towards them.
+ */
+class LimitsServiceImpl {
+  private records = new Map<number, LimitsRecord>();
+
+  constructor() {
+    this.loadRecords();
+  }
+
+  /**
+   * Load limits from file
+   */
+  private loadRecords(): void {
+    try {
+      if (!fs.existsSync(LIMITS_FILE_PATH)) return;
+
+      const encrypted = fs.readFileSync(LIMITS_FILE_PATH, "utf8");
+      const loaded = JSON.parse(
+        decryptData(encrypted, config.session.encryptionKey)
+      ) as Record<string, LimitsRecord>;
+
+      Object.entries(loaded).forEach(([chatId, record]) =>
+        this.records.set(Number(chatId), record)
+      );
+      logger.info(`Loaded spending limits of ${this.records.size} chats`);
+    } catch (error) {
+      logger.error("Failed to load spending limits:", error as Error);
+    }
+  }
+
+  /**
+   * Save limits to file
+   * Writes to a temporary file first so a crash never leaves a partial file.
+   */
+  private saveRecords(): void {
+    try {
+      fs.mkdirSync(path.dirname(LIMITS_FILE_PATH), { recursive: true });
+
+      const stored: Record<string, LimitsRecord> = {};
+      this.records.forEach((record, chatId) => (stored[chatId] = record));
+
+      const encrypted = encryptData(
+        JSON.stringify(stored),
+        config.session.encryptionKey
+      );
+      const tmpPath = `${LIMITS_FILE_PATH}.tmp`;
+      fs.writeFileSync(tmpPath, encrypted);
+      fs.renameSync(tmpPath, LIMITS_FILE_PATH);
+    } catch (error) {
+      logger.error("Failed to save spending limits:", error as Error);
+    }
+  }
+
+  /**
+   * Get the record of a chat with due changes applied and old spending
+   * dropped
+   */
+  private getRecord(chatId: number): LimitsRecord {
+    const record = this.records.get(chatId) || {
+      limits: {},
+      pending: {},
+      spending: [],
+      recipients: [],
+    };
+    this.records.set(chatId, record);
+
+    const now = Date.now();
+    let changed = false;
+    LIMIT_KINDS.forEach((kind) => {
+      const pending = record.pending[kind];
+      if (!pending || new Date(pending.effectiveAt).getTime() > now) return;
+
+      if (pending.value === null) {
+        delete record.limits[kind];
+      } else {
+        record.limits[kind] = pending.value;
+      }
+      delete record.pending[kind];
+      changed = true;
+      logger.info(`Raised ${kind} limit applied for chat ${chatId}`);
+    });
+
+    const spending = record.spending.filter(
+      (entry) => now - new Date(entry.at).getTime() < SPENDING_WEEK_MS
+    );
+    if (spending.length !== record.spending.length) {
+      record.spending = spending;
+      changed = true;
+    }
+
+    if (changed) this.saveRecords();
+    return record;
+  }
+
+  /**
+   * Get the limits of a chat and the changes waiting to apply
+   */
+  public getLimits(chatId: number): {
+    limits: SpendingLimits;
+    pending: Partial<Record<LimitKind, PendingLimit>>;
+  } {
+    const { limits, pending } = this.getRecord(chatId);
+    return { limits: { ...limits }, pending: { ...pending } };
+  }
+
+  /**
+   * Get how much a chat sent in the last day and week
+   */
+  public getSpending(chatId: number): { daily: Amount; weekly: Amount } {
+    const now = Date.now();
+    const spending = this.getRecord(chatId).spending;
+    const sumSince = (windowMs: number): Amount =>
+      sumAmounts(
+        spending
+          .filter((entry) => now - new Date(entry.at).getTime() < windowMs)
+          .map((entry) => toAmount(entry.amount))
+      );
+
+    return {
+      daily: sumSince(SPENDING_DAY_MS),
+      weekly: sumSince(SPENDING_WEEK_MS),
+    };
+  }
+
+  /**
+   * Check whether a change raises or removes a limit that is set
+   * @param chatId The chat ID
+   * @param kind The limit to change
+   * @param value The new limit, or null to remove it
+   */
+  public isIncrease(
+    chatId: number,
+    kind: LimitKind,
+    value: Amount | null
+  ): boolean {
+    const current = this.getRecord(chatId).limits[kind];
+    if (current === undefined) return false;
+    return value === null || compareAmounts(value, toAmount(current)) > 0;
+  }
+
+  /**
+   * Set or remove a limit
+   * @param chatId The chat ID
+   * @param kind The limit to change
+   * @param value The new limit, or null to remove it
+   * @returns When the change applies; now unless the limit was raised or
+   * removed
+   */
+  public setLimit(
+    chatId: number,
+    kind: LimitKind,
+    value: Amount | null
+  ): Date {
+    const record = this.getRecord(chatId);
+    const current = record.limits[kind];
+
+    const isLowered = value !== null && !this.isIncrease(chatId, kind, value);
+
+    if (isLowered) {
+      record.limits[kind] = amountToString(value);
+      delete record.pending[kind];
+      this.saveRecords();
+      return new Date();
+    }
+
+    // Removing a limit that isn't set changes nothing
+    if (value === null && current === undefined) {
+      delete record.pending[kind];
+      this.saveRecords();
+      return new Date();
+    }
+
+    const effectiveAt = new Date(Date.now() + LIMIT_INCREASE_DELAY_MS);
+    record.pending[kind] = {
+      value: value === null ? null : amountToString(value),
+      effectiveAt: effectiveAt.toISOString(),
+    };
+    this.saveRecords();
+    return effectiveAt;
+  }
+
+  /**
+   * Drop the raised limits that haven't applied yet
+   */
+  public cancelPending(chatId: number): void {
+    this.getRecord(chatId).pending = {};
+    this.saveRecords();
+  }
+
+  /**
+   * Check transfers against the limits of a chat
+   * @param chatId The chat ID
+   * @param transfers The transfers about to be made together
+   * @returns The first limit they would break, or undefined
+   */
+  public checkTransfers(
+    chatId: number,
+    transfers: SpendingTransfer[]
+  ): LimitViolation | undefined {
+    const { limits, recipients } = this.getRecord(chatId);
+    const counted = transfers.filter(
+      (transfer) => transfer.currency === LIMITS_CURRENCY
+    );
+
+    if (limits.perTransaction !== undefined) {
+      const limit = toAmount(limits.perTransaction);
+      const largest = counted.find(
+        (transfer) => compareAmounts(transfer.amount, limit) > 0
+      );
+      if (largest) {
+        return { kind: "perTransaction", limit, attempted: largest.amount };
+      }
+    }
+
+    const total = sumAmounts(counted.map((transfer) => transfer.amount));
+    const spent = this.getSpending(chatId);
+    for (const kind of ["daily", "weekly"] as const) {
+      const value = limits[kind];
+      if (value === undefined) continue;
+
+      const limit = toAmount(value);
+      const attempted = sumAmounts([spent[kind], total]);
+      if (compareAmounts(attempted, limit) > 0) {
+        const remaining = subtractAmounts(limit, spent[kind]);
+        return {
+          kind,
+          limit,
+          attempted,
+          remaining: isPositiveAmount(remaining) ? remaining : ZERO_AMOUNT,
+        };
+      }
+    }
+
+    if (limits.newRecipient !== undefined) {
+      const limit = toAmount(limits.newRecipient);
+      const perRecipient = new Map<string, Amount>();
+      counted
+        .filter((transfer) => !recipients.includes(transfer.recipient))
+        .forEach((transfer) =>
+          perRecipient.set(
+            transfer.recipient,
+            sumAmounts([
+              perRecipient.get(transfer.recipient) || ZERO_AMOUNT,
+              transfer.amount,
+            ])
+          )
+        );
+
+      for (const [recipient, attempted] of perRecipient.entries()) {
+        if (compareAmounts(attempted, limit) > 0) {
+          return { kind: "newRecipient", limit, attempted, recipient };
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Count completed transfers towards the limits
+   * Their recipients are no longer new.
+   */
+  public recordTransfers(chatId: number, transfers: SpendingTransfer[]): void {
+    if (transfers.length === 0) return;
+
+    const record = this.getRecord(chatId);
+    const at = new Date().toISOString();
+    transfers.forEach((transfer) => {
+      if (transfer.currency === LIMITS_CURRENCY) {
+        record.spending.push({ amount: amountToString(transfer.amount), at });
+      }
+      if (!record.recipients.includes(transfer.recipient)) {
+        record.recipients.push(transfer.recipient);
+      }
+    });
+    record.recipients = record.recipients.slice(-KNOWN_RECIPIENTS_MAX);
+    this.saveRecords();
+  }
+}
+
+// Export singleton instance
+export const LimitsService = new LimitsServiceImpl();
@@ -1,5 +1,76 @@
 import TelegramBot from "node-telegram-bot-api";
+import { config } from "../config";
 import { SessionService, ExtendedSession } from "./session.service";
+import { Middleware, UpdateContext } from "./dispatcher";
+import { commandRegistry } from "./command";
+import { PinService } from "./pin.service";
+import { TreasuryService } from "./treasury.service";
+import {
+  RATE_LIMIT_MAX_UPDATES,
+  RATE_LIMIT_WINDOW_MS,
+} from "../utils/constants";
+import { getModuleLogger } from "../utils/logger";
+import { metricsRegistry } from "../utils/metrics";
+import { Amount, sumAmounts, toAmount } from "../utils/money";
+
+// Create module logger
+const logger = getModuleLogger("middleware");
+
+// Handled commands and callbacks; updates without a handler are counted as
+// "unknown" so arbitrary input can't create new time series
+const commandsHandled = metricsRegistry.counter(
+  "copperx_bot_commands_total",
+  "Commands handled by command and outcome"
+);
+const callbacksHandled = metricsRegistry.counter(
+  "copperx_bot_callbacks_total",
+  "Callback queries handled by callback data prefix and outcome"
+);
+
+// Callbacks confirming a transfer; they need the PIN above the threshold
+const TRANSFER_CONFIRMATIONS = [
+  "transfer:confirm",
+  "batch:confirm",
+  "withdraw:confirm",
+  "schedule:confirm",
+];
+
+// Prefixes of other sensitive callbacks; they need the PIN when the chat is
+// locked for being idle
+const SENSITIVE_CALLBACK_PREFIXES = [
+  "payee:yes",
+  "payee:remove:",
+  "banks:save",
+  "banks:remove:",
+  "banks:default:",
+  "setdefault:wallet:",
+];
+
+// Prefixes of callbacks that change who can move money or how much; they
+// always need the PIN
+const PIN_CALLBACK_PREFIXES = [
+  "treasury:link:",
+  "treasury:role:",
+  "treasury:approvals:",
+  "limits:remove:",
+  "limits:raise:",
+  "switch:to:",
+];
+
+// Commands usable in any group chat
+const GROUP_COMMANDS = ["start", "help", "treasury"];
+
+// Commands members can use in a group treasury; their transfer
+// confirmations become requests for approval
+const TREASURY_MEMBER_COMMANDS = [
+  "menu",
+  "balance",
+  "wallets",
+  "history",
+  "transfer",
+  "email",
+  "wallet",
+];
 
 // TODO: Future migration will use the following import instead:
 // import { ExtendedSession, SessionActionType } from "../re-types/session";
@@ -10,17 +81,17 @@ import { SessionService, ExtendedSession } from "./session.service";
  * @param chatId The chat ID of the user
  * @param callback Function to execute if user is authenticated
  */
-export function requireAuth(
+export async function requireAuth(
   bot: TelegramBot,
   chatId: number,
-  callback: (session: ExtendedSession) => void
-): void {
+  callback: (session: ExtendedSession) => void | Promise<void>
+): Promise<void> {
   const session = SessionService.getSession(chatId);
   if (!session) {
     sendAuthRequiredMessage(bot, chatId);
     return;
   }
-  callback(session);
+  await callback(session);
 }
 
 /**
@@ -32,6 +103,22 @@ export function sendAuthRequiredMessage(
   bot: TelegramBot,
   chatId: number
 ): void {
+  // Offer a one-tap re-login when the session expired
+  if (SessionService.getSuspendedFlow(chatId)) {
+    bot.sendMessage(
+      chatId,
+      "🔒 Your session has expired.\nLog in again to continue where you left off.",
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "🔑 Log In Again", callback_data: "action:login" }],
+          ],
+        },
+      }
+    );
+    return;
+  }
+
   bot.sendMessage(
     chatId,
     "⚠️ You need to be logged in to perform this action.\nPlease use /login to authenticate.",
@@ -84,3 +171,377 @@ export function requireFlowState(
 
   callback(session);
 }
+
+/**
+ * Describe an update for log messages
+ */
+function describeUpdate(ctx: UpdateContext): string {
+  switch (ctx.kind) {
+    case "command":
+      return `command /${ctx.commandName}`;
+    case "callback":
+      return `callback ${ctx.query?.data}`;
+    default:
+      return `input for ${ctx.state?.currentAction ?? "no action"}`;
+  }
+}
+
+/**
+ * Pipeline middleware that reports errors thrown by later middleware and
+ * handlers to the user instead of letting them escape
+ */
+export const errorMiddleware: Middleware = async (ctx, next) => {
+  try {
+    await next();
+  } catch (error: any) {
+    logger.error(`Error handling ${describeUpdate(ctx)}:`, error);
+
+    if (ctx.query) {
+      await ctx.bot
+        .answerCallbackQuery(ctx.query.id, {
+          text: "An error occurred while processing your request.",
+          show_alert: true,
+        })
+        .catch(() => undefined);
+      return;
+    }
+
+    await ctx.bot
+      .sendMessage(
+        ctx.chatId,
+        "❌ An error occurred while processing your command. Please try again later."
+      )
+      .catch(() => undefined);
+  }
+};
+
+/**
+ * Pipeline middleware that logs each update, its handler and its duration
+ */
+export const loggingMiddleware: Middleware = async (ctx, next) => {
+  const startedAt = Date.now();
+  logger.info(
+    `Processing ${describeUpdate(ctx)} from user ${ctx.userId} in chat ${
+      ctx.chatId
+    }` + (ctx.handler ? ` with handler ${ctx.handler.name}` : "")
+  );
+
+  await next();
+
+  logger.debug(
+    `Finished ${describeUpdate(ctx)} in ${Date.now() - startedAt}ms`
+  );
+};
+
+/**
+ * Pipeline middleware that counts commands and callbacks by outcome
+ */
+export const metricsMiddleware: Middleware = async (ctx, next) => {
+  const record = (outcome: string): void => {
+    if (ctx.kind === "command") {
+      const command = ctx.handler ? ctx.commandName || "unknown" : "unknown";
+      commandsHandled.inc({ command, outcome });
+    } else if (ctx.kind === "callback") {
+      const prefix = ctx.handler
+        ? (ctx.query?.data || "").split(":")[0]
+        : "unknown";
+      callbacksHandled.inc({ prefix, outcome });
+    }
+  };
+
+  try {
+    await next();
+    record("ok");
+  } catch (error) {
+    record("error");
+    throw error;
+  }
+};
+
+/**
+ * Create a pipeline middleware that limits the number of updates per chat
+ * Updates above the limit are dropped; the user is told once per window.
+ * @param maxUpdates Maximum number of updates per chat and window
+ * @param windowMs Length of the window in milliseconds
+ */
+export function createRateLimitMiddleware(
+  maxUpdates: number = RATE_LIMIT_MAX_UPDATES,
+  windowMs: number = RATE_LIMIT_WINDOW_MS
+): Middleware {
+  const windows = new Map<
+    number,
+    { startedAt: number; count: number; warned: boolean }
+  >();
+
+  return async (ctx, next) => {
+    const now = Date.now();
+
+    // Drop finished windows so the map doesn't grow with every chat
+    if (windows.size > 1000) {
+      for (const [chatId, window] of windows.entries()) {
+        if (now - window.startedAt >= windowMs) windows.delete(chatId);
+      }
+    }
+
+    let window = windows.get(ctx.chatId);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0, warned: false };
+      windows.set(ctx.chatId, window);
+    }
+
+    window.count++;
+    if (window.count <= maxUpdates) {
+      await next();
+      return;
+    }
+
+    logger.warn(`Rate limit exceeded for chat ${ctx.chatId}`);
+
+    if (ctx.query) {
+      await ctx.bot
+        .answerCallbackQuery(ctx.query.id, {
+          text: "You're going too fast. Please wait a moment.",
+        })
+        .catch(() => undefined);
+    } else if (!window.warned) {
+      await ctx.bot
+        .sendMessage(
+          ctx.chatId,
+          "⏳ You're sending messages too quickly. Please wait a few seconds and try again."
+        )
+        .catch(() => undefined);
+    }
+    window.warned = true;
+  };
+}
+
+/**
+ * Check whether a Telegram user is an operator listed in ADMIN_TELEGRAM_IDS
+ * @param userId The Telegram user ID
+ */
+export function isAdmin(userId: number | undefined): boolean {
+  return userId !== undefined && config.admin.telegramIds.includes(userId);
+}
+
+/**
+ * Pipeline middleware that stops updates for admin commands from users who
+ * aren't operators
+ * Nothing is sent back, so the commands stay invisible to other users.
+ */
+export const adminMiddleware: Middleware = async (ctx, next) => {
+  if (!ctx.handler?.requiresAdmin || isAdmin(ctx.userId)) {
+    await next();
+    return;
+  }
+
+  logger.warn(
+    `Rejected ${describeUpdate(ctx)} from non-admin user ${ctx.userId}`
+  );
+  if (ctx.query) {
+    await ctx.bot.answerCallbackQuery(ctx.query.id).catch(() => undefined);
+  }
+};
+
+/**
+ * Pipeline middleware that stops updates for commands that require a
+ * logged-in user when the chat has no session
+ */
+export const authMiddleware: Middleware = async (ctx, next) => {
+  if (!ctx.handler?.requiresAuth || SessionService.getSession(ctx.chatId)) {
+    await next();
+    return;
+  }
+
+  if (ctx.query) {
+    await ctx.bot.answerCallbackQuery(ctx.query.id).catch(() => undefined);
+  }
+  sendAuthRequiredMessage(ctx.bot, ctx.chatId);
+};
+
+/**
+ * Check whether a chat is a group or supergroup
+ */
+export function isGroupChat(chat: TelegramBot.Chat | undefined): boolean {
+  return chat?.type === "group" || chat?.type === "supergroup";
+}
+
+/**
+ * Stop an update in a group chat, telling the sender why
+ * Plain messages are dropped silently since they may be group conversation.
+ */
+async function rejectGroupUpdate(
+  ctx: UpdateContext,
+  text: string
+): Promise<void> {
+  if (ctx.kind === "message") return;
+
+  logger.info(
+    `Rejected ${describeUpdate(ctx)} from user ${ctx.userId} in group ${
+      ctx.chatId
+    }`
+  );
+
+  if (ctx.query) {
+    await ctx.bot
+      .answerCallbackQuery(ctx.query.id, { text, show_alert: true })
+      .catch(() => undefined);
+  } else {
+    await ctx.bot
+      .sendMessage(ctx.chatId, `⚠️ ${text}`, {
+        reply_to_message_id: ctx.message?.message_id,
+      })
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Pipeline middleware that ties group chat updates to treasury members
+ * Sessions are kept per chat, so in a group only treasury members may use
+ * the bot, only the member who started a flow may continue it, and transfer
+ * confirmations are routed to the treasury command to collect approvals.
+ */
+export const treasuryMiddleware: Middleware = async (ctx, next) => {
+  const chat = ctx.message?.chat ?? ctx.query?.message?.chat;
+  if (!isGroupChat(chat)) {
+    await next();
+    return;
+  }
+
+  const { chatId, userId } = ctx;
+  const name = ctx.handler?.name;
+  if (ctx.kind !== "message" && name && GROUP_COMMANDS.includes(name)) {
+    await next();
+    return;
+  }
+
+  const treasury = TreasuryService.getTreasury(chatId);
+  if (!treasury) {
+    await rejectGroupUpdate(
+      ctx,
+      "In groups I only work as a group treasury. Send /treasury to set one up."
+    );
+    return;
+  }
+  if (userId === undefined || !TreasuryService.getMember(treasury, userId)) {
+    await rejectGroupUpdate(
+      ctx,
+      "Only treasury members can use me in this group."
+    );
+    return;
+  }
+
+  if (!name || !TREASURY_MEMBER_COMMANDS.includes(name)) {
+    await rejectGroupUpdate(ctx, "This isn't available in a group treasury.");
+    return;
+  }
+
+  // Commands start a new flow; anything else continues the current one
+  const flowUserId = TreasuryService.getFlowUser(chatId);
+  if (
+    ctx.kind !== "command" &&
+    ctx.state?.currentAction &&
+    flowUserId !== undefined &&
+    flowUserId !== userId
+  ) {
+    await rejectGroupUpdate(
+      ctx,
+      "Another member is using this. Send a command to start your own."
+    );
+    return;
+  }
+  TreasuryService.setFlowUser(chatId, userId);
+
+  if (ctx.query?.data === "transfer:confirm") {
+    ctx.handler = commandRegistry.getCommand("treasury");
+  }
+
+  await next();
+};
+
+/**
+ * Get the amount a transfer confirmation moves, from the flow's state
+ * Batch transfers move the sum of all recipients.
+ */
+function getConfirmedAmount(ctx: UpdateContext): Amount | undefined {
+  const recipients = ctx.state?.data?.recipients;
+  if (Array.isArray(recipients)) {
+    return sumAmounts(
+      recipients.map((recipient: { amount: string }) =>
+        toAmount(recipient.amount)
+      )
+    );
+  }
+
+  const amount = ctx.state?.data?.amount;
+  return amount !== undefined ? toAmount(amount) : undefined;
+}
+
+/**
+ * Pipeline middleware that asks for the transaction PIN before sensitive
+ * actions of chats that set one
+ * The confirming callback is held back and offered again once the PIN is
+ * entered; while a PIN is awaited, text input goes to the PIN command.
+ */
+export const pinMiddleware: Middleware = async (ctx, next) => {
+  const { bot, chatId } = ctx;
+  if (!PinService.hasPin(chatId)) {
+    await next();
+    return;
+  }
+
+  PinService.recordActivity(chatId);
+
+  if (PinService.getChallenge(chatId)) {
+    if (ctx.kind === "message") {
+      ctx.handler = commandRegistry.findActionHandler("pin");
+    } else if (ctx.kind === "command") {
+      PinService.clearChallenge(chatId);
+    }
+  }
+
+  const data = ctx.query?.data;
+  const isTransfer = !!data && TRANSFER_CONFIRMATIONS.includes(data);
+  const isPinAlways =
+    !!data && PIN_CALLBACK_PREFIXES.some((prefix) => data.startsWith(prefix));
+  const isSensitive =
+    isTransfer ||
+    isPinAlways ||
+    (!!data &&
+      SENSITIVE_CALLBACK_PREFIXES.some((prefix) => data.startsWith(prefix)));
+
+  if (
+    !ctx.query ||
+    !data ||
+    !isSensitive ||
+    PinService.consumeGrant(chatId, data) ||
+    (!isPinAlways &&
+      !PinService.isPinRequired(
+        chatId,
+        isTransfer ? getConfirmedAmount(ctx) : undefined
+      ))
+  ) {
+    await next();
+    return;
+  }
+
+  logger.info(`PIN required for callback ${data} in chat ${chatId}`);
+  await bot.answerCallbackQuery(ctx.query.id).catch(() => undefined);
+
+  PinService.startChallenge(chatId, data);
+  await bot.sendMessage(
+    chatId,
+    `🔐 *PIN Required*\n\n${
+      PinService.isLocked(chatId)
+        ? "You've been inactive for a while."
+        : isPinAlways
+        ? "This change needs your PIN."
+        : "This transfer is above your PIN threshold."
+    }\nPlease enter your PIN to continue:`,
+    {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: [[{ text: "❌ Cancel", callback_data: "pin:cancel" }]],
+      },
+    }
+  );
+};
@@ -0,0 +1,123 @@
+import {
+  OTP_LOCKOUT_MS,
+  OTP_MAX_FAILED_ATTEMPTS,
+  OTP_MAX_REQUESTS_PER_EMAIL,
+  OTP_REQUEST_WINDOW_MS,
+} from "../utils/constants";
+import { getModuleLogger } from "../utils/logger";
+
+// Create module logger
+const logger = getModuleLogger("otp-limiter");
+
+/**
+ * Wrong codes entered by a chat
+ */
+interface FailedAttempts {
+  count: number;
+  lockedUntil?: number; // Timestamp until which the chat can't log in
+}
+
+/**
+ * Limits how often OTPs can be requested and guessed
+ * Codes are capped per email address, so switching chats doesn't help;
+ * wrong codes are counted per chat, which is locked out for OTP_LOCKOUT_MS
+ * after OTP_MAX_FAILED_ATTEMPTS.
+ */
+class OtpLimiterImpl {
+  private requests = new Map<string, number[]>();
+  private failures = new Map<number, FailedAttempts>();
+
+  /**
+   * Get the request timestamps of an email that are still in the window
+   */
+  private getRecentRequests(email: string): number[] {
+    const key = email.toLowerCase();
+    const now = Date.now();
+    const recent = (this.requests.get(key) || []).filter(
+      (requestedAt) => now - requestedAt < OTP_REQUEST_WINDOW_MS
+    );
+
+    if (recent.length > 0) {
+      this.requests.set(key, recent);
+    } else {
+      this.requests.delete(key);
+    }
+    return recent;
+  }
+
+  /**
+   * Get how long to wait before another code can be requested for an email
+   * @returns The wait time in milliseconds, 0 if a code can be requested now
+   */
+  public getRequestRetryDelay(email: string): number {
+    const recent = this.getRecentRequests(email);
+    if (recent.length < OTP_MAX_REQUESTS_PER_EMAIL) return 0;
+
+    // A request is possible again once the oldest counted one leaves the window
+    const oldest = recent[recent.length - OTP_MAX_REQUESTS_PER_EMAIL];
+    return oldest + OTP_REQUEST_WINDOW_MS - Date.now();
+  }
+
+  /**
+   * Record that a code was sent to an email
+   */
+  public recordRequest(email: string): void {
+    const recent = this.getRecentRequests(email);
+    recent.push(Date.now());
+    this.requests.set(email.toLowerCase(), recent);
+
+    // Drop emails without recent requests so the map doesn't keep growing
+    if (this.requests.size > 1000) {
+      Array.from(this.requests.keys()).forEach((key) =>
+        this.getRecentRequests(key)
+      );
+    }
+  }
+
+  /**
+   * Get how long a chat is still locked out
+   * @returns The remaining lockout in milliseconds, 0 if it isn't locked out
+   */
+  public getLockoutRemaining(chatId: number): number {
+    const lockedUntil = this.failures.get(chatId)?.lockedUntil;
+    if (!lockedUntil) return 0;
+
+    const remaining = lockedUntil - Date.now();
+    if (remaining <= 0) {
+      this.failures.delete(chatId);
+      return 0;
+    }
+    return remaining;
+  }
+
+  /**
+   * Record a wrong code, locking the chat out after too many
+   * @returns The number of attempts left, 0 if the chat is now locked out
+   */
+  public recordFailure(chatId: number): number {
+    const attempts = this.failures.get(chatId) || { count: 0 };
+    attempts.count++;
+
+    if (attempts.count >= OTP_MAX_FAILED_ATTEMPTS) {
+      this.failures.set(chatId, {
+        count: 0,
+        lockedUntil: Date.now() + OTP_LOCKOUT_MS,
+      });
+      logger.warn(`Chat ${chatId} locked out after too many wrong codes`);
+      return 0;
+    }
+
+    this.failures.set(chatId, attempts);
+    return OTP_MAX_FAILED_ATTEMPTS - attempts.count;
+  }
+
+  /**
+   * Forget the wrong codes of a chat after a successful login
+   */
+  public clearFailures(chatId: number): void {
+    this.failures.delete(chatId);
+  }
+}
+
+// Export singleton instance
+export const OtpLimiter = new OtpLimiterImpl();
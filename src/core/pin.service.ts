@@ -0,0 +1,327 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { sessionEvents } from "./session.service";
+import { encryptData, decryptData } from "../utils/encryption";
+import {
+  PIN_CHALLENGE_TTL_MS,
+  PIN_FILE_PATH,
+  PIN_GRANT_TTL_MS,
+  PIN_HASH_ITERATIONS,
+  PIN_MAX_FAILED_ATTEMPTS,
+  PIN_MAX_LENGTH,
+  PIN_MIN_LENGTH,
+} from "../utils/constants";
+import { getModuleLogger } from "../utils/logger";
+import { Amount, compareAmounts, toAmount } from "../utils/money";
+
+// Create module logger
+const logger = getModuleLogger("pin-service");
+
+/**
+ * Stored PIN of a chat; the PIN itself is never stored
+ */
+interface PinRecord {
+  salt: string; // Hex encoded
+  hash: string; // Hex encoded PBKDF2 hash of the PIN
+  failedAttempts: number; // Wrong PINs since the last correct one
+  updatedAt: string; // ISO date string
+}
+
+/**
+ * Sensitive action waiting for the PIN
+ */
+export interface PinChallenge {
+  callbackData: string; // The callback that confirms the action
+  expiresAt: number;
+}
+
+/**
+ * Result of checking a PIN
+ */
+export type PinCheckResult =
+  | { ok: true }
+  | { ok: false; attemptsLeft: number }; // 0 when the session must be locked
+
+/**
+ * Stores transaction PINs and decides when sensitive actions need one
+ * A chat with a PIN is locked after PIN_IDLE_TIMEOUT_MINUTES without
+ * activity and after a restart, until the PIN is entered or the user logs in
+ * again. Activity is only tracked in memory.
+ */
+class PinServiceImpl {
+  private pins = new Map<number, PinRecord>();
+  private lastActivity = new Map<number, number>();
+  private locked = new Set<number>();
+  private challenges = new Map<number, PinChallenge>();
+  private grants = new Map<number, PinChallenge>();
+
+  constructor() {
+    this.loadPins();
+
+    // Logging in with an emailed code is stronger than the PIN
+    sessionEvents.on("session:created", (chatId: number) =>
+      this.unlock(chatId)
+    );
+    // A PIN entered for one account doesn't confirm actions of another
+    ["session:deleted", "session:switched"].forEach((event) =>
+      sessionEvents.on(event, (chatId: number) => this.clearChallenge(chatId))
+    );
+  }
+
+  /**
+   * Load PINs from file
+   */
+  private loadPins(): void {
+    try {
+      if (!fs.existsSync(PIN_FILE_PATH)) return;
+
+      const encrypted = fs.readFileSync(PIN_FILE_PATH, "utf8");
+      const loaded = JSON.parse(
+        decryptData(encrypted, config.session.encryptionKey)
+      ) as Record<string, PinRecord>;
+
+      Object.entries(loaded).forEach(([chatId, record]) =>
+        this.pins.set(Number(chatId), record)
+      );
+      logger.info(`Loaded ${this.pins.size} PINs from file`);
+    } catch (error) {
+      logger.error("Failed to load PINs:", error as Error);
+    }
+  }
+
+  /**
+   * Save PINs to file
+   * Writes to a temporary file first so a crash never leaves a partial file.
+   */
+  private savePins(): void {
+    try {
+      fs.mkdirSync(path.dirname(PIN_FILE_PATH), { recursive: true });
+
+      const stored: Record<string, PinRecord> = {};
+      this.pins.forEach((record, chatId) => (stored[chatId] = record));
+
+      const encrypted = encryptData(
+        JSON.stringify(stored),
+        config.session.encryptionKey
+      );
+      const tmpPath = `${PIN_FILE_PATH}.tmp`;
+      fs.writeFileSync(tmpPath, encrypted);
+      fs.renameSync(tmpPath, PIN_FILE_PATH);
+    } catch (error) {
+      logger.error("Failed to save PINs:", error as Error);
+    }
+  }
+
+  /**
+   * Hash a PIN with a salt
+   * @param pin The PIN
+   * @param salt Hex encoded salt; a new random salt by default
+   */
+  public hashPin(
+    pin: string,
+    salt: string = crypto.randomBytes(16).toString("hex")
+  ): { salt: string; hash: string } {
+    const hash = crypto
+      .pbkdf2Sync(
+        pin,
+        Buffer.from(salt, "hex"),
+        PIN_HASH_ITERATIONS,
+        32,
+        "sha256"
+      )
+      .toString("hex");
+    return { salt, hash };
+  }
+
+  /**
+   * Check a PIN against a salted hash in constant time
+   */
+  public matchesHash(pin: string, salt: string, hash: string): boolean {
+    const expected = Buffer.from(hash, "hex");
+    const received = Buffer.from(this.hashPin(pin, salt).hash, "hex");
+    return (
+      expected.length === received.length &&
+      crypto.timingSafeEqual(expected, received)
+    );
+  }
+
+  /**
+   * Check whether a string can be used as a PIN
+   */
+  public isValidPin(pin: string): boolean {
+    return new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+  }
+
+  /**
+   * Check whether a chat has set a PIN
+   */
+  public hasPin(chatId: number): boolean {
+    return this.pins.has(chatId);
+  }
+
+  /**
+   * Set or change the PIN of a chat
+   * @param chatId The chat ID
+   * @param salted The salted hash of the new PIN, see hashPin
+   */
+  public setPin(chatId: number, salted: { salt: string; hash: string }): void {
+    this.pins.set(chatId, {
+      ...salted,
+      failedAttempts: 0,
+      updatedAt: new Date().toISOString(),
+    });
+    this.savePins();
+    this.unlock(chatId);
+    logger.info(`PIN set for chat ${chatId}`);
+  }
+
+  /**
+   * Remove the PIN of a chat
+   */
+  public removePin(chatId: number): void {
+    if (!this.pins.delete(chatId)) return;
+    this.savePins();
+    this.locked.delete(chatId);
+    this.challenges.delete(chatId);
+    this.grants.delete(chatId);
+    logger.info(`PIN removed for chat ${chatId}`);
+  }
+
+  /**
+   * Check a PIN entered by a chat
+   * Wrong PINs are counted across restarts; a correct PIN unlocks the chat.
+   * @returns Whether the PIN is correct, and the attempts left if not
+   */
+  public verifyPin(chatId: number, pin: string): PinCheckResult {
+    const record = this.pins.get(chatId);
+    if (!record) return { ok: true };
+
+    if (this.matchesHash(pin, record.salt, record.hash)) {
+      if (record.failedAttempts > 0) {
+        record.failedAttempts = 0;
+        this.savePins();
+      }
+      this.unlock(chatId);
+      return { ok: true };
+    }
+
+    record.failedAttempts++;
+    const attemptsLeft = Math.max(
+      PIN_MAX_FAILED_ATTEMPTS - record.failedAttempts,
+      0
+    );
+    if (attemptsLeft === 0) {
+      // The session is locked instead; logging in again starts over
+      record.failedAttempts = 0;
+      this.challenges.delete(chatId);
+      logger.warn(`Chat ${chatId} entered too many wrong PINs`);
+    }
+    this.savePins();
+    return { ok: false, attemptsLeft };
+  }
+
+  /**
+   * Record activity of a chat, locking it first if it was idle too long
+   * Call for every update before deciding whether the PIN is needed.
+   */
+  public recordActivity(chatId: number): void {
+    if (!this.hasPin(chatId)) return;
+
+    const now = Date.now();
+    const last = this.lastActivity.get(chatId);
+    if (last === undefined || now - last > config.security.pinIdleTimeout) {
+      this.locked.add(chatId);
+    }
+    this.lastActivity.set(chatId, now);
+  }
+
+  /**
+   * Unlock a chat after the PIN was entered or the user logged in
+   */
+  private unlock(chatId: number): void {
+    this.locked.delete(chatId);
+    this.lastActivity.set(chatId, Date.now());
+  }
+
+  /**
+   * Check whether a chat was locked for being idle
+   */
+  public isLocked(chatId: number): boolean {
+    return this.hasPin(chatId) && this.locked.has(chatId);
+  }
+
+  /**
+   * Check whether an action needs the PIN
+   * @param chatId The chat ID
+   * @param amount The amount moved by the action, if it moves money
+   */
+  public isPinRequired(chatId: number, amount?: Amount): boolean {
+    if (!this.hasPin(chatId)) return false;
+    if (this.isLocked(chatId)) return true;
+
+    return (
+      amount !== undefined &&
+      compareAmounts(amount, toAmount(config.security.pinAmountThreshold)) > 0
+    );
+  }
+
+  /**
+   * Wait for the PIN before a sensitive action
+   * @param chatId The chat ID
+   * @param callbackData The callback that confirms the action
+   */
+  public startChallenge(chatId: number, callbackData: string): void {
+    this.challenges.set(chatId, {
+      callbackData,
+      expiresAt: Date.now() + PIN_CHALLENGE_TTL_MS,
+    });
+  }
+
+  /**
+   * Get the action waiting for the PIN, if it hasn't expired
+   */
+  public getChallenge(chatId: number): PinChallenge | undefined {
+    const challenge = this.challenges.get(chatId);
+    if (challenge && challenge.expiresAt <= Date.now()) {
+      this.challenges.delete(chatId);
+      return undefined;
+    }
+    return challenge;
+  }
+
+  /**
+   * Stop waiting for the PIN
+   */
+  public clearChallenge(chatId: number): void {
+    this.challenges.delete(chatId);
+    this.grants.delete(chatId);
+  }
+
+  /**
+   * Allow the action of a challenge once, after the PIN was entered
+   */
+  public grant(chatId: number, callbackData: string): void {
+    this.challenges.delete(chatId);
+    this.grants.set(chatId, {
+      callbackData,
+      expiresAt: Date.now() + PIN_GRANT_TTL_MS,
+    });
+  }
+
+  /**
+   * Use up the grant for an action
+   * @returns Whether the action was allowed by an unexpired grant
+   */
+  public consumeGrant(chatId: number, callbackData: string): boolean {
+    const grant = this.grants.get(chatId);
+    if (!grant || grant.callbackData !== callbackData) return false;
+
+    this.grants.delete(chatId);
+    return grant.expiresAt > Date.now();
+  }
+}
+
+// Export singleton instance
+export const PinService = new PinServiceImpl();
@@ -0,0 +1,146 @@
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import type { SessionState } from "./session.service";
+import { encryptData, decryptData } from "../utils/encryption";
+import {
+  PRE_AUTH_STATES_FILE_PATH,
+  PRE_AUTH_STATE_TTL_MS,
+} from "../utils/constants";
+import { getModuleLogger } from "../utils/logger";
+
+// Create module logger
+const logger = getModuleLogger("pre-auth-state");
+
+/**
+ * State of a chat that has no session yet
+ */
+interface PreAuthState {
+  state: SessionState;
+  updatedAt: string; // ISO date string
+}
+
+/**
+ * Stores the flow state of chats without a session, such as the login flow
+ * SessionService reads and writes it through getSessionState and
+ * updateSessionState, so commands don't need to know whether the chat is
+ * logged in. States are dropped after PRE_AUTH_STATE_TTL_MS without updates
+ * and are stored encrypted on disk so a login survives restarts.
+ */
+class PreAuthStateServiceImpl {
+  private states = new Map<number, PreAuthState>();
+
+  constructor() {
+    this.loadStates();
+  }
+
+  /**
+   * Load pre-auth states from file, skipping expired ones
+   */
+  private loadStates(): void {
+    try {
+      if (!fs.existsSync(PRE_AUTH_STATES_FILE_PATH)) return;
+
+      const encrypted = fs.readFileSync(PRE_AUTH_STATES_FILE_PATH, "utf8");
+      const loaded = JSON.parse(
+        decryptData(encrypted, config.session.encryptionKey)
+      ) as Record<string, PreAuthState>;
+
+      Object.entries(loaded).forEach(([chatIdStr, entry]) => {
+        if (!this.isExpired(entry)) this.states.set(Number(chatIdStr), entry);
+      });
+      logger.info(`Loaded ${this.states.size} pre-auth states from file`);
+    } catch (error) {
+      logger.error("Failed to load pre-auth states:", error as Error);
+    }
+  }
+
+  /**
+   * Save pre-auth states to file
+   * Writes to a temporary file first so a crash never leaves a partial file.
+   */
+  private saveStates(): void {
+    try {
+      fs.mkdirSync(path.dirname(PRE_AUTH_STATES_FILE_PATH), {
+        recursive: true,
+      });
+
+      const encrypted = encryptData(
+        JSON.stringify(Object.fromEntries(this.states)),
+        config.session.encryptionKey
+      );
+      const tmpPath = `${PRE_AUTH_STATES_FILE_PATH}.tmp`;
+      fs.writeFileSync(tmpPath, encrypted);
+      fs.renameSync(tmpPath, PRE_AUTH_STATES_FILE_PATH);
+    } catch (error) {
+      logger.error("Failed to save pre-auth states:", error as Error);
+    }
+  }
+
+  /**
+   * Check whether a state went too long without updates
+   */
+  private isExpired(entry: PreAuthState): boolean {
+    return (
+      Date.now() - new Date(entry.updatedAt).getTime() > PRE_AUTH_STATE_TTL_MS
+    );
+  }
+
+  /**
+   * Get the state of a chat
+   * @returns The state or undefined if there is none or it expired
+   */
+  public getState(chatId: number): SessionState | undefined {
+    const entry = this.states.get(chatId);
+    if (!entry) return undefined;
+
+    if (this.isExpired(entry)) {
+      this.deleteState(chatId);
+      return undefined;
+    }
+
+    return entry.state;
+  }
+
+  /**
+   * Set the state of a chat
+   * States without a current action are removed instead of stored.
+   */
+  public setState(chatId: number, state: SessionState): void {
+    if (!state.currentAction) {
+      this.deleteState(chatId);
+      return;
+    }
+
+    this.states.set(chatId, { state, updatedAt: new Date().toISOString() });
+    this.saveStates();
+  }
+
+  /**
+   * Remove the state of a chat
+   */
+  public deleteState(chatId: number): void {
+    if (this.states.delete(chatId)) this.saveStates();
+  }
+
+  /**
+   * Remove all expired states
+   */
+  public pruneExpired(): void {
+    let removed = 0;
+    this.states.forEach((entry, chatId) => {
+      if (this.isExpired(entry)) {
+        this.states.delete(chatId);
+        removed++;
+      }
+    });
+
+    if (removed > 0) {
+      logger.info(`Removed ${removed} expired pre-auth states`);
+      this.saveStates();
+    }
+  }
+}
+
+// Export singleton instance
+export const PreAuthStateService = new PreAuthStateServiceImpl();
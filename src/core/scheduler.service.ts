@@ -0,0 +1,599 @@
+import TelegramBot from "node-telegram-bot-api";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { config } from "../config";
+import { SessionService } from "./session.service";
+import { AuditLogService } from "./audit-log.service";
+import {
+  describeLimitViolation,
+  getRecipientKey,
+  LimitsService,
+} from "./limits.service";
+import { TransferTrackerService } from "./transfer-tracker.service";
+import * as transferService from "../services/transfer.service";
+import {
+  Recurrence,
+  ScheduledTransfer,
+  ScheduledTransferAccount,
+  ScheduledTransferTemplate,
+  ScheduleRunLogEntry,
+} from "../types";
+import { getNextRun, formatUTCDateTime } from "../utils/recurrence";
+import { encryptData, decryptData } from "../utils/encryption";
+import { processApiError } from "../utils/error-handler";
+import {
+  escapeMarkdown,
+  formatAccountLabel,
+  formatAddress,
+  formatCurrency,
+  formatScheduleSummary,
+} from "../utils/format";
+import { createScheduleActionsKeyboard } from "../utils/keyboard";
+import {
+  SCHEDULE_FILE_PATH,
+  SCHEDULER_TICK_MS,
+  SCHEDULE_REMINDER_MS,
+  SCHEDULE_RUN_LOG_LIMIT,
+} from "../utils/constants";
+import { getModuleLogger } from "../utils/logger";
+import { toAmount } from "../utils/money";
+
+// Create module logger
+const logger = getModuleLogger("scheduler-service");
+
+/**
+ * Persistent scheduler for recurring transfers
+ * Schedules are stored encrypted on disk and checked every SCHEDULER_TICK_MS
+ * by the bot process. Each schedule runs with the session of the account it
+ * was created for, whether or not that account is the active one.
+ */
+class SchedulerServiceImpl {
+  private schedules = new Map<string, ScheduledTransfer>();
+  private bot?: TelegramBot;
+  private timer: NodeJS.Timeout | null = null;
+  private running = new Set<string>();
+
+  constructor() {
+    this.loadSchedules();
+  }
+
+  /**
+   * Load schedules from file
+   */
+  private loadSchedules(): void {
+    try {
+      if (!fs.existsSync(SCHEDULE_FILE_PATH)) {
+        logger.info("No schedule file found, starting with no schedules");
+        return;
+      }
+
+      const encrypted = fs.readFileSync(SCHEDULE_FILE_PATH, "utf8");
+      const loaded = JSON.parse(
+        decryptData(encrypted, config.session.encryptionKey)
+      ) as ScheduledTransfer[];
+
+      loaded.forEach((schedule) => this.schedules.set(schedule.id, schedule));
+      logger.info(`Loaded ${this.schedules.size} schedules from file`);
+      this.failInterruptedRuns();
+    } catch (error) {
+      logger.error("Failed to load schedules:", error as Error);
+    }
+  }
+
+  /**
+   * Fail runs a restart interrupted while they were being sent
+   * Whether the transfer went out is unknown, so the run is never repeated.
+   */
+  private failInterruptedRuns(): void {
+    this.schedules.forEach((schedule) => {
+      if (!schedule.sendingFor) return;
+
+      logger.warn(
+        `Run ${schedule.sendingFor} of schedule ${schedule.id} was interrupted`
+      );
+      this.finishRun(schedule, schedule.sendingFor, {
+        scheduledFor: schedule.sendingFor,
+        executedAt: new Date().toISOString(),
+        outcome: "failed",
+        message:
+          "The bot restarted while sending this transfer. Check your transfer history to see whether it was sent.",
+      });
+    });
+  }
+
+  /**
+   * Save schedules to file
+   * Writes to a temporary file first so a crash never leaves a partial file.
+   */
+  private saveSchedules(): void {
+    try {
+      fs.mkdirSync(path.dirname(SCHEDULE_FILE_PATH), { recursive: true });
+
+      const encrypted = encryptData(
+        JSON.stringify(Array.from(this.schedules.values())),
+        config.session.encryptionKey
+      );
+      const tmpPath = `${SCHEDULE_FILE_PATH}.tmp`;
+      fs.writeFileSync(tmpPath, encrypted);
+      fs.renameSync(tmpPath, SCHEDULE_FILE_PATH);
+    } catch (error) {
+      logger.error("Failed to save schedules:", error as Error);
+    }
+  }
+
+  /**
+   * Start checking for due schedules
+   * @param bot The Telegram bot instance used for reminders and results
+   */
+  public start(bot: TelegramBot): void {
+    this.bot = bot;
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        logger.error("Scheduler tick failed:", error);
+      });
+    }, SCHEDULER_TICK_MS);
+
+    logger.info(
+      `Scheduler started with ${this.getActiveSchedules().length} active schedules`
+    );
+  }
+
+  /**
+   * Stop checking for due schedules
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Create a new schedule
+   * @param chatId The owner's chat ID
+   * @param template The transfer to execute on every run
+   * @param recurrence The recurrence rule
+   * @param startAt The first run (anchor for later runs)
+   * @param account The account the transfers are sent from
+   * @returns The created schedule
+   */
+  public createSchedule(
+    chatId: number,
+    template: ScheduledTransferTemplate,
+    recurrence: Recurrence,
+    startAt: Date,
+    account?: ScheduledTransferAccount
+  ): ScheduledTransfer {
+    const now = new Date();
+    const nextRun = getNextRun(recurrence, startAt, now);
+    if (!nextRun) {
+      throw new Error("This schedule has no upcoming runs");
+    }
+
+    const schedule: ScheduledTransfer = {
+      id: crypto.randomBytes(4).toString("hex"),
+      chatId,
+      account,
+      template,
+      recurrence,
+      startAt: startAt.toISOString(),
+      nextRunAt: nextRun.toISOString(),
+      status: "active",
+      skipNext: false,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      runs: [],
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    this.saveSchedules();
+
+    logger.info(`Created schedule ${schedule.id} for chat ${chatId}`);
+    return schedule;
+  }
+
+  /**
+   * Get the schedules of a chat that haven't been cancelled
+   */
+  public getSchedulesForChat(chatId: number): ScheduledTransfer[] {
+    return Array.from(this.schedules.values())
+      .filter(
+        (schedule) =>
+          schedule.chatId === chatId && schedule.status !== "cancelled"
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Get a schedule owned by a chat
+   */
+  public getSchedule(
+    chatId: number,
+    scheduleId: string
+  ): ScheduledTransfer | undefined {
+    const schedule = this.schedules.get(scheduleId);
+    return schedule && schedule.chatId === chatId ? schedule : undefined;
+  }
+
+  /**
+   * Skip the next run of a schedule
+   */
+  public skipNextRun(
+    chatId: number,
+    scheduleId: string
+  ): ScheduledTransfer | undefined {
+    const schedule = this.getSchedule(chatId, scheduleId);
+    if (!schedule || schedule.status !== "active") return undefined;
+
+    return this.updateSchedule(schedule, { skipNext: true });
+  }
+
+  /**
+   * Pause a schedule until it is resumed
+   */
+  public pauseSchedule(
+    chatId: number,
+    scheduleId: string
+  ): ScheduledTransfer | undefined {
+    const schedule = this.getSchedule(chatId, scheduleId);
+    if (!schedule || schedule.status !== "active") return undefined;
+
+    return this.updateSchedule(schedule, { status: "paused" });
+  }
+
+  /**
+   * Resume a paused schedule from the next upcoming run
+   * Runs missed while paused are not executed.
+   */
+  public resumeSchedule(
+    chatId: number,
+    scheduleId: string
+  ): ScheduledTransfer | undefined {
+    const schedule = this.getSchedule(chatId, scheduleId);
+    if (!schedule || schedule.status !== "paused") return undefined;
+
+    const nextRun = getNextRun(
+      schedule.recurrence,
+      new Date(schedule.startAt),
+      new Date()
+    );
+
+    return this.updateSchedule(
+      schedule,
+      nextRun
+        ? {
+            status: "active",
+            nextRunAt: nextRun.toISOString(),
+            skipNext: false,
+            reminderSentFor: undefined,
+          }
+        : { status: "completed", nextRunAt: undefined }
+    );
+  }
+
+  /**
+   * Cancel a schedule permanently
+   */
+  public cancelSchedule(
+    chatId: number,
+    scheduleId: string
+  ): ScheduledTransfer | undefined {
+    const schedule = this.getSchedule(chatId, scheduleId);
+    if (!schedule || schedule.status === "cancelled") return undefined;
+
+    return this.updateSchedule(schedule, {
+      status: "cancelled",
+      nextRunAt: undefined,
+    });
+  }
+
+  /**
+   * Apply changes to a schedule and persist them
+   */
+  private updateSchedule(
+    schedule: ScheduledTransfer,
+    changes: Partial<ScheduledTransfer>
+  ): ScheduledTransfer {
+    Object.assign(schedule, changes, { updatedAt: new Date().toISOString() });
+    this.saveSchedules();
+    return schedule;
+  }
+
+  /**
+   * Get all schedules that are waiting for their next run
+   */
+  private getActiveSchedules(): ScheduledTransfer[] {
+    return Array.from(this.schedules.values()).filter(
+      (schedule) => schedule.status === "active" && schedule.nextRunAt
+    );
+  }
+
+  /**
+   * Send reminders and execute due schedules
+   */
+  private async tick(): Promise<void> {
+    const now = Date.now();
+
+    for (const schedule of this.getActiveSchedules()) {
+      if (this.running.has(schedule.id)) continue;
+
+      const nextRunAt = schedule.nextRunAt as string;
+      const runTime = new Date(nextRunAt).getTime();
+
+      if (runTime <= now) {
+        this.running.add(schedule.id);
+        try {
+          await this.runSchedule(schedule, nextRunAt);
+        } finally {
+          this.running.delete(schedule.id);
+        }
+      } else if (
+        runTime - now <= SCHEDULE_REMINDER_MS &&
+        schedule.reminderSentFor !== nextRunAt &&
+        !schedule.skipNext
+      ) {
+        await this.sendReminder(schedule, nextRunAt);
+      }
+    }
+  }
+
+  /**
+   * Send the pre-execution reminder for a schedule
+   */
+  private async sendReminder(
+    schedule: ScheduledTransfer,
+    nextRunAt: string
+  ): Promise<void> {
+    if (!this.bot) return;
+
+    try {
+      await this.bot.sendMessage(
+        schedule.chatId,
+        `⏰ *Upcoming Scheduled Transfer*\n\n` +
+          formatScheduleSummary(schedule) +
+          `\nThis transfer will be sent at ${formatUTCDateTime(
+            new Date(nextRunAt)
+          )}.`,
+        {
+          parse_mode: "Markdown",
+          reply_markup: {
+            inline_keyboard: createScheduleActionsKeyboard(schedule.id),
+          },
+        }
+      );
+      this.updateSchedule(schedule, { reminderSentFor: nextRunAt });
+    } catch (error) {
+      logger.error(
+        `Failed to send reminder for schedule ${schedule.id}:`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Execute (or skip) a due run and advance the schedule
+   */
+  private async runSchedule(
+    schedule: ScheduledTransfer,
+    scheduledFor: string
+  ): Promise<void> {
+    let entry: ScheduleRunLogEntry;
+
+    if (schedule.skipNext) {
+      entry = {
+        scheduledFor,
+        executedAt: new Date().toISOString(),
+        outcome: "skipped",
+        message: "Skipped by user",
+      };
+    } else {
+      // Saved before sending, so a restart never sends the run again
+      this.updateSchedule(schedule, { sendingFor: scheduledFor });
+      entry = await this.executeTransfer(schedule, scheduledFor);
+    }
+
+    const nextRun = this.finishRun(schedule, scheduledFor, entry);
+    logger.info(
+      `Schedule ${schedule.id} run ${entry.outcome}` +
+        (nextRun ? `, next run at ${nextRun.toISOString()}` : ", completed")
+    );
+
+    if (entry.outcome !== "skipped") {
+      await this.sendRunResult(schedule, entry);
+    }
+  }
+
+  /**
+   * Log the outcome of a run and advance the schedule
+   * @returns The next run, or undefined if the schedule completed
+   */
+  private finishRun(
+    schedule: ScheduledTransfer,
+    scheduledFor: string,
+    entry: ScheduleRunLogEntry
+  ): Date | undefined {
+    // Advance to the next run after now, so runs missed while offline aren't repeated
+    const after = new Date(
+      Math.max(Date.now(), new Date(scheduledFor).getTime())
+    );
+    const nextRun = getNextRun(
+      schedule.recurrence,
+      new Date(schedule.startAt),
+      after
+    );
+
+    this.updateSchedule(schedule, {
+      runs: [...schedule.runs, entry].slice(-SCHEDULE_RUN_LOG_LIMIT),
+      skipNext: false,
+      sendingFor: undefined,
+      nextRunAt: nextRun?.toISOString(),
+      status: nextRun ? schedule.status : "completed",
+    });
+    return nextRun;
+  }
+
+  /**
+   * Execute the transfer of a schedule with its account's session
+   */
+  private async executeTransfer(
+    schedule: ScheduledTransfer,
+    scheduledFor: string
+  ): Promise<ScheduleRunLogEntry> {
+    const { template } = schedule;
+    const session = schedule.account
+      ? SessionService.getAccount(
+          schedule.chatId,
+          schedule.account.organizationId
+        )
+      : SessionService.getSession(schedule.chatId);
+
+    if (!session) {
+      return {
+        scheduledFor,
+        executedAt: new Date().toISOString(),
+        outcome: "failed",
+        message: schedule.account
+          ? `Not logged in to ${formatAccountLabel(
+              schedule.account
+            )}. Please /login to keep scheduled transfers running.`
+          : "Not logged in. Please /login to keep scheduled transfers running.",
+      };
+    }
+
+    const transfers = [
+      {
+        recipient: getRecipientKey(template.recipientType, template.recipient),
+        amount: toAmount(template.amount),
+        currency: template.currency,
+      },
+    ];
+    const violation = LimitsService.checkTransfers(schedule.chatId, transfers);
+    if (violation) {
+      logger.info(
+        `Scheduled transfer ${schedule.id} refused by the ${violation.kind} limit`
+      );
+      return {
+        scheduledFor,
+        executedAt: new Date().toISOString(),
+        outcome: "failed",
+        message: describeLimitViolation(violation),
+      };
+    }
+
+    // The same run always has the same key, so the API never executes it
+    // twice
+    const idempotencyKey = `schedule-${schedule.id}-${scheduledFor}`;
+    try {
+      const result = await AuditLogService.audit(
+        {
+          action: "transfer.scheduled",
+          chatId: schedule.chatId,
+          organizationId: session.organizationId,
+          payload: { scheduleId: schedule.id, scheduledFor, ...template },
+        },
+        () =>
+          template.recipientType === "email"
+            ? transferService.sendToEmail(
+                session.token,
+                template.recipient,
+                template.amount,
+                template.currency,
+                template.purposeCode,
+                idempotencyKey
+              )
+            : transferService.sendToWallet(
+                session.token,
+                template.recipient,
+                template.amount,
+                template.currency,
+                template.purposeCode,
+                idempotencyKey
+              )
+      );
+      LimitsService.recordTransfers(schedule.chatId, transfers);
+
+      // Follow up once the transfer completes, fails or is refunded
+      TransferTrackerService.track(
+        schedule.chatId,
+        session.organizationId,
+        result,
+        `Scheduled transfer of ${formatCurrency(
+          template.amount,
+          template.currency
+        )} to ${
+          template.recipientType === "email"
+            ? escapeMarkdown(template.recipient)
+            : formatAddress(template.recipient)
+        }`
+      );
+
+      return {
+        scheduledFor,
+        executedAt: new Date().toISOString(),
+        outcome: "success",
+        transferId: result.id,
+      };
+    } catch (error: any) {
+      const errorResponse = processApiError(error);
+      logger.error(`Scheduled transfer ${schedule.id} failed:`, error);
+
+      return {
+        scheduledFor,
+        executedAt: new Date().toISOString(),
+        outcome: "failed",
+        message: errorResponse.details || errorResponse.message,
+      };
+    }
+  }
+
+  /**
+   * Notify the owner about the result of a run
+   */
+  private async sendRunResult(
+    schedule: ScheduledTransfer,
+    entry: ScheduleRunLogEntry
+  ): Promise<void> {
+    if (!this.bot) return;
+
+    const header =
+      entry.outcome === "success"
+        ? `✅ *Scheduled Transfer Sent*\n\n`
+        : `❌ *Scheduled Transfer Failed*\n\n`;
+
+    let message = header + formatScheduleSummary(schedule);
+    if (entry.transferId) {
+      message += `Reference ID: ${entry.transferId}\n`;
+    }
+    if (entry.message) {
+      message += `\nReason: ${escapeMarkdown(entry.message)}\n`;
+    }
+
+    try {
+      await this.bot.sendMessage(schedule.chatId, message, {
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: "📜 Run Log",
+                callback_data: `schedule:log:${schedule.id}`,
+              },
+            ],
+            [{ text: "📅 My Schedules", callback_data: "schedule:list" }],
+          ],
+        },
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to send run result for schedule ${schedule.id}:`,
+        error as Error
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const SchedulerService = new SchedulerServiceImpl();
@@ -0,0 +1,137 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ExtendedSession } from "../session.service";
+import { SessionChanges, SessionStore, SerializedSessionStore } from "./types";
+import {
+  serializeSession,
+  toSessionMap,
+  upgradeSessionStore,
+} from "./serialization";
+import { encryptData, decryptData } from "../../utils/encryption";
+import { SESSION_VERSION } from "../../utils/constants";
+import { getModuleLogger } from "../../utils/logger";
+
+// Create module logger
+const logger = getModuleLogger("file-session-store");
+
+/**
+ * Read and decrypt a session file, upgrading older formats
+ * @param filePath Path to the encrypted session file
+ * @param encryptionKey Key the file was encrypted with
+ * @returns The sessions and the format version the file was written with
+ */
+export function readSessionFile(
+  filePath: string,
+  encryptionKey: string
+): { version: number; sessions: Map<number, ExtendedSession> } {
+  const encrypted = fs.readFileSync(filePath, "utf8");
+  const data = decryptData(encrypted, encryptionKey);
+  const loaded = JSON.parse(data) as SerializedSessionStore;
+  return {
+    version: loaded.version || 0,
+    sessions: toSessionMap(upgradeSessionStore(loaded)),
+  };
+}
+
+/**
+ * Session store keeping every session in one AES-GCM encrypted JSON file.
+ * The whole file is rewritten on every save, so it can't be shared between
+ * bot instances.
+ */
+export class FileSessionStore implements SessionStore {
+  public readonly name = "file";
+  public readonly shared = false;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly encryptionKey: string
+  ) {
+    // Make sure the data directory exists
+    try {
+      const dataDir = path.dirname(filePath);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+    } catch (error) {
+      logger.error("Failed to create data directory:", error as Error);
+    }
+  }
+
+  /**
+   * Load sessions from file, falling back to the backup file
+   */
+  public loadAll(): Map<number, ExtendedSession> {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info("No session file found, starting with empty sessions");
+      return new Map(); // No file yet, start with empty sessions
+    }
+
+    try {
+      const { version, sessions } = readSessionFile(
+        this.filePath,
+        this.encryptionKey
+      );
+
+      // Save in new format immediately
+      if (version < SESSION_VERSION) {
+        this.save(sessions, { updated: [], deleted: [] });
+      }
+
+      return sessions;
+    } catch (error) {
+      logger.error("Failed to load sessions:", error as Error);
+
+      // Try to load backup file if exists
+      const backupPath = `${this.filePath}.bak`;
+      if (!fs.existsSync(backupPath)) throw error;
+
+      logger.warn("Attempting to load sessions from backup file");
+      const { sessions: recovered } = readSessionFile(
+        backupPath,
+        this.encryptionKey
+      );
+      logger.info(`Recovered ${recovered.size} sessions from backup file`);
+      return recovered;
+    }
+  }
+
+  /**
+   * Sessions are only read at startup; the in-memory copy is authoritative
+   */
+  public load(_chatId: number): ExtendedSession | undefined {
+    return undefined;
+  }
+
+  /**
+   * Save all sessions to file
+   */
+  public save(
+    sessions: ReadonlyMap<number, ExtendedSession>,
+    _changes: SessionChanges
+  ): void {
+    // Backup existing file if it exists
+    if (fs.existsSync(this.filePath)) {
+      fs.copyFileSync(this.filePath, `${this.filePath}.bak`);
+    }
+
+    // Prepare for serialization by converting Date objects to strings
+    const serializable: SerializedSessionStore = {
+      version: SESSION_VERSION,
+      sessions: Object.fromEntries(
+        Array.from(sessions.entries()).map(([chatId, session]) => [
+          chatId.toString(),
+          serializeSession(session),
+        ])
+      ),
+    };
+
+    // Encrypt data before saving to file
+    const encrypted = encryptData(
+      JSON.stringify(serializable),
+      this.encryptionKey
+    );
+    fs.writeFileSync(this.filePath, encrypted);
+
+    logger.debug(`Saved ${sessions.size} sessions to file`);
+  }
+}
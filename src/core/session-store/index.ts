@@ -0,0 +1,33 @@
+import { config } from "../../config";
+import { SESSION_FILE_PATH } from "../../utils/constants";
+import { FileSessionStore } from "./file-session-store";
+import { SqliteSessionStore } from "./sqlite-session-store";
+import { SessionStore } from "./types";
+
+export * from "./types";
+export { FileSessionStore } from "./file-session-store";
+export { SqliteSessionStore } from "./sqlite-session-store";
+
+/**
+ * Create the session store selected by SESSION_STORE
+ */
+export function createSessionStore(): SessionStore {
+  switch (config.session.store) {
+    case "sqlite":
+      // Existing sessions.json data is imported on first start
+      return new SqliteSessionStore(
+        config.session.sqlitePath,
+        config.session.encryptionKey,
+        SESSION_FILE_PATH
+      );
+    case "file":
+      return new FileSessionStore(
+        SESSION_FILE_PATH,
+        config.session.encryptionKey
+      );
+    default:
+      throw new Error(
+        `Unknown SESSION_STORE "${config.session.store}" (expected "file" or "sqlite")`
+      );
+  }
+}
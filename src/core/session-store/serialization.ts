@@ -0,0 +1,105 @@
+import type { ExtendedSession } from "../session.service";
+import { SerializedSession, SerializedSessionStore } from "./types";
+import { SESSION_VERSION } from "../../utils/constants";
+import { getModuleLogger } from "../../utils/logger";
+
+// Create module logger
+const logger = getModuleLogger("session-store");
+
+/**
+ * Convert a session to its serialized form
+ */
+export function serializeSession(session: ExtendedSession): SerializedSession {
+  return {
+    ...session,
+    expireAt: session.expireAt.toISOString(),
+    lastActivity: session.lastActivity.toISOString(),
+    accounts: session.accounts?.map((account) => ({
+      ...account,
+      expireAt: account.expireAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Restore date objects on a serialized session
+ */
+export function deserializeSession(
+  sessionData: SerializedSession
+): ExtendedSession {
+  return {
+    ...sessionData,
+    expireAt: new Date(sessionData.expireAt),
+    lastActivity: new Date(sessionData.lastActivity),
+    accounts: sessionData.accounts?.map((account) => ({
+      ...account,
+      expireAt: new Date(account.expireAt),
+    })),
+  };
+}
+
+/**
+ * Migrate sessions from old format (pre-versioning)
+ */
+export function migrateOldSessions(
+  oldSessions: Record<string, any>
+): Record<string, SerializedSession> {
+  logger.info("Migrating sessions from old format");
+
+  const migrated: Record<string, SerializedSession> = {};
+  Object.entries(oldSessions).forEach(([chatIdStr, sessionData]) => {
+    if (!sessionData || typeof sessionData !== "object") return;
+
+    migrated[chatIdStr] = {
+      ...sessionData,
+      // Add lastActivity if it doesn't exist
+      lastActivity:
+        sessionData.lastActivity ||
+        sessionData.expireAt ||
+        new Date().toISOString(),
+    };
+  });
+
+  logger.info(
+    `Migrated ${Object.keys(migrated).length} sessions to new format`
+  );
+  return migrated;
+}
+
+/**
+ * Upgrade a parsed session file to the current SESSION_VERSION
+ * @param loaded The parsed file contents
+ * @returns The sessions in the current serialized format
+ */
+export function upgradeSessionStore(
+  loaded: SerializedSessionStore | Record<string, any>
+): Record<string, SerializedSession> {
+  const version = (loaded as SerializedSessionStore).version;
+  const storedSessions = (loaded as SerializedSessionStore).sessions;
+
+  // Check version and handle accordingly
+  if (!version || version < SESSION_VERSION) {
+    logger.warn(
+      `Loading sessions from older format (version ${version || "unknown"})`
+    );
+    // Handle legacy format (pre-versioning)
+    if (!storedSessions && typeof loaded === "object") {
+      return migrateOldSessions(loaded);
+    }
+  }
+
+  return storedSessions || {};
+}
+
+/**
+ * Convert serialized sessions keyed by chat ID string into a Map
+ */
+export function toSessionMap(
+  serialized: Record<string, SerializedSession>
+): Map<number, ExtendedSession> {
+  const result = new Map<number, ExtendedSession>();
+  Object.entries(serialized).forEach(([chatIdStr, sessionData]) => {
+    result.set(Number(chatIdStr), deserializeSession(sessionData));
+  });
+  return result;
+}
@@ -0,0 +1,204 @@
+import * as fs from "fs";
+import * as path from "path";
+import Database from "better-sqlite3";
+import type { ExtendedSession } from "../session.service";
+import { SessionChanges, SessionStore, SerializedSession } from "./types";
+import {
+  deserializeSession,
+  migrateOldSessions,
+  serializeSession,
+} from "./serialization";
+import { readSessionFile } from "./file-session-store";
+import { encryptData, decryptData } from "../../utils/encryption";
+import { SESSION_VERSION } from "../../utils/constants";
+import { getModuleLogger } from "../../utils/logger";
+
+// Create module logger
+const logger = getModuleLogger("sqlite-session-store");
+
+interface SessionRow {
+  chat_id: number;
+  version: number;
+  data: string;
+}
+
+/**
+ * Session store backed by a SQLite database.
+ * Each session is an encrypted row, so several bot instances on the same
+ * host or volume can share it.
+ */
+export class SqliteSessionStore implements SessionStore {
+  public readonly name = "sqlite";
+  public readonly shared = true;
+
+  private readonly db: Database.Database;
+  private readonly selectOne: Database.Statement<[number], SessionRow>;
+  private readonly selectAll: Database.Statement<[], SessionRow>;
+  private readonly upsert: Database.Statement<
+    [number, number, string, string, string]
+  >;
+  private readonly remove: Database.Statement<[number]>;
+
+  /**
+   * @param dbPath Path to the SQLite database file
+   * @param encryptionKey Key used to encrypt session rows
+   * @param legacyFilePath Session file to import on first start
+   */
+  constructor(
+    dbPath: string,
+    private readonly encryptionKey: string,
+    legacyFilePath?: string
+  ) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 5000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        chat_id INTEGER PRIMARY KEY,
+        version INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        expire_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+
+    this.selectOne = this.db.prepare(
+      "SELECT chat_id, version, data FROM sessions WHERE chat_id = ?"
+    );
+    this.selectAll = this.db.prepare(
+      "SELECT chat_id, version, data FROM sessions"
+    );
+    this.upsert = this.db.prepare(`
+      INSERT INTO sessions (chat_id, version, data, expire_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(chat_id) DO UPDATE SET
+        version = excluded.version,
+        data = excluded.data,
+        expire_at = excluded.expire_at,
+        updated_at = excluded.updated_at
+    `);
+    this.remove = this.db.prepare("DELETE FROM sessions WHERE chat_id = ?");
+
+    if (legacyFilePath) {
+      this.importSessionFile(legacyFilePath);
+    }
+  }
+
+  /**
+   * Import sessions from the encrypted JSON file used by the file store.
+   * Runs once per database; existing rows are never overwritten.
+   */
+  private importSessionFile(filePath: string): void {
+    const imported = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'file_import'")
+      .get();
+    if (imported || !fs.existsSync(filePath)) return;
+
+    try {
+      const { sessions } = readSessionFile(filePath, this.encryptionKey);
+      const insert = this.db.prepare(`
+        INSERT OR IGNORE INTO sessions (chat_id, version, data, expire_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+
+      this.db.transaction(() => {
+        sessions.forEach((session, chatId) => {
+          insert.run(...this.toRow(chatId, session));
+        });
+        this.db
+          .prepare("INSERT INTO meta (key, value) VALUES ('file_import', ?)")
+          .run(new Date().toISOString());
+      })();
+
+      logger.info(
+        `Imported ${sessions.size} sessions from ${path.basename(filePath)}`
+      );
+    } catch (error) {
+      // Leave the marker unset so the import is retried on next start
+      logger.error("Failed to import sessions from file:", error as Error);
+    }
+  }
+
+  /**
+   * Build the column values for a session row
+   */
+  private toRow(
+    chatId: number,
+    session: ExtendedSession
+  ): [number, number, string, string, string] {
+    return [
+      chatId,
+      SESSION_VERSION,
+      encryptData(
+        JSON.stringify(serializeSession(session)),
+        this.encryptionKey
+      ),
+      session.expireAt.toISOString(),
+      new Date().toISOString(),
+    ];
+  }
+
+  /**
+   * Decrypt a session row, upgrading rows written by older versions
+   */
+  private fromRow(row: SessionRow): ExtendedSession {
+    let sessionData = JSON.parse(
+      decryptData(row.data, this.encryptionKey)
+    ) as SerializedSession;
+
+    if (row.version < SESSION_VERSION) {
+      sessionData = migrateOldSessions({ [row.chat_id]: sessionData })[
+        row.chat_id
+      ];
+    }
+
+    return deserializeSession(sessionData);
+  }
+
+  public loadAll(): Map<number, ExtendedSession> {
+    const result = new Map<number, ExtendedSession>();
+    for (const row of this.selectAll.all()) {
+      try {
+        result.set(row.chat_id, this.fromRow(row));
+      } catch (error) {
+        logger.error(
+          `Failed to load session for chat ${row.chat_id}:`,
+          error as Error
+        );
+      }
+    }
+    return result;
+  }
+
+  public load(chatId: number): ExtendedSession | undefined {
+    const row = this.selectOne.get(chatId);
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  public save(
+    sessions: ReadonlyMap<number, ExtendedSession>,
+    changes: SessionChanges
+  ): void {
+    this.db.transaction(() => {
+      for (const chatId of changes.updated) {
+        const session = sessions.get(chatId);
+        if (session) {
+          this.upsert.run(...this.toRow(chatId, session));
+        }
+      }
+      for (const chatId of changes.deleted) {
+        this.remove.run(chatId);
+      }
+    })();
+
+    logger.debug(
+      `Saved ${changes.updated.length} and deleted ${changes.deleted.length} sessions`
+    );
+  }
+}
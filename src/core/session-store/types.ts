@@ -0,0 +1,72 @@
+import type { ExtendedSession, SessionState } from "../session.service";
+
+// Serialized linked account format (dates as ISO strings)
+export interface SerializedLinkedAccount {
+  token: string;
+  expireAt: string; // ISO date string
+  organizationId: string;
+  email?: string;
+}
+
+// Serialized session format (dates as ISO strings)
+export interface SerializedSession {
+  token: string;
+  expireAt: string; // ISO date string
+  organizationId: string;
+  state?: SessionState;
+  lastActivity: string; // ISO date string
+  accounts?: SerializedLinkedAccount[];
+}
+
+// Serialized format of the whole session file
+export interface SerializedSessionStore {
+  version: number;
+  sessions: Record<string, SerializedSession>;
+}
+
+/**
+ * Sessions changed since the last successful save
+ */
+export interface SessionChanges {
+  /** Chats whose session was created or modified */
+  updated: number[];
+  /** Chats whose session was removed */
+  deleted: number[];
+}
+
+/**
+ * Persistence backend for SessionService
+ */
+export interface SessionStore {
+  /** Backend name used in logs */
+  readonly name: string;
+
+  /**
+   * Whether several bot instances may share this store.
+   * Shared stores are written through immediately and read on every lookup.
+   */
+  readonly shared: boolean;
+
+  /**
+   * Load every persisted session
+   * @returns Map of chat ID to session, including expired ones
+   */
+  loadAll(): Map<number, ExtendedSession>;
+
+  /**
+   * Load a single session
+   * @param chatId The chat ID
+   * @returns The stored session or undefined if there is none
+   */
+  load(chatId: number): ExtendedSession | undefined;
+
+  /**
+   * Persist session changes
+   * @param sessions All sessions currently held in memory
+   * @param changes The sessions changed since the last save
+   */
+  save(
+    sessions: ReadonlyMap<number, ExtendedSession>,
+    changes: SessionChanges
+  ): void;
+}
@@ -1,64 +1,79 @@
 import { UserSession } from "../types";
 import * as authService from "../services/auth.service";
-import * as fs from "fs";
-import * as path from "path";
-import * as crypto from "crypto";
+import { apiEvents } from "../utils/api";
 import { config } from "../config";
 import EventEmitter from "events";
 import {
-  SESSION_FILE_PATH,
+  SessionChanges,
+  SessionStore,
+  createSessionStore,
+} from "./session-store";
+import { PreAuthStateService } from "./pre-auth-state.service";
+import {
   TOKEN_REFRESH_THRESHOLD_MS,
   SESSION_MIN_EXPIRY_HOURS,
   SESSION_EXTENSION_HOURS,
   SESSION_SAVE_PROBABILITY,
-  SESSION_VERSION,
   MAX_SESSIONS,
   MAX_RETRIES,
-  SESSION_SALT,
   SESSION_SAVE_DEBOUNCE_MS,
+  SESSION_ACTIVITY_RESOLUTION_MS,
+  SUSPENDED_FLOW_TTL_MS,
 } from "../utils/constants";
 import { getModuleLogger } from "../utils/logger";
+import { metricsRegistry } from "../utils/metrics";
 
 // Get module-specific logger
 const logger = getModuleLogger("session-service");
 
+// Actions of multi-step flows; text input is routed to the command
+// registered for the current action
+export type SessionAction =
+  | "login"
+  | "sendemail"
+  | "setdefaultwallet"
+  | "sendwallet"
+  | "deposit"
+  | "withdrawbank"
+  | "history"
+  | "addpayee"
+  | "sendbatch"
+  | "schedule"
+  | "banks"
+  | "pin"
+  | "limits";
+
 // Define session state interfaces
 export interface SessionState {
-  currentAction?:
-    | "login"
-    | "sendemail"
-    | "setdefaultwallet"
-    | "sendwallet"
-    | "deposit"
-    | "withdrawbank"
-    | "history"
-    | "addpayee"
-    | "sendbatch";
+  currentAction?: SessionAction;
   callbackData?: string; // For storing inline keyboard callback data
   data?: Record<string, any>; // For storing step-specific data
 }
 
-export interface ExtendedSession extends UserSession {
-  state?: SessionState;
-  lastActivity: Date; // Track when the session was last active
+// Flow of an expired session, kept so the user can log in again with one
+// tap and continue where they stopped
+export interface SuspendedFlow {
+  state?: SessionState; // The in-progress flow, if any
+  organizationId: string; // The flow only resumes for the same organization
+  email?: string; // Email of the expired login, used to resend the OTP
+  suspendedAt: string; // ISO date string
 }
 
-// Define interfaces for serialized session format
-interface SerializedSession {
-  token: string;
-  expireAt: string; // ISO date string
-  organizationId: string;
-  state?: SessionState;
-  lastActivity: string; // ISO date string
+// Copperx account logged in from a chat
+export interface LinkedAccount extends UserSession {
+  email?: string; // Email the user logged in with
 }
 
-interface SerializedSessionStore {
-  version: number;
-  sessions: Record<string, SerializedSession>;
+export interface ExtendedSession extends UserSession {
+  state?: SessionState;
+  lastActivity: Date; // Track when the session was last active
+  email?: string; // Email the user logged in with
+  expired?: boolean; // Token was rejected or ran out; only kept for its suspendedFlow
+  suspendedFlow?: SuspendedFlow;
+  accounts?: LinkedAccount[]; // Other logged in accounts, see switchAccount
 }
 
 // Configuration constants
-const ENCRYPTION_KEY = config.session.encryptionKey;
 const SESSION_INACTIVITY_TIMEOUT = config.session.inactivityTimeout; // 5 days
 
 // Session events setup
@@ -72,6 +87,7 @@ const sessionMetrics = {
   totalRefreshed: 0,
   activeSessions: 0,
   lastSave: new Date(),
+  lastSaveFailed: false, // Whether the latest save attempt failed
   loadErrors: 0,
   saveErrors: 0,
 };
@@ -84,77 +100,203 @@ export function getSessionMetrics(): typeof sessionMetrics {
 // Store sessions with type safety
 const sessions = new Map<number, ExtendedSession>();
 
+// Expose session metrics; values are read when metrics are scraped
+metricsRegistry.collected(
+  "copperx_bot_sessions_active",
+  "Sessions held in memory",
+  "gauge",
+  () => [{ value: sessions.size }]
+);
+metricsRegistry.collected(
+  "copperx_bot_session_events_total",
+  "Session lifecycle events by event",
+  "counter",
+  () => [
+    { labels: { event: "created" }, value: sessionMetrics.totalCreated },
+    { labels: { event: "expired" }, value: sessionMetrics.totalExpired },
+    { labels: { event: "inactive" }, value: sessionMetrics.totalInactive },
+    { labels: { event: "refreshed" }, value: sessionMetrics.totalRefreshed },
+  ]
+);
+metricsRegistry.collected(
+  "copperx_bot_session_store_errors_total",
+  "Failed session store operations by operation",
+  "counter",
+  () => [
+    { labels: { operation: "load" }, value: sessionMetrics.loadErrors },
+    { labels: { operation: "save" }, value: sessionMetrics.saveErrors },
+  ]
+);
+metricsRegistry.collected(
+  "copperx_bot_session_last_save_timestamp_seconds",
+  "Time of the last successful session save",
+  "gauge",
+  () => [{ value: sessionMetrics.lastSave.getTime() / 1000 }]
+);
+
+// Chats changed since the last successful save
+const pendingUpdates = new Set<number>();
+const pendingDeletes = new Set<number>();
+
 // Track pending save operations
 let saveTimeout: NodeJS.Timeout | null = null;
 
-// Make sure the data directory exists
-try {
-  const dataDir = path.dirname(SESSION_FILE_PATH);
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-} catch (error) {
-  logger.error("Failed to create data directory:", error as Error);
-}
-
 class SessionServiceImpl {
-  constructor() {
+  private readonly store: SessionStore;
+
+  constructor(store: SessionStore = createSessionStore()) {
+    this.store = store;
+    logger.info(`Using ${store.name} session store`);
     this.loadSessions(); // Load sessions on service initialization
+
+    // Expire sessions as soon as the API rejects their token
+    apiEvents.on("unauthorized", (token: string) => {
+      this.expireSessionsWithToken(token);
+    });
   }
 
   /**
-   * Derive a cryptographic key from the provided password
+   * Check whether a suspended flow is too old to be resumed
    */
-  private deriveKey(password: string): Buffer {
-    return crypto.pbkdf2Sync(password, SESSION_SALT, 10000, 32, "sha256");
+  private isSuspendedFlowStale(flow: SuspendedFlow): boolean {
+    return (
+      Date.now() - new Date(flow.suspendedAt).getTime() > SUSPENDED_FLOW_TTL_MS
+    );
   }
 
   /**
-   * Encrypt data using AES-GCM for authenticated encryption
+   * Check whether an expired session can be dropped
    */
-  private encryptData(data: string): string {
-    const iv = crypto.randomBytes(12); // GCM recommends 12 bytes
-    const key = this.deriveKey(ENCRYPTION_KEY);
-    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  private isExpiredSessionStale(session: ExtendedSession): boolean {
+    return (
+      !session.suspendedFlow || this.isSuspendedFlowStale(session.suspendedFlow)
+    );
+  }
 
-    let encrypted = cipher.update(data, "utf8", "hex");
-    encrypted += cipher.final("hex");
-    const authTag = cipher.getAuthTag().toString("hex");
+  /**
+   * Expire a session
+   * The session is kept without its token for SUSPENDED_FLOW_TTL_MS with its
+   * in-progress flow and email, so the user can log in again and continue.
+   */
+  private expireSession(chatId: number, session: ExtendedSession): void {
+    const previous = session.suspendedFlow;
+    const flowState =
+      session.state?.currentAction && session.state.currentAction !== "login"
+        ? session.state
+        : previous?.state;
+    const email = session.email || previous?.email;
+
+    sessionMetrics.totalExpired++;
+
+    if (!flowState && !email) {
+      this.removeSession(chatId);
+    } else {
+      this.putSession(chatId, {
+        ...session,
+        token: "",
+        state: undefined,
+        expired: true,
+        suspendedFlow: {
+          state: flowState,
+          organizationId:
+            session.organizationId || previous?.organizationId || "",
+          email,
+          suspendedAt: new Date().toISOString(),
+        },
+      });
+    }
 
-    return `${iv.toString("hex")}:${authTag}:${encrypted}`;
+    sessionEvents.emit("session:expired", chatId);
   }
 
   /**
-   * Decrypt data using AES-GCM
+   * Expire all sessions using a token the API rejected
    */
-  private decryptData(data: string): string {
-    const [ivHex, authTagHex, encryptedData] = data.split(":");
-    const iv = Buffer.from(ivHex, "hex");
-    const authTag = Buffer.from(authTagHex, "hex");
-    const key = this.deriveKey(ENCRYPTION_KEY);
+  private expireSessionsWithToken(token: string): void {
+    let expiredCount = 0;
+    sessions.forEach((session, chatId) => {
+      // Linked accounts are dropped; the user can log in to them again
+      if (session.accounts?.some((account) => account.token === token)) {
+        logger.info(`Token of a linked account rejected for chat ${chatId}`);
+        session.accounts = session.accounts.filter(
+          (account) => account.token !== token
+        );
+        this.putSession(chatId, session);
+        expiredCount++;
+      }
+
+      if (session.token === token && !session.expired) {
+        logger.info(`Token rejected by the API for chat ${chatId}`);
+        this.expireSession(chatId, session);
+        expiredCount++;
+      }
+    });
+
+    if (expiredCount > 0) this.scheduleSave();
+  }
+
+  /**
+   * Store a session in memory and mark it for saving
+   */
+  private putSession(chatId: number, session: ExtendedSession): void {
+    sessions.set(chatId, session);
+    pendingDeletes.delete(chatId);
+    pendingUpdates.add(chatId);
+  }
 
-    const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
-    decipher.setAuthTag(authTag);
+  /**
+   * Remove a session from memory and mark it for deletion
+   */
+  private removeSession(chatId: number): void {
+    sessions.delete(chatId);
+    pendingUpdates.delete(chatId);
+    pendingDeletes.add(chatId);
+  }
 
-    let decrypted = decipher.update(encryptedData, "hex", "utf8");
-    decrypted += decipher.final("utf8");
+  /**
+   * Reload a session from a shared store so changes made by other
+   * bot instances are picked up
+   */
+  private syncFromStore(chatId: number): void {
+    // Unsaved local changes take precedence over the stored copy
+    if (!this.store.shared || pendingUpdates.has(chatId)) return;
 
-    return decrypted;
+    try {
+      const stored = this.store.load(chatId);
+      if (stored) {
+        sessions.set(chatId, stored);
+      } else {
+        sessions.delete(chatId);
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to reload session for chat ${chatId}:`,
+        error as Error
+      );
+    }
   }
 
   /**
    * Schedule a session save operation with debouncing
    */
   private scheduleSave(): void {
+    // Shared stores are written through so other instances see changes immediately
+    if (this.store.shared) {
+      this.saveSessionsWithRetry().catch(() => {});
+      return;
+    }
+
     if (saveTimeout) clearTimeout(saveTimeout);
     saveTimeout = setTimeout(() => {
-      this.saveSessionsWithRetry();
+      this.saveSessionsWithRetry().catch((error) =>
+        logger.error("Giving up saving sessions:", error as Error)
+      );
       saveTimeout = null;
     }, SESSION_SAVE_DEBOUNCE_MS);
   }
 
   /**
-   * Save sessions to file with retry logic
+   * Save sessions with retry logic
    */
   private async saveSessionsWithRetry(maxRetries = MAX_RETRIES): Promise<void> {
     let retries = 0;
@@ -168,7 +310,6 @@ class SessionServiceImpl {
           `Failed to save sessions (attempt ${retries}/${maxRetries}):`,
           error as Error
         );
-        sessionMetrics.saveErrors++;
 
         if (retries >= maxRetries) throw error;
         await new Promise((resolve) => setTimeout(resolve, 1000 * retries)); // Exponential backoff
@@ -177,40 +318,26 @@ class SessionServiceImpl {
   }
 
   /**
-   * Save sessions to file
+   * Save pending session changes to the store
    */
   private saveSessions(): void {
+    const changes: SessionChanges = {
+      updated: Array.from(pendingUpdates),
+      deleted: Array.from(pendingDeletes),
+    };
+    if (changes.updated.length === 0 && changes.deleted.length === 0) return;
+
     try {
-      // Backup existing file if it exists
-      if (fs.existsSync(SESSION_FILE_PATH)) {
-        fs.copyFileSync(SESSION_FILE_PATH, `${SESSION_FILE_PATH}.bak`);
-      }
+      this.store.save(sessions, changes);
 
-      // Prepare for serialization by converting Date objects to strings
-      const serializable: SerializedSessionStore = {
-        version: SESSION_VERSION,
-        sessions: Object.fromEntries(
-          Array.from(sessions.entries()).map(([chatId, session]) => {
-            return [
-              chatId.toString(),
-              {
-                ...session,
-                expireAt: session.expireAt.toISOString(),
-                lastActivity: session.lastActivity.toISOString(),
-              },
-            ];
-          })
-        ),
-      };
-
-      // Encrypt data before saving to file
-      const encrypted = this.encryptData(JSON.stringify(serializable));
-      fs.writeFileSync(SESSION_FILE_PATH, encrypted);
+      changes.updated.forEach((chatId) => pendingUpdates.delete(chatId));
+      changes.deleted.forEach((chatId) => pendingDeletes.delete(chatId));
 
       sessionMetrics.lastSave = new Date();
-      logger.debug(`Saved ${sessions.size} sessions to file`);
+      sessionMetrics.lastSaveFailed = false;
     } catch (error) {
       sessionMetrics.saveErrors++;
+      sessionMetrics.lastSaveFailed = true;
       logger.error("Failed to save sessions:", error as Error);
       throw error; // Re-throw for retry mechanism
     }
@@ -233,7 +360,7 @@ class SessionServiceImpl {
         .slice(0, Math.floor(MAX_SESSIONS * 0.2)); // Remove 20% of sessions
 
       oldestSessions.forEach(([chatId]) => {
-        sessions.delete(chatId);
+        this.removeSession(chatId);
         logger.debug(`Pruned old session for chat ${chatId}`);
       });
 
@@ -242,155 +369,82 @@ class SessionServiceImpl {
   }
 
   /**
-   * Load sessions from file
+   * Load sessions from the store
    */
   private loadSessions(): void {
     try {
-      if (!fs.existsSync(SESSION_FILE_PATH)) {
-        logger.info("No session file found, starting with empty sessions");
-        return; // No file yet, start with empty sessions
-      }
+      const loaded = this.store.loadAll();
 
-      const encrypted = fs.readFileSync(SESSION_FILE_PATH, "utf8");
-      const data = this.decryptData(encrypted);
-      const loaded = JSON.parse(data) as SerializedSessionStore;
-
-      // Clear current sessions and load from file
+      // Clear current sessions and keep only valid ones (not expired)
       sessions.clear();
-
-      // Check version and handle accordingly
-      if (!loaded.version || loaded.version < SESSION_VERSION) {
-        logger.warn(
-          `Loading sessions from older format (version ${
-            loaded.version || "unknown"
-          })`
-        );
-        // Handle legacy format (pre-versioning)
-        if (!loaded.sessions && typeof loaded === "object") {
-          this.migrateOldSessions(loaded as Record<string, any>);
-          return;
-        }
-      }
-
-      // Restore date objects and load into Map
-      Object.entries(loaded.sessions).forEach(([chatIdStr, sessionData]) => {
-        const chatId = Number(chatIdStr);
-        const session: ExtendedSession = {
-          ...sessionData,
-          expireAt: new Date(sessionData.expireAt),
-          lastActivity: new Date(sessionData.lastActivity),
-        };
-
-        // Only load valid sessions (not expired)
-        if (new Date() < session.expireAt) {
+      const now = new Date();
+      loaded.forEach((session, chatId) => {
+        const valid = session.expired
+          ? !this.isExpiredSessionStale(session)
+          : now < session.expireAt;
+        if (valid) {
           sessions.set(chatId, session);
         }
       });
 
       sessionMetrics.activeSessions = sessions.size;
-      logger.info(`Loaded ${sessions.size} sessions from file`);
+      logger.info(`Loaded ${sessions.size} sessions from ${this.store.name}`);
     } catch (error) {
       sessionMetrics.loadErrors++;
       logger.error("Failed to load sessions:", error as Error);
-
-      // Try to load backup file if exists
-      try {
-        if (fs.existsSync(`${SESSION_FILE_PATH}.bak`)) {
-          logger.warn("Attempting to load sessions from backup file");
-          const encrypted = fs.readFileSync(`${SESSION_FILE_PATH}.bak`, "utf8");
-          const data = this.decryptData(encrypted);
-          const loaded = JSON.parse(data) as SerializedSessionStore;
-
-          // Clear and load from backup
-          sessions.clear();
-
-          // Process the backup data (similar logic as above)
-          Object.entries(loaded.sessions || {}).forEach(
-            ([chatIdStr, sessionData]) => {
-              const chatId = Number(chatIdStr);
-              const session: ExtendedSession = {
-                ...sessionData,
-                expireAt: new Date(sessionData.expireAt),
-                lastActivity: new Date(sessionData.lastActivity),
-              };
-
-              if (new Date() < session.expireAt) {
-                sessions.set(chatId, session);
-              }
-            }
-          );
-
-          logger.info(`Recovered ${sessions.size} sessions from backup file`);
-        }
-      } catch (backupError) {
-        logger.error("Failed to load backup sessions:", backupError as Error);
-        // If we failed to load, start with an empty session store
-      }
-    }
-  }
-
-  /**
-   * Migrate sessions from old format (pre-versioning)
-   */
-  private migrateOldSessions(oldSessions: Record<string, any>): void {
-    try {
-      logger.info("Migrating sessions from old format");
-      Object.entries(oldSessions).forEach(([chatIdStr, sessionData]) => {
-        const chatId = Number(chatIdStr);
-        // Add lastActivity if it doesn't exist
-        if (!sessionData.lastActivity) {
-          sessionData.lastActivity =
-            sessionData.expireAt || new Date().toISOString();
-        }
-
-        const session: ExtendedSession = {
-          ...sessionData,
-          expireAt: new Date(sessionData.expireAt),
-          lastActivity: new Date(sessionData.lastActivity),
-        };
-
-        if (new Date() < session.expireAt) {
-          sessions.set(chatId, session);
-        }
-      });
-
-      // Save in new format immediately
-      this.scheduleSave();
-      logger.info(`Migrated ${sessions.size} sessions to new format`);
-    } catch (error) {
-      logger.error("Failed to migrate old sessions:", error as Error);
+      // If we failed to load, start with an empty session store
     }
   }
 
   /**
    * Update the last activity timestamp for a session
+   * The timestamp only moves once SESSION_ACTIVITY_RESOLUTION_MS has passed,
+   * so lookups in quick succession don't mark the session for saving.
+   * @returns Whether the session changed
    */
-  private updateLastActivity(chatId: number): void {
+  private updateLastActivity(chatId: number): boolean {
     const session = sessions.get(chatId);
-    if (session) {
-      session.lastActivity = new Date();
-      sessions.set(chatId, session);
+    if (!session) return false;
+
+    const now = new Date();
+    if (
+      now.getTime() - session.lastActivity.getTime() <
+      SESSION_ACTIVITY_RESOLUTION_MS
+    ) {
+      return false;
     }
+
+    session.lastActivity = now;
+    this.putSession(chatId, session);
+    return true;
   }
 
   /**
    * Get a user session
    */
   public getSession(chatId: number): ExtendedSession | undefined {
+    this.syncFromStore(chatId);
     const session = sessions.get(chatId);
 
     if (!session) {
       return undefined;
     }
 
+    // Expired sessions only hold a suspended flow until it goes stale
+    if (session.expired) {
+      if (this.isExpiredSessionStale(session)) {
+        this.removeSession(chatId);
+        this.scheduleSave();
+      }
+      return undefined;
+    }
+
     // Check if the session has expired
     const now = new Date();
 
     if (now >= session.expireAt) {
       // Session has already expired
-      sessions.delete(chatId);
-      sessionMetrics.totalExpired++;
-      sessionEvents.emit("session:expired", chatId);
+      this.expireSession(chatId, session);
       this.scheduleSave();
       return undefined;
     }
@@ -399,7 +453,7 @@ class SessionServiceImpl {
     const inactivityTime = now.getTime() - session.lastActivity.getTime();
     if (inactivityTime > SESSION_INACTIVITY_TIMEOUT) {
       logger.info(`Session for chat ${chatId} timed out due to inactivity`);
-      sessions.delete(chatId);
+      this.removeSession(chatId);
       sessionMetrics.totalInactive++;
       sessionEvents.emit("session:inactive", chatId);
       this.scheduleSave();
@@ -414,11 +468,14 @@ class SessionServiceImpl {
       this.refreshSessionInBackground(chatId, session);
     }
 
-    // Update activity timestamp
-    this.updateLastActivity(chatId);
-
-    // Periodically save sessions after activity
-    if (Math.random() < SESSION_SAVE_PROBABILITY) {
+    // Update activity timestamp and periodically save sessions after
+    // activity (always for shared stores, whose stored copy is reloaded on
+    // the next lookup)
+    const changed = this.updateLastActivity(chatId);
+    if (
+      changed &&
+      (this.store.shared || Math.random() < SESSION_SAVE_PROBABILITY)
+    ) {
       this.scheduleSave();
     }
 
@@ -446,8 +503,9 @@ class SessionServiceImpl {
 
       // Update the session with the extended expiry and last activity
       session.expireAt = extendedExpiry;
+      session.email = user.email;
       session.lastActivity = new Date();
-      sessions.set(chatId, session);
+      this.putSession(chatId, session);
 
       sessionMetrics.totalRefreshed++;
       sessionEvents.emit("session:refreshed", chatId);
@@ -478,13 +536,27 @@ class SessionServiceImpl {
       session.expireAt = minExpiry;
     }
 
-    // Add lastActivity field if not present
+    // Keep the other accounts logged in from this chat, replacing the one of
+    // the same organization
+    const previous = sessions.get(chatId);
+    const accounts = this.getLinkedAccounts(previous);
+    if (previous && !previous.expired && this.isSessionValid(previous)) {
+      accounts.unshift(this.toLinkedAccount(previous));
+    }
+
+    // Add lastActivity field if not present, and keep the suspended flow of
+    // an expired session until the user resumes it
     const fullSession: ExtendedSession = {
       ...session,
+      suspendedFlow: session.suspendedFlow || previous?.suspendedFlow,
+      accounts: accounts.filter(
+        (account) => account.organizationId !== session.organizationId
+      ),
       lastActivity: new Date(),
     };
 
-    sessions.set(chatId, fullSession);
+    this.putSession(chatId, fullSession);
+    PreAuthStateService.deleteState(chatId); // The chat is logged in now
     sessionMetrics.totalCreated++;
     sessionEvents.emit("session:created", chatId);
 
@@ -499,11 +571,204 @@ class SessionServiceImpl {
    * Delete a user session
    */
   public deleteSession(chatId: number): void {
-    sessions.delete(chatId);
+    this.removeSession(chatId);
     sessionEvents.emit("session:deleted", chatId);
     this.scheduleSave(); // Schedule save to file after deleting
   }
 
+  /**
+   * Get the credentials of a session as a linked account
+   */
+  private toLinkedAccount(session: LinkedAccount): LinkedAccount {
+    return {
+      token: session.token,
+      expireAt: session.expireAt,
+      organizationId: session.organizationId,
+      email: session.email,
+    };
+  }
+
+  /**
+   * Get the linked accounts of a session whose token hasn't run out
+   */
+  private getLinkedAccounts(
+    session: ExtendedSession | undefined
+  ): LinkedAccount[] {
+    return (session?.accounts || []).filter((account) =>
+      this.isSessionValid(account)
+    );
+  }
+
+  /**
+   * Make an account the active account of a chat
+   * The flow in progress is dropped, since it was started for the previous
+   * account.
+   * @param chatId The chat ID
+   * @param session The current session of the chat
+   * @param account The account to activate
+   * @param accounts The accounts to keep linked
+   * @returns The session of the activated account
+   */
+  private activateAccount(
+    chatId: number,
+    session: ExtendedSession,
+    account: LinkedAccount,
+    accounts: LinkedAccount[]
+  ): ExtendedSession {
+    const activated: ExtendedSession = {
+      ...session,
+      ...this.toLinkedAccount(account),
+      state: undefined,
+      accounts,
+      lastActivity: new Date(),
+    };
+
+    this.putSession(chatId, activated);
+    sessionEvents.emit("session:stateUpdated", chatId, {});
+    sessionEvents.emit("session:switched", chatId);
+    this.scheduleSave();
+    return activated;
+  }
+
+  /**
+   * List the accounts logged in from a chat
+   * @returns The active account first, then the linked accounts from the
+   * most recently used; empty if the chat isn't logged in
+   */
+  public listAccounts(chatId: number): LinkedAccount[] {
+    const session = this.getSession(chatId);
+    if (!session) return [];
+
+    return [this.toLinkedAccount(session), ...this.getLinkedAccounts(session)];
+  }
+
+  /**
+   * Get the credentials of an account logged in from a chat
+   * Unlike switchAccount, the active account stays as it is, and the lookup
+   * doesn't count as activity.
+   * @param chatId The chat ID
+   * @param organizationId The organization of the account
+   * @returns The account, or undefined if it isn't logged in
+   */
+  public getAccount(
+    chatId: number,
+    organizationId: string
+  ): LinkedAccount | undefined {
+    const session = this.peekSession(chatId);
+    if (!session) return undefined;
+
+    return [
+      this.toLinkedAccount(session),
+      ...this.getLinkedAccounts(session),
+    ].find((account) => account.organizationId === organizationId);
+  }
+
+  /**
+   * Get the valid session of a chat without counting it as activity
+   * Background work uses this so it doesn't keep idle sessions alive.
+   */
+  private peekSession(chatId: number): ExtendedSession | undefined {
+    this.syncFromStore(chatId);
+    const session = sessions.get(chatId);
+    const now = Date.now();
+    if (
+      !session ||
+      session.expired ||
+      now >= session.expireAt.getTime() ||
+      now - session.lastActivity.getTime() > SESSION_INACTIVITY_TIMEOUT
+    ) {
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Make a linked account the active account of a chat
+   * @param chatId The chat ID
+   * @param organizationId The organization of the account
+   * @returns The session of the account, or undefined if it isn't linked
+   */
+  public switchAccount(
+    chatId: number,
+    organizationId: string
+  ): ExtendedSession | undefined {
+    const session = this.getSession(chatId);
+    if (!session) return undefined;
+
+    const linked = this.getLinkedAccounts(session);
+    const account = linked.find(
+      (linkedAccount) => linkedAccount.organizationId === organizationId
+    );
+    if (!account) return undefined;
+
+    logger.info(`Chat ${chatId} switched accounts`);
+    return this.activateAccount(chatId, session, account, [
+      this.toLinkedAccount(session),
+      ...linked.filter((linkedAccount) => linkedAccount !== account),
+    ]);
+  }
+
+  /**
+   * Log out of the active account of a chat
+   * The most recently used linked account becomes active; without one the
+   * chat is logged out.
+   * @returns The session of the account that became active, if any
+   */
+  public logoutActiveAccount(chatId: number): ExtendedSession | undefined {
+    const session = this.getSession(chatId);
+    const [next, ...rest] = this.getLinkedAccounts(session);
+    if (!session || !next) {
+      this.deleteSession(chatId);
+      return undefined;
+    }
+
+    logger.info(`Chat ${chatId} logged out of its active account`);
+    const activated = this.activateAccount(chatId, session, next, rest);
+    sessionEvents.emit(
+      "session:accountLoggedOut",
+      chatId,
+      session.organizationId
+    );
+    return activated;
+  }
+
+  /**
+   * List the chats that are logged in
+   * Sessions aren't touched, so listing doesn't count as activity. Shared
+   * stores are read first to include chats handled by other instances.
+   * @returns Chat IDs with their sessions, most recently active first
+   */
+  public listActiveSessions(): Array<{
+    chatId: number;
+    session: ExtendedSession;
+  }> {
+    if (this.store.shared) {
+      try {
+        this.store.loadAll().forEach((stored, chatId) => {
+          if (!pendingUpdates.has(chatId) && !pendingDeletes.has(chatId)) {
+            sessions.set(chatId, stored);
+          }
+        });
+      } catch (error) {
+        logger.error("Failed to reload sessions:", error as Error);
+      }
+    }
+
+    const now = Date.now();
+    return Array.from(sessions.entries())
+      .filter(
+        ([, session]) =>
+          !session.expired &&
+          now < session.expireAt.getTime() &&
+          now - session.lastActivity.getTime() <= SESSION_INACTIVITY_TIMEOUT
+      )
+      .map(([chatId, session]) => ({ chatId, session }))
+      .sort(
+        (a, b) =>
+          b.session.lastActivity.getTime() - a.session.lastActivity.getTime()
+      );
+  }
+
   /**
    * Check if a session is valid
    */
@@ -513,14 +778,20 @@ class SessionServiceImpl {
 
   /**
    * Update session state
+   * Chats without a valid session keep their state in the pre-auth store.
    */
   public updateSessionState(chatId: number, state: SessionState): boolean {
+    this.syncFromStore(chatId);
     const session = sessions.get(chatId);
-    if (!session) return false;
+    if (!session || session.expired) {
+      PreAuthStateService.setState(chatId, state);
+      sessionEvents.emit("session:stateUpdated", chatId, state);
+      return true;
+    }
 
     session.state = state;
     session.lastActivity = new Date(); // Update activity time
-    sessions.set(chatId, session);
+    this.putSession(chatId, session);
     sessionEvents.emit("session:stateUpdated", chatId, state);
 
     // Schedule save for state changes
@@ -531,10 +802,44 @@ class SessionServiceImpl {
 
   /**
    * Get session state
+   * Falls back to the pre-auth state for chats without a valid session.
    */
   public getSessionState(chatId: number): SessionState | undefined {
     const session = this.getSession(chatId);
-    return session?.state;
+    return session ? session.state : PreAuthStateService.getState(chatId);
+  }
+
+  /**
+   * Get the suspended flow of a chat whose session expired
+   * @returns The suspended flow or undefined if there is none or it is stale
+   */
+  public getSuspendedFlow(chatId: number): SuspendedFlow | undefined {
+    this.syncFromStore(chatId);
+    const flow = sessions.get(chatId)?.suspendedFlow;
+    return flow && !this.isSuspendedFlowStale(flow) ? flow : undefined;
+  }
+
+  /**
+   * Restore the suspended flow after the user logged in again
+   * The flow is only restored for the organization it was started in.
+   * @returns The restored session state or undefined if there is no flow
+   */
+  public resumeSuspendedFlow(chatId: number): SessionState | undefined {
+    const session = sessions.get(chatId);
+    const flow = session?.suspendedFlow;
+    if (!session || !flow || session.expired) return undefined;
+
+    const resumable =
+      flow.state !== undefined &&
+      flow.organizationId === session.organizationId &&
+      !this.isSuspendedFlowStale(flow);
+
+    session.suspendedFlow = undefined;
+    if (resumable) session.state = flow.state;
+    this.putSession(chatId, session);
+    this.scheduleSave();
+
+    return resumable ? flow.state : undefined;
   }
 
   /**
@@ -553,14 +858,21 @@ class SessionServiceImpl {
   public scanAndRefreshSessions(): void {
     const now = new Date();
     const sessionsToRefresh: [number, ExtendedSession][] = [];
-    const expiredSessions: number[] = [];
+    const expiredSessions: [number, ExtendedSession][] = [];
     const inactiveSessions: number[] = [];
+    const staleSessions: number[] = [];
 
     // Collect all sessions that need refreshing and identify expired/inactive ones
     sessions.forEach((session, chatId) => {
+      // Check for expired sessions whose suspended flow went stale
+      if (session.expired) {
+        if (this.isExpiredSessionStale(session)) staleSessions.push(chatId);
+        return;
+      }
+
       // Check for expired tokens
       if (now >= session.expireAt) {
-        expiredSessions.push(chatId);
+        expiredSessions.push([chatId, session]);
         return;
       }
 
@@ -580,19 +892,23 @@ class SessionServiceImpl {
 
     // Remove expired sessions
     if (expiredSessions.length > 0) {
-      logger.info(`Removing ${expiredSessions.length} expired sessions`);
-      expiredSessions.forEach((chatId) => {
-        sessions.delete(chatId);
-        sessionEvents.emit("session:expired", chatId);
+      logger.info(`Expiring ${expiredSessions.length} sessions`);
+      expiredSessions.forEach(([chatId, session]) => {
+        this.expireSession(chatId, session);
       });
-      sessionMetrics.totalExpired += expiredSessions.length;
+    }
+
+    // Remove expired sessions nobody resumed in time
+    if (staleSessions.length > 0) {
+      logger.info(`Removing ${staleSessions.length} stale expired sessions`);
+      staleSessions.forEach((chatId) => this.removeSession(chatId));
     }
 
     // Remove inactive sessions
     if (inactiveSessions.length > 0) {
       logger.info(`Removing ${inactiveSessions.length} inactive sessions`);
       inactiveSessions.forEach((chatId) => {
-        sessions.delete(chatId);
+        this.removeSession(chatId);
         sessionEvents.emit("session:inactive", chatId);
       });
       sessionMetrics.totalInactive += inactiveSessions.length;
@@ -608,10 +924,17 @@ class SessionServiceImpl {
     }
 
     // If any changes were made, schedule a save
-    if (expiredSessions.length > 0 || inactiveSessions.length > 0) {
+    if (
+      expiredSessions.length > 0 ||
+      inactiveSessions.length > 0 ||
+      staleSessions.length > 0
+    ) {
       this.scheduleSave();
     }
 
+    // Drop login flows nobody finished
+    PreAuthStateService.pruneExpired();
+
     // Also check session cache size periodically
     this.checkSessionCacheSize();
   }
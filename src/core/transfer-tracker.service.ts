@@ -0,0 +1,328 @@
+import TelegramBot from "node-telegram-bot-api";
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { SessionService } from "./session.service";
+import * as transferService from "../services/transfer.service";
+import { TrackedTransfer, TransferResponse, TransferStatus } from "../types";
+import { encryptData, decryptData } from "../utils/encryption";
+import {
+  formatTransferStatusFooter,
+  isFinalTransferStatus,
+} from "../utils/format";
+import {
+  TRACKED_TRANSFERS_FILE_PATH,
+  TRANSFER_TRACKER_TICK_MS,
+  TRANSFER_POLL_MIN_MS,
+  TRANSFER_POLL_MAX_MS,
+  TRANSFER_TRACK_MAX_AGE_MS,
+} from "../utils/constants";
+import { CopperxApiError } from "../utils/api";
+import { getModuleLogger } from "../utils/logger";
+
+// Create module logger
+const logger = getModuleLogger("transfer-tracker");
+
+/**
+ * Confirmation message of a tracked transfer
+ */
+export interface TrackedConfirmation {
+  messageId: number;
+  text: string; // Message text without the status footer
+  keyboard?: TrackedTransfer["keyboard"];
+}
+
+/**
+ * Tracks the status of transfers initiated by the bot
+ * Pending transfers are polled with a growing interval until they reach a
+ * final status. The confirmation message is then edited and a follow-up
+ * message is sent. Tracked transfers are stored encrypted on disk so
+ * tracking survives restarts.
+ */
+class TransferTrackerServiceImpl {
+  private transfers = new Map<string, TrackedTransfer>();
+  private bot?: TelegramBot;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor() {
+    this.loadTransfers();
+  }
+
+  /**
+   * Load tracked transfers from file
+   */
+  private loadTransfers(): void {
+    try {
+      if (!fs.existsSync(TRACKED_TRANSFERS_FILE_PATH)) return;
+
+      const encrypted = fs.readFileSync(TRACKED_TRANSFERS_FILE_PATH, "utf8");
+      const loaded = JSON.parse(
+        decryptData(encrypted, config.session.encryptionKey)
+      ) as TrackedTransfer[];
+
+      loaded.forEach((transfer) =>
+        this.transfers.set(transfer.transferId, transfer)
+      );
+      logger.info(`Loaded ${this.transfers.size} tracked transfers from file`);
+    } catch (error) {
+      logger.error("Failed to load tracked transfers:", error as Error);
+    }
+  }
+
+  /**
+   * Save tracked transfers to file
+   * Writes to a temporary file first so a crash never leaves a partial file.
+   */
+  private saveTransfers(): void {
+    try {
+      fs.mkdirSync(path.dirname(TRACKED_TRANSFERS_FILE_PATH), {
+        recursive: true,
+      });
+
+      const encrypted = encryptData(
+        JSON.stringify(Array.from(this.transfers.values())),
+        config.session.encryptionKey
+      );
+      const tmpPath = `${TRACKED_TRANSFERS_FILE_PATH}.tmp`;
+      fs.writeFileSync(tmpPath, encrypted);
+      fs.renameSync(tmpPath, TRACKED_TRANSFERS_FILE_PATH);
+    } catch (error) {
+      logger.error("Failed to save tracked transfers:", error as Error);
+    }
+  }
+
+  /**
+   * Start polling tracked transfers
+   * @param bot The Telegram bot instance used for status updates
+   */
+  public start(bot: TelegramBot): void {
+    this.bot = bot;
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        logger.error("Transfer tracker tick failed:", error);
+      });
+    }, TRANSFER_TRACKER_TICK_MS);
+
+    logger.info(
+      `Transfer tracker started with ${this.transfers.size} pending transfers`
+    );
+  }
+
+  /**
+   * Stop polling tracked transfers
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Track a transfer until it reaches a final status
+   * Transfers that are already final are not tracked.
+   * @param chatId The chat that initiated the transfer
+   * @param organizationId The account the transfer was sent from, which may
+   * not be the active one when it is checked
+   * @param transfer The transfer returned by the API
+   * @param summary Markdown description used in the follow-up message
+   * @param confirmation The confirmation message to edit on status changes
+   */
+  public track(
+    chatId: number,
+    organizationId: string,
+    transfer: TransferResponse,
+    summary: string,
+    confirmation?: TrackedConfirmation
+  ): void {
+    if (!transfer.id || isFinalTransferStatus(transfer.status)) return;
+
+    const now = Date.now();
+    this.transfers.set(transfer.id, {
+      transferId: transfer.id,
+      chatId,
+      organizationId,
+      status: transfer.status,
+      summary,
+      messageId: confirmation?.messageId,
+      messageText: confirmation?.text,
+      keyboard: confirmation?.keyboard,
+      checks: 0,
+      nextCheckAt: new Date(now + TRANSFER_POLL_MIN_MS).toISOString(),
+      createdAt: new Date(now).toISOString(),
+    });
+    this.saveTransfers();
+
+    logger.info(`Tracking transfer ${transfer.id} for chat ${chatId}`);
+  }
+
+  /**
+   * Check all transfers that are due
+   */
+  private async tick(): Promise<void> {
+    // A slow API must not cause overlapping checks
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      for (const tracked of Array.from(this.transfers.values())) {
+        const age = now - new Date(tracked.createdAt).getTime();
+        if (age > TRANSFER_TRACK_MAX_AGE_MS) {
+          logger.info(
+            `Stopped tracking transfer ${tracked.transferId} after max age`
+          );
+          this.transfers.delete(tracked.transferId);
+          this.saveTransfers();
+          continue;
+        }
+
+        if (new Date(tracked.nextCheckAt).getTime() <= now) {
+          await this.checkTransfer(tracked);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Fetch the status of a tracked transfer and report changes
+   */
+  private async checkTransfer(tracked: TrackedTransfer): Promise<void> {
+    const checks = tracked.checks + 1;
+    tracked.checks = checks;
+    tracked.nextCheckAt = new Date(
+      Date.now() +
+        Math.min(TRANSFER_POLL_MIN_MS * 2 ** checks, TRANSFER_POLL_MAX_MS)
+    ).toISOString();
+
+    // Without a session the transfer is checked again after the user logs
+    // in. Checks don't count as activity of the chat.
+    const session = tracked.organizationId
+      ? SessionService.getAccount(tracked.chatId, tracked.organizationId)
+      : SessionService.getSession(tracked.chatId);
+    if (!session) {
+      this.saveTransfers();
+      return;
+    }
+
+    let transfer: TransferResponse;
+    try {
+      transfer = await transferService.getTransfer(
+        session.token,
+        tracked.transferId
+      );
+    } catch (error) {
+      if (error instanceof CopperxApiError && error.status === 404) {
+        logger.warn(`Tracked transfer ${tracked.transferId} not found`);
+        this.transfers.delete(tracked.transferId);
+      } else {
+        logger.error(
+          `Failed to check transfer ${tracked.transferId}:`,
+          error as Error
+        );
+      }
+      this.saveTransfers();
+      return;
+    }
+
+    if (transfer.status !== tracked.status) {
+      logger.info(
+        `Transfer ${tracked.transferId} changed from ${tracked.status} to ${transfer.status}`
+      );
+      tracked.status = transfer.status;
+      await this.updateConfirmation(tracked);
+
+      if (isFinalTransferStatus(transfer.status)) {
+        this.transfers.delete(tracked.transferId);
+        await this.sendFollowUp(tracked);
+      }
+    }
+
+    this.saveTransfers();
+  }
+
+  /**
+   * Show the current status in the confirmation message
+   */
+  private async updateConfirmation(tracked: TrackedTransfer): Promise<void> {
+    if (!this.bot || !tracked.messageId || !tracked.messageText) return;
+
+    try {
+      await this.bot.editMessageText(
+        tracked.messageText + formatTransferStatusFooter(tracked.status),
+        {
+          chat_id: tracked.chatId,
+          message_id: tracked.messageId,
+          parse_mode: "Markdown",
+          reply_markup: tracked.keyboard
+            ? { inline_keyboard: tracked.keyboard }
+            : undefined,
+        }
+      );
+    } catch (error) {
+      // The message may have been deleted; the follow-up still informs the user
+      logger.warn(
+        `Failed to update confirmation of transfer ${tracked.transferId}:`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Notify the user that a transfer reached its final status
+   */
+  private async sendFollowUp(tracked: TrackedTransfer): Promise<void> {
+    if (!this.bot) return;
+
+    let header: string;
+    switch (tracked.status) {
+      case TransferStatus.SUCCESS:
+        header = "✅ *Transfer Completed*";
+        break;
+      case TransferStatus.REFUNDED:
+        header = "↩️ *Transfer Refunded*";
+        break;
+      case TransferStatus.CANCELED:
+        header = "❌ *Transfer Canceled*";
+        break;
+      default:
+        header = "❌ *Transfer Failed*";
+    }
+
+    try {
+      await this.bot.sendMessage(
+        tracked.chatId,
+        `${header}\n\n${tracked.summary}\nReference ID: ${tracked.transferId}`,
+        {
+          parse_mode: "Markdown",
+          reply_to_message_id: tracked.messageId,
+          allow_sending_without_reply: true,
+          reply_markup: {
+            inline_keyboard: [
+              [
+                {
+                  text: "🔎 View Details",
+                  callback_data: `history:tx:${tracked.transferId}`,
+                },
+              ],
+              [{ text: "💰 View Balance", callback_data: "action:balance" }],
+            ],
+          },
+        }
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to send status update for transfer ${tracked.transferId}:`,
+        error as Error
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const TransferTrackerService = new TransferTrackerServiceImpl();
@@ -0,0 +1,487 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import {
+  GroupTreasury,
+  TreasuryActor,
+  TreasuryMember,
+  TreasuryRequest,
+  TreasuryRole,
+  TreasuryTransfer,
+} from "../types";
+import { encryptData, decryptData } from "../utils/encryption";
+import {
+  TREASURY_FILE_PATH,
+  TREASURY_REQUEST_TTL_MS,
+  TREASURY_REQUESTS_MAX,
+} from "../utils/constants";
+import { getModuleLogger } from "../utils/logger";
+import { AuditLogService } from "./audit-log.service";
+import { SessionService, sessionEvents } from "./session.service";
+
+// Create module logger
+const logger = getModuleLogger("treasury-service");
+
+/**
+ * Reasons a vote on a transfer request is refused
+ */
+export type TreasuryVoteError =
+  | "notFound"
+  | "closed"
+  | "expired"
+  | "notMember"
+  | "notApprover"
+  | "ownRequest"
+  | "alreadyVoted";
+
+/**
+ * Result of a vote on a transfer request
+ */
+export type TreasuryVoteResult =
+  | { ok: true; request: TreasuryRequest }
+  | { ok: false; error: TreasuryVoteError };
+
+/**
+ * Stores group treasuries, their members and their transfer requests
+ * A group treasury sends transfers from the account its owner linked to the
+ * group, once the required number of approvers other than the requester
+ * approve them. A single rejection by an approver ends a request.
+ */
+class TreasuryServiceImpl {
+  private treasuries = new Map<number, GroupTreasury>();
+  private flowUsers = new Map<number, number>(); // Member driving the group's current flow
+
+  constructor() {
+    this.loadTreasuries();
+
+    // Groups keep a copy of their owner's token, so logging out privately
+    // also logs out the groups linked to that account
+    sessionEvents.on("session:deleted", (chatId: number) =>
+      this.logOutOwnedGroups(chatId)
+    );
+    sessionEvents.on(
+      "session:accountLoggedOut",
+      (chatId: number, organizationId: string) =>
+        this.logOutOwnedGroups(chatId, organizationId)
+    );
+  }
+
+  /**
+   * Load treasuries from file
+   */
+  private loadTreasuries(): void {
+    try {
+      if (!fs.existsSync(TREASURY_FILE_PATH)) return;
+
+      const encrypted = fs.readFileSync(TREASURY_FILE_PATH, "utf8");
+      const loaded = JSON.parse(
+        decryptData(encrypted, config.session.encryptionKey)
+      ) as GroupTreasury[];
+
+      loaded.forEach((treasury) =>
+        this.treasuries.set(treasury.chatId, treasury)
+      );
+      logger.info(`Loaded ${this.treasuries.size} group treasuries`);
+      this.failInterruptedRequests();
+    } catch (error) {
+      logger.error("Failed to load group treasuries:", error as Error);
+    }
+  }
+
+  /**
+   * Fail requests left approved by a restart while they were being sent
+   * Whether the transfer went out is unknown, so it is never retried.
+   */
+  private failInterruptedRequests(): void {
+    let interrupted = 0;
+    this.treasuries.forEach((treasury) =>
+      treasury.requests
+        .filter((request) => request.status === "approved")
+        .forEach((request) => {
+          request.status = "failed";
+          request.error =
+            "The bot restarted while sending this transfer. Check the transfer history before requesting it again.";
+          request.updatedAt = new Date().toISOString();
+          interrupted++;
+          logger.warn(
+            `Treasury request ${request.id} in group ${treasury.chatId} was interrupted`
+          );
+        })
+    );
+    if (interrupted > 0) this.saveTreasuries();
+  }
+
+  /**
+   * Save treasuries to file
+   * Writes to a temporary file first so a crash never leaves a partial file.
+   */
+  private saveTreasuries(): void {
+    try {
+      fs.mkdirSync(path.dirname(TREASURY_FILE_PATH), { recursive: true });
+
+      const encrypted = encryptData(
+        JSON.stringify(Array.from(this.treasuries.values())),
+        config.session.encryptionKey
+      );
+      const tmpPath = `${TREASURY_FILE_PATH}.tmp`;
+      fs.writeFileSync(tmpPath, encrypted);
+      fs.renameSync(tmpPath, TREASURY_FILE_PATH);
+    } catch (error) {
+      logger.error("Failed to save group treasuries:", error as Error);
+    }
+  }
+
+  /**
+   * Log out the groups linked by a user
+   * @param ownerId The user, whose private chat has the same ID
+   * @param organizationId Only log out groups linked to this account; all
+   * by default
+   */
+  private logOutOwnedGroups(ownerId: number, organizationId?: string): void {
+    this.treasuries.forEach((treasury) => {
+      if (
+        treasury.ownerId !== ownerId ||
+        (organizationId && treasury.organizationId !== organizationId)
+      ) {
+        return;
+      }
+
+      SessionService.deleteSession(treasury.chatId);
+      AuditLogService.record(
+        {
+          action: "auth.logout",
+          chatId: treasury.chatId,
+          organizationId: treasury.organizationId,
+          payload: { reason: "Treasury owner logged out" },
+        },
+        { status: "success" }
+      );
+      logger.info(
+        `Group ${treasury.chatId} logged out with its owner ${ownerId}`
+      );
+    });
+  }
+
+  /**
+   * Get the treasury of a group chat
+   */
+  public getTreasury(chatId: number): GroupTreasury | undefined {
+    return this.treasuries.get(chatId);
+  }
+
+  /**
+   * Get the chat whose spending limits apply to transfers of a chat
+   * Treasury groups send from their owner's account, so the limits the
+   * owner set in their private chat apply.
+   */
+  public getLimitsChatId(chatId: number): number {
+    return this.treasuries.get(chatId)?.ownerId ?? chatId;
+  }
+
+  /**
+   * Link a Copperx account to a group chat
+   * Linking again keeps the members and requests; only the account and
+   * owner change.
+   * @param chatId The group chat ID
+   * @param owner The member who links the account
+   * @param account The linked Copperx account
+   */
+  public linkTreasury(
+    chatId: number,
+    owner: TreasuryActor,
+    account: { organizationId: string; email?: string }
+  ): GroupTreasury {
+    const now = new Date().toISOString();
+    const existing = this.treasuries.get(chatId);
+    const members = (existing?.members || []).filter(
+      (member) => member.userId !== owner.userId
+    );
+    members.unshift({ ...owner, role: "approver", addedAt: now });
+
+    const treasury: GroupTreasury = {
+      chatId,
+      organizationId: account.organizationId,
+      email: account.email,
+      ownerId: owner.userId,
+      requiredApprovals: existing?.requiredApprovals || 1,
+      members,
+      requests: existing?.requests || [],
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    this.treasuries.set(chatId, treasury);
+    this.saveTreasuries();
+    return treasury;
+  }
+
+  /**
+   * Remove the treasury of a group chat
+   */
+  public unlinkTreasury(chatId: number): void {
+    this.treasuries.delete(chatId);
+    this.flowUsers.delete(chatId);
+    this.saveTreasuries();
+  }
+
+  /**
+   * Get a member of a group treasury
+   */
+  public getMember(
+    treasury: GroupTreasury,
+    userId: number | undefined
+  ): TreasuryMember | undefined {
+    return treasury.members.find((member) => member.userId === userId);
+  }
+
+  /**
+   * Count the approvers of a group treasury
+   * @param excludeUserId A member whose approval doesn't count, e.g. the
+   * requester
+   */
+  public countApprovers(
+    treasury: GroupTreasury,
+    excludeUserId?: number
+  ): number {
+    return treasury.members.filter(
+      (member) => member.role === "approver" && member.userId !== excludeUserId
+    ).length;
+  }
+
+  /**
+   * Add a member or change their role
+   */
+  public setMember(
+    chatId: number,
+    actor: TreasuryActor,
+    role: TreasuryRole
+  ): void {
+    const treasury = this.treasuries.get(chatId);
+    if (!treasury) return;
+
+    const member = this.getMember(treasury, actor.userId);
+    if (member) {
+      member.name = actor.name;
+      member.role = role;
+    } else {
+      treasury.members.push({
+        ...actor,
+        role,
+        addedAt: new Date().toISOString(),
+      });
+    }
+    treasury.updatedAt = new Date().toISOString();
+    this.saveTreasuries();
+  }
+
+  /**
+   * Remove a member
+   */
+  public removeMember(chatId: number, userId: number): void {
+    const treasury = this.treasuries.get(chatId);
+    if (!treasury) return;
+
+    treasury.members = treasury.members.filter(
+      (member) => member.userId !== userId
+    );
+    treasury.updatedAt = new Date().toISOString();
+    this.saveTreasuries();
+  }
+
+  /**
+   * Set how many approvals new transfer requests need
+   */
+  public setRequiredApprovals(chatId: number, requiredApprovals: number): void {
+    const treasury = this.treasuries.get(chatId);
+    if (!treasury) return;
+
+    treasury.requiredApprovals = requiredApprovals;
+    treasury.updatedAt = new Date().toISOString();
+    this.saveTreasuries();
+  }
+
+  /**
+   * Create a transfer request waiting for approvals
+   * @param chatId The group chat ID
+   * @param requestedBy The member asking for the transfer
+   * @param transfer The transfer to send once approved
+   */
+  public createRequest(
+    chatId: number,
+    requestedBy: TreasuryActor,
+    transfer: TreasuryTransfer
+  ): TreasuryRequest | undefined {
+    const treasury = this.treasuries.get(chatId);
+    if (!treasury) return undefined;
+
+    const now = new Date();
+    const request: TreasuryRequest = {
+      id: crypto.randomBytes(4).toString("hex"),
+      requestedBy,
+      transfer,
+      requiredApprovals: treasury.requiredApprovals,
+      approvals: [],
+      status: "pending",
+      createdAt: now.toISOString(),
+      expiresAt: new Date(
+        now.getTime() + TREASURY_REQUEST_TTL_MS
+      ).toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    treasury.requests = [...treasury.requests, request].slice(
+      -TREASURY_REQUESTS_MAX
+    );
+    this.saveTreasuries();
+    return request;
+  }
+
+  /**
+   * Get the pending transfer requests of a group, expiring old ones
+   */
+  public getPendingRequests(chatId: number): TreasuryRequest[] {
+    const treasury = this.treasuries.get(chatId);
+    if (!treasury) return [];
+
+    const expired = treasury.requests.filter((request) =>
+      this.expireIfDue(request)
+    );
+    if (expired.length > 0) this.saveTreasuries();
+    return treasury.requests.filter((request) => request.status === "pending");
+  }
+
+  /**
+   * Change a transfer request
+   */
+  public updateRequest(
+    chatId: number,
+    requestId: string,
+    changes: Partial<
+      Pick<TreasuryRequest, "status" | "messageId" | "transferId" | "error">
+    >
+  ): TreasuryRequest | undefined {
+    const request = this.findRequest(chatId, requestId);
+    if (!request) return undefined;
+
+    Object.assign(request, changes, { updatedAt: new Date().toISOString() });
+    this.saveTreasuries();
+    return request;
+  }
+
+  /**
+   * Cancel the pending requests of a group, e.g. when it is unlinked
+   * @returns The cancelled requests
+   */
+  public cancelPendingRequests(chatId: number): TreasuryRequest[] {
+    const pending = this.getPendingRequests(chatId);
+    pending.forEach((request) => {
+      request.status = "cancelled";
+      request.updatedAt = new Date().toISOString();
+    });
+    this.saveTreasuries();
+    return pending;
+  }
+
+  /**
+   * Approve or reject a transfer request
+   * Only approvers vote, once each and never on their own request; the
+   * requester can still reject it to cancel it. The request is approved
+   * once it has the approvals required when it was made.
+   * @param chatId The group chat ID
+   * @param requestId The request ID
+   * @param voter The member voting
+   * @param approve Whether the member approves or rejects the request
+   */
+  public vote(
+    chatId: number,
+    requestId: string,
+    voter: TreasuryActor,
+    approve: boolean
+  ): TreasuryVoteResult {
+    const treasury = this.treasuries.get(chatId);
+    const request = this.findRequest(chatId, requestId);
+    if (!treasury || !request) return { ok: false, error: "notFound" };
+
+    if (this.expireIfDue(request)) {
+      this.saveTreasuries();
+      return { ok: false, error: "expired" };
+    }
+    if (request.status !== "pending") return { ok: false, error: "closed" };
+
+    const member = this.getMember(treasury, voter.userId);
+    if (!member) return { ok: false, error: "notMember" };
+
+    const isRequester = request.requestedBy.userId === voter.userId;
+    if (approve && isRequester) return { ok: false, error: "ownRequest" };
+    if (member.role !== "approver" && !isRequester) {
+      return { ok: false, error: "notApprover" };
+    }
+    if (request.approvals.some((vote) => vote.userId === voter.userId)) {
+      return { ok: false, error: "alreadyVoted" };
+    }
+
+    const now = new Date().toISOString();
+    if (approve) {
+      request.approvals.push({ ...voter, at: now });
+      if (request.approvals.length >= request.requiredApprovals) {
+        request.status = "approved";
+      }
+    } else {
+      request.rejectedBy = { ...voter, at: now };
+      request.status = isRequester ? "cancelled" : "rejected";
+    }
+    request.updatedAt = now;
+
+    this.saveTreasuries();
+    return { ok: true, request };
+  }
+
+  /**
+   * Get the member driving the current flow of a group
+   * Kept in memory only; after a restart the next member to act takes over.
+   */
+  public getFlowUser(chatId: number): number | undefined {
+    return this.flowUsers.get(chatId);
+  }
+
+  /**
+   * Set the member driving the current flow of a group
+   */
+  public setFlowUser(chatId: number, userId: number): void {
+    this.flowUsers.set(chatId, userId);
+  }
+
+  /**
+   * Find a transfer request of a group
+   */
+  private findRequest(
+    chatId: number,
+    requestId: string
+  ): TreasuryRequest | undefined {
+    return this.treasuries
+      .get(chatId)
+      ?.requests.find((request) => request.id === requestId);
+  }
+
+  /**
+   * Expire a pending request past its expiry
+   * @returns Whether the request expired now
+   */
+  private expireIfDue(request: TreasuryRequest): boolean {
+    if (
+      request.status !== "pending" ||
+      new Date(request.expiresAt).getTime() > Date.now()
+    ) {
+      return false;
+    }
+
+    request.status = "expired";
+    request.updatedAt = new Date().toISOString();
+    logger.info(`Treasury request ${request.id} expired`);
+    return true;
+  }
+}
+
+// Export singleton instance
+export const TreasuryService = new TreasuryServiceImpl();
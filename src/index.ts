@@ -1,6 +1,8 @@
 import { startBot } from "./core/bot";
 import { startServer } from "./server";
 import { registerAllCommands } from "./commands";
+import { SchedulerService } from "./core/scheduler.service";
+import { TransferTrackerService } from "./core/transfer-tracker.service";
 import { getModuleLogger } from "./utils/logger";
 
 // Create module logger
@@ -20,8 +22,14 @@ function init() {
   // Register all commands
   registerAllCommands(bot);
 
+  // Start running scheduled transfers
+  SchedulerService.start(bot);
+
+  // Start tracking the status of submitted transfers
+  TransferTrackerService.start(bot);
+
   // Start HTTP server
-  startServer();
+  startServer(bot);
 
   logger.info("Application started successfully");
 }
@@ -1,15 +1,206 @@
 import http from "http";
-import { PORT } from "./utils/constants";
+import crypto from "crypto";
+import TelegramBot from "node-telegram-bot-api";
+import { config } from "./config";
+import { PORT, WEBHOOK_MAX_BODY_BYTES } from "./utils/constants";
+import { isWebhookMode } from "./core/bot";
+import { HealthReport, HealthService } from "./core/health.service";
+import { getModuleLogger } from "./utils/logger";
+import { metricsRegistry } from "./utils/metrics";
+
+// Create module logger
+const logger = getModuleLogger("server");
+
+/**
+ * Compare the secret token header against the configured secret in constant time
+ * @param header The X-Telegram-Bot-Api-Secret-Token header value
+ * @returns True if the header matches the configured secret
+ */
+function isValidSecretToken(header: string | string[] | undefined): boolean {
+  if (typeof header !== "string") return false;
+
+  const expected = Buffer.from(config.webhook.secretToken);
+  const received = Buffer.from(header);
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Read a request body up to a maximum size
+ * @param req The incoming request
+ * @param maxBytes Maximum number of bytes to accept
+ * @returns Promise with the body as a string
+ */
+function readBody(
+  req: http.IncomingMessage,
+  maxBytes: number
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let totalBytes = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      totalBytes += chunk.length;
+      if (totalBytes > maxBytes) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Handle an update delivered by Telegram to the webhook path
+ * Updates are passed to bot.processUpdate, which emits the same message and
+ * callback_query events that polling does, so dispatch is shared.
+ */
+async function handleWebhookRequest(
+  bot: TelegramBot,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  if (req.method !== "POST") {
+    res.statusCode = 405;
+    res.setHeader("Allow", "POST");
+    res.end();
+    return;
+  }
+
+  if (!isValidSecretToken(req.headers["x-telegram-bot-api-secret-token"])) {
+    logger.warn("Rejected webhook request with invalid secret token");
+    res.statusCode = 401;
+    res.end();
+    return;
+  }
+
+  let update: TelegramBot.Update;
+  try {
+    update = JSON.parse(await readBody(req, WEBHOOK_MAX_BODY_BYTES));
+  } catch (error: any) {
+    logger.warn("Rejected malformed webhook request:", {
+      error: error.message,
+    });
+    res.statusCode = 400;
+    res.end();
+    return;
+  }
+
+  // Acknowledge first so slow handlers don't make Telegram redeliver the update
+  res.statusCode = 200;
+  res.end();
+
+  try {
+    bot.processUpdate(update);
+  } catch (error: any) {
+    logger.error(
+      `Error processing webhook update ${update.update_id}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Serve all metrics in the Prometheus text exposition format
+ */
+function handleMetricsRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): void {
+  if (req.method !== "GET") {
+    res.statusCode = 405;
+    res.setHeader("Allow", "GET");
+    res.end();
+    return;
+  }
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  res.end(metricsRegistry.render());
+}
+
+/**
+ * Serve a liveness or readiness report as JSON
+ * Responds 200 when all checks pass and 503 otherwise.
+ */
+async function handleHealthRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  getReport: () => HealthReport | Promise<HealthReport>
+): Promise<void> {
+  if (req.method !== "GET") {
+    res.statusCode = 405;
+    res.setHeader("Allow", "GET");
+    res.end();
+    return;
+  }
+
+  const report = await getReport();
+  res.statusCode = report.ok ? 200 : 503;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(
+    JSON.stringify({
+      status: report.ok ? "ok" : "fail",
+      uptime: Math.round(process.uptime()),
+      checks: report.checks,
+    })
+  );
+}
+
+export function startServer(bot: TelegramBot) {
+  const webhookMode = isWebhookMode();
+
+  const server = http.createServer((req, res) => {
+    const path = (req.url || "").split("?")[0];
+
+    if (webhookMode && path === config.webhook.path) {
+      handleWebhookRequest(bot, req, res).catch((error) => {
+        logger.error("Webhook request failed:", error);
+        if (!res.headersSent) {
+          res.statusCode = 500;
+          res.end();
+        }
+      });
+      return;
+    }
+
+    if (path === "/healthz" || path === "/readyz") {
+      const getReport =
+        path === "/healthz"
+          ? () => HealthService.getLiveness()
+          : () => HealthService.getReadiness();
+      handleHealthRequest(req, res, getReport).catch((error) => {
+        logger.error(`Health check ${path} failed:`, error);
+        if (!res.headersSent) {
+          res.statusCode = 500;
+          res.end();
+        }
+      });
+      return;
+    }
+
+    if (path === "/metrics") {
+      handleMetricsRequest(req, res);
+      return;
+    }
 
-export function startServer() {
-  const server = http.createServer((_req, res) => {
     res.statusCode = 200;
     res.setHeader("Content-Type", "text/plain");
     res.end("CopperX Telegram Bot is running!\n");
   });
 
   server.listen(PORT, () => {
-    console.log(`HTTP server running on port ${PORT} for health checks`);
+    logger.info(
+      webhookMode
+        ? `HTTP server running on port ${PORT} for health checks and webhook updates`
+        : `HTTP server running on port ${PORT} for health checks`
+    );
   });
 
   return server;
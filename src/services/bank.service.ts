@@ -0,0 +1,68 @@
+import * as api from "../utils/api";
+import {
+  Account,
+  AccountType,
+  AccountsResponse,
+  CreateBankAccountRequest,
+} from "../types/transfer";
+
+/**
+ * Get the user's bank accounts
+ * @param token The authentication token
+ * @returns Promise with the bank accounts, default account first
+ */
+export async function getBankAccounts(token: string): Promise<Account[]> {
+  const response = await api.get<AccountsResponse>("/api/accounts", token);
+  return (response?.data || [])
+    .filter((account) => account.type === AccountType.BANK)
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * Add a bank account
+ * @param token The authentication token
+ * @param request The bank account details
+ * @returns Promise with the created account
+ */
+export async function createBankAccount(
+  token: string,
+  request: CreateBankAccountRequest
+): Promise<Account> {
+  return api.post<Account>(
+    "/api/accounts",
+    { ...request, type: AccountType.BANK },
+    token
+  );
+}
+
+/**
+ * Make a bank account the default account
+ * @param token The authentication token
+ * @param accountId The account ID
+ * @returns Promise with the updated account
+ */
+export async function setDefaultBankAccount(
+  token: string,
+  accountId: string
+): Promise<Account> {
+  return api.post<Account>(
+    `/api/accounts/${encodeURIComponent(accountId)}/default`,
+    {},
+    token
+  );
+}
+
+/**
+ * Delete a bank account
+ * @param token The authentication token
+ * @param accountId The account ID
+ */
+export async function deleteBankAccount(
+  token: string,
+  accountId: string
+): Promise<void> {
+  await api.del<unknown>(
+    `/api/accounts/${encodeURIComponent(accountId)}`,
+    token
+  );
+}
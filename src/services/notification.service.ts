@@ -1,8 +1,12 @@
 import Pusher from "pusher-js";
-import axios from "axios";
 import TelegramBot from "node-telegram-bot-api";
 import { config } from "../config";
+import * as api from "../utils/api";
 import { createActionKeyboard } from "../utils/keyboard";
+import { getModuleLogger } from "../utils/logger";
+
+// Create module logger
+const logger = getModuleLogger("notification-service");
 
 interface PusherAuthorizer {
   authorize: (
@@ -15,6 +19,17 @@ interface PusherChannel {
   bind: (event: string, callback: (data?: any) => void) => void;
 }
 
+// Pusher clients of all subscriptions, for health checks
+const pusherClients = new Set<Pusher>();
+
+/**
+ * Get the connection state of every Pusher client
+ * @returns States such as "connected", "connecting" or "unavailable"
+ */
+export function getPusherConnectionStates(): string[] {
+  return Array.from(pusherClients).map((client) => client.connection.state);
+}
+
 /**
  * Initialize Pusher and subscribe to deposit notifications
  * @param chatId The Telegram chat ID
@@ -38,37 +53,35 @@ export function subscribeToDepositNotifications(
           callback: (error: Error | null, authData: any) => void
         ): Promise<void> => {
           try {
-            const response = await axios.post(
-              `${config.apiBaseUrl}/api/notifications/auth`,
+            const authData = await api.post<any>(
+              "/api/notifications/auth",
               {
                 socket_id: socketId,
                 channel_name: channel.name,
               },
-              {
-                headers: {
-                  Authorization: `Bearer ${token}`,
-                },
-              }
+              token
             );
 
-            if (response.data) {
-              callback(null, response.data);
+            if (authData) {
+              callback(null, authData);
             } else {
               callback(new Error("Pusher authentication failed"), null);
             }
           } catch (error) {
-            console.error("Pusher authorization error:", error);
+            logger.error("Pusher authorization error:", error as Error);
             callback(error as Error, null);
           }
         },
       }),
     });
 
+    pusherClients.add(pusherClient);
+
     // Subscribe to organization's private channel
     const channel = pusherClient.subscribe(`private-org-${organizationId}`);
 
     channel.bind("pusher:subscription_succeeded", () => {
-      console.log(
+      logger.info(
         `Successfully subscribed to organization channel for chat ID ${chatId}`
       );
 
@@ -85,7 +98,7 @@ export function subscribeToDepositNotifications(
     });
 
     channel.bind("pusher:subscription_error", (error: any) => {
-      console.error("Subscription error:", error);
+      logger.error("Subscription error:", error);
       bot.sendMessage(
         chatId,
         "❌ Failed to subscribe to notifications. Please try again later.",
@@ -117,7 +130,7 @@ export function subscribeToDepositNotifications(
 
     return channel;
   } catch (error) {
-    console.error("Error setting up Pusher:", error);
+    logger.error("Error setting up Pusher:", error as Error);
     bot.sendMessage(
       chatId,
       "❌ Failed to set up notifications. Please try again later.",
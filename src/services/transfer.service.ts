@@ -3,9 +3,121 @@ import {
   TransferResponse,
   TransferHistoryResponse,
   PurposeCode,
+  BatchTransferRequest,
+  BatchTransferResponse,
+  BatchTransferResponseItem,
+  TransferHistoryFilters,
+  Account,
+  OfframpQuoteRequest,
+  OfframpQuoteResponse,
+  OfframpQuotePayload,
+  OfframpTransferRequest,
 } from "../types/transfer";
-import { SourceOfFunds, WalletBalancesResponse } from "../types/wallet";
+import {
+  BalanceResponse,
+  SourceOfFunds,
+  Wallet,
+  WalletBalancesResponse,
+} from "../types/wallet";
 import * as walletService from "./wallet.service";
+import { getTransferCounterparties } from "../utils/helpers";
+import {
+  HISTORY_FETCH_PAGE_SIZE,
+  HISTORY_MAX_FETCH_PAGES,
+} from "../utils/constants";
+import {
+  Amount,
+  compareAmounts,
+  fromApiAmount,
+  isPositiveAmount,
+  amountToString,
+  parseAmount,
+  toAmount,
+  toApiAmount,
+} from "../utils/money";
+import { getModuleLogger } from "../utils/logger";
+import { metricsRegistry } from "../utils/metrics";
+
+// Create module logger
+const logger = getModuleLogger("transfer-service");
+
+// Submitted transfers by type ("email", "wallet", "bank", "batch" or
+// "deposit") and the status the API returned, "failed" if it rejected them
+const transfersSubmitted = metricsRegistry.counter(
+  "copperx_bot_transfers_total",
+  "Transfers submitted through the bot by type and status"
+);
+const transferVolume = metricsRegistry.counter(
+  "copperx_bot_transfer_volume_total",
+  "Amount of transfers accepted by the API by type, status and currency"
+);
+
+// Amount limits of transfers and deposits
+const MIN_TRANSFER_AMOUNT = toAmount("1");
+const MAX_TRANSFER_AMOUNT = toAmount("50000");
+
+/**
+ * Validate a transfer amount and convert it to the API format
+ * @param amount The decimal amount, e.g. "1.5"
+ * @param label The kind of operation used in limit errors
+ * @returns Integer string with 8 decimal places, e.g. "150000000"
+ */
+function toApiTransferAmount(
+  amount: string,
+  label: string = "transfer"
+): string {
+  const parsedAmount = parseAmount(amount);
+  if (parsedAmount === undefined || !isPositiveAmount(parsedAmount)) {
+    throw new Error("Amount must be a positive number");
+  }
+
+  // Check if amount is within allowed range (1 USDC to 50,000 USDC)
+  if (compareAmounts(parsedAmount, MIN_TRANSFER_AMOUNT) < 0) {
+    throw new Error(`Minimum ${label} amount is 1 USDC`);
+  }
+  if (compareAmounts(parsedAmount, MAX_TRANSFER_AMOUNT) > 0) {
+    throw new Error(`Maximum ${label} amount is 50,000 USDC`);
+  }
+
+  return toApiAmount(parsedAmount);
+}
+
+/**
+ * Record a submitted transfer in the transfer metrics
+ * @param type The kind of transfer
+ * @param transfer The transfer returned by the API, if it was accepted
+ */
+function recordTransfer(type: string, transfer?: TransferResponse): void {
+  const status = transfer?.status ? String(transfer.status) : "failed";
+  transfersSubmitted.inc({ type, status });
+
+  if (transfer?.amount) {
+    transferVolume.inc(
+      { type, status, currency: transfer.currency || "USDC" },
+      Number(amountToString(parseApiAmount(transfer.amount)))
+    );
+  }
+}
+
+/**
+ * Submit a transfer to the API and record it in the transfer metrics
+ * @param type The kind of transfer
+ * @param submit Sends the request
+ * @returns The transfer returned by the API
+ */
+async function submitTransfer(
+  type: string,
+  submit: () => Promise<TransferResponse>
+): Promise<TransferResponse> {
+  try {
+    const transfer = await submit();
+    recordTransfer(type, transfer);
+    return transfer;
+  } catch (error) {
+    recordTransfer(type);
+    throw error;
+  }
+}
 
 /**
  * Send funds to an email address
@@ -14,6 +126,8 @@ import * as walletService from "./wallet.service";
  * @param amount The amount to send
  * @param currency The currency code (default: "USDC")
  * @param purposeCode The purpose code (default: "send")
+ * @param idempotencyKey Key that identifies the transfer to the API; a new
+ * one by default
  * @returns Promise with the response
  */
 export async function sendToEmail(
@@ -21,38 +135,25 @@ export async function sendToEmail(
   email: string,
   amount: string,
   currency: string = "USDC",
-  purposeCode: string = PurposeCode.SELF
+  purposeCode: string = PurposeCode.SELF,
+  idempotencyKey?: string
 ): Promise<TransferResponse> {
-  // Validate the amount before sending
-  const parsedAmount = parseFloat(amount);
-  if (isNaN(parsedAmount) || parsedAmount <= 0) {
-    throw new Error("Amount must be a positive number");
-  }
-
-  // Check if amount is within allowed range (1 USDC to 50,000 USDC)
-  if (parsedAmount < 1) {
-    throw new Error("Minimum transfer amount is 1 USDC");
-  }
-  if (parsedAmount > 50000) {
-    throw new Error("Maximum transfer amount is 50,000 USDC");
-  }
-
   // Convert decimal amount (e.g., "1.5" USDC) to API required format (integer string with 8 decimal places)
   // For example, 1.5 USDC -> "150000000"
-  const scaledAmount = (parsedAmount * 100000000).toFixed(0);
-
-  // Debug log to verify the conversion
-  console.log(`Converting ${amount} USDC to API format: ${scaledAmount}`);
+  const scaledAmount = toApiTransferAmount(amount);
 
-  return await api.post(
-    "/api/transfers/send",
-    {
-      email,
-      amount: scaledAmount, // Scaled amount as string
-      currency,
-      purposeCode,
-    },
-    token
+  return await submitTransfer("email", () =>
+    api.post(
+      "/api/transfers/send",
+      {
+        email,
+        amount: scaledAmount, // Scaled amount as string
+        currency,
+        purposeCode,
+      },
+      token,
+      { idempotencyKey }
+    )
   );
 }
 
@@ -63,6 +164,8 @@ export async function sendToEmail(
  * @param amount The amount to send
  * @param currency The currency code (default: "USDC")
  * @param purposeCode The purpose code (default: "self")
+ * @param idempotencyKey Key that identifies the transfer to the API; a new
+ * one by default
  * @returns Promise with the response
  */
 export async function sendToWallet(
@@ -70,34 +173,24 @@ export async function sendToWallet(
   walletAddress: string,
   amount: string,
   currency: string = "USDC",
-  purposeCode: string = PurposeCode.SELF
+  purposeCode: string = PurposeCode.SELF,
+  idempotencyKey?: string
 ): Promise<TransferResponse> {
-  // Validate the amount before sending
-  const parsedAmount = parseFloat(amount);
-  if (isNaN(parsedAmount) || parsedAmount <= 0) {
-    throw new Error("Amount must be a positive number");
-  }
-
-  // Check if amount is within allowed range (1 USDC to 50,000 USDC)
-  if (parsedAmount < 1) {
-    throw new Error("Minimum transfer amount is 1 USDC");
-  }
-  if (parsedAmount > 50000) {
-    throw new Error("Maximum transfer amount is 50,000 USDC");
-  }
-
   // Convert decimal amount to API required format (integer string with 8 decimal places)
-  const scaledAmount = (parsedAmount * 100000000).toFixed(0);
+  const scaledAmount = toApiTransferAmount(amount);
 
-  return await api.post(
-    "/api/transfers/send",
-    {
-      walletAddress,
-      amount: scaledAmount, // Scaled amount as string
-      currency,
-      purposeCode,
-    },
-    token
+  return await submitTransfer("wallet", () =>
+    api.post(
+      "/api/transfers/send",
+      {
+        walletAddress,
+        amount: scaledAmount, // Scaled amount as string
+        currency,
+        purposeCode,
+      },
+      token,
+      { idempotencyKey }
+    )
   );
 }
 
@@ -117,75 +210,247 @@ export async function initiateDeposit(
   sourceOfFunds: string = SourceOfFunds.SALARY,
   currency: string = "USDC"
 ): Promise<TransferResponse> {
-  // Validate the amount before sending
-  const parsedAmount = parseFloat(amount);
-  if (isNaN(parsedAmount) || parsedAmount <= 0) {
-    throw new Error("Amount must be a positive number");
-  }
-
-  // Check if amount is within allowed range (1 USDC to 50,000 USDC)
-  if (parsedAmount < 1) {
-    throw new Error("Minimum deposit amount is 1 USDC");
-  }
-  if (parsedAmount > 50000) {
-    throw new Error("Maximum deposit amount is 50,000 USDC");
-  }
-
   // Convert decimal amount to API required format (integer string with 8 decimal places)
-  const scaledAmount = (parsedAmount * 100000000).toFixed(0);
-
-  return await api.post(
-    "/api/transfers/deposit",
-    {
-      amount: scaledAmount, // Scaled amount as string
-      sourceOfFunds,
-      depositChainId: parseInt(chainId, 10),
-      currency,
-    },
-    token
+  const scaledAmount = toApiTransferAmount(amount, "deposit");
+
+  return await submitTransfer("deposit", () =>
+    api.post(
+      "/api/transfers/deposit",
+      {
+        amount: scaledAmount, // Scaled amount as string
+        sourceOfFunds,
+        depositChainId: parseInt(chainId, 10),
+        currency,
+      },
+      token
+    )
   );
 }
 
 /**
  * Get transfer history
+ * Type, status and date filters are passed to the API; use
+ * matchesTransferFilters to apply the remaining filters to the results.
  * @param token The authentication token
  * @param page The page number (default: 1)
  * @param limit The number of transfers per page (default: 10)
+ * @param filters Optional history filters
  * @returns Promise with transfer history
  */
 export async function getTransferHistory(
   token: string,
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  filters: TransferHistoryFilters = {}
 ): Promise<TransferHistoryResponse> {
-  return await api.get(`/api/transfers?page=${page}&limit=${limit}`, token);
+  const params = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+  });
+
+  if (filters.type) params.append("type", filters.type);
+  if (filters.status) params.append("status", filters.status);
+  if (filters.startDate) params.append("startDate", filters.startDate);
+  if (filters.endDate) params.append("endDate", filters.endDate);
+
+  return await api.get(`/api/transfers?${params.toString()}`, token);
+}
+
+/**
+ * Convert an API amount (integer string with 8 decimal places) to an amount
+ * @param amount The scaled amount returned by the API
+ * @returns The exact amount
+ */
+export function parseApiAmount(amount: string): Amount {
+  return fromApiAmount(amount);
+}
+
+/**
+ * Check whether any filter has to be applied on the client
+ * @param filters The history filters
+ * @returns True if amount or counterparty filters are set
+ */
+export function hasClientSideFilters(
+  filters: TransferHistoryFilters
+): boolean {
+  return (
+    filters.minAmount !== undefined ||
+    filters.maxAmount !== undefined ||
+    !!filters.counterparty
+  );
 }
 
 /**
- * Withdraw funds to a bank account
+ * Check whether a transfer matches the history filters
+ * @param transfer The transfer to check
+ * @param filters The history filters
+ * @returns True if the transfer matches every filter that is set
+ */
+export function matchesTransferFilters(
+  transfer: TransferResponse,
+  filters: TransferHistoryFilters
+): boolean {
+  if (filters.type && transfer.type !== filters.type) return false;
+  if (filters.status && transfer.status !== filters.status) return false;
+
+  // Dates are compared as YYYY-MM-DD strings in UTC
+  const date = new Date(transfer.createdAt).toISOString().slice(0, 10);
+  if (filters.startDate && date < filters.startDate) return false;
+  if (filters.endDate && date > filters.endDate) return false;
+
+  const amount = parseApiAmount(transfer.amount);
+  if (
+    filters.minAmount !== undefined &&
+    compareAmounts(amount, toAmount(filters.minAmount)) < 0
+  ) {
+    return false;
+  }
+  if (
+    filters.maxAmount !== undefined &&
+    compareAmounts(amount, toAmount(filters.maxAmount)) > 0
+  ) {
+    return false;
+  }
+
+  if (filters.counterparty) {
+    const search = filters.counterparty.toLowerCase();
+    const matches = getTransferCounterparties(transfer).some((value) =>
+      value.toLowerCase().includes(search)
+    );
+    if (!matches) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get every transfer matching the filters by walking all history pages
+ * @param token The authentication token
+ * @param filters Optional history filters
+ * @returns The matching transfers, newest first, and whether the result
+ * was cut off at HISTORY_MAX_FETCH_PAGES
+ */
+export async function getAllTransferHistory(
+  token: string,
+  filters: TransferHistoryFilters = {}
+): Promise<{ transfers: TransferResponse[]; truncated: boolean }> {
+  const transfers: TransferResponse[] = [];
+
+  for (let page = 1; page <= HISTORY_MAX_FETCH_PAGES; page++) {
+    const response = await getTransferHistory(
+      token,
+      page,
+      HISTORY_FETCH_PAGE_SIZE,
+      filters
+    );
+
+    transfers.push(
+      ...response.data.filter((transfer) =>
+        matchesTransferFilters(transfer, filters)
+      )
+    );
+
+    const hasMore =
+      response.hasMore ?? page * response.limit < response.count;
+    if (!hasMore || response.data.length === 0) {
+      return { transfers, truncated: false };
+    }
+  }
+
+  return { transfers, truncated: true };
+}
+
+/**
+ * Get a single transfer with its transactions and accounts
+ * @param token The authentication token
+ * @param transferId The transfer ID
+ * @returns Promise with the transfer
+ */
+export async function getTransfer(
+  token: string,
+  transferId: string
+): Promise<TransferResponse> {
+  return await api.get(
+    `/api/transfers/${encodeURIComponent(transferId)}`,
+    token
+  );
+}
+
+/**
+ * Get a quote for withdrawing funds to a bank account
  * @param token The authentication token
  * @param amount The amount to withdraw
- * @param currency The currency code (default: "USD")
+ * @param bankAccount The bank account that receives the funds
+ * @param currency The currency code (default: "USDC")
+ * @returns Promise with the quote, including the allowed amount range
+ */
+export async function getOfframpQuote(
+  token: string,
+  amount: string,
+  bankAccount: Account,
+  currency: string = "USDC"
+): Promise<OfframpQuoteResponse> {
+  const parsedAmount = parseAmount(amount);
+  if (parsedAmount === undefined || !isPositiveAmount(parsedAmount)) {
+    throw new Error("Amount must be a positive number");
+  }
+
+  const request: OfframpQuoteRequest = {
+    sourceCountry: "none",
+    destinationCountry: bankAccount.country,
+    // Convert decimal amount to API required format (integer string with 8 decimal places)
+    amount: toApiAmount(parsedAmount),
+    currency,
+    preferredBankAccountId: bankAccount.id,
+    thirdPartyPayment: false,
+    onlyRemittance: true,
+  };
+
+  return await api.post<OfframpQuoteResponse>(
+    "/api/quotes/offramp",
+    request,
+    token
+  );
+}
+
+/**
+ * Decode the payload of an offramp quote
+ * @param quote The quote response
+ * @returns The quoted amounts, fee and rate, or undefined if the payload
+ * is invalid
+ */
+export function parseOfframpQuote(
+  quote: OfframpQuoteResponse
+): OfframpQuotePayload | undefined {
+  try {
+    return JSON.parse(quote.quotePayload) as OfframpQuotePayload;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Withdraw funds to a bank account using an offramp quote
+ * The bank account and amount are part of the signed quote.
+ * @param token The authentication token
+ * @param quote The quote returned by getOfframpQuote
  * @param purposeCode The purpose code (default: "withdrawal")
  * @returns Promise with the response
  */
 export async function withdrawToBank(
   token: string,
-  amount: string,
-  currency: string = "USD",
+  quote: Pick<OfframpQuoteResponse, "quotePayload" | "quoteSignature">,
   purposeCode: string = PurposeCode.WITHDRAWAL
 ): Promise<TransferResponse> {
-  // Convert decimal amount to API required format (integer string with 8 decimal places)
-  const scaledAmount = (parseFloat(amount) * 100000000).toFixed(0);
+  const request: OfframpTransferRequest = {
+    quotePayload: quote.quotePayload,
+    quoteSignature: quote.quoteSignature,
+    purposeCode,
+    recipientRelationship: "self",
+  };
 
-  return await api.post(
-    "/api/transfers/offramp",
-    {
-      amount: scaledAmount, // Scaled amount as string
-      currency,
-      purposeCode,
-    },
-    token
+  return await submitTransfer("bank", () =>
+    api.post("/api/transfers/offramp", request, token)
   );
 }
 
@@ -214,46 +479,152 @@ export async function checkSufficientBalance(
   balance: string;
   walletId?: string;
 }> {
+  let defaultWallet: Wallet;
+  let balanceInfo: BalanceResponse;
   try {
     // Get default wallet
-    const defaultWallet = await walletService.getDefaultWallet(token);
+    defaultWallet = await walletService.getDefaultWallet(token);
 
     // Get wallet balance
-    const balanceInfo = await walletService.getDefaultWalletBalance(token);
+    balanceInfo = await walletService.getDefaultWalletBalance(token);
+  } catch (error) {
+    logger.error("Error checking balance:", error as Error);
+    throw new Error("Failed to check wallet balance");
+  }
 
-    // Parse amounts
-    const parsedAmount = parseFloat(amount);
-    const currentBalance = parseFloat(balanceInfo.balance);
+  // Amounts can't be more precise than the token itself
+  const parsedAmount = parseAmount(amount, balanceInfo.decimals);
+  if (parsedAmount === undefined) {
+    throw new Error(
+      `${balanceInfo.symbol} amounts can have at most ${balanceInfo.decimals} decimal places`
+    );
+  }
 
-    return {
-      hasSufficientBalance: currentBalance >= parsedAmount,
-      balance: balanceInfo.balance,
-      walletId: defaultWallet.id,
-    };
+  return {
+    hasSufficientBalance:
+      compareAmounts(toAmount(balanceInfo.balance), parsedAmount) >= 0,
+    balance: balanceInfo.balance,
+    walletId: defaultWallet.id,
+  };
+}
+
+/**
+ * Check the default wallet's balance for amounts in several currencies
+ * @param token The authentication token
+ * @param amounts The decimal amount needed per currency symbol
+ * @returns One result per currency, in the order given
+ */
+export async function checkSufficientBalances(
+  token: string,
+  amounts: Array<{ currency: string; amount: string }>
+): Promise<
+  Array<{ currency: string; hasSufficientBalance: boolean; balance: string }>
+> {
+  let defaultBalances: BalanceResponse[];
+  try {
+    const wallets = await walletService.getWalletBalances(token);
+    defaultBalances =
+      wallets.find((wallet) => wallet.isDefault)?.balances || [];
   } catch (error) {
-    console.error("Error checking balance:", error);
+    logger.error("Error checking balances:", error as Error);
     throw new Error("Failed to check wallet balance");
   }
+
+  return amounts.map(({ currency, amount }) => {
+    const balanceInfo = defaultBalances.find(
+      (balance) => balance.symbol === currency
+    );
+    const balance = balanceInfo?.balance || "0";
+
+    // Amounts can't be more precise than the token itself
+    const parsedAmount = parseAmount(amount, balanceInfo?.decimals);
+    if (parsedAmount === undefined) {
+      throw new Error(
+        `${currency} amounts can have at most ${balanceInfo?.decimals} decimal places`
+      );
+    }
+
+    return {
+      currency,
+      hasSufficientBalance:
+        compareAmounts(toAmount(balance), parsedAmount) >= 0,
+      balance,
+    };
+  });
 }
 
 /**
  * Send batch transfers to multiple recipients
  * @param token The authentication token
  * @param requests The batch transfer requests
- * @returns Promise with the response
+ * @returns Promise with one result per request, in request order
  */
 export async function sendBatchTransfers(
   token: string,
-  requests: Array<{
-    requestId: string;
-    request: {
-      email: string;
-      payeeId?: string;
-      amount: string;
-      purposeCode: string;
-      currency: string;
+  requests: BatchTransferRequest[]
+): Promise<BatchTransferResponseItem[]> {
+  // Convert decimal amounts to API required format (integer string with 8 decimal places)
+  const scaledRequests = requests.map(({ requestId, request }) => ({
+    requestId,
+    request: { ...request, amount: toApiTransferAmount(request.amount) },
+  }));
+
+  let result: BatchTransferResponse;
+  try {
+    result = await api.post<BatchTransferResponse>(
+      "/api/transfers/send-batch",
+      { requests: scaledRequests },
+      token
+    );
+  } catch (error) {
+    requests.forEach(() => recordTransfer("batch"));
+    throw error;
+  }
+
+  // Index results by requestId so each request gets its own outcome
+  const resultsById = new Map(
+    (result?.responses || []).map((item) => [item.requestId, item])
+  );
+
+  return requests.map(({ requestId, request }) => {
+    const item = resultsById.get(requestId);
+    recordTransfer("batch", item?.error ? undefined : item?.response);
+
+    // Without a result the transfer may still have been sent
+    if (!item) {
+      return {
+        requestId,
+        success: false,
+        unknown: true,
+        email: request.email,
+        amount: request.amount,
+        currency: request.currency,
+        message: "No result returned for this request",
+      };
+    }
+
+    if (item.error || !item.response) {
+      const errorMessage = item.error?.message;
+      return {
+        requestId,
+        success: false,
+        email: request.email,
+        amount: request.amount,
+        currency: request.currency,
+        message: Array.isArray(errorMessage)
+          ? errorMessage.join("; ")
+          : errorMessage || item.error?.error || "Unknown error",
+      };
+    }
+
+    return {
+      requestId,
+      success: true,
+      email: request.email,
+      amount: request.amount,
+      currency: request.currency,
+      transferId: item.response.id,
+      status: item.response.status,
     };
-  }>
-): Promise<any> {
-  return await api.post("/api/transfers/send-batch", { requests }, token);
+  });
 }
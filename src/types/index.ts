@@ -24,3 +24,9 @@ export * from "./session";
 
 // Export payee types
 export * from "./payee";
+
+// Export schedule types
+export * from "./schedule";
+
+// Export treasury types
+export * from "./treasury";
@@ -0,0 +1,63 @@
+/**
+ * Scheduled transfer types
+ */
+
+// How often a scheduled transfer repeats
+export type RecurrenceFrequency =
+  | "once"
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "cron";
+
+// Recurrence rule of a scheduled transfer
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Repeat every N days/weeks/months (default: 1)
+  cron?: string; // Five-field cron expression in UTC (frequency "cron")
+}
+
+// Transfer that is executed on every run
+export interface ScheduledTransferTemplate {
+  recipientType: "email" | "wallet";
+  recipient: string; // Email address or wallet address
+  amount: string;
+  currency: string;
+  purposeCode: string;
+}
+
+// Lifecycle status of a schedule
+export type ScheduleStatus = "active" | "paused" | "cancelled" | "completed";
+
+// Result of a single scheduled run
+export interface ScheduleRunLogEntry {
+  scheduledFor: string; // ISO date string
+  executedAt: string; // ISO date string
+  outcome: "success" | "failed" | "skipped";
+  transferId?: string;
+  message?: string;
+}
+
+// Copperx account a scheduled transfer is sent from
+export interface ScheduledTransferAccount {
+  organizationId: string;
+  email?: string;
+}
+
+// A recurring or one-off scheduled transfer
+export interface ScheduledTransfer {
+  id: string;
+  chatId: number;
+  account?: ScheduledTransferAccount; // Unset on older schedules; they use the active account
+  template: ScheduledTransferTemplate;
+  recurrence: Recurrence;
+  startAt: string; // ISO date string, anchor for recurrence
+  nextRunAt?: string; // ISO date string, unset once the schedule is finished
+  status: ScheduleStatus;
+  skipNext: boolean;
+  reminderSentFor?: string; // nextRunAt the reminder was sent for
+  sendingFor?: string; // nextRunAt of the run being sent; set until its outcome is saved
+  createdAt: string;
+  updatedAt: string;
+  runs: ScheduleRunLogEntry[];
+}
@@ -169,6 +169,32 @@ export interface TransferResponse extends TimeStamps {
   senderDisplayName?: string;
 }
 
+// Transfer initiated by the bot whose status is being tracked
+export interface TrackedTransfer {
+  transferId: string;
+  chatId: number;
+  organizationId?: string; // Account the transfer was sent from; missing in older entries
+  status: TransferStatus;
+  summary: string; // Markdown description, e.g. "15.00 USDC to alice@example.com"
+  messageId?: number; // Confirmation message that is edited on status changes
+  messageText?: string; // Confirmation text without the status footer
+  keyboard?: Array<Array<{ text: string; callback_data: string }>>;
+  checks: number; // Status checks made so far, used for backoff
+  nextCheckAt: string; // ISO date string
+  createdAt: string; // ISO date string
+}
+
+// Filters applied to the transfer history
+export interface TransferHistoryFilters {
+  type?: TransferType;
+  status?: TransferStatus;
+  startDate?: string; // YYYY-MM-DD, inclusive (UTC)
+  endDate?: string; // YYYY-MM-DD, inclusive (UTC)
+  minAmount?: string; // Decimal string, e.g. "10.5"
+  maxAmount?: string; // Decimal string, e.g. "10.5"
+  counterparty?: string; // Matched against names, emails and addresses
+}
+
 // Transfer history response interface
 export interface TransferHistoryResponse {
   page: number;
@@ -219,10 +245,97 @@ export interface BatchTransferRequest {
   };
 }
 
+// Raw result for one request in a batch transfer response
+export interface BatchTransferApiResult {
+  requestId: string;
+  request?: BatchTransferRequest["request"];
+  response?: TransferResponse;
+  error?: {
+    message: string | string[];
+    statusCode?: number;
+    error?: string;
+  };
+}
+
+// Batch transfer API response
+export interface BatchTransferResponse {
+  responses: BatchTransferApiResult[];
+}
+
+// Outcome of a single batch transfer request, mapped back by requestId
 export interface BatchTransferResponseItem {
   requestId: string;
   success: boolean;
+  unknown?: boolean; // No result was returned, so the transfer may have been sent
   email: string;
   amount: string;
+  currency: string;
+  transferId?: string;
+  status?: TransferStatus;
   message?: string;
 }
+
+// Bank accounts list response
+export interface AccountsResponse {
+  data: Account[];
+}
+
+// Create bank account request
+export interface CreateBankAccountRequest {
+  country: string; // ISO 3166-1 alpha-3 code, lowercase
+  isDefault?: boolean;
+  bankAccount: {
+    bankName: string;
+    bankAddress?: string;
+    bankAccountType: BankAccountType;
+    bankRoutingNumber: string;
+    bankAccountNumber: string;
+    bankBeneficiaryName: string;
+    swiftCode?: string;
+  };
+}
+
+// Offramp quote request
+export interface OfframpQuoteRequest {
+  sourceCountry: string;
+  destinationCountry: string;
+  amount: string; // Integer string with 8 decimal places
+  currency: string;
+  preferredBankAccountId: string;
+  thirdPartyPayment: boolean;
+  onlyRemittance: boolean;
+}
+
+// Offramp quote response; quotePayload and quoteSignature are submitted
+// unchanged with the withdrawal
+export interface OfframpQuoteResponse {
+  minAmount?: string;
+  maxAmount?: string;
+  arrivalTimeMessage?: string;
+  error?: string;
+  quotePayload: string;
+  quoteSignature: string;
+}
+
+// Decoded quotePayload of an offramp quote
+export interface OfframpQuotePayload {
+  amount: string;
+  currency: string;
+  toAmount: string;
+  toCurrency: string;
+  totalFee: string;
+  feeCurrency?: string;
+  feePercentage?: string;
+  rate?: string;
+  arrivalTimeMessage?: string;
+}
+
+// Offramp transfer request
+export interface OfframpTransferRequest {
+  quotePayload: string;
+  quoteSignature: string;
+  purposeCode: string;
+  recipientRelationship: string;
+  sourceOfFunds?: string;
+  note?: string;
+}
@@ -0,0 +1,73 @@
+/**
+ * Group treasury types
+ */
+
+// Role of a group member; approvers can also request transfers
+export type TreasuryRole = "requester" | "approver";
+
+// Telegram user acting in a group treasury
+export interface TreasuryActor {
+  userId: number;
+  name: string; // Display name at the time of the action
+}
+
+// Member of a group treasury
+export interface TreasuryMember extends TreasuryActor {
+  role: TreasuryRole;
+  addedAt: string; // ISO date string
+}
+
+// Approval or rejection of a transfer request
+export interface TreasuryVote extends TreasuryActor {
+  at: string; // ISO date string
+}
+
+// Transfer a member asks the treasury to send
+export interface TreasuryTransfer {
+  recipientType: "email" | "wallet";
+  recipient: string; // Email address or wallet address
+  amount: string;
+  currency: string;
+  purposeCode: string;
+}
+
+// Lifecycle status of a transfer request
+export type TreasuryRequestStatus =
+  | "pending"
+  | "approved" // Enough approvals, being sent
+  | "executed"
+  | "failed"
+  | "rejected"
+  | "cancelled"
+  | "expired";
+
+// Transfer waiting for the approvals of a group treasury
+export interface TreasuryRequest {
+  id: string;
+  requestedBy: TreasuryActor;
+  transfer: TreasuryTransfer;
+  requiredApprovals: number; // Required when the request was made
+  approvals: TreasuryVote[];
+  rejectedBy?: TreasuryVote; // Also set when the requester cancels
+  status: TreasuryRequestStatus;
+  messageId?: number; // Group message with the vote buttons
+  transferId?: string;
+  error?: string;
+  createdAt: string; // ISO date string
+  expiresAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
+
+// Group chat that sends transfers from a linked Copperx account once
+// enough members approve them
+export interface GroupTreasury {
+  chatId: number;
+  organizationId: string;
+  email?: string; // Email of the linked account
+  ownerId: number; // Member who linked the account; always an approver
+  requiredApprovals: number;
+  members: TreasuryMember[];
+  requests: TreasuryRequest[]; // Newest last, up to TREASURY_REQUESTS_MAX
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
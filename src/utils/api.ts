@@ -1,72 +1,303 @@
-import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import axios, { AxiosRequestConfig, AxiosResponse, Method } from "axios";
+import crypto from "crypto";
+import EventEmitter from "events";
 import { config } from "../config";
+import { ApiError } from "../types/common";
+import { getModuleLogger } from "./logger";
+import { getCorrelationId } from "./correlation";
+import { metricsRegistry } from "./metrics";
+
+// Create module logger
+const logger = getModuleLogger("api");
+
+// Money-moving endpoints; POSTs to them always carry an idempotency key so
+// the API can recognize a retried request and won't execute it twice
+const IDEMPOTENT_ENDPOINTS = [
+  "/api/transfers/send",
+  "/api/transfers/send-batch",
+  "/api/transfers/deposit",
+  "/api/transfers/offramp",
+];
+
+// Response status codes of temporary failures that are worth retrying
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+// API events; "unauthorized" is emitted with the token the API rejected
+export const apiEvents = new EventEmitter();
+
+// Request metrics; every attempt of a retried request is counted
+const requestDuration = metricsRegistry.histogram(
+  "copperx_api_request_duration_seconds",
+  "Duration of Copperx API requests by endpoint and response status"
+);
+const requestErrors = metricsRegistry.counter(
+  "copperx_api_request_errors_total",
+  "Failed Copperx API requests by endpoint and response status"
+);
+
+/**
+ * Options for an API request
+ */
+export interface ApiRequestOptions extends AxiosRequestConfig {
+  /**
+   * Idempotency key sent with the request
+   * Generated automatically for money-moving endpoints; pass the same key
+   * again to safely repeat a request whose outcome is unknown.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Error thrown for failed API requests
+ * Requests that got no response at all (timeouts, connection errors) have
+ * no status.
+ */
+export class CopperxApiError extends Error {
+  readonly method: string;
+  readonly url: string;
+  readonly requestId: string;
+  readonly status?: number;
+  readonly data?: ApiError;
+  readonly code?: string;
+  readonly authenticated: boolean; // Whether the request carried a token
+
+  constructor(
+    message: string,
+    details: {
+      method: string;
+      url: string;
+      requestId: string;
+      status?: number;
+      data?: ApiError;
+      code?: string;
+      authenticated?: boolean;
+    }
+  ) {
+    super(message);
+    this.name = "CopperxApiError";
+    this.method = details.method;
+    this.url = details.url;
+    this.requestId = details.requestId;
+    this.status = details.status;
+    this.data = details.data;
+    this.code = details.code;
+    this.authenticated = !!details.authenticated;
+  }
+
+  /**
+   * Whether the request failed without a response from the API
+   */
+  get isNetworkError(): boolean {
+    return this.status === undefined;
+  }
+
+  /**
+   * Whether the request timed out
+   */
+  get isTimeout(): boolean {
+    return this.code === "ECONNABORTED" || this.code === "ETIMEDOUT";
+  }
+
+  /**
+   * Whether the failure is temporary and the request may succeed if repeated
+   */
+  get isRetryable(): boolean {
+    return (
+      this.isNetworkError ||
+      RETRYABLE_STATUS_CODES.includes(this.status as number)
+    );
+  }
+}
 
 // Create axios instance with base URL
 const apiClient = axios.create({
   baseURL: config.apiBaseUrl,
+  timeout: config.api.timeout,
   headers: {
     "Content-Type": "application/json",
   },
 });
 
 /**
- * Log API error details with full validation messages
- * @param error The error object
- * @param config The request configuration
+ * Convert an axios error into a CopperxApiError
+ * Only the status and the API's error body are kept, never the request
+ * body or headers, which may contain tokens or OTPs.
  */
-function logApiError(error: any, config: any) {
-  console.error("API Error Response:", {
-    status: error.response?.status,
-    headers: error.response?.headers,
-    data: error.response?.data,
-  });
+function toApiError(
+  error: any,
+  method: string,
+  url: string,
+  requestId: string,
+  authenticated: boolean
+): CopperxApiError {
+  const status: number | undefined = error?.response?.status;
+  const data: ApiError | undefined =
+    error?.response?.data && typeof error.response.data === "object"
+      ? error.response.data
+      : undefined;
 
-  // Log the full validation messages
-  if (
-    error.response?.data?.message &&
-    Array.isArray(error.response.data.message)
-  ) {
-    console.log(
-      "Validation Errors (Full Details):",
-      JSON.stringify(error.response.data.message, null, 2)
-    );
+  let message: string = error?.message || "API request failed";
+  if (Array.isArray(data?.message)) {
+    message = data.message.join("; ");
+  } else if (data?.message) {
+    message = data.message;
   }
 
-  console.log("API Request Config:", {
-    method: config.method,
-    url: config.url,
-    data: config.data,
+  return new CopperxApiError(message, {
+    method,
+    url,
+    requestId,
+    status,
+    data,
+    code: error?.code,
+    authenticated,
   });
 }
 
+/**
+ * Get the endpoint of a URL for metrics
+ * The query string is dropped and path segments that look like IDs are
+ * replaced, so each endpoint is a single time series.
+ * @param url The request URL, e.g. "/api/payees/123?page=1"
+ * @returns The endpoint, e.g. "/api/payees/:id"
+ */
+function getMetricsEndpoint(url: string): string {
+  return url
+    .split("?")[0]
+    .split("/")
+    .map((segment) =>
+      /\d/.test(segment) || segment.length >= 20 ? ":id" : segment
+    )
+    .join("/");
+}
+
+/**
+ * Get the delay before a retry, doubling with each attempt
+ * Random jitter keeps many clients from retrying in lockstep.
+ * @param attempt The number of the failed attempt, starting at 0
+ */
+function getRetryDelay(attempt: number): number {
+  const delay = config.api.retryDelay * Math.pow(2, attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Send a request to the API
+ * GETs, and POSTs with an idempotency key, are retried with backoff after
+ * timeouts, connection errors and temporary server failures.
+ * @param method The HTTP method
+ * @param url The API endpoint
+ * @param token Optional authentication token
+ * @param options Additional request options
+ * @param data The data to send
+ * @returns Promise with the response data
+ * @throws CopperxApiError when the request fails
+ */
+async function request<T>(
+  method: Method,
+  url: string,
+  token?: string,
+  options: ApiRequestOptions = {},
+  data?: any
+): Promise<T> {
+  const { idempotencyKey: requestedKey, ...axiosOptions } = options;
+  const requestId = crypto.randomUUID();
+  const correlationId = getCorrelationId();
+  const methodName = method.toUpperCase();
+
+  const idempotencyKey =
+    requestedKey ||
+    (methodName === "POST" && IDEMPOTENT_ENDPOINTS.includes(url)
+      ? crypto.randomUUID()
+      : undefined);
+
+  // Other requests may have side effects and are never repeated
+  const maxRetries =
+    methodName === "GET" || idempotencyKey ? config.api.maxRetries : 0;
+
+  const requestConfig: AxiosRequestConfig = {
+    ...axiosOptions,
+    method,
+    url,
+    data,
+    headers: {
+      ...(axiosOptions.headers || {}),
+      "X-Request-Id": requestId,
+      ...(correlationId ? { "X-Correlation-Id": correlationId } : {}),
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  };
+
+  const endpoint = getMetricsEndpoint(url);
+
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const response: AxiosResponse<T> = await apiClient.request(
+        requestConfig
+      );
+      requestDuration.observe(
+        { method: methodName, endpoint, status: String(response.status) },
+        (Date.now() - startedAt) / 1000
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = toApiError(error, methodName, url, requestId, !!token);
+
+      // Requests without a response are labelled with the kind of failure
+      const status = apiError.isNetworkError
+        ? apiError.isTimeout
+          ? "timeout"
+          : "network_error"
+        : String(apiError.status);
+      requestDuration.observe(
+        { method: methodName, endpoint, status },
+        (Date.now() - startedAt) / 1000
+      );
+      requestErrors.inc({ method: methodName, endpoint, status });
+
+      const meta = {
+        requestId,
+        status: apiError.status,
+        code: apiError.code,
+        attempt: attempt + 1,
+      };
+
+      if (apiError.isRetryable && attempt < maxRetries) {
+        const delay = getRetryDelay(attempt);
+        logger.warn(
+          `${methodName} ${url} failed, retrying in ${delay}ms: ${apiError.message}`,
+          meta
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        continue;
+      }
+
+      logger.error(`${methodName} ${url} failed: ${apiError.message}`, meta);
+
+      // Let the session service expire every session using this token
+      if (apiError.status === 401 && token) {
+        apiEvents.emit("unauthorized", token);
+      }
+      throw apiError;
+    }
+  }
+}
+
 /**
  * Make a GET request to the API
  * @param url The API endpoint
  * @param token Optional authentication token
- * @param options Additional axios options
+ * @param options Additional request options
  * @returns Promise with the response data
  */
 export async function get<T>(
   url: string,
   token?: string,
-  options?: AxiosRequestConfig
+  options?: ApiRequestOptions
 ): Promise<T> {
-  try {
-    const config: AxiosRequestConfig = {
-      ...options,
-      headers: {
-        ...(options?.headers || {}),
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
-    };
-
-    const response: AxiosResponse<T> = await apiClient.get(url, config);
-    return response.data;
-  } catch (error) {
-    logApiError(error, { method: "get", url });
-    handleApiError(error as AxiosError);
-    throw error;
-  }
+  return await request<T>("get", url, token, options);
 }
 
 /**
@@ -74,88 +305,53 @@ export async function get<T>(
  * @param url The API endpoint
  * @param data The data to send
  * @param token Optional authentication token
- * @param options Additional axios options
+ * @param options Additional request options
  * @returns Promise with the response data
  */
 export async function post<T>(
   url: string,
   data: any,
   token?: string,
-  options?: AxiosRequestConfig
+  options?: ApiRequestOptions
 ): Promise<T> {
-  try {
-    const config: AxiosRequestConfig = {
-      ...options,
-      headers: {
-        ...(options?.headers || {}),
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
-    };
-
-    const response: AxiosResponse<T> = await apiClient.post(url, data, config);
-    return response.data;
-  } catch (error) {
-    logApiError(error, { method: "post", url, data });
-    handleApiError(error as AxiosError);
-    throw error;
-  }
+  return await request<T>("post", url, token, options, data);
 }
 
 /**
  * Make a DELETE request to the API
  * @param url The API endpoint
  * @param token Optional authentication token
- * @param options Additional axios options
+ * @param options Additional request options
  * @returns Promise with the response data
  */
 export async function del<T>(
   url: string,
   token?: string,
-  options?: AxiosRequestConfig
+  options?: ApiRequestOptions
 ): Promise<T> {
-  try {
-    const config: AxiosRequestConfig = {
-      ...options,
-      headers: {
-        ...(options?.headers || {}),
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
-    };
-
-    const response: AxiosResponse<T> = await apiClient.delete(url, config);
-    return response.data;
-  } catch (error) {
-    logApiError(error, { method: "delete", url });
-    handleApiError(error as AxiosError);
-    throw error;
-  }
+  return await request<T>("delete", url, token, options);
 }
 
 /**
- * Handle API errors with detailed logging
- * @param error The axios error
+ * Check whether the API can be reached
+ * Sends a single request to the API root without retries; any response
+ * below 500, including 404, means the API is up.
+ * @param timeout Request timeout in milliseconds
+ * @returns Promise with the response status
+ * @throws CopperxApiError when there is no response or the API fails
  */
-function handleApiError(error: AxiosError): void {
-  if (error.response) {
-    // The request was made and the server responded with a status code
-    // that falls out of the range of 2xx
-    console.error("API Error Response:", {
-      status: error.response.status,
-      headers: error.response.headers,
-      data: error.response.data,
-    });
-  } else if (error.request) {
-    // The request was made but no response was received
-    console.error("API No Response:", error.request);
-  } else {
-    // Something happened in setting up the request that triggered an Error
-    console.error("API Request Error:", error.message);
-  }
-
-  if (error.config) {
-    console.error("API Request Config:", {
-      method: error.config.method,
-      url: error.config.url,
+export async function checkReachability(timeout: number): Promise<number> {
+  const requestId = crypto.randomUUID();
+  try {
+    const response = await apiClient.request({
+      method: "get",
+      url: "/",
+      timeout,
+      headers: { "X-Request-Id": requestId },
+      validateStatus: (status) => status < 500,
     });
+    return response.status;
+  } catch (error) {
+    throw toApiError(error, "GET", "/", requestId, false);
   }
 }
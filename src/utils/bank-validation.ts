@@ -0,0 +1,212 @@
+/**
+ * Bank account validation rules per country
+ */
+
+/**
+ * Input rules for bank accounts in a country
+ */
+export interface BankCountryRules {
+  code: string; // ISO 3166-1 alpha-3 code, lowercase as used by the API
+  name: string;
+  routingLabel: string; // e.g. "ACH routing number" or "SWIFT/BIC code"
+  routingIsSwift: boolean; // Whether the routing code is a SWIFT/BIC code
+  accountLabel: string; // e.g. "account number" or "IBAN"
+  routingExample: string;
+  accountExample: string;
+  validateRouting(value: string): string | undefined;
+  validateAccount(value: string): string | undefined;
+}
+
+/**
+ * Remove spaces and dashes and convert to upper case
+ * @param value The user input
+ * @returns The normalized value
+ */
+export function normalizeBankInput(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+/**
+ * Validate a US ABA routing number, including its checksum
+ */
+export function validateAbaRoutingNumber(value: string): string | undefined {
+  if (!/^\d{9}$/.test(value)) {
+    return "A routing number has exactly 9 digits.";
+  }
+
+  const digits = value.split("").map(Number);
+  const checksum =
+    3 * (digits[0] + digits[3] + digits[6]) +
+    7 * (digits[1] + digits[4] + digits[7]) +
+    (digits[2] + digits[5] + digits[8]);
+
+  return checksum % 10 === 0
+    ? undefined
+    : "This routing number is not valid. Please check it and try again.";
+}
+
+/**
+ * Validate a SWIFT/BIC code
+ */
+export function validateSwiftCode(value: string): string | undefined {
+  return /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(value)
+    ? undefined
+    : "A SWIFT/BIC code has 8 or 11 characters, e.g. DEUTDEFF.";
+}
+
+/**
+ * Validate an IBAN, including its check digits
+ * @param value The normalized IBAN
+ * @param countryPrefix The two-letter country code the IBAN must start with
+ */
+export function validateIban(
+  value: string,
+  countryPrefix?: string
+): string | undefined {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(value)) {
+    return "This is not a valid IBAN.";
+  }
+  if (countryPrefix && !value.startsWith(countryPrefix)) {
+    return `The IBAN must start with ${countryPrefix}.`;
+  }
+
+  // Move the first four characters to the end, convert letters to numbers
+  // (A=10 ... Z=35) and check that the result mod 97 is 1
+  const rearranged = value.slice(4) + value.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char)
+      ? String(char.charCodeAt(0) - 55)
+      : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1
+    ? undefined
+    : "This IBAN is not valid. Please check it and try again.";
+}
+
+/**
+ * Build a validator for account numbers made of a range of digits
+ */
+function digitsValidator(
+  min: number,
+  max: number
+): (value: string) => string | undefined {
+  return (value) =>
+    new RegExp(`^\\d{${min},${max}}$`).test(value)
+      ? undefined
+      : min === max
+      ? `The account number must have ${min} digits.`
+      : `The account number must have ${min} to ${max} digits.`;
+}
+
+/**
+ * Build the rules of a SEPA country (IBAN and SWIFT/BIC)
+ */
+function sepaCountry(
+  code: string,
+  name: string,
+  ibanPrefix: string,
+  accountExample: string
+): BankCountryRules {
+  return {
+    code,
+    name,
+    routingLabel: "SWIFT/BIC code",
+    routingIsSwift: true,
+    accountLabel: "IBAN",
+    routingExample: "DEUTDEFF",
+    accountExample,
+    validateRouting: validateSwiftCode,
+    validateAccount: (value) => validateIban(value, ibanPrefix),
+  };
+}
+
+// Countries with specific validation rules
+export const BANK_COUNTRIES: BankCountryRules[] = [
+  {
+    code: "usa",
+    name: "United States",
+    routingLabel: "ACH routing number",
+    routingIsSwift: false,
+    accountLabel: "account number",
+    routingExample: "021000021",
+    accountExample: "000123456789",
+    validateRouting: validateAbaRoutingNumber,
+    validateAccount: digitsValidator(4, 17),
+  },
+  {
+    code: "ind",
+    name: "India",
+    routingLabel: "IFSC code",
+    routingIsSwift: false,
+    accountLabel: "account number",
+    routingExample: "HDFC0001234",
+    accountExample: "50100123456789",
+    validateRouting: (value) =>
+      /^[A-Z]{4}0[A-Z0-9]{6}$/.test(value)
+        ? undefined
+        : "An IFSC code has 11 characters, e.g. HDFC0001234.",
+    validateAccount: digitsValidator(9, 18),
+  },
+  {
+    code: "gbr",
+    name: "United Kingdom",
+    routingLabel: "sort code",
+    routingIsSwift: false,
+    accountLabel: "account number",
+    routingExample: "20-00-00",
+    accountExample: "12345678",
+    validateRouting: (value) =>
+      /^\d{6}$/.test(value) ? undefined : "A sort code has 6 digits.",
+    validateAccount: digitsValidator(8, 8),
+  },
+  sepaCountry("deu", "Germany", "DE", "DE89370400440532013000"),
+  sepaCountry("fra", "France", "FR", "FR1420041010050500013M02606"),
+  sepaCountry("esp", "Spain", "ES", "ES9121000418450200051332"),
+  sepaCountry("ita", "Italy", "IT", "IT60X0542811101000000123456"),
+  sepaCountry("nld", "Netherlands", "NL", "NL91ABNA0417164300"),
+];
+
+/**
+ * Get the validation rules for a country
+ * Countries without specific rules use a SWIFT/BIC code and a generic
+ * alphanumeric account number.
+ * @param code ISO 3166-1 alpha-3 country code
+ * @returns The country's rules
+ */
+export function getBankCountryRules(code: string): BankCountryRules {
+  const normalized = code.toLowerCase();
+  const known = BANK_COUNTRIES.find((country) => country.code === normalized);
+  if (known) return known;
+
+  return {
+    code: normalized,
+    name: normalized.toUpperCase(),
+    routingLabel: "SWIFT/BIC code",
+    routingIsSwift: true,
+    accountLabel: "account number or IBAN",
+    routingExample: "DEUTDEFF",
+    accountExample: "123456789",
+    validateRouting: validateSwiftCode,
+    validateAccount: (value) =>
+      /^[A-Z0-9]{4,34}$/.test(value)
+        ? undefined
+        : "The account number must have 4 to 34 letters or digits.",
+  };
+}
+
+/**
+ * Validate a beneficiary name
+ */
+export function validateBeneficiaryName(value: string): string | undefined {
+  if (value.length < 2 || value.length > 100) {
+    return "The beneficiary name must have 2 to 100 characters.";
+  }
+  return /^[\p{L}][\p{L} .,'&-]*$/u.test(value)
+    ? undefined
+    : "The beneficiary name may only contain letters, spaces and . , ' & -";
+}
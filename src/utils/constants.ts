@@ -12,6 +12,19 @@ export const MAX_SESSIONS = 10000; // Maximum number of sessions to keep in memo
 export const MAX_RETRIES = 3; // Maximum number of retries for file operations
 export const SESSION_SALT = "copperx-telegram-bot-salt-v1"; // Static salt for key derivation
 export const SESSION_SAVE_DEBOUNCE_MS = 5000; // 5 seconds debounce for saving sessions
+export const SESSION_ACTIVITY_RESOLUTION_MS = 60 * 1000; // Lookups within a minute of the last activity don't change the session
+export const SUSPENDED_FLOW_TTL_MS = 30 * 60 * 1000; // 30 minutes to log in again and resume a flow
+export const PRE_AUTH_STATES_FILE_PATH =
+  process.cwd() + "/data/pre-auth-states.json";
+export const PRE_AUTH_STATE_TTL_MS = 15 * 60 * 1000; // Login flows without activity for 15 minutes are dropped
+
+// Login OTP constants
+export const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // Wait before another code can be requested
+export const OTP_COOLDOWN_UPDATE_MS = 15 * 1000; // How often the resend button countdown is updated
+export const OTP_REQUEST_WINDOW_MS = 60 * 60 * 1000; // Window for counting code requests per email
+export const OTP_MAX_REQUESTS_PER_EMAIL = 5; // Codes per email and window
+export const OTP_MAX_FAILED_ATTEMPTS = 5; // Wrong codes before the chat is locked out
+export const OTP_LOCKOUT_MS = 15 * 60 * 1000; // How long a locked out chat can't log in
 
 /**
  * Network-related constants
@@ -39,6 +52,17 @@ export const NETWORK_NAMES_FULL: Record<string, string> = {
   "23434": "Starknet",
 };
 
+// Block explorer base URLs by network name (see NETWORK_NAMES)
+export const NETWORK_EXPLORERS: Record<string, string> = {
+  Ethereum: "https://etherscan.io",
+  Optimism: "https://optimistic.etherscan.io",
+  "Binance Smart Chain": "https://bscscan.com",
+  Polygon: "https://polygonscan.com",
+  Base: "https://basescan.org",
+  "Arbitrum One": "https://arbiscan.io",
+  Starknet: "https://starkscan.co",
+};
+
 /**
  * Format a network ID to a human-readable name
  * @param networkId The network ID to format
@@ -56,3 +80,123 @@ export function getNetworkName(
   const nameMap = useFull ? NETWORK_NAMES_FULL : NETWORK_NAMES;
   return nameMap[networkId] || `Network ${networkId}`;
 }
+
+/**
+ * Build a block explorer link for a transaction
+ * @param networkId The network ID the transaction was made on
+ * @param transactionHash The transaction hash
+ * @returns The explorer URL or undefined if the network is not known
+ */
+export function getExplorerTxUrl(
+  networkId: string | undefined,
+  transactionHash: string
+): string | undefined {
+  const explorer = networkId
+    ? NETWORK_EXPLORERS[NETWORK_NAMES[networkId]]
+    : undefined;
+  return explorer ? `${explorer}/tx/${transactionHash}` : undefined;
+}
+
+/**
+ * Batch transfer constants
+ */
+export const BATCH_FILE_MAX_BYTES = 1024 * 1024; // 1 MB upload limit for batch files
+export const BATCH_MAX_RECIPIENTS = 500; // Maximum number of rows in a single batch
+export const BATCH_MAX_ERRORS_SHOWN = 20; // Number of row errors listed in chat
+
+// Token symbols accepted in transfer requests
+export const SUPPORTED_CURRENCIES = [
+  "USDC",
+  "USDT",
+  "DAI",
+  "ETH",
+  "USDCE",
+  "STRK",
+];
+
+// Webhook constants
+export const WEBHOOK_MAX_BODY_BYTES = 1024 * 1024; // Telegram updates are far smaller
+
+// Update pipeline constants
+export const RATE_LIMIT_WINDOW_MS = 10 * 1000; // Window for counting updates per chat
+export const RATE_LIMIT_MAX_UPDATES = 20; // Updates per chat and window before dropping
+
+/**
+ * Scheduled transfer constants
+ */
+export const SCHEDULE_FILE_PATH = process.cwd() + "/data/schedules.json";
+export const SCHEDULER_TICK_MS = 30 * 1000; // How often due schedules are checked
+export const SCHEDULE_REMINDER_MS = 60 * 60 * 1000; // Remind 1 hour before a run
+export const SCHEDULE_RUN_LOG_LIMIT = 50; // Run log entries kept per schedule
+export const SCHEDULE_MAX_PER_CHAT = 20; // Active or paused schedules per chat
+
+/**
+ * Transaction history constants
+ */
+export const HISTORY_PAGE_SIZE = 10; // Transfers shown per history page
+export const HISTORY_FETCH_PAGE_SIZE = 100; // Transfers requested per API call when walking all pages
+export const HISTORY_MAX_FETCH_PAGES = 50; // Stop walking history after this many API pages
+
+/**
+ * Transfer status tracking constants
+ */
+export const TRACKED_TRANSFERS_FILE_PATH =
+  process.cwd() + "/data/tracked-transfers.json";
+export const TRANSFER_TRACKER_TICK_MS = 15 * 1000; // How often due status checks run
+export const TRANSFER_POLL_MIN_MS = 15 * 1000; // First status check after submitting
+export const TRANSFER_POLL_MAX_MS = 10 * 60 * 1000; // Checks back off up to this interval
+export const TRANSFER_TRACK_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Stop tracking after 7 days
+
+/**
+ * Audit log constants
+ */
+export const AUDIT_LOG_FILE_PATH = process.cwd() + "/data/audit.log";
+
+/**
+ * Transaction PIN constants
+ */
+export const PIN_FILE_PATH = process.cwd() + "/data/pins.json";
+export const PIN_MIN_LENGTH = 4; // Digits in a PIN
+export const PIN_MAX_LENGTH = 8;
+export const PIN_HASH_ITERATIONS = 100000; // PBKDF2 iterations for stored PIN hashes
+export const PIN_MAX_FAILED_ATTEMPTS = 5; // Wrong PINs before the session is locked
+export const PIN_CHALLENGE_TTL_MS = 5 * 60 * 1000; // How long a PIN prompt waits for the PIN
+export const PIN_GRANT_TTL_MS = 2 * 60 * 1000; // How long a confirmed PIN allows the action
+
+/**
+ * Spending limit constants
+ */
+export const LIMITS_FILE_PATH = process.cwd() + "/data/limits.json";
+export const LIMITS_CURRENCY = "USDC"; // Currency of the limits; transfers in other currencies don't count
+export const LIMIT_INCREASE_DELAY_MS = 24 * 60 * 60 * 1000; // Raised or removed limits apply after 24 hours
+export const SPENDING_DAY_MS = 24 * 60 * 60 * 1000; // Window of the daily limit
+export const SPENDING_WEEK_MS = 7 * SPENDING_DAY_MS; // Window of the weekly limit
+export const KNOWN_RECIPIENTS_MAX = 1000; // Paid recipients remembered per chat
+
+/**
+ * Group treasury constants
+ */
+export const TREASURY_FILE_PATH = process.cwd() + "/data/treasury.json";
+export const TREASURY_REQUEST_TTL_MS = 24 * 60 * 60 * 1000; // Pending transfer requests expire after 24 hours
+export const TREASURY_REQUESTS_MAX = 100; // Transfer requests kept per group
+
+// Bank withdrawal constants
+export const OFFRAMP_QUOTE_TTL_MS = 5 * 60 * 1000; // Re-quote withdrawals confirmed after 5 minutes
+
+/**
+ * Health check constants
+ */
+export const POLL_STALE_MS = 60 * 1000; // Not ready without a successful poll for this long
+export const POLL_DEAD_MS = 5 * 60 * 1000; // Not live without a successful poll for this long
+export const POLLING_RESTART_ERRORS = 5; // Consecutive polling errors before restarting polling
+export const POLLING_RESTART_COOLDOWN_MS = 60 * 1000; // Minimum time between polling restarts
+export const API_HEALTH_CHECK_TIMEOUT_MS = 5 * 1000; // Timeout of the API reachability check
+export const API_HEALTH_CHECK_CACHE_MS = 15 * 1000; // Reuse the last API check result for this long
+
+/**
+ * Admin command constants
+ */
+export const ADMIN_SESSIONS_PAGE_SIZE = 10; // Sessions listed per page
+export const BROADCAST_DELAY_MS = 50; // Pause between broadcast messages, below Telegram's 30 per second
+export const BROADCAST_PROGRESS_INTERVAL = 25; // Update the progress message after this many chats
+export const BROADCAST_MAX_LENGTH = 3500; // Characters in an announcement, leaving room for the header
@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+
+/**
+ * Correlation IDs tie together the log entries and API requests caused by a
+ * single incoming update. The ID is kept in async local storage, so code
+ * called while handling the update (including timers and promises it starts)
+ * can read it without passing it around. The Telegram user who sent the
+ * update is kept alongside it for the audit log.
+ */
+interface CorrelationContext {
+  correlationId: string;
+  userId?: number;
+}
+
+const correlationStorage = new AsyncLocalStorage<CorrelationContext>();
+
+/**
+ * Create a new correlation ID
+ */
+export function createCorrelationId(): string {
+  return crypto.randomBytes(6).toString("hex");
+}
+
+/**
+ * Run a function with a correlation ID
+ * @param correlationId The correlation ID
+ * @param fn The function to run
+ * @param userId The Telegram user who sent the update, if known
+ * @returns The result of the function
+ */
+export function runWithCorrelationId<T>(
+  correlationId: string,
+  fn: () => T,
+  userId?: number
+): T {
+  return correlationStorage.run({ correlationId, userId }, fn);
+}
+
+/**
+ * Get the correlation ID of the update being handled
+ * @returns The correlation ID or undefined outside of an update
+ */
+export function getCorrelationId(): string | undefined {
+  return correlationStorage.getStore()?.correlationId;
+}
+
+/**
+ * Get the Telegram user who sent the update being handled
+ * @returns The user ID or undefined outside of an update
+ */
+export function getUpdateUserId(): number | undefined {
+  return correlationStorage.getStore()?.userId;
+}
@@ -0,0 +1,88 @@
+/**
+ * Minimal CSV helpers (RFC 4180 style quoting)
+ */
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted fields, escaped quotes, CRLF line endings and a UTF-8 BOM.
+ * Empty lines are kept as empty rows so callers can report accurate line numbers.
+ * @param text The CSV text to parse
+ * @param delimiter The field delimiter (default: ",")
+ * @returns Array of rows, each an array of cell values
+ */
+export function parseCsv(text: string, delimiter: string = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip UTF-8 byte order mark that spreadsheet exports often add
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      // Treat CRLF as a single line break
+      if (char === "\r" && input[i + 1] === "\n") i++;
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last field/row if the text doesn't end with a newline
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Escape a single CSV cell value
+ * @param value The value to escape
+ * @returns The escaped cell
+ */
+function escapeCsvCell(value: string | number | boolean | undefined): string {
+  if (value === undefined || value === null) return "";
+  const str = String(value);
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * Format rows of values as CSV text
+ * @param rows The rows to format (first row is usually the header)
+ * @returns CSV text with CRLF line endings
+ */
+export function formatCsv(
+  rows: Array<Array<string | number | boolean | undefined>>
+): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
@@ -0,0 +1,58 @@
+import * as crypto from "crypto";
+import { SESSION_SALT } from "./constants";
+
+// Derived keys are cached because PBKDF2 is deliberately slow
+const derivedKeys = new Map<string, Buffer>();
+
+/**
+ * Derive a cryptographic key from the provided password
+ * @param password The password to derive the key from
+ * @returns A 32-byte key
+ */
+function deriveKey(password: string): Buffer {
+  let key = derivedKeys.get(password);
+  if (!key) {
+    key = crypto.pbkdf2Sync(password, SESSION_SALT, 10000, 32, "sha256");
+    derivedKeys.set(password, key);
+  }
+  return key;
+}
+
+/**
+ * Encrypt data using AES-GCM for authenticated encryption
+ * @param data The plaintext to encrypt
+ * @param password The password to derive the key from
+ * @returns The encrypted data as "iv:authTag:ciphertext" hex string
+ */
+export function encryptData(data: string, password: string): string {
+  const iv = crypto.randomBytes(12); // GCM recommends 12 bytes
+  const key = deriveKey(password);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+
+  let encrypted = cipher.update(data, "utf8", "hex");
+  encrypted += cipher.final("hex");
+  const authTag = cipher.getAuthTag().toString("hex");
+
+  return `${iv.toString("hex")}:${authTag}:${encrypted}`;
+}
+
+/**
+ * Decrypt data using AES-GCM
+ * @param data The encrypted "iv:authTag:ciphertext" string
+ * @param password The password to derive the key from
+ * @returns The decrypted plaintext
+ */
+export function decryptData(data: string, password: string): string {
+  const [ivHex, authTagHex, encryptedData] = data.split(":");
+  const iv = Buffer.from(ivHex, "hex");
+  const authTag = Buffer.from(authTagHex, "hex");
+  const key = deriveKey(password);
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(authTag);
+
+  let decrypted = decipher.update(encryptedData, "hex", "utf8");
+  decrypted += decipher.final("utf8");
+
+  return decrypted;
+}
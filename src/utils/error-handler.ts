@@ -1,6 +1,7 @@
 import TelegramBot from "node-telegram-bot-api";
 import { config } from "../config";
 import { ApiError } from "../types/common";
+import { CopperxApiError } from "./api";
 import { getModuleLogger } from "./logger";
 
 // Create module logger
@@ -11,6 +12,7 @@ const logger = getModuleLogger("error-handler");
  */
 export enum ErrorType {
   AUTH = "auth",
+  SESSION_EXPIRED = "session_expired",
   VALIDATION = "validation",
   SERVER = "server",
   NETWORK = "network",
@@ -24,6 +26,7 @@ export interface ErrorResponse {
   type: ErrorType;
   message: string;
   details?: string;
+  requestId?: string; // ID of the failed API request, for support
   originalError?: any;
 }
 
@@ -33,16 +36,38 @@ export interface ErrorResponse {
  * @returns Standardized error response
  */
 export function processApiError(error: any): ErrorResponse {
-  // Check if the error is a standard API error
-  if (error.response && error.response.data) {
-    const apiErrorData = error.response.data as ApiError;
-    const status = error.response.status;
+  // Check if the error is an API error
+  if (error instanceof CopperxApiError) {
+    const apiErrorData = error.data;
+    const status = error.status;
+    const requestId = error.requestId;
 
-    if (status === 401 || status === 403) {
+    if (error.isNetworkError) {
+      return {
+        type: ErrorType.NETWORK,
+        message: error.isTimeout
+          ? "The request timed out"
+          : "Connection issue detected",
+        details: error.isTimeout
+          ? "The server took too long to respond. Please try again in a moment."
+          : "Could not connect to the server. Please check your internet connection and try again.",
+        requestId,
+        originalError: error,
+      };
+    } else if (status === 401 && error.authenticated) {
+      return {
+        type: ErrorType.SESSION_EXPIRED,
+        message: "Your session has expired",
+        details: "Log in again to continue where you left off.",
+        requestId,
+        originalError: error,
+      };
+    } else if (status === 401 || status === 403) {
       return {
         type: ErrorType.AUTH,
         message: "Your session has expired or you are not authorized",
-        details: apiErrorData.message || "Please login again to continue",
+        details: apiErrorData?.message || "Please login again to continue",
+        requestId,
         originalError: error,
       };
     } else if (status === 400 || status === 422) {
@@ -50,23 +75,33 @@ export function processApiError(error: any): ErrorResponse {
         type: ErrorType.VALIDATION,
         message: "The information you provided is not valid",
         details: formatValidationErrors(apiErrorData),
+        requestId,
+        originalError: error,
+      };
+    } else if (status === 429) {
+      return {
+        type: ErrorType.SERVER,
+        message: "Too many requests",
+        details: "Please wait a moment and try again.",
+        requestId,
         originalError: error,
       };
-    } else if (status >= 500) {
+    } else if (status !== undefined && status >= 500) {
       return {
         type: ErrorType.SERVER,
         message: "Our server encountered an issue",
         details:
-          apiErrorData.message || "Please try again later or contact support",
+          apiErrorData?.message || "Please try again later or contact support",
+        requestId,
         originalError: error,
       };
     }
-  } else if (error.request) {
+
     return {
-      type: ErrorType.NETWORK,
-      message: "Connection issue detected",
-      details:
-        "Could not connect to the server. Please check your internet connection and try again.",
+      type: ErrorType.UNKNOWN,
+      message: "An unexpected error occurred",
+      details: error.message || "Please try again or contact support",
+      requestId,
       originalError: error,
     };
   }
@@ -94,7 +129,7 @@ export function processApiError(error: any): ErrorResponse {
  * @param data The error response data
  * @returns Formatted error message
  */
-function formatValidationErrors(data: ApiError): string {
+function formatValidationErrors(data: ApiError | undefined): string {
   if (Array.isArray(data?.message)) {
     return data.message.map((msg: string) => `• ${msg}`).join("\n");
   }
@@ -130,6 +165,10 @@ export function handleApiErrorResponse(
     message += "\n\n*Please login again* using /login to continue";
   }
 
+  if (processedError.requestId) {
+    message += `\n\nRequest ID: \`${processedError.requestId}\``;
+  }
+
   // Log the original error for debugging
   if (processedError.originalError) {
     logger.error("Original error:", processedError.originalError);
@@ -139,7 +178,10 @@ export function handleApiErrorResponse(
 
   const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
 
-  if (commandReference) {
+  if (processedError.type === ErrorType.SESSION_EXPIRED) {
+    // The flow resumes after login, so there is nothing to retry
+    keyboard.push([{ text: "🔑 Log In Again", callback_data: "action:login" }]);
+  } else if (commandReference) {
     keyboard.push([{ text: "🔄 Try Again", callback_data: commandReference }]);
   }
 
@@ -1,3 +1,18 @@
+import {
+  Account,
+  ScheduledTransfer,
+  Transaction,
+  TransferHistoryFilters,
+  TransferResponse,
+  TransferStatus,
+  TreasuryRequest,
+  TreasuryRequestStatus,
+} from "../types";
+import { describeRecurrence, formatUTCDateTime } from "./recurrence";
+import { getPurposeCodeLabel, getTransferCounterparties } from "./helpers";
+import { parseApiAmount } from "../services/transfer.service";
+import { Amount, amountToFixed, isPositiveAmount, toAmount } from "./money";
+
 /**
  * Format a wallet address for display
  * @param address The wallet address to format
@@ -18,12 +33,10 @@ export function formatAddress(address: string, length: number = 6): string {
  * @returns The formatted amount
  */
 export function formatAmount(
-  amount: string | number,
+  amount: Amount | string | number,
   decimals: number = 2
 ): string {
-  const numAmount = typeof amount === "string" ? parseFloat(amount) : amount;
-  if (isNaN(numAmount)) return "0.00";
-  return numAmount.toFixed(decimals);
+  return amountToFixed(toAmount(amount), decimals);
 }
 
 /**
@@ -34,7 +47,7 @@ export function formatAmount(
  * @returns The formatted currency amount
  */
 export function formatCurrency(
-  amount: string | number,
+  amount: Amount | string | number,
   currency: string = "USDC",
   decimals: number = 2
 ): string {
@@ -42,6 +55,61 @@ export function formatCurrency(
   return `${formattedAmount} ${currency}`;
 }
 
+/**
+ * Mask an account number, keeping only the last four digits
+ * @param accountNumber The account number
+ * @returns Masked number such as "••••1234"
+ */
+export function maskAccountNumber(accountNumber: string): string {
+  if (!accountNumber) return "";
+  return `••••${accountNumber.slice(-4)}`;
+}
+
+/**
+ * Format a short label for a bank account
+ * @param account The bank account
+ * @returns Label such as "Chase ••••1234"
+ */
+export function formatBankAccountLabel(account: Account): string {
+  const bank = account.bankAccount;
+  if (!bank) return "Bank account";
+  return `${bank.bankName} ${maskAccountNumber(bank.bankAccountNumber)}`;
+}
+
+/**
+ * Format a short label for a Copperx account
+ * @param account The email and organization of the account
+ * @returns Label such as "jane@example.com · org 1a2b3c4d"
+ */
+export function formatAccountLabel(account: {
+  email?: string;
+  organizationId: string;
+}): string {
+  const organization = `org ${account.organizationId.slice(0, 8)}`;
+  return account.email ? `${account.email} · ${organization}` : organization;
+}
+
+/**
+ * Format the line naming the account a message applies to
+ * @param account The email and organization of the account
+ * @returns Markdown line such as "👤 Account: jane@example.com · org 1a2b3c4d"
+ */
+export function formatAccountLine(account: {
+  email?: string;
+  organizationId: string;
+}): string {
+  return `👤 Account: ${escapeMarkdown(formatAccountLabel(account))}`;
+}
+
+/**
+ * Escape characters that have special meaning in Telegram Markdown
+ * @param text The text to escape
+ * @returns The escaped text
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`\[])/g, "\\$1");
+}
+
 /**
  * Format a date to a human-readable string
  * @param date The date to format
@@ -57,8 +125,23 @@ export function formatDate(date: Date): string {
   });
 }
 
+/**
+ * Format a duration as whole seconds or minutes, rounded up
+ * @param ms The duration in milliseconds
+ * @returns The formatted duration, e.g. "45 seconds" or "15 minutes"
+ */
+export function formatWaitTime(ms: number): string {
+  if (ms < 60 * 1000) {
+    const seconds = Math.max(1, Math.ceil(ms / 1000));
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+
+  const minutes = Math.ceil(ms / (60 * 1000));
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
 // Import the getNetworkName function
-import { getNetworkName } from "./constants";
+import { getExplorerTxUrl, getNetworkName } from "./constants";
 
 /**
  * Create a Markdown formatted message for wallet balances
@@ -98,3 +181,272 @@ export function formatWalletBalances(
 
   return message;
 }
+
+/**
+ * Format the details of a scheduled transfer
+ * @param schedule The scheduled transfer
+ * @returns Markdown lines describing recipient, amount, purpose and timing
+ */
+export function formatScheduleSummary(schedule: ScheduledTransfer): string {
+  const { template } = schedule;
+  const recipient =
+    template.recipientType === "email"
+      ? escapeMarkdown(template.recipient)
+      : formatAddress(template.recipient);
+
+  let summary = schedule.account
+    ? `From: ${escapeMarkdown(formatAccountLabel(schedule.account))}\n`
+    : "";
+  summary +=
+    `To: ${recipient}\n` +
+    `Amount: ${formatCurrency(template.amount, template.currency)}\n` +
+    `Purpose: ${getPurposeCodeLabel(template.purposeCode)}\n` +
+    `Repeats: ${describeRecurrence(
+      schedule.recurrence,
+      new Date(schedule.startAt)
+    )}\n`;
+
+  if (schedule.nextRunAt && schedule.status === "active") {
+    summary += `Next Run: ${formatUTCDateTime(new Date(schedule.nextRunAt))}${
+      schedule.skipNext ? " (skipped)" : ""
+    }\n`;
+  }
+
+  return summary;
+}
+
+// Status line of a treasury transfer request
+const TREASURY_REQUEST_STATUS_LABELS: Record<TreasuryRequestStatus, string> = {
+  pending: "⏳ Waiting for approvals",
+  approved: "🕒 Approved, sending",
+  executed: "✅ Sent",
+  failed: "❌ Failed",
+  rejected: "🚫 Rejected",
+  cancelled: "🚫 Cancelled",
+  expired: "⌛ Expired",
+};
+
+/**
+ * Format a group treasury transfer request and its votes
+ * @param request The transfer request
+ * @param account The account the treasury sends from
+ * @returns Markdown lines describing the transfer, approvals and status
+ */
+export function formatTreasuryRequest(
+  request: TreasuryRequest,
+  account: { email?: string; organizationId: string }
+): string {
+  const { transfer } = request;
+  const recipient =
+    transfer.recipientType === "email"
+      ? escapeMarkdown(transfer.recipient)
+      : formatAddress(transfer.recipient);
+
+  let summary =
+    `From: ${escapeMarkdown(formatAccountLabel(account))}\n` +
+    `To: ${recipient}\n` +
+    `Amount: ${formatCurrency(transfer.amount, transfer.currency)}\n` +
+    `Purpose: ${getPurposeCodeLabel(transfer.purposeCode)}\n` +
+    `Requested by: ${escapeMarkdown(request.requestedBy.name)}\n\n` +
+    `Approvals: ${request.approvals.length} of ${request.requiredApprovals}\n`;
+
+  request.approvals.forEach((vote) => {
+    summary += `✅ ${escapeMarkdown(vote.name)}\n`;
+  });
+  if (request.rejectedBy) {
+    summary += `❌ ${escapeMarkdown(request.rejectedBy.name)}\n`;
+  }
+
+  summary += `\nStatus: ${TREASURY_REQUEST_STATUS_LABELS[request.status]}\n`;
+  if (request.status === "pending") {
+    summary += `Expires: ${formatUTCDateTime(new Date(request.expiresAt))}\n`;
+  }
+  if (request.transferId) {
+    summary += `Reference ID: ${request.transferId}\n`;
+  }
+  if (request.error) {
+    summary += `Reason: ${escapeMarkdown(request.error)}\n`;
+  }
+
+  return summary;
+}
+
+/**
+ * Describe the active transaction history filters
+ * @param filters The history filters
+ * @returns Plain text lines such as "Type: send", empty if no filter is set
+ */
+export function formatHistoryFilters(
+  filters: TransferHistoryFilters
+): string[] {
+  const lines: string[] = [];
+
+  if (filters.type) lines.push(`Type: ${filters.type}`);
+  if (filters.status) lines.push(`Status: ${filters.status}`);
+  if (filters.startDate || filters.endDate) {
+    lines.push(
+      `Dates: ${filters.startDate || "any"} to ${filters.endDate || "any"}`
+    );
+  }
+  if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+    lines.push(
+      `Amount: ${filters.minAmount ?? "any"} to ${filters.maxAmount ?? "any"}`
+    );
+  }
+  if (filters.counterparty) lines.push(`Counterparty: ${filters.counterparty}`);
+
+  return lines;
+}
+
+/**
+ * Get the emoji for a transfer or transaction status
+ * @param status The status
+ * @returns Status emoji
+ */
+export function getTransferStatusEmoji(status: TransferStatus): string {
+  switch (status) {
+    case TransferStatus.SUCCESS:
+      return "✅";
+    case TransferStatus.FAILED:
+    case TransferStatus.CANCELED:
+      return "❌";
+    case TransferStatus.REFUNDED:
+      return "↩️";
+    default:
+      return "⏳";
+  }
+}
+
+/**
+ * Check whether a transfer status will not change anymore
+ * @param status The transfer status
+ * @returns True for success, failed, canceled and refunded
+ */
+export function isFinalTransferStatus(status: TransferStatus): boolean {
+  return (
+    status === TransferStatus.SUCCESS ||
+    status === TransferStatus.FAILED ||
+    status === TransferStatus.CANCELED ||
+    status === TransferStatus.REFUNDED
+  );
+}
+
+/**
+ * Format the status footer of a transfer confirmation message
+ * @param status The current transfer status
+ * @returns Markdown footer, starting with a blank line
+ */
+export function formatTransferStatusFooter(status: TransferStatus): string {
+  let footer = `\n\nStatus: ${getTransferStatusEmoji(status)} ${status}`;
+  if (!isFinalTransferStatus(status)) {
+    footer += "\n_You'll get an update when this transfer completes._";
+  }
+  return footer;
+}
+
+/**
+ * Find the network a transaction was made on
+ * Prefers the account the transaction moved funds from or to, then any
+ * wallet account of the transfer.
+ */
+function getTransactionNetwork(
+  transfer: TransferResponse,
+  transaction: Transaction
+): string | undefined {
+  const accounts = [
+    transaction.depositAccount,
+    transfer.sourceAccount,
+    transfer.destinationAccount,
+  ].filter((account) => account?.network);
+
+  const account =
+    accounts.find(
+      (account) =>
+        account?.id === transaction.fromAccountId ||
+        account?.id === transaction.toAccountId
+    ) || accounts[0];
+
+  return account?.network;
+}
+
+/**
+ * Format the details of a transfer with its transactions
+ * @param transfer The transfer
+ * @returns Markdown message with fees, counterparty, purpose, transactions
+ * and block explorer links
+ */
+export function formatTransferDetails(transfer: TransferResponse): string {
+  const counterparty = getTransferCounterparties(transfer)[0];
+  const feeCurrency = transfer.feeCurrency || transfer.currency;
+
+  let message = "🔎 *Transfer Details*\n\n";
+  message += `Type: *${transfer.type.toUpperCase()}*\n`;
+  message += `Status: ${getTransferStatusEmoji(transfer.status)} ${
+    transfer.status
+  }\n`;
+  message += `Amount: ${formatCurrency(
+    parseApiAmount(transfer.amount),
+    transfer.currency
+  )}\n`;
+  if (transfer.totalFee) {
+    message += `Fee: ${formatCurrency(
+      parseApiAmount(transfer.totalFee),
+      feeCurrency
+    )}`;
+    message += transfer.feePercentage
+      ? ` (${transfer.feePercentage}%)\n`
+      : "\n";
+  }
+  if (counterparty) {
+    message += `Counterparty: ${escapeMarkdown(counterparty)}\n`;
+  }
+  if (transfer.purposeCode) {
+    message += `Purpose: ${escapeMarkdown(
+      getPurposeCodeLabel(transfer.purposeCode)
+    )}\n`;
+  }
+  message += `Date: ${formatDate(new Date(transfer.createdAt))}\n`;
+  message += `ID: \`${transfer.id}\`\n`;
+
+  const transactions = transfer.transactions || [];
+  if (transactions.length > 0) {
+    message += "\n*Transactions*\n";
+    transactions.forEach((transaction, index) => {
+      message += `\n${index + 1}. ${getTransferStatusEmoji(
+        transaction.status
+      )} ${escapeMarkdown(transaction.type)} - ${transaction.status}\n`;
+      message += `   ${formatCurrency(
+        parseApiAmount(transaction.fromAmount),
+        transaction.fromCurrency
+      )} → ${formatCurrency(
+        parseApiAmount(transaction.toAmount),
+        transaction.toCurrency
+      )}\n`;
+      if (
+        transaction.totalFee &&
+        isPositiveAmount(parseApiAmount(transaction.totalFee))
+      ) {
+        message += `   Fee: ${formatCurrency(
+          parseApiAmount(transaction.totalFee),
+          transaction.feeCurrency
+        )}\n`;
+      }
+      if (transaction.transactionHash) {
+        const network = getTransactionNetwork(transfer, transaction);
+        const url = getExplorerTxUrl(network, transaction.transactionHash);
+        message += url
+          ? `   [View on ${getNetworkName(network)} explorer](${url})\n`
+          : `   Hash: \`${transaction.transactionHash}\`\n`;
+      }
+    });
+  }
+
+  if (transfer.paymentUrl) {
+    message += `\n[Open payment page](${transfer.paymentUrl})\n`;
+  }
+  if (transfer.invoiceUrl) {
+    message += `\n[View invoice](${transfer.invoiceUrl})\n`;
+  }
+
+  return message;
+}
@@ -1,6 +1,7 @@
 /**
  * Utility functions for the application
  */
+import { TransferResponse, TransferType } from "../types/transfer";
 
 /**
  * Get user-friendly label for a purpose code
@@ -79,3 +80,44 @@ export function getSourceOfFundsLabel(sourceOfFunds: string): string {
         .replace(/\b\w/g, (l) => l.toUpperCase());
   }
 }
+
+/**
+ * Check whether funds moved into the user's account in a transfer
+ * @param transfer The transfer
+ * @returns True for receives and deposits
+ */
+export function isIncomingTransfer(transfer: TransferResponse): boolean {
+  return (
+    transfer.type === TransferType.RECEIVE ||
+    transfer.type === TransferType.DEPOSIT ||
+    transfer.type === TransferType.BANK_DEPOSIT
+  );
+}
+
+/**
+ * Get the identifiers of the other party of a transfer
+ * @param transfer The transfer
+ * @returns Names, emails and addresses, most readable first
+ */
+export function getTransferCounterparties(
+  transfer: TransferResponse
+): string[] {
+  const incoming = isIncomingTransfer(transfer);
+  const account = incoming
+    ? transfer.sourceAccount
+    : transfer.destinationAccount;
+
+  const candidates = [
+    incoming ? transfer.senderDisplayName : undefined,
+    transfer.customer?.name,
+    transfer.customer?.businessName,
+    transfer.customer?.email,
+    account?.bankAccount?.bankBeneficiaryName,
+    account?.walletAddress,
+  ];
+
+  return candidates.filter(
+    (value, index): value is string =>
+      !!value && candidates.indexOf(value) === index
+  );
+}
@@ -454,21 +454,26 @@ export function createTransferMethodKeyboard(): TelegramBot.InlineKeyboardButton
 
 /**
  * Create amount selection keyboard
+ * @param prefix Callback prefix of the amount buttons (default: "amount")
+ * @param cancelAction Callback data of the cancel button
  */
-export function createAmountKeyboard(): TelegramBot.InlineKeyboardButton[][] {
+export function createAmountKeyboard(
+  prefix: string = "amount",
+  cancelAction: string = "transfer:cancel"
+): TelegramBot.InlineKeyboardButton[][] {
   return [
     [
-      { text: "$5", callback_data: "amount:5" },
-      { text: "$10", callback_data: "amount:10" },
-      { text: "$25", callback_data: "amount:25" },
+      { text: "$5", callback_data: `${prefix}:5` },
+      { text: "$10", callback_data: `${prefix}:10` },
+      { text: "$25", callback_data: `${prefix}:25` },
     ],
     [
-      { text: "$50", callback_data: "amount:50" },
-      { text: "$100", callback_data: "amount:100" },
-      { text: "$200", callback_data: "amount:200" },
+      { text: "$50", callback_data: `${prefix}:50` },
+      { text: "$100", callback_data: `${prefix}:100` },
+      { text: "$200", callback_data: `${prefix}:200` },
     ],
-    [{ text: "Custom Amount", callback_data: "amount:custom" }],
-    [{ text: "❌ Cancel", callback_data: "transfer:cancel" }],
+    [{ text: "Custom Amount", callback_data: `${prefix}:custom` }],
+    [{ text: "❌ Cancel", callback_data: cancelAction }],
   ];
 }
 
@@ -486,3 +491,39 @@ export function createConfirmationKeyboard(
     ],
   ];
 }
+
+/**
+ * Create the action keyboard for a scheduled transfer
+ * @param scheduleId The schedule ID
+ * @param paused Whether the schedule is paused (shows Resume instead of Pause/Skip)
+ */
+export function createScheduleActionsKeyboard(
+  scheduleId: string,
+  paused: boolean = false
+): TelegramBot.InlineKeyboardButton[][] {
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = [];
+
+  if (paused) {
+    keyboard.push([
+      { text: "▶️ Resume", callback_data: `schedule:resume:${scheduleId}` },
+    ]);
+  } else {
+    keyboard.push([
+      {
+        text: "⏭ Skip Next Run",
+        callback_data: `schedule:skip:${scheduleId}`,
+      },
+      { text: "⏸ Pause", callback_data: `schedule:pause:${scheduleId}` },
+    ]);
+  }
+
+  keyboard.push([
+    { text: "📜 Run Log", callback_data: `schedule:log:${scheduleId}` },
+    {
+      text: "🗑 Cancel Schedule",
+      callback_data: `schedule:stop:${scheduleId}`,
+    },
+  ]);
+
+  return keyboard;
+}
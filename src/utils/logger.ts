@@ -1,6 +1,11 @@
 /**
  * Logger utility for structured logging throughout the application
  */
+import * as fs from "fs";
+import * as path from "path";
+import { config } from "../config";
+import { getCorrelationId } from "./correlation";
+import { redactString, redactValue } from "./redact";
 
 // Log levels
 export enum LogLevel {
@@ -10,16 +15,30 @@ export enum LogLevel {
   ERROR = 3,
 }
 
+// Output format: human-readable lines or one JSON object per line
+export type LogFormat = "text" | "json";
+
 // Logger configuration
 interface LoggerConfig {
   level: LogLevel;
+  format: LogFormat;
   enableConsole: boolean;
+  file?: string; // Entries are also appended to this file when set
   service?: string;
 }
 
+const LOG_LEVELS: Record<string, LogLevel> = {
+  debug: LogLevel.DEBUG,
+  info: LogLevel.INFO,
+  warn: LogLevel.WARN,
+  error: LogLevel.ERROR,
+};
+
 const DEFAULT_CONFIG: LoggerConfig = {
-  level: process.env.NODE_ENV === "production" ? LogLevel.INFO : LogLevel.DEBUG,
+  level: LOG_LEVELS[config.logging.level] ?? LogLevel.INFO,
+  format: config.logging.format === "json" ? "json" : "text",
   enableConsole: true,
+  file: config.logging.file || undefined,
   service: "copperx-bot",
 };
 
@@ -31,32 +50,139 @@ export interface Logger {
   error(message: string, meta?: Record<string, any> | Error): void;
 }
 
+/**
+ * Appends log lines to a file, rotating it once it reaches the size limit
+ * Rotated files are renamed to app.log.1, app.log.2, ... and the oldest one
+ * beyond config.logging.maxFiles is removed.
+ */
+class LogFileWriter {
+  private size: number;
+  private failed = false;
+
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  /**
+   * Rename the current file and the older rotated ones
+   */
+  private rotate(): void {
+    const { maxFiles } = config.logging;
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      const source = `${this.filePath}.${index}`;
+      if (fs.existsSync(source)) {
+        fs.renameSync(source, `${this.filePath}.${index + 1}`);
+      }
+    }
+
+    if (maxFiles > 0) {
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      fs.unlinkSync(this.filePath);
+    }
+    this.size = 0;
+  }
+
+  /**
+   * Append a line to the file
+   */
+  write(line: string): void {
+    try {
+      const bytes = Buffer.byteLength(line) + 1;
+      if (this.size > 0 && this.size + bytes > config.logging.maxFileSize) {
+        this.rotate();
+      }
+
+      fs.appendFileSync(this.filePath, `${line}\n`);
+      this.size += bytes;
+      this.failed = false;
+    } catch (error) {
+      // Report the first failure only, logging can't stop the bot
+      if (!this.failed) {
+        console.error(`Failed to write log file ${this.filePath}:`, error);
+        this.failed = true;
+      }
+    }
+  }
+}
+
+// One writer per file, shared by all module loggers
+const fileWriters = new Map<string, LogFileWriter>();
+
+/**
+ * Get the writer of a log file
+ */
+function getFileWriter(filePath: string): LogFileWriter {
+  let writer = fileWriters.get(filePath);
+  if (!writer) {
+    writer = new LogFileWriter(filePath);
+    fileWriters.set(filePath, writer);
+  }
+  return writer;
+}
+
 /**
  * Create a formatted log entry
+ * Secrets and personal data are redacted from the message and meta, and
+ * the correlation ID of the update being handled is added.
  */
 function formatLogEntry(
   level: string,
   message: string,
-  meta?: Record<string, any> | Error,
-  service?: string
+  meta: Record<string, any> | Error | undefined,
+  service: string | undefined,
+  format: LogFormat
 ): string {
   const timestamp = new Date().toISOString();
+  const correlationId = getCorrelationId();
+  const safeMessage = redactString(message);
+  const safeMeta = meta === undefined ? undefined : redactValue(meta);
+
+  if (format === "json") {
+    const entry: Record<string, any> = {
+      timestamp,
+      level: level.toLowerCase(),
+      service,
+      correlationId,
+      message: safeMessage,
+    };
+    if (meta instanceof Error) {
+      entry.error = safeMeta;
+    } else if (safeMeta !== undefined) {
+      entry.meta = safeMeta;
+    }
+
+    try {
+      return JSON.stringify(entry);
+    } catch (e) {
+      return JSON.stringify({ ...entry, meta: "[Unserializable]" });
+    }
+  }
+
   const serviceTag = service ? `[${service}]` : "";
+  const correlationTag = correlationId ? `[${correlationId}]` : "";
 
   let metaStr = "";
-  if (meta) {
-    if (meta instanceof Error) {
-      metaStr = ` ${meta.message}${meta.stack ? `\n${meta.stack}` : ""}`;
-    } else if (Object.keys(meta).length > 0) {
-      try {
-        metaStr = ` ${JSON.stringify(meta)}`;
-      } catch (e) {
-        metaStr = ` [Object with circular references]`;
-      }
+  if (meta instanceof Error) {
+    metaStr = ` ${safeMeta.message}${
+      safeMeta.stack ? `\n${safeMeta.stack}` : ""
+    }`;
+  } else if (
+    safeMeta !== null &&
+    typeof safeMeta === "object" &&
+    Object.keys(safeMeta).length > 0
+  ) {
+    try {
+      metaStr = ` ${JSON.stringify(safeMeta)}`;
+    } catch (e) {
+      metaStr = ` [Object with circular references]`;
     }
+  } else if (safeMeta !== undefined && typeof safeMeta !== "object") {
+    metaStr = ` ${safeMeta}`;
   }
 
-  return `${timestamp} [${level}]${serviceTag} ${message}${metaStr}`;
+  return `${timestamp} [${level}]${serviceTag}${correlationTag} ${safeMessage}${metaStr}`;
 }
 
 /**
@@ -68,37 +194,42 @@ export function createLogger(config: Partial<LoggerConfig> = {}): Logger {
     ...config,
   };
 
+  const write = (
+    level: LogLevel,
+    label: string,
+    print: (line: string) => void,
+    message: string,
+    meta?: Record<string, any> | Error
+  ): void => {
+    if (mergedConfig.level > level) return;
+    if (!mergedConfig.enableConsole && !mergedConfig.file) return;
+
+    const entry = formatLogEntry(
+      label,
+      message,
+      meta,
+      mergedConfig.service,
+      mergedConfig.format
+    );
+    if (mergedConfig.enableConsole) print(entry);
+    if (mergedConfig.file) getFileWriter(mergedConfig.file).write(entry);
+  };
+
   return {
     debug(message: string, meta?: Record<string, any>): void {
-      if (mergedConfig.level <= LogLevel.DEBUG && mergedConfig.enableConsole) {
-        console.debug(
-          formatLogEntry("DEBUG", message, meta, mergedConfig.service)
-        );
-      }
+      write(LogLevel.DEBUG, "DEBUG", console.debug, message, meta);
     },
 
     info(message: string, meta?: Record<string, any>): void {
-      if (mergedConfig.level <= LogLevel.INFO && mergedConfig.enableConsole) {
-        console.log(
-          formatLogEntry("INFO", message, meta, mergedConfig.service)
-        );
-      }
+      write(LogLevel.INFO, "INFO", console.log, message, meta);
     },
 
     warn(message: string, meta?: Record<string, any>): void {
-      if (mergedConfig.level <= LogLevel.WARN && mergedConfig.enableConsole) {
-        console.warn(
-          formatLogEntry("WARN", message, meta, mergedConfig.service)
-        );
-      }
+      write(LogLevel.WARN, "WARN", console.warn, message, meta);
     },
 
     error(message: string, meta?: Record<string, any> | Error): void {
-      if (mergedConfig.level <= LogLevel.ERROR && mergedConfig.enableConsole) {
-        console.error(
-          formatLogEntry("ERROR", message, meta, mergedConfig.service)
-        );
-      }
+      write(LogLevel.ERROR, "ERROR", console.error, message, meta);
     },
   };
 }
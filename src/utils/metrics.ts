@@ -0,0 +1,235 @@
+/**
+ * Minimal metrics registry rendering the Prometheus text exposition format
+ */
+
+// Label names and values of a single time series
+export type MetricLabels = Record<string, string>;
+
+// Default histogram buckets in seconds, suited to API request durations
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Format labels as {name="value",...}, or an empty string without labels
+ */
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+/**
+ * Get a stable key identifying the time series of a label set
+ */
+function getSeriesKey(labels: MetricLabels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((name) => [name, labels[name]])
+  );
+}
+
+/**
+ * A metric that can render itself in the exposition format
+ */
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+/**
+ * Render the HELP and TYPE header of a metric
+ */
+function renderHeader(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * Counter that only goes up, e.g. the number of handled commands
+ */
+export class Counter implements Metric {
+  private series = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(readonly name: string, private readonly help: string) {}
+
+  /**
+   * Increase the counter
+   * @param labels Labels of the time series
+   * @param value Amount to add, 1 by default
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = getSeriesKey(labels);
+    const current = this.series.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.series.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return [
+      ...renderHeader(this.name, this.help, "counter"),
+      ...Array.from(this.series.values()).map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/**
+ * Histogram counting observations, e.g. request durations, into buckets
+ */
+export class Histogram implements Metric {
+  private series = new Map<
+    string,
+    { labels: MetricLabels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  /**
+   * Record an observation
+   * @param labels Labels of the time series
+   * @param value The observed value
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const key = getSeriesKey(labels);
+    let current = this.series.get(key);
+    if (!current) {
+      current = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, current);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) current!.counts[index]++;
+    });
+    current.sum += value;
+    current.count++;
+  }
+
+  render(): string[] {
+    const lines = renderHeader(this.name, this.help, "histogram");
+    this.series.forEach(({ labels, counts, sum, count }) => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({
+            ...labels,
+            le: String(bound),
+          })} ${counts[index]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({
+          ...labels,
+          le: "+Inf",
+        })} ${count}`
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return lines;
+  }
+}
+
+/**
+ * Metric whose values are read from elsewhere whenever metrics are rendered
+ */
+class CollectedMetric implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: "counter" | "gauge",
+    private readonly collect: () => Array<{
+      labels?: MetricLabels;
+      value: number;
+    }>
+  ) {}
+
+  render(): string[] {
+    return [
+      ...renderHeader(this.name, this.help, this.type),
+      ...this.collect().map(
+        ({ labels, value }) =>
+          `${this.name}${formatLabels(labels || {})} ${value}`
+      ),
+    ];
+  }
+}
+
+/**
+ * Holds all metrics of the process
+ */
+class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  /**
+   * Add a metric, failing on duplicate names
+   */
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  /**
+   * Create and register a counter
+   */
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  /**
+   * Create and register a histogram
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Register a metric whose values are collected when rendering
+   * @param collect Returns the current value of each time series
+   */
+  collected(
+    name: string,
+    help: string,
+    type: "counter" | "gauge",
+    collect: () => Array<{ labels?: MetricLabels; value: number }>
+  ): void {
+    this.register(new CollectedMetric(name, help, type, collect));
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    this.metrics.forEach((metric) => lines.push(...metric.render()));
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+// Export singleton instance
+export const metricsRegistry = new MetricsRegistry();
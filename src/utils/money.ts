@@ -0,0 +1,194 @@
+/**
+ * Exact decimal arithmetic for money amounts
+ * Amounts are held as bigint counts of 10^-8 units, the precision of the
+ * Copperx API amount format, so parsing, comparing and summing never suffer
+ * from floating-point error. Use decimal strings (see amountToString) when
+ * an amount has to be stored in session state or files, since JSON can't
+ * hold a bigint.
+ */
+
+// Exact amount in units of 10^-8
+export type Amount = bigint;
+
+// Decimal places of amounts in the API format
+export const AMOUNT_DECIMALS = 8;
+
+export const ZERO_AMOUNT: Amount = BigInt(0);
+
+const UNITS_PER_WHOLE: Amount = BigInt(100000000);
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Get 10 to the power of n as an amount
+ */
+function powerOfTen(n: number): Amount {
+  return BigInt("1" + "0".repeat(n));
+}
+
+/**
+ * Split a decimal string into sign, whole and fraction digits
+ */
+function splitDecimal(
+  value: string
+): { negative: boolean; whole: string; fraction: string } | undefined {
+  const match = value.trim().replace(/,/g, "").match(DECIMAL_PATTERN);
+  if (!match) return undefined;
+
+  const [, sign, whole, fraction = ""] = match;
+  if (!whole && !fraction) return undefined;
+
+  return { negative: sign === "-", whole: whole || "0", fraction };
+}
+
+/**
+ * Build an amount from whole and fraction digits
+ * Fraction digits beyond 8 decimal places are dropped.
+ */
+function buildAmount(
+  negative: boolean,
+  whole: string,
+  fraction: string
+): Amount {
+  const units =
+    BigInt(whole) * UNITS_PER_WHOLE +
+    BigInt(fraction.slice(0, AMOUNT_DECIMALS).padEnd(AMOUNT_DECIMALS, "0"));
+  return negative ? -units : units;
+}
+
+/**
+ * Parse a decimal amount entered by a user, e.g. "1,250.5"
+ * @param value The decimal amount; thousands separators are ignored
+ * @param maxDecimals Decimal places allowed, e.g. the token's decimals;
+ * never more than 8
+ * @returns The amount, or undefined if the value is not a number or has
+ * more decimal places than allowed
+ */
+export function parseAmount(
+  value: string,
+  maxDecimals: number = AMOUNT_DECIMALS
+): Amount | undefined {
+  const parts = splitDecimal(value);
+  if (!parts) return undefined;
+
+  const allowed = Math.max(0, Math.min(maxDecimals, AMOUNT_DECIMALS));
+  if (parts.fraction.replace(/0+$/, "").length > allowed) return undefined;
+
+  return buildAmount(parts.negative, parts.whole, parts.fraction);
+}
+
+/**
+ * Convert a value to an amount for display, balances and totals
+ * Strings may have more than 8 decimal places (e.g. 18-decimal token
+ * balances); the extra digits are dropped, so balances are never rounded up.
+ * @param value An amount, decimal string or number
+ * @returns The amount, or zero if the value is not a number
+ */
+export function toAmount(value: Amount | string | number): Amount {
+  if (typeof value === "bigint") return value;
+
+  if (typeof value === "number") {
+    if (!isFinite(value)) return ZERO_AMOUNT;
+    value = value.toFixed(AMOUNT_DECIMALS);
+  }
+
+  const parts = splitDecimal(value);
+  return parts
+    ? buildAmount(parts.negative, parts.whole, parts.fraction)
+    : ZERO_AMOUNT;
+}
+
+/**
+ * Convert an API amount (integer string with 8 decimal places) to an amount
+ * @param value The scaled amount returned by the API, e.g. "150000000"
+ * @returns The amount, or zero if the value is missing or invalid
+ */
+export function fromApiAmount(value: string | number | undefined): Amount {
+  if (value === undefined || value === null) return ZERO_AMOUNT;
+
+  const parts = splitDecimal(String(value));
+  if (!parts) return ZERO_AMOUNT;
+
+  // Some endpoints return "150000000.0"; the fraction is below 10^-8
+  const units = BigInt(parts.whole);
+  return parts.negative ? -units : units;
+}
+
+/**
+ * Convert an amount to the API format
+ * @param amount The amount
+ * @returns Integer string with 8 decimal places, e.g. "150000000" for 1.5
+ */
+export function toApiAmount(amount: Amount): string {
+  return amount.toString();
+}
+
+/**
+ * Format an amount with a fixed number of decimal places
+ * Rounds half away from zero, like amounts are usually shown.
+ * @param amount The amount
+ * @param decimals The number of decimal places to show
+ * @returns The formatted amount, e.g. "1.50"
+ */
+export function amountToFixed(amount: Amount, decimals: number = 2): string {
+  const negative = amount < ZERO_AMOUNT;
+  let units = negative ? -amount : amount;
+
+  const shown = Math.max(0, Math.floor(decimals));
+  if (shown < AMOUNT_DECIMALS) {
+    const divisor = powerOfTen(AMOUNT_DECIMALS - shown);
+    units = (units + divisor / BigInt(2)) / divisor;
+  } else {
+    units = units * powerOfTen(shown - AMOUNT_DECIMALS);
+  }
+
+  const digits = units.toString().padStart(shown + 1, "0");
+  const whole = digits.slice(0, digits.length - shown);
+  const fraction = digits.slice(digits.length - shown);
+  const isZero = /^0*$/.test(digits);
+
+  return (
+    (negative && !isZero ? "-" : "") + whole + (shown ? `.${fraction}` : "")
+  );
+}
+
+/**
+ * Format an amount as the shortest exact decimal string
+ * @param amount The amount
+ * @returns The decimal string, e.g. "1.5" or "20"
+ */
+export function amountToString(amount: Amount): string {
+  return amountToFixed(amount, AMOUNT_DECIMALS).replace(/\.?0+$/, "");
+}
+
+/**
+ * Compare two amounts
+ * @returns A negative number if a < b, zero if equal, a positive number if a > b
+ */
+export function compareAmounts(a: Amount, b: Amount): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Sum amounts
+ * @param amounts The amounts to add up
+ * @returns The exact total
+ */
+export function sumAmounts(amounts: Amount[]): Amount {
+  return amounts.reduce((total, amount) => total + amount, ZERO_AMOUNT);
+}
+
+/**
+ * Subtract one amount from another
+ * @returns The exact difference, negative if b is larger
+ */
+export function subtractAmounts(a: Amount, b: Amount): Amount {
+  return a - b;
+}
+
+/**
+ * Check whether an amount is greater than zero
+ */
+export function isPositiveAmount(amount: Amount): boolean {
+  return amount > ZERO_AMOUNT;
+}
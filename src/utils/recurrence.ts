@@ -0,0 +1,353 @@
+/**
+ * Recurrence helpers for scheduled transfers
+ * All times are evaluated in UTC.
+ */
+import { Recurrence } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Allowed values of each cron field: minute, hour, day of month, month, day of week
+const CRON_FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Give up looking for the next cron match after this many years
+const CRON_SEARCH_YEARS = 5;
+
+/**
+ * Parsed cron expression
+ */
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Parse one cron field such as "*", "5", "1-5", "*\/15" or "1,15,30"
+ */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    let start = min;
+    let end = max;
+    if (match[1] !== "*") {
+      start = Number(match[2]);
+      // A single value with a step ("5/10") runs from that value to the max
+      end =
+        match[3] !== undefined
+          ? Number(match[3])
+          : match[4] !== undefined
+          ? max
+          : start;
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week)
+ * @param expression The cron expression
+ * @returns The parsed fields
+ * @throws Error if the expression is invalid
+ */
+function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      "Cron expression must have 5 fields: minute hour day month weekday"
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) =>
+      parseCronField(
+        field,
+        CRON_FIELD_RANGES[index][0],
+        CRON_FIELD_RANGES[index][1]
+      )
+  );
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+/**
+ * Check whether a cron expression is valid
+ * @param expression The cron expression
+ * @returns Error message, or undefined if the expression is valid
+ */
+export function validateCron(expression: string): string | undefined {
+  try {
+    parseCron(expression);
+    return undefined;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Check whether a date matches the day fields of a cron expression
+ * When both day fields are restricted, either may match (standard cron behaviour)
+ */
+function cronDayMatches(cron: CronFields, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.anyDayOfMonth && cron.anyDayOfWeek) return true;
+  if (cron.anyDayOfMonth) return dowMatch;
+  if (cron.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+/**
+ * Find the next time matching a cron expression
+ * @param expression The cron expression
+ * @param after Only times strictly after this date are considered
+ * @returns The next matching time or undefined if none is found
+ */
+export function getNextCronRun(
+  expression: string,
+  after: Date
+): Date | undefined {
+  const cron = parseCron(expression);
+
+  // Start at the next whole minute
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + CRON_SEARCH_YEARS * 366 * DAY_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cronDayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+
+  return undefined;
+}
+
+/**
+ * Add months to a date, keeping the day of month where possible
+ * Days that don't exist in the target month are clamped to its last day.
+ */
+function addMonthsUTC(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = date.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+
+  const daysInMonth = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+
+  return result;
+}
+
+/**
+ * Get the next run of a recurrence
+ * @param recurrence The recurrence rule
+ * @param startAt The first run, which later runs are aligned to
+ * @param after Only runs strictly after this date are considered
+ * @returns The next run or undefined if the recurrence has no more runs
+ */
+export function getNextRun(
+  recurrence: Recurrence,
+  startAt: Date,
+  after: Date
+): Date | undefined {
+  const interval = Math.max(1, recurrence.interval || 1);
+
+  if (recurrence.frequency === "cron") {
+    return recurrence.cron
+      ? getNextCronRun(recurrence.cron, after)
+      : undefined;
+  }
+
+  if (startAt > after) return startAt;
+
+  switch (recurrence.frequency) {
+    case "once":
+      return undefined;
+
+    case "daily":
+    case "weekly": {
+      const period =
+        interval * DAY_MS * (recurrence.frequency === "weekly" ? 7 : 1);
+      const periods =
+        Math.floor((after.getTime() - startAt.getTime()) / period) + 1;
+      return new Date(startAt.getTime() + periods * period);
+    }
+
+    case "monthly": {
+      // Estimate the number of months elapsed, then step forward to the first run after
+      const elapsedMonths =
+        (after.getUTCFullYear() - startAt.getUTCFullYear()) * 12 +
+        (after.getUTCMonth() - startAt.getUTCMonth());
+      let periods = Math.max(0, Math.floor(elapsedMonths / interval) - 1);
+      let next = addMonthsUTC(startAt, periods * interval);
+      while (next <= after) {
+        periods++;
+        next = addMonthsUTC(startAt, periods * interval);
+      }
+      return next;
+    }
+  }
+}
+
+/**
+ * Format a UTC time of day as HH:MM
+ */
+function formatTimeUTC(date: Date): string {
+  return date.toISOString().slice(11, 16);
+}
+
+/**
+ * Format a date as "YYYY-MM-DD HH:MM UTC"
+ */
+export function formatUTCDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 10)} ${formatTimeUTC(date)} UTC`;
+}
+
+/**
+ * Describe a recurrence in plain words
+ * @param recurrence The recurrence rule
+ * @param startAt The first run
+ * @returns Description such as "Every 2 weeks on Friday at 09:00 UTC"
+ */
+export function describeRecurrence(
+  recurrence: Recurrence,
+  startAt: Date
+): string {
+  const interval = Math.max(1, recurrence.interval || 1);
+  const time = `${formatTimeUTC(startAt)} UTC`;
+
+  switch (recurrence.frequency) {
+    case "once":
+      return `Once on ${startAt.toISOString().slice(0, 10)} at ${time}`;
+    case "daily":
+      return interval === 1
+        ? `Every day at ${time}`
+        : `Every ${interval} days at ${time}`;
+    case "weekly": {
+      const weekday = WEEKDAYS[startAt.getUTCDay()];
+      return interval === 1
+        ? `Every week on ${weekday} at ${time}`
+        : `Every ${interval} weeks on ${weekday} at ${time}`;
+    }
+    case "monthly":
+      return interval === 1
+        ? `Every month on day ${startAt.getUTCDate()} at ${time}`
+        : `Every ${interval} months on day ${startAt.getUTCDate()} at ${time}`;
+    case "cron":
+      return `Cron \`${recurrence.cron}\` (UTC)`;
+  }
+}
+
+/**
+ * Parse a UTC date and time entered as "YYYY-MM-DD HH:MM" (time optional)
+ * @param text The user input
+ * @param defaultHour Hour to use when no time is given
+ * @returns The parsed date or undefined if the input is invalid
+ */
+export function parseUTCDateTime(
+  text: string,
+  defaultHour: number = 9
+): Date | undefined {
+  const match = text
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute] = match;
+  const date = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      hour !== undefined ? Number(hour) : defaultHour,
+      minute !== undefined ? Number(minute) : 0
+    )
+  );
+
+  // Reject dates that rolled over, e.g. 2025-02-30 or 25:00
+  if (
+    date.getUTCFullYear() !== Number(year) ||
+    date.getUTCMonth() !== Number(month) - 1 ||
+    date.getUTCDate() !== Number(day) ||
+    (hour !== undefined && date.getUTCHours() !== Number(hour))
+  ) {
+    return undefined;
+  }
+
+  return date;
+}
@@ -0,0 +1,122 @@
+/**
+ * Redaction of secrets and personal data in log output
+ */
+
+const REDACTED = "[REDACTED]";
+
+// Keys whose values are always removed
+const SECRET_KEY_PATTERN =
+  /token|authorization|password|secret|otp|^sid$|api[-_]?key|encryptionkey|pin(hash|salt)?$/i;
+
+// Keys whose values are bank account numbers
+const ACCOUNT_KEY_PATTERN = /accountnumber|iban|routingnumber/i;
+
+// Patterns removed from any string
+const BEARER_PATTERN = /Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+const EMAIL_PATTERN =
+  /(^|[^A-Za-z0-9._%+-])([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const OTP_PATTERN = /\b(otp|code)(["'\s:=]+)\d{4,8}\b/gi;
+const ACCOUNT_PATTERN =
+  /\b(account(?:\s*(?:number|no\.?))?|iban)(["'\s:=#]+)([A-Z]{2}\d{2}[A-Z0-9]{8,30}|\d{6,})\b/gi;
+
+// Nested values below this depth are not logged
+const MAX_DEPTH = 8;
+
+/**
+ * Mask an account number, keeping the last 4 characters
+ */
+function maskAccount(value: string): string {
+  return value.length > 4 ? `****${value.slice(-4)}` : "****";
+}
+
+/**
+ * Redact tokens, OTPs, emails and account numbers in a string
+ * Emails keep their first character and domain, e.g. "j***@example.com".
+ * @param text The text to redact
+ * @returns The redacted text
+ */
+export function redactString(text: string): string {
+  return text
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(EMAIL_PATTERN, "$1$2***@$3")
+    .replace(OTP_PATTERN, `$1$2${REDACTED}`)
+    .replace(
+      ACCOUNT_PATTERN,
+      (_match, label: string, separator: string, value: string) =>
+        `${label}${separator}${maskAccount(value)}`
+    );
+}
+
+/**
+ * Copy a value with secret keys removed and account numbers masked
+ * @param redactStrings Whether strings are redacted with redactString too
+ */
+function redactDeep(value: any, redactStrings: boolean): any {
+  const seen = new WeakSet<object>();
+  const redactText = (text: string): string =>
+    redactStrings ? redactString(text) : text;
+
+  const redact = (
+    current: any,
+    key: string | undefined,
+    depth: number
+  ): any => {
+    if (key !== undefined && current !== undefined && current !== null) {
+      if (SECRET_KEY_PATTERN.test(key)) return REDACTED;
+      if (ACCOUNT_KEY_PATTERN.test(key)) return maskAccount(String(current));
+    }
+
+    if (typeof current === "string") return redactText(current);
+    if (current === null || typeof current !== "object") return current;
+    if (current instanceof Date) return current.toISOString();
+
+    if (seen.has(current)) return "[Circular]";
+    if (depth >= MAX_DEPTH) return "[Truncated]";
+    seen.add(current);
+
+    if (current instanceof Error) {
+      return {
+        ...redact({ ...current }, undefined, depth + 1),
+        name: current.name,
+        message: redactText(current.message),
+        ...(current.stack ? { stack: redactText(current.stack) } : {}),
+      };
+    }
+
+    if (Array.isArray(current)) {
+      return current.map((item) => redact(item, undefined, depth + 1));
+    }
+
+    const result: Record<string, any> = {};
+    Object.entries(current).forEach(([entryKey, entryValue]) => {
+      result[entryKey] = redact(entryValue, entryKey, depth + 1);
+    });
+    return result;
+  };
+
+  return redact(value, undefined, 0);
+}
+
+/**
+ * Redact a value for logging
+ * Objects are copied, with secret keys removed and strings redacted.
+ * Errors become plain objects with their name, message and stack.
+ * @param value The value to redact
+ * @returns The redacted copy
+ */
+export function redactValue(value: any): any {
+  return redactDeep(value, true);
+}
+
+/**
+ * Remove secrets from a value that is kept as a record, e.g. in the audit log
+ * Unlike redactValue, emails and other text are kept as they are; only
+ * secret keys are removed and account numbers masked.
+ * @param value The value to clean
+ * @returns The cleaned copy
+ */
+export function removeSecrets(value: any): any {
+  return redactDeep(value, false);
+}
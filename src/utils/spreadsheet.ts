@@ -0,0 +1,133 @@
+import TelegramBot from "node-telegram-bot-api";
+import ExcelJS from "exceljs";
+import { parseCsv } from "./csv";
+
+/**
+ * A row read from an uploaded spreadsheet
+ */
+export interface SpreadsheetRow {
+  /** 1-based row number as shown in the source file */
+  rowNumber: number;
+  /** Cell values as trimmed strings */
+  cells: string[];
+}
+
+/**
+ * Supported spreadsheet formats
+ */
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+/**
+ * Detect the spreadsheet format of an uploaded document
+ * @param document The Telegram document
+ * @returns The detected format or undefined if unsupported
+ */
+export function detectSpreadsheetFormat(
+  document: TelegramBot.Document
+): SpreadsheetFormat | undefined {
+  const fileName = (document.file_name || "").toLowerCase();
+  const mimeType = (document.mime_type || "").toLowerCase();
+
+  if (
+    fileName.endsWith(".xlsx") ||
+    mimeType ===
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  ) {
+    return "xlsx";
+  }
+
+  if (
+    fileName.endsWith(".csv") ||
+    fileName.endsWith(".txt") ||
+    mimeType === "text/csv" ||
+    mimeType === "text/plain" ||
+    mimeType === "application/csv"
+  ) {
+    return "csv";
+  }
+
+  return undefined;
+}
+
+/**
+ * Download a file sent to the bot into memory
+ * @param bot The Telegram bot instance
+ * @param fileId The Telegram file ID
+ * @param maxBytes Maximum number of bytes to accept
+ * @returns Promise with the file contents
+ */
+export function downloadTelegramFile(
+  bot: TelegramBot,
+  fileId: string,
+  maxBytes: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const stream = bot.getFileStream(fileId);
+    const chunks: Buffer[] = [];
+    let totalBytes = 0;
+
+    stream.on("data", (chunk: Buffer) => {
+      totalBytes += chunk.length;
+      if (totalBytes > maxBytes) {
+        stream.destroy();
+        reject(new Error(`File exceeds the maximum size of ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", (error: Error) => reject(error));
+  });
+}
+
+/**
+ * Parse CSV text into non-empty spreadsheet rows
+ * @param text The CSV text
+ * @returns The non-empty rows with their original line numbers
+ */
+export function parseCsvRows(text: string): SpreadsheetRow[] {
+  const rows: SpreadsheetRow[] = [];
+  parseCsv(text).forEach((cells, index) => {
+    const trimmed = cells.map((cell) => cell.trim());
+    if (trimmed.some((cell) => cell !== "")) {
+      rows.push({ rowNumber: index + 1, cells: trimmed });
+    }
+  });
+  return rows;
+}
+
+/**
+ * Read the rows of a CSV or XLSX file
+ * Only the first worksheet of an XLSX workbook is read. Empty rows are skipped.
+ * @param content The file contents
+ * @param format The spreadsheet format
+ * @returns Promise with the non-empty rows
+ */
+export async function readSpreadsheetRows(
+  content: Buffer,
+  format: SpreadsheetFormat
+): Promise<SpreadsheetRow[]> {
+  if (format === "csv") {
+    return parseCsvRows(content.toString("utf8"));
+  }
+
+  const rows: SpreadsheetRow[] = [];
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(content);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return rows;
+
+  worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= row.cellCount; col++) {
+      // Cell.text resolves hyperlinks, rich text and formula results to plain text
+      cells.push((row.getCell(col).text || "").trim());
+    }
+    if (cells.some((cell) => cell !== "")) {
+      rows.push({ rowNumber, cells });
+    }
+  });
+
+  return rows;
+}
@@ -0,0 +1,186 @@
+/**
+ * Transaction statement generation (CSV and PDF)
+ */
+import PDFDocument from "pdfkit";
+import { TransferResponse, TransferStatus } from "../types/transfer";
+import { parseApiAmount } from "../services/transfer.service";
+import { formatCsv } from "./csv";
+import { formatAmount } from "./format";
+import { Amount, ZERO_AMOUNT } from "./money";
+import { getTransferCounterparties, isIncomingTransfer } from "./helpers";
+
+/**
+ * Statement header information
+ */
+export interface StatementOptions {
+  accountLabel?: string; // Email or organization the statement belongs to
+  filters: string[]; // Descriptions of the applied filters
+  generatedAt: Date;
+  truncated: boolean; // Whether the history was cut off
+}
+
+// Column headers shared by the CSV and PDF statements
+const STATEMENT_COLUMNS = [
+  "Date (UTC)",
+  "Type",
+  "Status",
+  "Amount",
+  "Currency",
+  "Fee",
+  "Counterparty",
+  "Purpose",
+  "Transfer ID",
+];
+
+// PDF column widths in points, matching STATEMENT_COLUMNS (landscape A4)
+const PDF_COLUMN_WIDTHS = [82, 58, 56, 66, 44, 50, 170, 70, 170];
+const PDF_MARGIN = 36;
+const PDF_ROW_HEIGHT = 14;
+
+/**
+ * Build the statement cells of a transfer
+ */
+function toStatementRow(transfer: TransferResponse): string[] {
+  return [
+    new Date(transfer.createdAt).toISOString().slice(0, 16).replace("T", " "),
+    transfer.type,
+    transfer.status,
+    formatAmount(parseApiAmount(transfer.amount)),
+    transfer.currency,
+    transfer.totalFee ? formatAmount(parseApiAmount(transfer.totalFee)) : "",
+    getTransferCounterparties(transfer)[0] || "",
+    transfer.purposeCode || "",
+    transfer.id,
+  ];
+}
+
+/**
+ * Sum completed incoming and outgoing amounts per currency
+ */
+function getStatementTotals(
+  transfers: TransferResponse[]
+): Array<{ currency: string; incoming: Amount; outgoing: Amount }> {
+  const totals = new Map<string, { incoming: Amount; outgoing: Amount }>();
+
+  transfers
+    .filter((transfer) => transfer.status === TransferStatus.SUCCESS)
+    .forEach((transfer) => {
+      const total = totals.get(transfer.currency) || {
+        incoming: ZERO_AMOUNT,
+        outgoing: ZERO_AMOUNT,
+      };
+      const amount = parseApiAmount(transfer.amount);
+      if (isIncomingTransfer(transfer)) {
+        total.incoming += amount;
+      } else {
+        total.outgoing += amount;
+      }
+      totals.set(transfer.currency, total);
+    });
+
+  return Array.from(totals.entries()).map(([currency, total]) => ({
+    currency,
+    ...total,
+  }));
+}
+
+/**
+ * Create a CSV statement
+ * @param transfers The transfers to include, newest first
+ * @returns The CSV file contents
+ */
+export function createCsvStatement(transfers: TransferResponse[]): Buffer {
+  const csv = formatCsv([
+    STATEMENT_COLUMNS,
+    ...transfers.map(toStatementRow),
+  ]);
+  return Buffer.from(csv, "utf8");
+}
+
+/**
+ * Create a PDF statement
+ * @param transfers The transfers to include, newest first
+ * @param options Statement header information
+ * @returns Promise with the PDF file contents
+ */
+export function createPdfStatement(
+  transfers: TransferResponse[],
+  options: StatementOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      layout: "landscape",
+      margin: PDF_MARGIN,
+      info: { Title: "Copperx Transaction Statement" },
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    // Header
+    doc.fontSize(16).text("Copperx Transaction Statement");
+    doc.moveDown(0.3).fontSize(9);
+    if (options.accountLabel) doc.text(`Account: ${options.accountLabel}`);
+    doc.text(
+      `Generated: ${options.generatedAt
+        .toISOString()
+        .slice(0, 16)
+        .replace("T", " ")} UTC`
+    );
+    doc.text(
+      `Filters: ${
+        options.filters.length > 0 ? options.filters.join(", ") : "None"
+      }`
+    );
+    doc.text(`Transfers: ${transfers.length}`);
+    if (options.truncated) {
+      doc.text("Only the most recent transfers are included.");
+    }
+
+    getStatementTotals(transfers).forEach((total) => {
+      doc.text(
+        `Completed ${total.currency}: in ${formatAmount(
+          total.incoming
+        )}, out ${formatAmount(total.outgoing)}`
+      );
+    });
+
+    // Table
+    const bottom = doc.page.height - PDF_MARGIN;
+    let y = doc.y + 12;
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      if (y + PDF_ROW_HEIGHT > bottom) {
+        doc.addPage();
+        y = PDF_MARGIN;
+      }
+
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+      let x = PDF_MARGIN;
+      cells.forEach((cell, index) => {
+        doc.text(cell, x, y, {
+          width: PDF_COLUMN_WIDTHS[index] - 4,
+          lineBreak: false,
+          ellipsis: true,
+        });
+        x += PDF_COLUMN_WIDTHS[index];
+      });
+      y += PDF_ROW_HEIGHT;
+    };
+
+    drawRow(STATEMENT_COLUMNS, true);
+    transfers.forEach((transfer) => drawRow(toStatementRow(transfer), false));
+
+    if (transfers.length === 0) {
+      doc
+        .font("Helvetica")
+        .fontSize(9)
+        .text("No transfers found.", PDF_MARGIN, y);
+    }
+
+    doc.end();
+  });
+}